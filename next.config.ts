@@ -1,6 +1,8 @@
 import type { NextConfig } from 'next';
 
 const nextConfig: NextConfig = {
+  // Loaded at runtime by the documents API; the canvas package ships a native binary
+  serverExternalPackages: ['pdfjs-dist', '@napi-rs/canvas'],
   experimental: {
     serverActions: {
       bodySizeLimit: '20mb',
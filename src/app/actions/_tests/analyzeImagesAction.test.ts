@@ -5,7 +5,31 @@ jest.mock('@/services/openai/analyzeImages', () => ({
   analyzeImages: jest.fn(),
 }));
 
+// Mock the request headers and the rate limit
+jest.mock('next/headers', () => ({
+  headers: jest.fn(async () => new Headers({ 'x-forwarded-for': '203.0.113.7' })),
+}));
+jest.mock('@/services/rateLimit/limitAnalysis', () => ({
+  limitAnalysis: jest.fn(),
+  settleAnalysis: jest.fn(),
+}));
+
+import * as session from '@/services/auth/session';
 import { analyzeImages } from '@/services/openai/analyzeImages';
+import { limitAnalysis } from '@/services/rateLimit/limitAnalysis';
+
+/**
+ * Rate limit status with the given number of requests left.
+ */
+const quota = (remaining: number) => ({
+  allowed: remaining >= 0,
+  ...(remaining < 0 && { reason: 'requests' as const }),
+  retryAfterMs: remaining > 0 ? 0 : 6000,
+  requests: { limit: 10, remaining: Math.max(0, remaining) },
+  images: { limit: 200, remaining: 150 },
+  tokens: { limit: 1000000, remaining: 900000 },
+  resetAt: 86400000,
+});
 
 describe('analyzeImagesAction (server action)', () => {
   beforeEach(() => {
@@ -38,4 +62,57 @@ describe('analyzeImagesAction (server action)', () => {
 
     await expect(analyzeImagesAction(request)).rejects.toThrow('boom');
   });
+
+  it('rejects invalid requests without calling the service', async () => {
+    await expect(analyzeImagesAction({ question: '', images: ['img'] })).rejects.toThrow(
+      'Please provide a question.'
+    );
+    await expect(
+      analyzeImagesAction({ question: 'Q', images: ['a', 'b', 'c', 'd', 'e'] })
+    ).rejects.toThrow('You can upload up to 4 images.');
+    expect(analyzeImages).not.toHaveBeenCalled();
+  });
+
+  it('reports the remaining quota of the caller', async () => {
+    (limitAnalysis as jest.Mock).mockResolvedValue(quota(9));
+    (analyzeImages as jest.Mock).mockResolvedValue({
+      results: [{ index: 0, ok: true, text: 'A' }],
+    });
+
+    const res = await analyzeImagesAction({ question: 'Q', images: ['img'] });
+
+    expect(res).toEqual({ results: [{ index: 0, ok: true, text: 'A' }], quota: quota(9) });
+    expect(limitAnalysis).toHaveBeenCalledWith('anonymous', { question: 'Q', images: ['img'] });
+  });
+
+  it('rejects requests beyond the rate limit without calling the service', async () => {
+    (limitAnalysis as jest.Mock).mockResolvedValue(quota(-1));
+
+    await expect(analyzeImagesAction({ question: 'Q', images: ['img'] })).rejects.toThrow(
+      'Too many requests. Try again in 6 seconds.'
+    );
+    expect(analyzeImages).not.toHaveBeenCalled();
+  });
+
+  it('limits signed-in users by their session', async () => {
+    jest.spyOn(session, 'authenticate').mockResolvedValueOnce({
+      ok: true,
+      user: { id: 'oidc:42', name: 'Ada', role: 'user' },
+    });
+    (limitAnalysis as jest.Mock).mockResolvedValue(undefined);
+    (analyzeImages as jest.Mock).mockResolvedValue({ results: [] });
+
+    await analyzeImagesAction({ question: 'Q', images: ['img'] });
+
+    expect(limitAnalysis).toHaveBeenCalledWith('user:oidc:42', expect.anything());
+  });
+
+  it('rejects requests without a session when signing in is required', async () => {
+    jest.spyOn(session, 'authenticate').mockResolvedValueOnce({ ok: false });
+
+    await expect(analyzeImagesAction({ question: 'Q', images: ['img'] })).rejects.toThrow(
+      'Sign in to analyze images.'
+    );
+    expect(analyzeImages).not.toHaveBeenCalled();
+  });
 });
@@ -1,16 +1,52 @@
 'use server';
 
+import { authenticate } from '@/services/auth/session';
+import { analyzeImages } from '@/services/openai/analyzeImages';
 import {
-  analyzeImages,
   ImageAnalysisRequest,
+  ImageAnalysisRequestSchema,
   ImageAnalysisResponse,
-} from '@/services/openai/analyzeImages';
+} from '@/services/openai/schemas';
+import { limitAnalysis, settleAnalysis } from '@/services/rateLimit/limitAnalysis';
+import { clientRateLimitKey } from '@/services/rateLimit/rateLimiter';
+import { describeRateLimit } from '@/services/rateLimit/schemas';
+import { recordUsage } from '@/services/usage/fileUsageStore';
+import { headers } from 'next/headers';
 
 /**
  * Server Action to analyze images using OpenAI
+ *
+ * The request is validated against ImageAnalysisRequestSchema before it reaches the service;
+ * invalid requests reject with the first validation message. When signing in is required,
+ * requests without a session reject, and each signed-in user has their own rate limit. Requests
+ * beyond the caller's rate limit or daily quotas reject with a message saying when to retry;
+ * admitted requests report the remaining quota in the response. The model usage is recorded.
  */
 export const analyzeImagesAction = async (
   imageAnalysisRequest: ImageAnalysisRequest
 ): Promise<ImageAnalysisResponse> => {
-  return await analyzeImages(imageAnalysisRequest);
+  const parsed = ImageAnalysisRequestSchema.safeParse(imageAnalysisRequest);
+  if (!parsed.success) {
+    throw new Error(parsed.error.issues[0].message);
+  }
+  const requestHeaders = await headers();
+  const auth = await authenticate(requestHeaders);
+  if (!auth.ok) {
+    throw new Error('Sign in to analyze images.');
+  }
+  const rateLimitKey = clientRateLimitKey(requestHeaders, auth.user);
+  const quota = await limitAnalysis(rateLimitKey, parsed.data);
+  if (quota && !quota.allowed) {
+    throw new Error(describeRateLimit(quota));
+  }
+  const response = await analyzeImages(parsed.data);
+  if (response.usage) {
+    await recordUsage(response.usage, {
+      userId: auth.user?.id,
+      images: parsed.data.images.length,
+      preset: response.preset,
+    });
+  }
+  await settleAnalysis(rateLimitKey, quota, parsed.data, response.usage?.totalTokens ?? 0);
+  return quota ? { ...response, quota } : response;
 };
@@ -0,0 +1,56 @@
+import { Header } from '@/components/Header';
+import { authenticate } from '@/services/auth/session';
+import { rateLimiter } from '@/services/rateLimit/rateLimiter';
+import { headers } from 'next/headers';
+
+export const dynamic = 'force-dynamic';
+
+export default async function AdminPage() {
+  const auth = await authenticate(await headers());
+  const isAdmin = auth.ok && auth.user?.role === 'admin';
+  const usage = isAdmin ? await rateLimiter.dailyUsage() : [];
+  const total = (field: 'images' | 'tokens') =>
+    usage.reduce((sum, entry) => sum + entry[field], 0).toLocaleString();
+
+  return (
+    <div className="h-screen overflow-y-auto">
+      <Header />
+      <main className="mx-auto w-full max-w-3xl px-4 py-6 sm:px-6">
+        <h1 className="mb-4 text-lg font-semibold">Usage today (UTC)</h1>
+        {!isAdmin ? (
+          <p className="text-destructive text-sm" role="alert">
+            Only admins can see usage.
+          </p>
+        ) : usage.length === 0 ? (
+          <p className="text-muted-foreground text-sm">Nobody has analyzed images today.</p>
+        ) : (
+          <table className="w-full text-left text-sm">
+            <thead className="text-muted-foreground border-b">
+              <tr>
+                <th className="py-2 font-medium">User or IP</th>
+                <th className="py-2 text-right font-medium">Images</th>
+                <th className="py-2 text-right font-medium">Est. tokens</th>
+              </tr>
+            </thead>
+            <tbody>
+              {usage.map(entry => (
+                <tr key={entry.key} className="border-b">
+                  <td className="py-2 font-mono break-all">{entry.key}</td>
+                  <td className="py-2 text-right">{entry.images.toLocaleString()}</td>
+                  <td className="py-2 text-right">{entry.tokens.toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="font-medium">
+                <td className="py-2">Total ({usage.length})</td>
+                <td className="py-2 text-right">{total('images')}</td>
+                <td className="py-2 text-right">{total('tokens')}</td>
+              </tr>
+            </tfoot>
+          </table>
+        )}
+      </main>
+    </div>
+  );
+}
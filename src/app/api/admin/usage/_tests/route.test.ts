@@ -0,0 +1,60 @@
+import { GET } from '../route';
+
+// Mock the session and the rate limiter
+jest.mock('@/services/auth/session', () => ({
+  authenticate: jest.fn(),
+}));
+jest.mock('@/services/rateLimit/rateLimiter', () => ({
+  rateLimiter: { dailyUsage: jest.fn() },
+}));
+
+import { authenticate } from '@/services/auth/session';
+import { rateLimiter } from '@/services/rateLimit/rateLimiter';
+
+const request = () => new Request('http://localhost/api/admin/usage');
+
+describe('GET /api/admin/usage', () => {
+  beforeEach(() => jest.resetAllMocks());
+
+  it("reports today's usage per user and in total to admins", async () => {
+    (authenticate as jest.Mock).mockResolvedValue({
+      ok: true,
+      user: { id: 'dev:local', name: 'Dev', role: 'admin' },
+    });
+    const usage = [
+      { key: 'user:oidc:1', images: 5, tokens: 4000 },
+      { key: 'ip:198.51.100.2', images: 1, tokens: 800 },
+    ];
+    (rateLimiter.dailyUsage as jest.Mock).mockResolvedValue(usage);
+
+    const res = await GET(request());
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      day: expect.stringMatching(/^\d{4}-\d{2}-\d{2}$/),
+      totals: { clients: 2, images: 6, tokens: 4800 },
+      usage,
+    });
+  });
+
+  it('rejects users who are not admins', async () => {
+    (authenticate as jest.Mock).mockResolvedValue({
+      ok: true,
+      user: { id: 'oidc:1', name: 'Ada', role: 'user' },
+    });
+
+    const res = await GET(request());
+
+    expect(res.status).toBe(403);
+    expect((await res.json()).error.code).toBe('forbidden');
+    expect(rateLimiter.dailyUsage).not.toHaveBeenCalled();
+  });
+
+  it('rejects requests without a session', async () => {
+    (authenticate as jest.Mock).mockResolvedValue({ ok: false });
+
+    const res = await GET(request());
+
+    expect(res.status).toBe(401);
+  });
+});
@@ -0,0 +1,28 @@
+import { adminErrorResponse, AdminUsageResponseSchema } from '@/app/api/admin/usage/schemas';
+import { authenticate } from '@/services/auth/session';
+import { rateLimiter } from '@/services/rateLimit/rateLimiter';
+import { NextResponse } from 'next/server';
+
+/**
+ * GET /api/admin/usage
+ *
+ * Reports today's images and estimated tokens per user (or IP) and in total. Admins only.
+ */
+export const GET = async (req: Request) => {
+  const auth = await authenticate(req.headers);
+  if (!auth.ok) return adminErrorResponse('unauthorized', 'Sign in to see usage.');
+  if (auth.user?.role !== 'admin') {
+    return adminErrorResponse('forbidden', 'Only admins can see usage.');
+  }
+  const usage = await rateLimiter.dailyUsage();
+  const response = AdminUsageResponseSchema.parse({
+    day: new Date().toISOString().slice(0, 10),
+    totals: {
+      clients: usage.length,
+      images: usage.reduce((sum, entry) => sum + entry.images, 0),
+      tokens: usage.reduce((sum, entry) => sum + entry.tokens, 0),
+    },
+    usage,
+  });
+  return NextResponse.json(response, { headers: { 'Cache-Control': 'no-store' } });
+};
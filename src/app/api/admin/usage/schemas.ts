@@ -0,0 +1,73 @@
+import { DailyUsageSchema } from '@/services/rateLimit/schemas';
+import { z } from 'zod';
+
+/**
+ * Schema for the aggregate usage returned by GET /api/admin/usage.
+ */
+export const AdminUsageResponseSchema = z.object({
+  /** The UTC day the usage belongs to, as YYYY-MM-DD. */
+  day: z.string(),
+  /** Totals over every user and IP. */
+  totals: z.object({
+    /** Number of users and IPs that analyzed images today. */
+    clients: z.number(),
+    /** Images analyzed today. */
+    images: z.number(),
+    /** Estimated model tokens used today. */
+    tokens: z.number(),
+  }),
+  /** Usage per user or IP, heaviest first. */
+  usage: z.array(DailyUsageSchema),
+});
+
+/**
+ * Admin usage response type
+ */
+export type AdminUsageResponse = z.infer<typeof AdminUsageResponseSchema>;
+
+/**
+ * Machine-readable codes for errors returned by the admin API.
+ */
+export const AdminApiErrorCodeSchema = z.enum(['unauthorized', 'forbidden']);
+
+/**
+ * Admin API error code type
+ */
+export type AdminApiErrorCode = z.infer<typeof AdminApiErrorCodeSchema>;
+
+/**
+ * Schema for the structured error body returned by the admin API.
+ */
+export const AdminApiErrorResponseSchema = z.object({
+  error: z.object({
+    /** Machine-readable error code clients can branch on. */
+    code: AdminApiErrorCodeSchema,
+    /** Human-readable error message. */
+    message: z.string(),
+  }),
+});
+
+/**
+ * Admin API error response type
+ */
+export type AdminApiErrorResponse = z.infer<typeof AdminApiErrorResponseSchema>;
+
+/**
+ * HTTP status code for each admin API error code.
+ */
+const STATUS_BY_ERROR_CODE: Record<AdminApiErrorCode, number> = {
+  unauthorized: 401,
+  forbidden: 403,
+};
+
+/**
+ * Builds a structured JSON error response for the admin API.
+ *
+ * @param code - The error code.
+ * @param message - The human-readable message.
+ * @returns The error response.
+ */
+export const adminErrorResponse = (code: AdminApiErrorCode, message: string) =>
+  Response.json(AdminApiErrorResponseSchema.parse({ error: { code, message } }), {
+    status: STATUS_BY_ERROR_CODE[code],
+  });
@@ -0,0 +1,516 @@
+import { POST } from '../route';
+
+// Mock the analyzeImages service
+jest.mock('@/services/openai/analyzeImages', () => ({
+  analyzeImages: jest.fn(),
+  streamAnalyzeImages: jest.fn(),
+}));
+
+// Mock the rate limit
+jest.mock('@/services/rateLimit/limitAnalysis', () => ({
+  limitAnalysis: jest.fn(),
+  settleAnalysis: jest.fn(),
+}));
+
+// Mock the usage records
+jest.mock('@/services/usage/fileUsageStore', () => ({
+  recordUsage: jest.fn(),
+}));
+
+import { readNdjson } from '@/lib/ndjson';
+import * as session from '@/services/auth/session';
+import { analyzeImages, streamAnalyzeImages } from '@/services/openai/analyzeImages';
+import { limitAnalysis, settleAnalysis } from '@/services/rateLimit/limitAnalysis';
+import { recordUsage } from '@/services/usage/fileUsageStore';
+
+/**
+ * Model usage reported by an analysis.
+ */
+const usage = {
+  model: 'openai:gpt-4o-mini',
+  inputTokens: 100,
+  outputTokens: 20,
+  totalTokens: 120,
+  latencyMs: 900,
+  estimatedCostUsd: 0.000027,
+};
+
+/**
+ * Rate limit status with the given number of requests left; negative counts are rejections.
+ */
+const quota = (remaining: number) => ({
+  allowed: remaining >= 0,
+  ...(remaining < 0 && { reason: 'requests' as const }),
+  retryAfterMs: remaining > 0 ? 0 : 6000,
+  requests: { limit: 10, remaining: Math.max(0, remaining) },
+  images: { limit: 200, remaining: 150 },
+  tokens: { limit: 1000000, remaining: 900000 },
+  resetAt: 86400000,
+});
+
+const jsonRequest = (body: unknown, headers: Record<string, string> = {}) =>
+  new Request('http://localhost/api/analyses', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+
+describe('POST /api/analyses', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (limitAnalysis as jest.Mock).mockResolvedValue(undefined);
+  });
+
+  it('analyzes a valid JSON request', async () => {
+    const mockResponse = { results: [{ index: 0, ok: true, text: 'A cat' }] };
+    (analyzeImages as jest.Mock).mockResolvedValue(mockResponse);
+
+    const request = { question: 'What is this?', images: ['data:image/png;base64,AAA'] };
+    const res = await POST(jsonRequest(request));
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('X-API-Version')).toBe('1');
+    expect(await res.json()).toEqual(mockResponse);
+    expect(analyzeImages).toHaveBeenCalledWith(request);
+  });
+
+  it('analyzes a valid multipart request', async () => {
+    (analyzeImages as jest.Mock).mockResolvedValue({
+      results: [{ index: 0, ok: true, text: 'A dog' }],
+    });
+
+    const formData = new FormData();
+    formData.append('question', 'What is this?');
+    formData.append('images', new Blob([Buffer.from('png')], { type: 'image/png' }), 'a.png');
+    const res = await POST(
+      new Request('http://localhost/api/analyses', { method: 'POST', body: formData })
+    );
+
+    expect(res.status).toBe(200);
+    expect(analyzeImages).toHaveBeenCalledWith({
+      question: 'What is this?',
+      images: [`data:image/png;base64,${Buffer.from('png').toString('base64')}`],
+    });
+  });
+
+  it('reads every request field from a multipart request', async () => {
+    (analyzeImages as jest.Mock).mockResolvedValue({ results: [] });
+
+    const formData = new FormData();
+    formData.append('question', 'What changes?');
+    formData.append('images', 'data:image/png;base64,AAA');
+    formData.append('images', 'data:image/png;base64,BBB');
+    formData.append('timestamps', '0');
+    formData.append('timestamps', '5');
+    formData.append('mode', 'combined');
+    formData.append('grounding', 'true');
+    formData.append('bypassCache', 'false');
+    formData.append('presetId', 'detailed');
+    formData.append('history', JSON.stringify([{ role: 'user', question: 'Q', images: [] }]));
+    const res = await POST(
+      new Request('http://localhost/api/analyses', { method: 'POST', body: formData })
+    );
+
+    expect(res.status).toBe(200);
+    expect(analyzeImages).toHaveBeenCalledWith({
+      question: 'What changes?',
+      images: ['data:image/png;base64,AAA', 'data:image/png;base64,BBB'],
+      timestamps: [0, 5],
+      mode: 'combined',
+      grounding: true,
+      bypassCache: false,
+      presetId: 'detailed',
+      history: [{ role: 'user', question: 'Q', images: [] }],
+    });
+  });
+
+  it('rejects unknown and undecodable multipart fields', async () => {
+    const formData = new FormData();
+    formData.append('question', 'Q');
+    formData.append('images', 'data:image/png;base64,AAA');
+    formData.append('mdoe', 'combined');
+    const unknown = await POST(
+      new Request('http://localhost/api/analyses', { method: 'POST', body: formData })
+    );
+
+    expect(unknown.status).toBe(400);
+    expect((await unknown.json()).error.issues).toEqual([
+      { path: 'mdoe', message: 'Unknown field.' },
+    ]);
+
+    formData.delete('mdoe');
+    formData.append('extraction', '{not json');
+    const undecodable = await POST(
+      new Request('http://localhost/api/analyses', { method: 'POST', body: formData })
+    );
+
+    expect(undecodable.status).toBe(400);
+    expect((await undecodable.json()).error.issues[0].path).toBe('extraction');
+    expect(analyzeImages).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 with issues for an invalid request', async () => {
+    const res = await POST(jsonRequest({ question: '', images: [] }));
+
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.error.code).toBe('invalid_request');
+    expect(body.error.issues).toEqual(
+      expect.arrayContaining([
+        { path: 'question', message: 'Please provide a question.' },
+        { path: 'images', message: 'Please upload at least one image.' },
+      ])
+    );
+    expect(analyzeImages).not.toHaveBeenCalled();
+  });
+
+  it('accepts a follow-up without images when the history has images', async () => {
+    (analyzeImages as jest.Mock).mockResolvedValue({
+      results: [{ index: 0, ok: true, text: 'Two' }],
+    });
+
+    const request = {
+      question: 'And the red ones?',
+      images: [],
+      history: [
+        { role: 'user', question: 'How many cars?', images: ['data:image/png;base64,AAA'] },
+        { role: 'assistant', results: [{ index: 0, ok: true, text: 'Five' }] },
+      ],
+    };
+    const res = await POST(jsonRequest(request));
+
+    expect(res.status).toBe(200);
+    expect(analyzeImages).toHaveBeenCalledWith(request);
+  });
+
+  it('returns 400 for an unknown extraction template', async () => {
+    const res = await POST(
+      jsonRequest({
+        question: 'Extract',
+        images: ['data:image/png;base64,AAA'],
+        extraction: { templateId: 'missing' },
+      })
+    );
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error.issues).toEqual([
+      { path: 'extraction', message: 'Unknown extraction template "missing".' },
+    ]);
+    expect(analyzeImages).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 for an unknown prompt preset', async () => {
+    const res = await POST(jsonRequest({ question: 'Q', images: ['img'], presetId: 'poetry' }));
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error.issues).toEqual([
+      { path: 'presetId', message: 'Unknown prompt preset "poetry".' },
+    ]);
+    expect(analyzeImages).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 for an extraction combined with the alt-text task', async () => {
+    const res = await POST(
+      jsonRequest({
+        question: 'Q',
+        images: ['img'],
+        task: 'alt-text',
+        extraction: { templateId: 'receipt' },
+      })
+    );
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error.issues).toEqual([
+      { path: 'task', message: 'Extraction requests cannot be combined with another task.' },
+    ]);
+  });
+
+  it('returns 400 when the frame timestamps do not match the images', async () => {
+    const res = await POST(jsonRequest({ question: 'Q', images: ['a', 'b'], timestamps: [0] }));
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error.issues).toEqual([
+      { path: 'timestamps', message: 'Provide one timestamp per image.' },
+    ]);
+  });
+
+  it('returns 400 for a malformed JSON body', async () => {
+    const res = await POST(
+      new Request('http://localhost/api/analyses', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: '{not json',
+      })
+    );
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error.code).toBe('invalid_request');
+  });
+
+  it('returns 413 when the body exceeds the size limit', async () => {
+    const res = await POST(
+      jsonRequest(
+        { question: 'Q', images: ['img'] },
+        { 'content-length': String(21 * 1024 * 1024) }
+      )
+    );
+
+    expect(res.status).toBe(413);
+    expect((await res.json()).error.code).toBe('payload_too_large');
+  });
+
+  it('returns 413 when the images exceed the total size cap', async () => {
+    const image = `data:image/png;base64,${'A'.repeat(5 * 1024 * 1024)}`;
+
+    const res = await POST(jsonRequest({ question: 'Q', images: [image, image, image, image] }));
+
+    expect(res.status).toBe(413);
+    expect((await res.json()).error).toEqual({
+      code: 'payload_too_large',
+      message: 'Images may total at most 14.0 MB.',
+    });
+    expect(analyzeImages).not.toHaveBeenCalled();
+  });
+
+  it('counts the history images towards the total size cap', async () => {
+    const image = `data:image/png;base64,${'A'.repeat(5 * 1024 * 1024)}`;
+
+    const res = await POST(
+      jsonRequest({
+        question: 'Q',
+        images: [image, image],
+        history: [{ role: 'user', question: 'Earlier', images: [image, image] }],
+      })
+    );
+
+    expect(res.status).toBe(413);
+    expect((await res.json()).error.code).toBe('payload_too_large');
+    expect(analyzeImages).not.toHaveBeenCalled();
+  });
+
+  it('returns 415 for an unsupported content type', async () => {
+    const res = await POST(
+      new Request('http://localhost/api/analyses', {
+        method: 'POST',
+        headers: { 'content-type': 'text/plain' },
+        body: 'hello',
+      })
+    );
+
+    expect(res.status).toBe(415);
+    expect((await res.json()).error.code).toBe('unsupported_media_type');
+  });
+
+  it('returns 502 when the provider fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    (analyzeImages as jest.Mock).mockRejectedValue(new Error('ECONNREFUSED 10.0.0.3:443'));
+
+    const res = await POST(jsonRequest({ question: 'Q', images: ['img'] }));
+
+    expect(res.status).toBe(502);
+    expect(await res.json()).toEqual({
+      error: {
+        code: 'provider_error',
+        message: 'Something went wrong while analyzing the image.',
+      },
+    });
+  });
+
+  it('streams NDJSON items when requested', async () => {
+    const items = [
+      { index: 0, ok: true, pending: true, text: 'A' },
+      { index: 0, ok: true, text: 'A cat' },
+      { summary: { text: '[Image 1] is a cat', citations: [0] } },
+    ];
+    (streamAnalyzeImages as jest.Mock).mockImplementation(async function* () {
+      yield* items;
+    });
+
+    const res = await POST(
+      jsonRequest({ question: 'Q', images: ['img'] }, { accept: 'application/x-ndjson' })
+    );
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Type')).toBe('application/x-ndjson');
+    const received: unknown[] = [];
+    for await (const item of readNdjson(res.body!)) received.push(item);
+    expect(received).toEqual(items);
+    expect(analyzeImages).not.toHaveBeenCalled();
+  });
+
+  it('reports the remaining quota with the analysis', async () => {
+    (limitAnalysis as jest.Mock).mockResolvedValue(quota(4));
+    (analyzeImages as jest.Mock).mockResolvedValue({
+      results: [{ index: 0, ok: true, text: 'A' }],
+    });
+
+    const res = await POST(
+      jsonRequest(
+        { question: 'Q', images: ['img'] },
+        { 'x-forwarded-for': '203.0.113.7, 10.0.0.1' }
+      )
+    );
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('X-RateLimit-Remaining')).toBe('4');
+    expect((await res.json()).quota).toEqual(quota(4));
+    // Forwarded headers are client-supplied unless a trusted proxy sets them
+    expect(limitAnalysis).toHaveBeenCalledWith('anonymous', { question: 'Q', images: ['img'] });
+  });
+
+  it('settles the quota with the tokens the model reported', async () => {
+    (limitAnalysis as jest.Mock).mockResolvedValue(quota(4));
+    (analyzeImages as jest.Mock).mockResolvedValue({
+      results: [{ index: 0, ok: true, text: 'A' }],
+      usage,
+    });
+
+    await POST(jsonRequest({ question: 'Q', images: ['img'] }));
+
+    expect(settleAnalysis).toHaveBeenCalledWith(
+      'anonymous',
+      quota(4),
+      { question: 'Q', images: ['img'] },
+      usage.totalTokens
+    );
+  });
+
+  it('settles the quota when the client disconnects mid-stream', async () => {
+    (limitAnalysis as jest.Mock).mockResolvedValue(quota(4));
+    (streamAnalyzeImages as jest.Mock).mockImplementation(async function* () {
+      yield { usage };
+      yield { index: 0, ok: true, text: 'A cat' };
+      yield { index: 1, ok: true, text: 'A dog' };
+    });
+
+    const res = await POST(
+      jsonRequest({ question: 'Q', images: ['img', 'img'] }, { accept: 'application/x-ndjson' })
+    );
+    const reader = res.body!.getReader();
+    await reader.read();
+    await reader.read();
+    await reader.cancel();
+
+    expect(settleAnalysis).toHaveBeenCalledWith(
+      'anonymous',
+      quota(4),
+      { question: 'Q', images: ['img', 'img'] },
+      usage.totalTokens
+    );
+  });
+
+  it('ends the stream with an error item for every unfinished image when the analysis throws', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    (streamAnalyzeImages as jest.Mock).mockImplementation(async function* () {
+      yield { index: 0, ok: true, text: 'A cat' };
+      yield { index: 1, ok: true, pending: true, text: 'A' };
+      throw new Error('Connection reset by 10.0.0.3');
+    });
+
+    const res = await POST(
+      jsonRequest({ question: 'Q', images: ['img', 'img'] }, { accept: 'application/x-ndjson' })
+    );
+
+    const received: unknown[] = [];
+    for await (const item of readNdjson(res.body!)) received.push(item);
+    expect(received.at(-1)).toEqual({
+      index: 1,
+      ok: false,
+      code: 'unknown',
+      error: 'Something went wrong while analyzing the image.',
+    });
+    expect(received).toHaveLength(3);
+  });
+
+  it('streams the remaining quota before the items', async () => {
+    (limitAnalysis as jest.Mock).mockResolvedValue(quota(4));
+    (streamAnalyzeImages as jest.Mock).mockImplementation(async function* () {
+      yield { index: 0, ok: true, text: 'A cat' };
+    });
+
+    const res = await POST(
+      jsonRequest({ question: 'Q', images: ['img'] }, { accept: 'application/x-ndjson' })
+    );
+
+    const received: unknown[] = [];
+    for await (const item of readNdjson(res.body!)) received.push(item);
+    expect(received).toEqual([{ quota: quota(4) }, { index: 0, ok: true, text: 'A cat' }]);
+  });
+
+  it('returns 429 with the quota when the rate limit is reached', async () => {
+    (limitAnalysis as jest.Mock).mockResolvedValue(quota(-1));
+
+    const res = await POST(jsonRequest({ question: 'Q', images: ['img'] }));
+
+    expect(res.status).toBe(429);
+    expect(res.headers.get('Retry-After')).toBe('6');
+    expect(await res.json()).toEqual({
+      error: {
+        code: 'rate_limited',
+        message: 'Too many requests. Try again in 6 seconds.',
+        quota: quota(-1),
+      },
+    });
+    expect(analyzeImages).not.toHaveBeenCalled();
+  });
+
+  it('returns 401 without a session when signing in is required', async () => {
+    jest.spyOn(session, 'authenticate').mockResolvedValueOnce({ ok: false });
+
+    const res = await POST(jsonRequest({ question: 'Q', images: ['img'] }));
+
+    expect(res.status).toBe(401);
+    expect((await res.json()).error.code).toBe('unauthorized');
+    expect(limitAnalysis).not.toHaveBeenCalled();
+    expect(analyzeImages).not.toHaveBeenCalled();
+  });
+
+  it('applies the rate limit of the signed-in user', async () => {
+    jest.spyOn(session, 'authenticate').mockResolvedValueOnce({
+      ok: true,
+      user: { id: 'oidc:42', name: 'Ada', role: 'user' },
+    });
+    (analyzeImages as jest.Mock).mockResolvedValue({ results: [] });
+
+    await POST(jsonRequest({ question: 'Q', images: ['img'] }));
+
+    expect(limitAnalysis).toHaveBeenCalledWith('user:oidc:42', expect.anything());
+  });
+
+  it('records the usage of the analysis for the signed-in user', async () => {
+    jest.spyOn(session, 'authenticate').mockResolvedValueOnce({
+      ok: true,
+      user: { id: 'oidc:42', name: 'Ada', role: 'user' },
+    });
+    (analyzeImages as jest.Mock).mockResolvedValue({ results: [], usage });
+
+    const res = await POST(jsonRequest({ question: 'Q', images: ['img', 'img'] }));
+
+    expect((await res.json()).usage).toEqual(usage);
+    expect(recordUsage).toHaveBeenCalledWith(usage, {
+      userId: 'oidc:42',
+      images: 2,
+      preset: { id: 'succinct', version: 1 },
+    });
+  });
+
+  it('records the usage streamed after the items', async () => {
+    (streamAnalyzeImages as jest.Mock).mockImplementation(async function* () {
+      yield { index: 0, ok: true, text: 'A cat' };
+      yield { usage };
+    });
+
+    const res = await POST(
+      jsonRequest({ question: 'Q', images: ['img'] }, { accept: 'application/x-ndjson' })
+    );
+
+    const received: unknown[] = [];
+    for await (const item of readNdjson(res.body!)) received.push(item);
+    expect(received.at(-1)).toEqual({ usage });
+    expect(recordUsage).toHaveBeenCalledWith(usage, {
+      userId: undefined,
+      images: 1,
+      preset: { id: 'succinct', version: 1 },
+    });
+  });
+});
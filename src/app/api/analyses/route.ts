@@ -0,0 +1,319 @@
+import {
+  AnalysesApiErrorCode,
+  AnalysesApiErrorResponse,
+  AnalysesApiErrorResponseSchema,
+} from '@/app/api/analyses/schemas';
+import { ANALYSIS_ERRORS } from '@/lib/errors';
+import { readBlobAsDataUrl } from '@/lib/files';
+import { NDJSON_CONTENT_TYPE, toNdjsonStream } from '@/lib/ndjson';
+import { authenticate } from '@/services/auth/session';
+import { resolveExtraction } from '@/services/extraction/validateExtraction';
+import { analyzeImages, streamAnalyzeImages } from '@/services/openai/analyzeImages';
+import { classifyProviderError } from '@/services/openai/providerErrors';
+import {
+  ImageAnalysisRequestSchema,
+  ImageAnalysisResponseSchema,
+  ImageAnalysisStreamEventSchema,
+} from '@/services/openai/schemas';
+import { resolvePromptPreset } from '@/services/prompts/presets';
+import { limitAnalysis, settleAnalysis } from '@/services/rateLimit/limitAnalysis';
+import { clientRateLimitKey } from '@/services/rateLimit/rateLimiter';
+import { describeRateLimit, RateLimitStatus } from '@/services/rateLimit/schemas';
+import { recordUsage } from '@/services/usage/fileUsageStore';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+
+/**
+ * Version of the analyses API contract, returned in the X-API-Version header.
+ */
+const API_VERSION = '1';
+
+/**
+ * Max request body size in bytes (matches the server action bodySizeLimit in next.config.ts).
+ */
+const MAX_REQUEST_BYTES = 20 * 1024 * 1024;
+
+/**
+ * HTTP status code for each API error code.
+ */
+const STATUS_BY_ERROR_CODE: Record<AnalysesApiErrorCode, number> = {
+  invalid_request: 400,
+  unauthorized: 401,
+  payload_too_large: 413,
+  unsupported_media_type: 415,
+  rate_limited: 429,
+  provider_error: 502,
+};
+
+/**
+ * Headers reporting the client's rate limit: the requests left in its bucket and, once a limit
+ * is reached, the seconds until it can retry.
+ */
+const rateLimitHeaders = (quota?: RateLimitStatus): Record<string, string> =>
+  quota
+    ? {
+        'X-RateLimit-Limit': String(quota.requests.limit),
+        'X-RateLimit-Remaining': String(quota.requests.remaining),
+        ...(quota.retryAfterMs > 0 && {
+          'Retry-After': String(Math.ceil(quota.retryAfterMs / 1000)),
+        }),
+      }
+    : {};
+
+/**
+ * Builds a structured JSON error response.
+ */
+const errorResponse = (
+  code: AnalysesApiErrorCode,
+  message: string,
+  issues?: AnalysesApiErrorResponse['error']['issues'],
+  quota?: RateLimitStatus
+) => {
+  const body = AnalysesApiErrorResponseSchema.parse({ error: { code, message, issues, quota } });
+  return NextResponse.json(body, {
+    status: STATUS_BY_ERROR_CODE[code],
+    headers: { 'X-API-Version': API_VERSION, ...rateLimitHeaders(quota) },
+  });
+};
+
+/**
+ * Multipart fields holding a single text value.
+ */
+const TEXT_FORM_FIELDS = ['question', 'model', 'mode', 'task', 'presetId'] as const;
+
+/**
+ * Multipart fields holding "true" or "false".
+ */
+const BOOLEAN_FORM_FIELDS = ['grounding', 'bypassCache'] as const;
+
+/**
+ * Multipart fields holding a JSON-encoded object or array.
+ */
+const JSON_FORM_FIELDS = ['extraction', 'history'] as const;
+
+/**
+ * Multipart fields that repeat, once per image.
+ */
+const REPEATED_FORM_FIELDS = ['images', 'timestamps'] as const;
+
+/**
+ * Every multipart field the route reads.
+ */
+const FORM_FIELDS: string[] = [
+  ...TEXT_FORM_FIELDS,
+  ...BOOLEAN_FORM_FIELDS,
+  ...JSON_FORM_FIELDS,
+  ...REPEATED_FORM_FIELDS,
+];
+
+/**
+ * Decodes a multipart field value: "true" and "false" for boolean fields, JSON for JSON fields.
+ * Values that do not decode are kept as they are, so validation reports them against the field.
+ */
+const decodeFormField = (field: string, value: FormDataEntryValue | null) => {
+  if (typeof value !== 'string') return value ?? undefined;
+  if ((BOOLEAN_FORM_FIELDS as readonly string[]).includes(field)) {
+    return value === 'true' ? true : value === 'false' ? false : value;
+  }
+  if ((JSON_FORM_FIELDS as readonly string[]).includes(field)) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+  return value;
+};
+
+/**
+ * Reads the raw request payload from a JSON or multipart/form-data body, with the names of the
+ * multipart fields the route does not read.
+ * Multipart bodies carry the fields of a JSON body: `question`, `model`, `mode`, `task` and
+ * `presetId` as text, `grounding` and `bypassCache` as "true" or "false", `extraction` and
+ * `history` as JSON, and one `images` file field (or data URL) and optionally one `timestamps`
+ * field per image.
+ */
+const readPayload = async (
+  req: Request,
+  contentType: string
+): Promise<{ payload: unknown; unknownFields: string[] }> => {
+  if (!contentType.includes('multipart/form-data')) {
+    return { payload: await req.json(), unknownFields: [] };
+  }
+  const formData = await req.formData();
+  const payload: Record<string, unknown> = {
+    images: await Promise.all(
+      formData
+        .getAll('images')
+        .map(entry => (typeof entry === 'string' ? entry : readBlobAsDataUrl(entry)))
+    ),
+  };
+  for (const field of [...TEXT_FORM_FIELDS, ...BOOLEAN_FORM_FIELDS, ...JSON_FORM_FIELDS]) {
+    payload[field] = decodeFormField(field, formData.get(field));
+  }
+  const timestamps = formData.getAll('timestamps');
+  if (timestamps.length) {
+    payload.timestamps = timestamps.map(entry =>
+      typeof entry === 'string' ? Number(entry) : entry
+    );
+  }
+  const unknownFields = [...new Set(formData.keys())].filter(field => !FORM_FIELDS.includes(field));
+  return { payload, unknownFields };
+};
+
+/**
+ * POST /api/analyses
+ *
+ * Analyzes up to 4 images against a question. Accepts either a JSON body matching
+ * ImageAnalysisRequestSchema or a multipart/form-data body with the same fields (see readPayload);
+ * unknown multipart fields are rejected. Responds with ImageAnalysisResponseSchema on success,
+ * or a structured error body.
+ *
+ * When the request sends `Accept: application/x-ndjson`, the response instead streams one
+ * ImageAnalysisStreamEventSchema per line: in-progress items with partial text while the model
+ * is generating, followed by a final success or error item for every image. In the comparative
+ * and combined modes, `{ summary }` lines carry the aggregate answer.
+ */
+export const POST = async (req: Request) => {
+  // Reject requests without a session when signing in is required
+  const auth = await authenticate(req.headers);
+  if (!auth.ok) {
+    return errorResponse('unauthorized', 'Sign in to analyze images.');
+  }
+
+  // Reject unsupported content types
+  const contentType = req.headers.get('content-type') ?? '';
+  if (!contentType.includes('application/json') && !contentType.includes('multipart/form-data')) {
+    return errorResponse(
+      'unsupported_media_type',
+      'Content-Type must be application/json or multipart/form-data.'
+    );
+  }
+
+  // Reject oversized payloads before reading the body
+  const contentLength = Number(req.headers.get('content-length') ?? 0);
+  if (contentLength > MAX_REQUEST_BYTES) {
+    return errorResponse('payload_too_large', 'Request body exceeds the 20MB limit.');
+  }
+
+  // Read the payload
+  let payload: unknown;
+  let unknownFields: string[];
+  try {
+    ({ payload, unknownFields } = await readPayload(req, contentType));
+  } catch {
+    return errorResponse('invalid_request', 'Request body could not be parsed.');
+  }
+  if (unknownFields.length) {
+    return errorResponse(
+      'invalid_request',
+      'Request validation failed.',
+      unknownFields.map(field => ({ path: field, message: 'Unknown field.' }))
+    );
+  }
+
+  // Validate the payload
+  const parsed = ImageAnalysisRequestSchema.safeParse(payload);
+  if (!parsed.success) {
+    const tooLarge = parsed.error.issues.find(
+      issue => issue.code === 'custom' && issue.params?.code === 'too_large'
+    );
+    if (tooLarge) {
+      return errorResponse('payload_too_large', tooLarge.message);
+    }
+    return errorResponse(
+      'invalid_request',
+      'Request validation failed.',
+      parsed.error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }))
+    );
+  }
+
+  // Reject unknown extraction templates and schemas that do not compile
+  const extraction = parsed.data.extraction && resolveExtraction(parsed.data.extraction);
+  if (extraction && !extraction.ok) {
+    return errorResponse('invalid_request', 'Request validation failed.', [
+      { path: 'extraction', message: extraction.message },
+    ]);
+  }
+
+  // Reject unknown prompt presets
+  const preset = await resolvePromptPreset(parsed.data.presetId);
+  if (!preset.ok) {
+    return errorResponse('invalid_request', 'Request validation failed.', [
+      { path: 'presetId', message: preset.message },
+    ]);
+  }
+
+  // Apply the client's rate limit and daily quotas
+  const rateLimitKey = clientRateLimitKey(req.headers, auth.user);
+  const quota = await limitAnalysis(rateLimitKey, parsed.data);
+  if (quota && !quota.allowed) {
+    return errorResponse('rate_limited', describeRateLimit(quota), undefined, quota);
+  }
+
+  // Record the model usage and prompt preset of the analysis for the caller
+  const usageDetails = {
+    userId: auth.user?.id,
+    images: parsed.data.images.length,
+    preset: { id: preset.preset.id, version: preset.preset.version },
+  };
+
+  // Stream the analysis when requested, reporting the remaining quota first
+  if ((req.headers.get('accept') ?? '').includes(NDJSON_CONTENT_TYPE)) {
+    const events = (async function* () {
+      if (quota) yield ImageAnalysisStreamEventSchema.parse({ quota });
+      const finished = new Set<number>();
+      let usedTokens = 0;
+      try {
+        for await (const event of streamAnalyzeImages(parsed.data)) {
+          if ('usage' in event) {
+            await recordUsage(event.usage, usageDetails);
+            usedTokens += event.usage.totalTokens;
+          }
+          if ('index' in event && !('pending' in event && event.pending)) finished.add(event.index);
+          yield ImageAnalysisStreamEventSchema.parse(event);
+        }
+      } catch (error: unknown) {
+        // End the stream with an error item for every image still without a final result
+        const code = classifyProviderError(error);
+        console.error(`Streamed image analysis failed (${code})`, error);
+        const count = Math.max(1, parsed.data.images.length);
+        for (let index = 0; index < count; index++) {
+          if (finished.has(index)) continue;
+          yield { index, ok: false, code, error: ANALYSIS_ERRORS[code].message };
+        }
+      } finally {
+        // Also settled when the client disconnects mid-stream
+        await settleAnalysis(rateLimitKey, quota, parsed.data, usedTokens);
+      }
+    })();
+    return new Response(toNdjsonStream(events), {
+      headers: {
+        'Content-Type': NDJSON_CONTENT_TYPE,
+        'Cache-Control': 'no-cache',
+        'X-API-Version': API_VERSION,
+        ...rateLimitHeaders(quota),
+      },
+    });
+  }
+
+  // Analyze the images
+  try {
+    const analysis = await analyzeImages(parsed.data);
+    if (analysis.usage) await recordUsage(analysis.usage, usageDetails);
+    await settleAnalysis(rateLimitKey, quota, parsed.data, analysis.usage?.totalTokens ?? 0);
+    const response = ImageAnalysisResponseSchema.parse({ ...analysis, quota });
+    return NextResponse.json(response, {
+      headers: { 'X-API-Version': API_VERSION, ...rateLimitHeaders(quota) },
+    });
+  } catch (error: unknown) {
+    // Only the generic message for the failure's code reaches the client; details are logged
+    const code = classifyProviderError(error);
+    console.error(`Image analysis failed (${code})`, error);
+    const message =
+      error instanceof z.ZodError
+        ? 'The analysis provider returned an unexpected response.'
+        : ANALYSIS_ERRORS[code].message;
+    return errorResponse('provider_error', message);
+  }
+};
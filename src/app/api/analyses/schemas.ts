@@ -0,0 +1,49 @@
+import { RateLimitStatusSchema } from '@/services/rateLimit/schemas';
+import { z } from 'zod';
+
+/**
+ * Machine-readable codes for errors returned by the analyses API.
+ */
+export const AnalysesApiErrorCodeSchema = z.enum([
+  'invalid_request',
+  'unauthorized',
+  'payload_too_large',
+  'unsupported_media_type',
+  'rate_limited',
+  'provider_error',
+]);
+
+/**
+ * Analyses API error code type
+ */
+export type AnalysesApiErrorCode = z.infer<typeof AnalysesApiErrorCodeSchema>;
+
+/**
+ * Schema for the structured error body returned by the analyses API.
+ */
+export const AnalysesApiErrorResponseSchema = z.object({
+  error: z.object({
+    /** Machine-readable error code clients can branch on. */
+    code: AnalysesApiErrorCodeSchema,
+    /** Human-readable error message. */
+    message: z.string(),
+    /** Validation issues, keyed by the path of the offending field (validation errors only). */
+    issues: z
+      .array(
+        z.object({
+          /** Dot-separated path of the invalid field, e.g. "images.0". */
+          path: z.string(),
+          /** Human-readable description of the issue. */
+          message: z.string(),
+        })
+      )
+      .optional(),
+    /** The rate limit and quota of the client (rate_limited errors only). */
+    quota: RateLimitStatusSchema.optional(),
+  }),
+});
+
+/**
+ * Analyses API error response type
+ */
+export type AnalysesApiErrorResponse = z.infer<typeof AnalysesApiErrorResponseSchema>;
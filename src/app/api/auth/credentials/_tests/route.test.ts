@@ -0,0 +1,68 @@
+import { POST } from '../route';
+
+jest.mock('@/services/config/config', () => ({
+  ...jest.requireActual('@/services/config/config'),
+  AUTH_PROVIDERS: 'credentials',
+  AUTH_SECRET: 'test-secret',
+}));
+
+// Mock the users file
+jest.mock('@/services/auth/credentials', () => ({
+  authenticateCredentials: jest.fn(),
+}));
+
+import { authenticateCredentials } from '@/services/auth/credentials';
+import { readSessionToken, SESSION_COOKIE } from '@/services/auth/session';
+
+const user = { id: 'credentials:ada@example.com', name: 'Ada', role: 'user' as const };
+
+/**
+ * Builds a sign-in request with a JSON body.
+ */
+const signIn = (body: unknown) =>
+  POST(
+    new Request('http://localhost/api/auth/credentials', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    })
+  );
+
+describe('POST /api/auth/credentials', () => {
+  beforeEach(() => jest.resetAllMocks());
+
+  it('sets a session cookie for valid credentials', async () => {
+    (authenticateCredentials as jest.Mock).mockResolvedValue(user);
+
+    const res = await signIn({ email: 'ada@example.com', password: 'pw' });
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ user });
+    expect(authenticateCredentials).toHaveBeenCalledWith('ada@example.com', 'pw');
+    const cookie = res.headers.get('set-cookie') ?? '';
+    expect(cookie).toMatch(/HttpOnly/i);
+    expect(cookie).toMatch(/SameSite=lax/i);
+    const token = decodeURIComponent(cookie.match(new RegExp(`${SESSION_COOKIE}=([^;]+)`))![1]);
+    expect((await readSessionToken(token))?.user).toEqual(user);
+  });
+
+  it('rejects wrong credentials without a cookie', async () => {
+    (authenticateCredentials as jest.Mock).mockResolvedValue(undefined);
+
+    const res = await signIn({ email: 'ada@example.com', password: 'wrong' });
+
+    expect(res.status).toBe(401);
+    expect((await res.json()).error.code).toBe('invalid_credentials');
+    expect(res.headers.get('set-cookie')).toBeNull();
+  });
+
+  it('rejects incomplete requests', async () => {
+    const res = await signIn({ email: 'ada@example.com' });
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toEqual({
+      code: 'invalid_request',
+      message: 'Invalid input: expected string, received undefined',
+    });
+    expect(authenticateCredentials).not.toHaveBeenCalled();
+  });
+});
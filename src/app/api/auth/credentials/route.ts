@@ -0,0 +1,26 @@
+import { authErrorResponse, SignInResponseSchema } from '@/app/api/auth/schemas';
+import { setSessionCookie } from '@/app/api/auth/sessionCookie';
+import { authenticateCredentials } from '@/services/auth/credentials';
+import { CredentialsSignInRequestSchema } from '@/services/auth/schemas';
+import { enabledAuthProviders } from '@/services/auth/session';
+import { NextResponse } from 'next/server';
+
+/**
+ * POST /api/auth/credentials
+ *
+ * Signs in with an email and password listed in the users file and sets the session cookie.
+ */
+export const POST = async (req: Request) => {
+  if (!enabledAuthProviders().includes('credentials')) {
+    return authErrorResponse('provider_disabled', 'Signing in with a password is not enabled.');
+  }
+  const parsed = CredentialsSignInRequestSchema.safeParse(await req.json().catch(() => undefined));
+  if (!parsed.success) {
+    return authErrorResponse('invalid_request', parsed.error.issues[0].message);
+  }
+  const user = await authenticateCredentials(parsed.data.email, parsed.data.password);
+  if (!user) {
+    return authErrorResponse('invalid_credentials', 'Wrong email or password.');
+  }
+  return setSessionCookie(NextResponse.json(SignInResponseSchema.parse({ user })), user);
+};
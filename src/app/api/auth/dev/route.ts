@@ -0,0 +1,18 @@
+import { authErrorResponse, SignInResponseSchema } from '@/app/api/auth/schemas';
+import { setSessionCookie } from '@/app/api/auth/sessionCookie';
+import { devUser, enabledAuthProviders } from '@/services/auth/session';
+import { NextResponse } from 'next/server';
+
+/**
+ * POST /api/auth/dev
+ *
+ * Signs in as the local developer without a password. Only available when the "dev" provider is
+ * enabled, and never in production.
+ */
+export const POST = async () => {
+  if (!enabledAuthProviders().includes('dev')) {
+    return authErrorResponse('provider_disabled', 'The dev sign-in is not enabled.');
+  }
+  const user = devUser();
+  return setSessionCookie(NextResponse.json(SignInResponseSchema.parse({ user })), user);
+};
@@ -0,0 +1,14 @@
+import { AUTH_COOKIE_OPTIONS } from '@/app/api/auth/sessionCookie';
+import { SESSION_COOKIE } from '@/services/auth/session';
+import { NextResponse } from 'next/server';
+
+/**
+ * POST /api/auth/logout
+ *
+ * Signs out by clearing the session cookie.
+ */
+export const POST = async () => {
+  const response = new NextResponse(null, { status: 204 });
+  response.cookies.set(SESSION_COOKIE, '', { ...AUTH_COOKIE_OPTIONS, maxAge: 0 });
+  return response;
+};
@@ -0,0 +1,45 @@
+import {
+  AUTH_COOKIE_OPTIONS,
+  OIDC_STATE_COOKIE,
+  setSessionCookie,
+} from '@/app/api/auth/sessionCookie';
+import { completeOidcSignIn, OidcSignInStateSchema } from '@/services/auth/oidc';
+import { authSecret, readCookie } from '@/services/auth/session';
+import { verifyToken } from '@/services/auth/signedToken';
+import { NextResponse } from 'next/server';
+
+/**
+ * GET /api/auth/oidc/callback
+ *
+ * Completes signing in with the OpenID Connect provider, sets the session cookie and returns to
+ * the page the user started from. Failures return to the login page with an error message.
+ */
+export const GET = async (req: Request) => {
+  const url = new URL(req.url);
+  let response: NextResponse;
+  try {
+    const signInState = OidcSignInStateSchema.safeParse(
+      await verifyToken(
+        readCookie(req.headers.get('cookie'), OIDC_STATE_COOKIE) ?? '',
+        authSecret()
+      )
+    );
+    if (!signInState.success) throw new Error('The sign-in attempt has expired.');
+    const user = await completeOidcSignIn(
+      url.searchParams,
+      signInState.data,
+      new URL('/api/auth/oidc/callback', url).href
+    );
+    response = await setSessionCookie(
+      NextResponse.redirect(new URL(signInState.data.returnTo, url)),
+      user
+    );
+  } catch (error) {
+    console.error('OIDC sign-in failed', error);
+    const login = new URL('/login', url);
+    login.searchParams.set('error', 'Single sign-on failed. Please try again.');
+    response = NextResponse.redirect(login);
+  }
+  response.cookies.set(OIDC_STATE_COOKIE, '', { ...AUTH_COOKIE_OPTIONS, maxAge: 0 });
+  return response;
+};
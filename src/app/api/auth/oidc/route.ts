@@ -0,0 +1,29 @@
+import { authErrorResponse } from '@/app/api/auth/schemas';
+import { AUTH_COOKIE_OPTIONS, OIDC_STATE_COOKIE } from '@/app/api/auth/sessionCookie';
+import { startOidcSignIn } from '@/services/auth/oidc';
+import { authSecret, enabledAuthProviders, safeReturnTo } from '@/services/auth/session';
+import { signToken } from '@/services/auth/signedToken';
+import { NextResponse } from 'next/server';
+
+/**
+ * GET /api/auth/oidc
+ *
+ * Redirects to the OpenID Connect provider to sign in. The optional `returnTo` query parameter is
+ * the page to come back to.
+ */
+export const GET = async (req: Request) => {
+  if (!enabledAuthProviders().includes('oidc')) {
+    return authErrorResponse('provider_disabled', 'Single sign-on is not enabled.');
+  }
+  const url = new URL(req.url);
+  const { url: authorizationUrl, state } = await startOidcSignIn(
+    new URL('/api/auth/oidc/callback', url).href,
+    safeReturnTo(url.searchParams.get('returnTo'))
+  );
+  const response = NextResponse.redirect(authorizationUrl);
+  response.cookies.set(OIDC_STATE_COOKIE, await signToken(state, authSecret()), {
+    ...AUTH_COOKIE_OPTIONS,
+    maxAge: 600,
+  });
+  return response;
+};
@@ -0,0 +1,67 @@
+import { SessionUserSchema } from '@/services/auth/schemas';
+import { z } from 'zod';
+
+/**
+ * Schema for the response of a successful sign-in.
+ */
+export const SignInResponseSchema = z.object({
+  /** The signed-in user. */
+  user: SessionUserSchema,
+});
+
+/**
+ * Sign-in response type
+ */
+export type SignInResponse = z.infer<typeof SignInResponseSchema>;
+
+/**
+ * Machine-readable codes for errors returned by the auth API.
+ */
+export const AuthApiErrorCodeSchema = z.enum([
+  'invalid_request',
+  'invalid_credentials',
+  'provider_disabled',
+]);
+
+/**
+ * Auth API error code type
+ */
+export type AuthApiErrorCode = z.infer<typeof AuthApiErrorCodeSchema>;
+
+/**
+ * Schema for the structured error body returned by the auth API.
+ */
+export const AuthApiErrorResponseSchema = z.object({
+  error: z.object({
+    /** Machine-readable error code clients can branch on. */
+    code: AuthApiErrorCodeSchema,
+    /** Human-readable error message. */
+    message: z.string(),
+  }),
+});
+
+/**
+ * Auth API error response type
+ */
+export type AuthApiErrorResponse = z.infer<typeof AuthApiErrorResponseSchema>;
+
+/**
+ * HTTP status code for each auth API error code.
+ */
+const STATUS_BY_ERROR_CODE: Record<AuthApiErrorCode, number> = {
+  invalid_request: 400,
+  invalid_credentials: 401,
+  provider_disabled: 404,
+};
+
+/**
+ * Builds a structured JSON error response for the auth API.
+ *
+ * @param code - The error code.
+ * @param message - The human-readable message.
+ * @returns The error response.
+ */
+export const authErrorResponse = (code: AuthApiErrorCode, message: string) =>
+  Response.json(AuthApiErrorResponseSchema.parse({ error: { code, message } }), {
+    status: STATUS_BY_ERROR_CODE[code],
+  });
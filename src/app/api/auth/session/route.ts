@@ -0,0 +1,17 @@
+import { SessionResponseSchema } from '@/services/auth/schemas';
+import { authenticate, isAuthEnabled } from '@/services/auth/session';
+import { NextResponse } from 'next/server';
+
+/**
+ * GET /api/auth/session
+ *
+ * Reports whether signing in is required and who is signed in.
+ */
+export const GET = async (req: Request) => {
+  const auth = await authenticate(req.headers);
+  const response = SessionResponseSchema.parse({
+    authEnabled: isAuthEnabled(),
+    user: auth.ok ? auth.user : undefined,
+  });
+  return NextResponse.json(response, { headers: { 'Cache-Control': 'no-store' } });
+};
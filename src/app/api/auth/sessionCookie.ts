@@ -0,0 +1,34 @@
+import { SessionUser } from '@/services/auth/schemas';
+import { createSessionToken, SESSION_COOKIE } from '@/services/auth/session';
+import { NextResponse } from 'next/server';
+
+/**
+ * Attributes shared by the cookies set by the auth API.
+ */
+export const AUTH_COOKIE_OPTIONS = {
+  httpOnly: true,
+  sameSite: 'lax',
+  secure: process.env.NODE_ENV === 'production',
+  path: '/',
+} as const;
+
+/**
+ * Name of the cookie holding an OIDC sign-in attempt until the provider calls back.
+ */
+export const OIDC_STATE_COOKIE = 'oidc_state';
+
+/**
+ * Signs a user in by setting the session cookie on a response.
+ *
+ * @param response - The response to the sign-in request.
+ * @param user - The signed-in user.
+ * @returns The response.
+ */
+export const setSessionCookie = async (response: NextResponse, user: SessionUser) => {
+  const { token, expiresAt } = await createSessionToken(user);
+  response.cookies.set(SESSION_COOKIE, token, {
+    ...AUTH_COOKIE_OPTIONS,
+    expires: new Date(expiresAt),
+  });
+  return response;
+};
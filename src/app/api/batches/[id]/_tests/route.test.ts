@@ -0,0 +1,66 @@
+import { GET as GET_RESULTS } from '../results/route';
+import { GET } from '../route';
+
+// Mock the batch job store
+jest.mock('@/services/batches/memoryBatchJobStore', () => ({
+  batchJobStore: { getJob: jest.fn() },
+}));
+
+import { batchJobStore } from '@/services/batches/memoryBatchJobStore';
+
+const job = {
+  id: 'job',
+  question: 'What is this?',
+  status: 'running',
+  total: 3,
+  processed: 1,
+  failed: 0,
+  createdAt: 1,
+  updatedAt: 2,
+  results: [{ index: 0, ok: true, text: 'A cat', name: 'a.png' }],
+};
+
+const context = (id: string) => ({ params: Promise.resolve({ id }) });
+
+describe('/api/batches/[id]', () => {
+  beforeEach(() => jest.resetAllMocks());
+
+  it('GET returns the job progress without results', async () => {
+    (batchJobStore.getJob as jest.Mock).mockResolvedValue(job);
+
+    const res = await GET(new Request('http://localhost/api/batches/job'), context('job'));
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body).toEqual(expect.objectContaining({ id: 'job', status: 'running', processed: 1 }));
+    expect(body).not.toHaveProperty('results');
+  });
+
+  it('GET returns 404 for missing jobs', async () => {
+    const res = await GET(new Request('http://localhost/api/batches/x'), context('x'));
+
+    expect(res.status).toBe(404);
+  });
+
+  it('GET results downloads CSV', async () => {
+    (batchJobStore.getJob as jest.Mock).mockResolvedValue(job);
+
+    const res = await GET_RESULTS(
+      new Request('http://localhost/api/batches/job/results?format=csv'),
+      context('job')
+    );
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Disposition')).toBe('attachment; filename="batch-job.csv"');
+    expect(await res.text()).toBe('index,name,ok,text,error\r\n0,a.png,true,A cat,');
+  });
+
+  it('GET results rejects unknown formats', async () => {
+    const res = await GET_RESULTS(
+      new Request('http://localhost/api/batches/job/results?format=xml'),
+      context('job')
+    );
+
+    expect(res.status).toBe(400);
+  });
+});
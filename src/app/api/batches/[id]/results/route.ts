@@ -0,0 +1,32 @@
+import { batchesErrorResponse } from '@/app/api/batches/schemas';
+import { authenticate } from '@/services/auth/session';
+import {
+  BATCH_RESULTS_CONTENT_TYPES,
+  exportBatchResults,
+} from '@/services/batches/exportBatchResults';
+import { batchJobStore } from '@/services/batches/memoryBatchJobStore';
+
+/**
+ * GET /api/batches/[id]/results?format=csv|json
+ *
+ * Downloads the per-image results received so far as CSV or JSON (the default). Jobs are only
+ * visible to the user who created them.
+ */
+export const GET = async (req: Request, { params }: { params: Promise<{ id: string }> }) => {
+  const format = new URL(req.url).searchParams.get('format') ?? 'json';
+  if (format !== 'csv' && format !== 'json') {
+    return batchesErrorResponse('invalid_request', 'Format must be "csv" or "json".');
+  }
+  const auth = await authenticate(req.headers);
+  if (!auth.ok) return batchesErrorResponse('unauthorized', 'Sign in to see batch jobs.');
+  const job = await batchJobStore.getJob((await params).id);
+  if (!job || job.ownerId !== auth.user?.id) {
+    return batchesErrorResponse('not_found', 'Batch job not found.');
+  }
+  return new Response(exportBatchResults(job, format), {
+    headers: {
+      'Content-Type': BATCH_RESULTS_CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="batch-${job.id}.${format}"`,
+    },
+  });
+};
@@ -0,0 +1,21 @@
+import { batchesErrorResponse } from '@/app/api/batches/schemas';
+import { authenticate } from '@/services/auth/session';
+import { toBatchJobProgress } from '@/services/batches/batchJobStore';
+import { batchJobStore } from '@/services/batches/memoryBatchJobStore';
+import { NextResponse } from 'next/server';
+
+/**
+ * GET /api/batches/[id]
+ *
+ * Responds with the progress of the batch job (BatchJobProgressSchema). Jobs are only visible to
+ * the user who created them.
+ */
+export const GET = async (req: Request, { params }: { params: Promise<{ id: string }> }) => {
+  const auth = await authenticate(req.headers);
+  if (!auth.ok) return batchesErrorResponse('unauthorized', 'Sign in to see batch jobs.');
+  const job = await batchJobStore.getJob((await params).id);
+  if (!job || job.ownerId !== auth.user?.id) {
+    return batchesErrorResponse('not_found', 'Batch job not found.');
+  }
+  return NextResponse.json(toBatchJobProgress(job));
+};
@@ -0,0 +1,125 @@
+import { zipSync } from 'fflate';
+import { POST } from '../route';
+
+// Run jobs through a mock runner
+jest.mock('@/services/batches/runBatchJob', () => ({
+  runBatchJob: jest.fn(() => Promise.resolve()),
+}));
+
+// Mock the rate limit
+jest.mock('@/services/rateLimit/limitAnalysis', () => ({
+  limitAnalysis: jest.fn(),
+  settleAnalysis: jest.fn(),
+}));
+
+import { batchJobStore } from '@/services/batches/memoryBatchJobStore';
+import { runBatchJob } from '@/services/batches/runBatchJob';
+import { limitAnalysis } from '@/services/rateLimit/limitAnalysis';
+
+const PNG = 'data:image/png;base64,iVBORw0KGgo=';
+
+const jsonRequest = (body: unknown) =>
+  new Request('http://localhost/api/batches', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+describe('POST /api/batches', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('creates a job and starts it', async () => {
+    const request = {
+      question: 'What is this?',
+      images: Array.from({ length: 10 }, (_, i) => ({ name: `${i}.png`, image: PNG })),
+    };
+
+    const res = await POST(jsonRequest(request));
+
+    expect(res.status).toBe(202);
+    const body = await res.json();
+    expect(body).toEqual(
+      expect.objectContaining({ status: 'queued', total: 10, processed: 0, failed: 0 })
+    );
+    expect(res.headers.get('Location')).toBe(`/api/batches/${body.id}`);
+    expect(await batchJobStore.getJob(body.id)).toBeDefined();
+    expect(runBatchJob).toHaveBeenCalledWith(batchJobStore, body.id, request, {
+      onUsage: expect.any(Function),
+    });
+  });
+
+  it('unpacks zip archives from multipart requests', async () => {
+    const formData = new FormData();
+    formData.append('question', 'What is this?');
+    formData.append('images', new Blob([Buffer.from('png')], { type: 'image/png' }), 'a.png');
+    const zip = zipSync({ 'b.png': new Uint8Array([1]), 'c/d.png': new Uint8Array([2]) });
+    formData.append('archives', new Blob([Buffer.from(zip)]), 'photos.zip');
+
+    const res = await POST(
+      new Request('http://localhost/api/batches', { method: 'POST', body: formData })
+    );
+
+    expect(res.status).toBe(202);
+    const names = (runBatchJob as jest.Mock).mock.calls[0][2].images.map(
+      ({ name }: { name: string }) => name
+    );
+    expect(names).toEqual(['a.png', 'photos.zip/b.png', 'photos.zip/c/d.png']);
+  });
+
+  it('returns 400 for an invalid request', async () => {
+    const res = await POST(jsonRequest({ question: 'What is this?', images: [] }));
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({
+      error: { code: 'invalid_request', message: 'Please upload at least one image.' },
+    });
+    expect(runBatchJob).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 for an unreadable archive', async () => {
+    const formData = new FormData();
+    formData.append('question', 'What is this?');
+    formData.append('archives', new Blob([Buffer.from('not a zip')]), 'photos.zip');
+
+    const res = await POST(
+      new Request('http://localhost/api/batches', { method: 'POST', body: formData })
+    );
+
+    expect(res.status).toBe(400);
+  });
+
+  it('returns 415 for an unsupported content type', async () => {
+    const res = await POST(
+      new Request('http://localhost/api/batches', { method: 'POST', body: 'text' })
+    );
+
+    expect(res.status).toBe(415);
+  });
+
+  it('returns 429 when the batch exceeds the daily image quota', async () => {
+    (limitAnalysis as jest.Mock).mockResolvedValueOnce({
+      allowed: false,
+      reason: 'images',
+      retryAfterMs: 0,
+      requests: { limit: 10, remaining: 10 },
+      images: { limit: 200, remaining: 5 },
+      tokens: { limit: 1000000, remaining: 1000000 },
+      resetAt: 86400000,
+    });
+
+    const res = await POST(
+      jsonRequest({
+        question: 'Q',
+        images: Array.from({ length: 10 }, (_, i) => ({ name: `${i}.png`, image: PNG })),
+      })
+    );
+
+    expect(res.status).toBe(429);
+    expect(await res.json()).toEqual({
+      error: { code: 'rate_limited', message: "Only 5 images are left in today's quota." },
+    });
+    expect(runBatchJob).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,142 @@
+import { batchesErrorResponse } from '@/app/api/batches/schemas';
+import { isErrorWithMessage } from '@/lib/errors';
+import { readBlobAsDataUrl } from '@/lib/files';
+import { authenticate } from '@/services/auth/session';
+import { toBatchJobProgress } from '@/services/batches/batchJobStore';
+import { batchJobStore } from '@/services/batches/memoryBatchJobStore';
+import { readImageArchive } from '@/services/batches/readImageArchive';
+import { runBatchJob } from '@/services/batches/runBatchJob';
+import { BatchImage, CreateBatchRequestSchema } from '@/services/batches/schemas';
+import { limitAnalysis, settleAnalysis } from '@/services/rateLimit/limitAnalysis';
+import { clientRateLimitKey } from '@/services/rateLimit/rateLimiter';
+import { describeRateLimit } from '@/services/rateLimit/schemas';
+import { recordUsage } from '@/services/usage/fileUsageStore';
+import { NextResponse } from 'next/server';
+
+/**
+ * Max request body size in bytes.
+ */
+const MAX_REQUEST_BYTES = 200 * 1024 * 1024;
+
+/**
+ * Reads the raw batch payload from a JSON or multipart/form-data body.
+ * Multipart bodies carry a `question` field, any number of `images` file fields and zip
+ * `archives` file fields, and an optional `model` field.
+ */
+const readPayload = async (req: Request, contentType: string): Promise<unknown> => {
+  if (!contentType.includes('multipart/form-data')) return await req.json();
+  const formData = await req.formData();
+  const images: BatchImage[] = [];
+  for (const entry of formData.getAll('images')) {
+    images.push(
+      typeof entry === 'string'
+        ? { name: `image-${images.length + 1}`, image: entry }
+        : {
+            name: entry.name || `image-${images.length + 1}`,
+            image: await readBlobAsDataUrl(entry),
+          }
+    );
+  }
+  for (const entry of formData.getAll('archives')) {
+    if (typeof entry === 'string') continue;
+    const prefix = entry.name ? `${entry.name}/` : '';
+    const archived = readImageArchive(new Uint8Array(await entry.arrayBuffer()));
+    images.push(...archived.map(({ name, image }) => ({ name: `${prefix}${name}`, image })));
+  }
+  return {
+    question: formData.get('question') ?? undefined,
+    images,
+    model: formData.get('model') ?? undefined,
+  };
+};
+
+/**
+ * POST /api/batches
+ *
+ * Starts a batch job asking one question of many images, beyond the 4-image limit of
+ * /api/analyses. Accepts a JSON body matching CreateBatchRequestSchema, or a multipart/form-data
+ * body with `question`, `images` files and zip `archives`. Responds 202 with the job progress
+ * (BatchJobProgressSchema) and a Location header pointing to the job-status route.
+ */
+export const POST = async (req: Request) => {
+  // Reject requests without a session when signing in is required
+  const auth = await authenticate(req.headers);
+  if (!auth.ok) {
+    return batchesErrorResponse('unauthorized', 'Sign in to start batch jobs.');
+  }
+
+  // Reject unsupported content types
+  const contentType = req.headers.get('content-type') ?? '';
+  if (!contentType.includes('application/json') && !contentType.includes('multipart/form-data')) {
+    return batchesErrorResponse(
+      'unsupported_media_type',
+      'Content-Type must be application/json or multipart/form-data.'
+    );
+  }
+
+  // Reject oversized payloads before reading the body
+  const contentLength = Number(req.headers.get('content-length') ?? 0);
+  if (contentLength > MAX_REQUEST_BYTES) {
+    return batchesErrorResponse('payload_too_large', 'Request body exceeds the 200MB limit.');
+  }
+
+  // Read the payload, unpacking archives
+  let payload: unknown;
+  try {
+    payload = await readPayload(req, contentType);
+  } catch (error: unknown) {
+    return batchesErrorResponse(
+      'invalid_request',
+      isErrorWithMessage(error) ? error.message : 'Request body could not be parsed.'
+    );
+  }
+
+  // Validate the payload
+  const parsed = CreateBatchRequestSchema.safeParse(payload);
+  if (!parsed.success) {
+    return batchesErrorResponse('invalid_request', parsed.error.issues[0].message);
+  }
+
+  // Charge every image of the batch to the client's rate limit and daily quotas
+  const rateLimitKey = clientRateLimitKey(req.headers, auth.user);
+  const charged = {
+    question: parsed.data.question,
+    images: parsed.data.images.map(({ image }) => image),
+  };
+  const quota = await limitAnalysis(rateLimitKey, charged);
+  if (quota && !quota.allowed) {
+    return batchesErrorResponse('rate_limited', describeRateLimit(quota));
+  }
+
+  // Create the job and run it in the background
+  const now = Date.now();
+  const job = {
+    id: crypto.randomUUID(),
+    question: parsed.data.question,
+    ...(parsed.data.model && { model: parsed.data.model }),
+    ...(auth.user && { ownerId: auth.user.id }),
+    status: 'queued' as const,
+    total: parsed.data.images.length,
+    processed: 0,
+    failed: 0,
+    createdAt: now,
+    updatedAt: now,
+    results: [],
+  };
+  await batchJobStore.createJob(job);
+  // Once it finishes, replace the estimated tokens with those the model reported
+  let usedTokens = 0;
+  runBatchJob(batchJobStore, job.id, parsed.data, {
+    onUsage: (usage, images) => {
+      usedTokens += usage.totalTokens;
+      return recordUsage(usage, { userId: auth.user?.id, images });
+    },
+  })
+    .then(() => settleAnalysis(rateLimitKey, quota, charged, usedTokens))
+    .catch(error => console.error(`Batch job ${job.id} failed`, error));
+
+  return NextResponse.json(toBatchJobProgress(job), {
+    status: 202,
+    headers: { Location: `/api/batches/${job.id}` },
+  });
+};
@@ -0,0 +1,59 @@
+import { z } from 'zod';
+
+/**
+ * Machine-readable codes for errors returned by the batches API.
+ */
+export const BatchesApiErrorCodeSchema = z.enum([
+  'invalid_request',
+  'unauthorized',
+  'not_found',
+  'payload_too_large',
+  'unsupported_media_type',
+  'rate_limited',
+]);
+
+/**
+ * Batches API error code type
+ */
+export type BatchesApiErrorCode = z.infer<typeof BatchesApiErrorCodeSchema>;
+
+/**
+ * Schema for the structured error body returned by the batches API.
+ */
+export const BatchesApiErrorResponseSchema = z.object({
+  error: z.object({
+    /** Machine-readable error code clients can branch on. */
+    code: BatchesApiErrorCodeSchema,
+    /** Human-readable error message. */
+    message: z.string(),
+  }),
+});
+
+/**
+ * Batches API error response type
+ */
+export type BatchesApiErrorResponse = z.infer<typeof BatchesApiErrorResponseSchema>;
+
+/**
+ * HTTP status code for each batches API error code.
+ */
+const STATUS_BY_ERROR_CODE: Record<BatchesApiErrorCode, number> = {
+  invalid_request: 400,
+  unauthorized: 401,
+  not_found: 404,
+  payload_too_large: 413,
+  unsupported_media_type: 415,
+  rate_limited: 429,
+};
+
+/**
+ * Builds a structured JSON error response for the batches API.
+ *
+ * @param code - The error code.
+ * @param message - The human-readable message.
+ * @returns The error response.
+ */
+export const batchesErrorResponse = (code: BatchesApiErrorCode, message: string) =>
+  Response.json(BatchesApiErrorResponseSchema.parse({ error: { code, message } }), {
+    status: STATUS_BY_ERROR_CODE[code],
+  });
@@ -0,0 +1,93 @@
+import { DELETE, GET, PATCH, PUT } from '../route';
+
+// Mock the chat store
+jest.mock('@/services/chats/fileChatStore', () => {
+  const chatStore = {
+    listChats: jest.fn(),
+    getChat: jest.fn(),
+    saveChat: jest.fn(),
+    renameChat: jest.fn(),
+    deleteChat: jest.fn(),
+  };
+  return { chatStore, chatStoreFor: () => chatStore };
+});
+
+import { chatStore } from '@/services/chats/fileChatStore';
+
+const chat = { id: 'c1', title: 'Cats', createdAt: 1, updatedAt: 2, messages: [] };
+
+const context = (id: string) => ({ params: Promise.resolve({ id }) });
+
+const request = (method: string, body?: unknown) =>
+  new Request('http://localhost/api/chats/c1', {
+    method,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+describe('/api/chats/[id]', () => {
+  beforeEach(() => jest.resetAllMocks());
+
+  it('GET returns the chat', async () => {
+    (chatStore.getChat as jest.Mock).mockResolvedValue(chat);
+
+    const res = await GET(request('GET'), context('c1'));
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual(chat);
+  });
+
+  it('GET returns 404 for missing chats and invalid ids', async () => {
+    (chatStore.getChat as jest.Mock).mockResolvedValue(undefined);
+
+    expect((await GET(request('GET'), context('c2'))).status).toBe(404);
+    expect((await GET(request('GET'), context('../x'))).status).toBe(404);
+    expect(chatStore.getChat).toHaveBeenCalledTimes(1);
+  });
+
+  it('PUT saves the chat', async () => {
+    const res = await PUT(request('PUT', chat), context('c1'));
+
+    expect(res.status).toBe(204);
+    expect(chatStore.saveChat).toHaveBeenCalledWith(chat);
+  });
+
+  it('PUT rejects a body whose id differs from the URL', async () => {
+    const res = await PUT(request('PUT', chat), context('c2'));
+
+    expect(res.status).toBe(400);
+    expect(chatStore.saveChat).not.toHaveBeenCalled();
+  });
+
+  it('PATCH renames the chat', async () => {
+    const summary = { id: 'c1', title: 'Dogs', createdAt: 1, updatedAt: 3 };
+    (chatStore.renameChat as jest.Mock).mockResolvedValue(summary);
+
+    const res = await PATCH(request('PATCH', { title: ' Dogs ' }), context('c1'));
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual(summary);
+    expect(chatStore.renameChat).toHaveBeenCalledWith('c1', 'Dogs');
+  });
+
+  it('PATCH rejects empty titles', async () => {
+    const res = await PATCH(request('PATCH', { title: '  ' }), context('c1'));
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({
+      error: { code: 'invalid_request', message: 'Title is required.' },
+    });
+  });
+
+  it('DELETE deletes the chat', async () => {
+    (chatStore.deleteChat as jest.Mock).mockResolvedValue(true);
+
+    expect((await DELETE(request('DELETE'), context('c1'))).status).toBe(204);
+    expect(chatStore.deleteChat).toHaveBeenCalledWith('c1');
+  });
+
+  it('DELETE returns 404 for missing chats', async () => {
+    (chatStore.deleteChat as jest.Mock).mockResolvedValue(false);
+
+    expect((await DELETE(request('DELETE'), context('c1'))).status).toBe(404);
+  });
+});
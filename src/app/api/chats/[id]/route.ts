@@ -0,0 +1,90 @@
+import { chatStoreForRequest } from '@/app/api/chats/requestStore';
+import { chatsErrorResponse, RenameChatRequestSchema } from '@/app/api/chats/schemas';
+import { ChatSchema, ChatSummarySchema } from '@/services/chats/schemas';
+import { NextResponse } from 'next/server';
+
+/**
+ * Route context carrying the chat id.
+ */
+type ChatRouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Reads and validates the chat id from the route params.
+ */
+const readChatId = async ({ params }: ChatRouteContext) => {
+  const { id } = await params;
+  return ChatSummarySchema.shape.id.safeParse(id).success ? id : undefined;
+};
+
+/**
+ * GET /api/chats/[id]
+ *
+ * Responds with the chat and its messages.
+ */
+export const GET = async (req: Request, context: ChatRouteContext) => {
+  const resolved = await chatStoreForRequest(req);
+  if (!resolved.ok) return resolved.response;
+  const { store } = resolved;
+  const id = await readChatId(context);
+  const chat = id && (await store.getChat(id));
+  if (!chat) return chatsErrorResponse('not_found', 'Chat not found.');
+  return NextResponse.json(chat);
+};
+
+/**
+ * PUT /api/chats/[id]
+ *
+ * Creates or replaces the chat with a body matching ChatSchema.
+ */
+export const PUT = async (req: Request, context: ChatRouteContext) => {
+  const resolved = await chatStoreForRequest(req);
+  if (!resolved.ok) return resolved.response;
+  const { store } = resolved;
+  const id = await readChatId(context);
+  if (!id) return chatsErrorResponse('invalid_request', 'Invalid chat id.');
+  const parsed = ChatSchema.safeParse(await req.json().catch(() => undefined));
+  if (!parsed.success) {
+    return chatsErrorResponse('invalid_request', parsed.error.issues[0].message);
+  }
+  if (parsed.data.id !== id) {
+    return chatsErrorResponse('invalid_request', 'Chat id does not match the URL.');
+  }
+  await store.saveChat(parsed.data);
+  return new Response(null, { status: 204 });
+};
+
+/**
+ * PATCH /api/chats/[id]
+ *
+ * Renames the chat with a body matching RenameChatRequestSchema and responds with its summary.
+ */
+export const PATCH = async (req: Request, context: ChatRouteContext) => {
+  const resolved = await chatStoreForRequest(req);
+  if (!resolved.ok) return resolved.response;
+  const { store } = resolved;
+  const id = await readChatId(context);
+  if (!id) return chatsErrorResponse('not_found', 'Chat not found.');
+  const parsed = RenameChatRequestSchema.safeParse(await req.json().catch(() => undefined));
+  if (!parsed.success) {
+    return chatsErrorResponse('invalid_request', parsed.error.issues[0].message);
+  }
+  const summary = await store.renameChat(id, parsed.data.title);
+  if (!summary) return chatsErrorResponse('not_found', 'Chat not found.');
+  return NextResponse.json(summary);
+};
+
+/**
+ * DELETE /api/chats/[id]
+ *
+ * Deletes the chat.
+ */
+export const DELETE = async (req: Request, context: ChatRouteContext) => {
+  const resolved = await chatStoreForRequest(req);
+  if (!resolved.ok) return resolved.response;
+  const { store } = resolved;
+  const id = await readChatId(context);
+  if (!id || !(await store.deleteChat(id))) {
+    return chatsErrorResponse('not_found', 'Chat not found.');
+  }
+  return new Response(null, { status: 204 });
+};
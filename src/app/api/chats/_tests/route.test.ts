@@ -0,0 +1,61 @@
+import { GET, POST } from '../route';
+
+// Mock the chat store
+jest.mock('@/services/chats/fileChatStore', () => {
+  const chatStore = {
+    listChats: jest.fn(),
+    getChat: jest.fn(),
+    saveChat: jest.fn(),
+    renameChat: jest.fn(),
+    deleteChat: jest.fn(),
+  };
+  return { chatStore, chatStoreFor: () => chatStore };
+});
+
+import { chatStore } from '@/services/chats/fileChatStore';
+
+const chat = { id: 'c1', title: 'Cats', createdAt: 1, updatedAt: 2, messages: [] };
+
+describe('GET /api/chats', () => {
+  beforeEach(() => jest.resetAllMocks());
+
+  it('lists chats, passing the search query to the store', async () => {
+    const summary = { id: 'c1', title: 'Cats', createdAt: 1, updatedAt: 2 };
+    (chatStore.listChats as jest.Mock).mockResolvedValue([summary]);
+
+    const res = await GET(new Request('http://localhost/api/chats?q=cat'));
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ chats: [summary] });
+    expect(chatStore.listChats).toHaveBeenCalledWith('cat');
+  });
+});
+
+describe('POST /api/chats', () => {
+  beforeEach(() => jest.resetAllMocks());
+
+  it('saves the chat and returns its summary', async () => {
+    const res = await POST(
+      new Request('http://localhost/api/chats', { method: 'POST', body: JSON.stringify(chat) })
+    );
+
+    expect(res.status).toBe(201);
+    expect(await res.json()).toEqual({ id: 'c1', title: 'Cats', createdAt: 1, updatedAt: 2 });
+    expect(chatStore.saveChat).toHaveBeenCalledWith(chat);
+  });
+
+  it('rejects invalid chats', async () => {
+    const res = await POST(
+      new Request('http://localhost/api/chats', {
+        method: 'POST',
+        body: JSON.stringify({ ...chat, id: '../x' }),
+      })
+    );
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({
+      error: { code: 'invalid_request', message: 'Invalid chat id.' },
+    });
+    expect(chatStore.saveChat).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,24 @@
+import { chatsErrorResponse } from '@/app/api/chats/schemas';
+import { authenticate } from '@/services/auth/session';
+import { ChatStore } from '@/services/chats/chatStore';
+import { chatStoreFor } from '@/services/chats/fileChatStore';
+
+/**
+ * Resolves the chat store of the user making a request.
+ *
+ * @param req - The request.
+ * @returns The user's store, or an "unauthorized" error response when signing in is required
+ * and the request has no valid session.
+ */
+export const chatStoreForRequest = async (
+  req: Request
+): Promise<{ ok: true; store: ChatStore } | { ok: false; response: Response }> => {
+  const auth = await authenticate(req.headers);
+  if (!auth.ok) {
+    return {
+      ok: false,
+      response: chatsErrorResponse('unauthorized', 'Sign in to see your chats.'),
+    };
+  }
+  return { ok: true, store: chatStoreFor(auth.user) };
+};
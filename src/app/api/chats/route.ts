@@ -0,0 +1,37 @@
+import { chatStoreForRequest } from '@/app/api/chats/requestStore';
+import { ChatsResponseSchema, chatsErrorResponse } from '@/app/api/chats/schemas';
+import { toChatSummary } from '@/services/chats/chatStore';
+import { ChatSchema } from '@/services/chats/schemas';
+import { NextResponse } from 'next/server';
+
+/**
+ * GET /api/chats
+ *
+ * Lists saved chats, most recently updated first. The optional `q` query parameter
+ * filters chats by title and message text.
+ */
+export const GET = async (req: Request) => {
+  const resolved = await chatStoreForRequest(req);
+  if (!resolved.ok) return resolved.response;
+  const { store } = resolved;
+  const query = new URL(req.url).searchParams.get('q') ?? undefined;
+  const response = ChatsResponseSchema.parse({ chats: await store.listChats(query) });
+  return NextResponse.json(response);
+};
+
+/**
+ * POST /api/chats
+ *
+ * Creates (or replaces) a chat from a body matching ChatSchema and responds with its summary.
+ */
+export const POST = async (req: Request) => {
+  const resolved = await chatStoreForRequest(req);
+  if (!resolved.ok) return resolved.response;
+  const { store } = resolved;
+  const parsed = ChatSchema.safeParse(await req.json().catch(() => undefined));
+  if (!parsed.success) {
+    return chatsErrorResponse('invalid_request', parsed.error.issues[0].message);
+  }
+  await store.saveChat(parsed.data);
+  return NextResponse.json(toChatSummary(parsed.data), { status: 201 });
+};
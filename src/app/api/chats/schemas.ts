@@ -0,0 +1,76 @@
+import { ChatSummarySchema } from '@/services/chats/schemas';
+import { z } from 'zod';
+
+/**
+ * Schema for the chat listing returned by GET /api/chats.
+ */
+export const ChatsResponseSchema = z.object({
+  /** Chats, most recently updated first. */
+  chats: z.array(ChatSummarySchema),
+});
+
+/**
+ * Chats response type
+ */
+export type ChatsResponse = z.infer<typeof ChatsResponseSchema>;
+
+/**
+ * Schema for the body of PATCH /api/chats/[id].
+ */
+export const RenameChatRequestSchema = z.object({
+  /** The new chat title. */
+  title: z.string().trim().min(1, 'Title is required.').max(200),
+});
+
+/**
+ * Rename chat request type
+ */
+export type RenameChatRequest = z.infer<typeof RenameChatRequestSchema>;
+
+/**
+ * Machine-readable codes for errors returned by the chats API.
+ */
+export const ChatsApiErrorCodeSchema = z.enum(['invalid_request', 'unauthorized', 'not_found']);
+
+/**
+ * Chats API error code type
+ */
+export type ChatsApiErrorCode = z.infer<typeof ChatsApiErrorCodeSchema>;
+
+/**
+ * Schema for the structured error body returned by the chats API.
+ */
+export const ChatsApiErrorResponseSchema = z.object({
+  error: z.object({
+    /** Machine-readable error code clients can branch on. */
+    code: ChatsApiErrorCodeSchema,
+    /** Human-readable error message. */
+    message: z.string(),
+  }),
+});
+
+/**
+ * Chats API error response type
+ */
+export type ChatsApiErrorResponse = z.infer<typeof ChatsApiErrorResponseSchema>;
+
+/**
+ * HTTP status code for each chats API error code.
+ */
+const STATUS_BY_ERROR_CODE: Record<ChatsApiErrorCode, number> = {
+  invalid_request: 400,
+  unauthorized: 401,
+  not_found: 404,
+};
+
+/**
+ * Builds a structured JSON error response for the chats API.
+ *
+ * @param code - The error code.
+ * @param message - The human-readable message.
+ * @returns The error response.
+ */
+export const chatsErrorResponse = (code: ChatsApiErrorCode, message: string) =>
+  Response.json(ChatsApiErrorResponseSchema.parse({ error: { code, message } }), {
+    status: STATUS_BY_ERROR_CODE[code],
+  });
@@ -0,0 +1,114 @@
+import { POST } from '../route';
+
+// Mock the session and the rasterizer
+jest.mock('@/services/auth/session', () => ({
+  authenticate: jest.fn(),
+}));
+jest.mock('@/services/documents/rasterizeDocument', () => ({
+  ...jest.requireActual('@/services/documents/rasterizeDocument'),
+  rasterizeDocument: jest.fn(),
+}));
+
+// Mock the rate limit
+jest.mock('@/services/rateLimit/limitAnalysis', () => ({
+  limitRequest: jest.fn(),
+}));
+
+import { authenticate } from '@/services/auth/session';
+import { rasterizeDocument } from '@/services/documents/rasterizeDocument';
+import { limitRequest } from '@/services/rateLimit/limitAnalysis';
+
+/**
+ * The header of a PDF file.
+ */
+const PDF = '%PDF-1.7\n';
+
+/**
+ * Builds a multipart request uploading a document with the given form fields.
+ */
+const uploadRequest = (contents: string, fields: Record<string, string> = {}) => {
+  const formData = new FormData();
+  formData.append('file', new File([contents], 'report.pdf', { type: 'application/pdf' }));
+  for (const [name, value] of Object.entries(fields)) formData.append(name, value);
+  return new Request('http://localhost/api/documents', { method: 'POST', body: formData });
+};
+
+describe('POST /api/documents', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    (authenticate as jest.Mock).mockResolvedValue({ ok: true });
+  });
+
+  it('returns the requested pages and the page count', async () => {
+    (rasterizeDocument as jest.Mock).mockResolvedValue({
+      pageCount: 12,
+      pages: [
+        { page: 5, image: 'data:image/jpeg;base64,AA==' },
+        { page: 6, image: 'data:image/jpeg;base64,AQ==' },
+      ],
+    });
+
+    const res = await POST(uploadRequest(PDF, { firstPage: '5', count: '2' }));
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      fileName: 'report.pdf',
+      pageCount: 12,
+      pages: [
+        { page: 5, image: 'data:image/jpeg;base64,AA==' },
+        { page: 6, image: 'data:image/jpeg;base64,AQ==' },
+      ],
+    });
+    expect(rasterizeDocument).toHaveBeenCalledWith(expect.any(Uint8Array), {
+      firstPage: 5,
+      count: 2,
+    });
+  });
+
+  it('returns 400 for an invalid page range or an unreadable document', async () => {
+    expect((await POST(uploadRequest(PDF, { count: '5' }))).status).toBe(400);
+
+    (rasterizeDocument as jest.Mock).mockRejectedValue(
+      new Error('The document has 2 page(s); page 3 does not exist.')
+    );
+    const res = await POST(uploadRequest(PDF, { firstPage: '3' }));
+    expect(res.status).toBe(400);
+    expect((await res.json()).error.message).toBe(
+      'The document has 2 page(s); page 3 does not exist.'
+    );
+  });
+
+  it('returns 415 for files that are not documents', async () => {
+    const res = await POST(uploadRequest('plain text'));
+
+    expect(res.status).toBe(415);
+    expect(rasterizeDocument).not.toHaveBeenCalled();
+  });
+
+  it('returns 429 without rasterizing beyond the rate limit', async () => {
+    (limitRequest as jest.Mock).mockResolvedValue({
+      allowed: false,
+      reason: 'requests',
+      retryAfterMs: 6000,
+      requests: { limit: 10, remaining: 0 },
+      images: { limit: 200, remaining: 200 },
+      tokens: { limit: 1000000, remaining: 1000000 },
+      resetAt: 86400000,
+    });
+
+    const res = await POST(uploadRequest(PDF));
+
+    expect(res.status).toBe(429);
+    expect(await res.json()).toEqual({
+      error: { code: 'rate_limited', message: 'Too many requests. Try again in 6 seconds.' },
+    });
+    expect(limitRequest).toHaveBeenCalledWith('anonymous');
+    expect(rasterizeDocument).not.toHaveBeenCalled();
+  });
+
+  it('returns 401 without a session when signing in is required', async () => {
+    (authenticate as jest.Mock).mockResolvedValue({ ok: false });
+
+    expect((await POST(uploadRequest(PDF))).status).toBe(401);
+  });
+});
@@ -0,0 +1,100 @@
+import {
+  DocumentPagesRequestSchema,
+  DocumentPagesResponseSchema,
+  documentsErrorResponse,
+} from '@/app/api/documents/schemas';
+import { isErrorWithMessage } from '@/lib/errors';
+import { formatBytes } from '@/lib/images';
+import { authenticate } from '@/services/auth/session';
+import { detectDocumentFormat, rasterizeDocument } from '@/services/documents/rasterizeDocument';
+import { MAX_DOCUMENT_BYTES } from '@/services/documents/schemas';
+import { limitRequest } from '@/services/rateLimit/limitAnalysis';
+import { clientRateLimitKey } from '@/services/rateLimit/rateLimiter';
+import { describeRateLimit } from '@/services/rateLimit/schemas';
+import { NextResponse } from 'next/server';
+
+/**
+ * POST /api/documents
+ *
+ * Rasterizes pages of a PDF or multi-page TIFF into JPEG images that can be sent to
+ * /api/analyses. Accepts a multipart/form-data body with the document as `file` and optional
+ * `firstPage` (1-based, default 1) and `count` (up to 4, the default) fields, and responds with
+ * the pages and the document's page count (DocumentPagesResponseSchema), so long documents can
+ * be paged through. Each request counts towards the client's request rate limit.
+ */
+export const POST = async (req: Request) => {
+  // Reject requests without a session when signing in is required
+  const auth = await authenticate(req.headers);
+  if (!auth.ok) {
+    return documentsErrorResponse('unauthorized', 'Sign in to upload documents.');
+  }
+
+  // Reject unsupported content types
+  const contentType = req.headers.get('content-type') ?? '';
+  if (!contentType.includes('multipart/form-data')) {
+    return documentsErrorResponse(
+      'unsupported_media_type',
+      'Content-Type must be multipart/form-data.'
+    );
+  }
+
+  // Reject oversized payloads before reading the body
+  const contentLength = Number(req.headers.get('content-length') ?? 0);
+  if (contentLength > MAX_DOCUMENT_BYTES + 1024 * 1024) {
+    return documentsErrorResponse(
+      'payload_too_large',
+      `Documents may be at most ${formatBytes(MAX_DOCUMENT_BYTES)}.`
+    );
+  }
+
+  // Read the document and the page range
+  let formData: FormData;
+  try {
+    formData = await req.formData();
+  } catch {
+    return documentsErrorResponse('invalid_request', 'Request body could not be parsed.');
+  }
+  const file = formData.get('file');
+  if (!file || typeof file === 'string') {
+    return documentsErrorResponse('invalid_request', 'Please upload a document as "file".');
+  }
+  if (file.size > MAX_DOCUMENT_BYTES) {
+    return documentsErrorResponse(
+      'payload_too_large',
+      `Documents may be at most ${formatBytes(MAX_DOCUMENT_BYTES)}.`
+    );
+  }
+  const range = DocumentPagesRequestSchema.safeParse({
+    firstPage: formData.get('firstPage') ?? undefined,
+    count: formData.get('count') ?? undefined,
+  });
+  if (!range.success) {
+    return documentsErrorResponse('invalid_request', 'Invalid page range.');
+  }
+
+  // Rasterize the requested pages
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (!detectDocumentFormat(bytes)) {
+    return documentsErrorResponse(
+      'unsupported_media_type',
+      'Only PDF and TIFF documents can be split into pages.'
+    );
+  }
+
+  // Rasterizing is CPU-heavy, so it counts towards the client's request rate limit
+  const quota = await limitRequest(clientRateLimitKey(req.headers, auth.user));
+  if (quota && !quota.allowed) {
+    return documentsErrorResponse('rate_limited', describeRateLimit(quota));
+  }
+  try {
+    const { pageCount, pages } = await rasterizeDocument(bytes, range.data);
+    return NextResponse.json(
+      DocumentPagesResponseSchema.parse({ fileName: file.name || 'document', pageCount, pages })
+    );
+  } catch (error: unknown) {
+    return documentsErrorResponse(
+      'invalid_request',
+      isErrorWithMessage(error) ? error.message : 'The document could not be read.'
+    );
+  }
+};
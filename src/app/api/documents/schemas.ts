@@ -0,0 +1,85 @@
+import { DocumentPageSchema, MAX_DOCUMENT_PAGES_PER_REQUEST } from '@/services/documents/schemas';
+import { z } from 'zod';
+
+/**
+ * Schema for the form fields of POST /api/documents besides the document file.
+ */
+export const DocumentPagesRequestSchema = z.object({
+  /** 1-based number of the first page to rasterize. */
+  firstPage: z.coerce.number().int().min(1).optional(),
+  /** Number of pages to rasterize. */
+  count: z.coerce.number().int().min(1).max(MAX_DOCUMENT_PAGES_PER_REQUEST).optional(),
+});
+
+/**
+ * Schema for the pages returned by POST /api/documents.
+ */
+export const DocumentPagesResponseSchema = z.object({
+  /** Name of the uploaded file. */
+  fileName: z.string(),
+  /** Number of pages in the whole document, for paging through it. */
+  pageCount: z.number(),
+  /** The requested pages as JPEG data URLs, in order. */
+  pages: z.array(DocumentPageSchema),
+});
+
+/**
+ * Document pages response type
+ */
+export type DocumentPagesResponse = z.infer<typeof DocumentPagesResponseSchema>;
+
+/**
+ * Machine-readable codes for errors returned by the documents API.
+ */
+export const DocumentsApiErrorCodeSchema = z.enum([
+  'invalid_request',
+  'unauthorized',
+  'payload_too_large',
+  'unsupported_media_type',
+  'rate_limited',
+]);
+
+/**
+ * Documents API error code type
+ */
+export type DocumentsApiErrorCode = z.infer<typeof DocumentsApiErrorCodeSchema>;
+
+/**
+ * Schema for the structured error body returned by the documents API.
+ */
+export const DocumentsApiErrorResponseSchema = z.object({
+  error: z.object({
+    /** Machine-readable error code clients can branch on. */
+    code: DocumentsApiErrorCodeSchema,
+    /** Human-readable error message. */
+    message: z.string(),
+  }),
+});
+
+/**
+ * Documents API error response type
+ */
+export type DocumentsApiErrorResponse = z.infer<typeof DocumentsApiErrorResponseSchema>;
+
+/**
+ * HTTP status code for each documents API error code.
+ */
+const STATUS_BY_ERROR_CODE: Record<DocumentsApiErrorCode, number> = {
+  invalid_request: 400,
+  unauthorized: 401,
+  payload_too_large: 413,
+  unsupported_media_type: 415,
+  rate_limited: 429,
+};
+
+/**
+ * Builds a structured JSON error response for the documents API.
+ *
+ * @param code - The error code.
+ * @param message - The human-readable message.
+ * @returns The error response.
+ */
+export const documentsErrorResponse = (code: DocumentsApiErrorCode, message: string) =>
+  Response.json(DocumentsApiErrorResponseSchema.parse({ error: { code, message } }), {
+    status: STATUS_BY_ERROR_CODE[code],
+  });
@@ -0,0 +1,34 @@
+import { GET } from '../route';
+
+// Mock the model registry
+jest.mock('@/services/models/registry', () => {
+  const actual = jest.requireActual('@/services/models/registry');
+  return { ...actual, getAvailableModels: jest.fn(), getDefaultModelId: jest.fn() };
+});
+
+import { getAvailableModels, getDefaultModelId } from '@/services/models/registry';
+
+describe('GET /api/models', () => {
+  it('returns the available models and the default model id', async () => {
+    const models = [
+      { id: 'openai:gpt-4o-mini', provider: 'openai', label: 'OpenAI GPT-4o mini' },
+      { id: 'local:llava', provider: 'local', label: 'Local llava' },
+    ];
+    (getAvailableModels as jest.Mock).mockReturnValue(models);
+    (getDefaultModelId as jest.Mock).mockReturnValue('openai:gpt-4o-mini');
+
+    const res = await GET();
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ models, defaultModelId: 'openai:gpt-4o-mini' });
+  });
+
+  it('omits the default model id when no provider is configured', async () => {
+    (getAvailableModels as jest.Mock).mockReturnValue([]);
+    (getDefaultModelId as jest.Mock).mockReturnValue(undefined);
+
+    const res = await GET();
+
+    expect(await res.json()).toEqual({ models: [] });
+  });
+});
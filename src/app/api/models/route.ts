@@ -0,0 +1,16 @@
+import { ModelsResponseSchema } from '@/app/api/models/schemas';
+import { getAvailableModels, getDefaultModelId } from '@/services/models/registry';
+import { NextResponse } from 'next/server';
+
+/**
+ * GET /api/models
+ *
+ * Lists the models that can be selected for an analysis, along with the default model.
+ */
+export const GET = async () => {
+  const response = ModelsResponseSchema.parse({
+    models: getAvailableModels(),
+    defaultModelId: getDefaultModelId(),
+  });
+  return NextResponse.json(response);
+};
@@ -0,0 +1,17 @@
+import { ModelOptionSchema } from '@/services/models/registry';
+import { z } from 'zod';
+
+/**
+ * Schema for the list of selectable models returned by GET /api/models.
+ */
+export const ModelsResponseSchema = z.object({
+  /** Models whose provider is configured in this environment. */
+  models: z.array(ModelOptionSchema),
+  /** The model used when a request does not select one; absent when no provider is configured. */
+  defaultModelId: z.string().optional(),
+});
+
+/**
+ * Models response type
+ */
+export type ModelsResponse = z.infer<typeof ModelsResponseSchema>;
@@ -0,0 +1,32 @@
+import { GET } from '../route';
+
+// Mock the saved presets
+jest.mock('@/services/prompts/presets', () => ({
+  loadPromptPresets: jest.fn(),
+}));
+
+import { loadPromptPresets } from '@/services/prompts/presets';
+
+describe('GET /api/presets', () => {
+  it('lists the presets without their prompts and settings', async () => {
+    (loadPromptPresets as jest.Mock).mockResolvedValue([
+      {
+        id: 'succinct',
+        version: 2,
+        name: 'Succinct',
+        description: 'Short answers.',
+        systemPrompt: 'Be brief.',
+        temperature: 0.2,
+        constraints: { maxWords: 60 },
+      },
+    ]);
+
+    const res = await GET();
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      presets: [{ id: 'succinct', version: 2, name: 'Succinct', description: 'Short answers.' }],
+      defaultPresetId: 'succinct',
+    });
+  });
+});
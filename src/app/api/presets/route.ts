@@ -0,0 +1,18 @@
+import { PresetsResponseSchema } from '@/app/api/presets/schemas';
+import { loadPromptPresets } from '@/services/prompts/presets';
+import { DEFAULT_PROMPT_PRESET_ID } from '@/services/prompts/schemas';
+import { NextResponse } from 'next/server';
+
+/**
+ * GET /api/presets
+ *
+ * Lists the prompt presets that can be selected for an analysis, along with the default preset.
+ * Their system prompts and settings stay on the server.
+ */
+export const GET = async () => {
+  const response = PresetsResponseSchema.parse({
+    presets: await loadPromptPresets(),
+    defaultPresetId: DEFAULT_PROMPT_PRESET_ID,
+  });
+  return NextResponse.json(response);
+};
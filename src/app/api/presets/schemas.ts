@@ -0,0 +1,17 @@
+import { PromptPresetOptionSchema } from '@/services/prompts/schemas';
+import { z } from 'zod';
+
+/**
+ * Schema for the list of selectable prompt presets returned by GET /api/presets.
+ */
+export const PresetsResponseSchema = z.object({
+  /** The saved presets, without their prompts and settings. */
+  presets: z.array(PromptPresetOptionSchema),
+  /** The preset used when a request does not select one. */
+  defaultPresetId: z.string(),
+});
+
+/**
+ * Presets response type
+ */
+export type PresetsResponse = z.infer<typeof PresetsResponseSchema>;
@@ -0,0 +1,37 @@
+import { GET } from '../route';
+
+// Mock the rate limit check
+jest.mock('@/services/rateLimit/limitAnalysis', () => ({
+  checkRateLimit: jest.fn(),
+}));
+
+import { checkRateLimit } from '@/services/rateLimit/limitAnalysis';
+
+describe('GET /api/quota', () => {
+  it('reports the quota of an anonymous caller, ignoring untrusted forwarded headers', async () => {
+    const quota = {
+      allowed: true,
+      retryAfterMs: 0,
+      requests: { limit: 10, remaining: 7 },
+      images: { limit: 200, remaining: 180 },
+      tokens: { limit: 1000000, remaining: 990000 },
+      resetAt: 86400000,
+    };
+    (checkRateLimit as jest.Mock).mockResolvedValue(quota);
+
+    const res = await GET(
+      new Request('http://localhost/api/quota', { headers: { 'x-real-ip': '198.51.100.2' } })
+    );
+
+    expect(await res.json()).toEqual({ quota });
+    expect(checkRateLimit).toHaveBeenCalledWith('anonymous');
+  });
+
+  it('omits the quota when rate limiting is disabled', async () => {
+    (checkRateLimit as jest.Mock).mockResolvedValue(undefined);
+
+    const res = await GET(new Request('http://localhost/api/quota'));
+
+    expect(await res.json()).toEqual({});
+  });
+});
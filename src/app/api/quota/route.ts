@@ -0,0 +1,20 @@
+import { QuotaResponseSchema } from '@/app/api/quota/schemas';
+import { authenticate } from '@/services/auth/session';
+import { checkRateLimit } from '@/services/rateLimit/limitAnalysis';
+import { clientRateLimitKey } from '@/services/rateLimit/rateLimiter';
+import { NextResponse } from 'next/server';
+
+/**
+ * GET /api/quota
+ *
+ * Reports the caller's rate limit and daily quotas without using them.
+ */
+export const GET = async (req: Request) => {
+  const auth = await authenticate(req.headers);
+  const quota = await checkRateLimit(
+    clientRateLimitKey(req.headers, auth.ok ? auth.user : undefined)
+  );
+  return NextResponse.json(QuotaResponseSchema.parse({ quota }), {
+    headers: { 'Cache-Control': 'no-store' },
+  });
+};
@@ -0,0 +1,15 @@
+import { RateLimitStatusSchema } from '@/services/rateLimit/schemas';
+import { z } from 'zod';
+
+/**
+ * Schema for the caller's rate limit and quota returned by GET /api/quota.
+ */
+export const QuotaResponseSchema = z.object({
+  /** The rate limit and quota left; absent when rate limiting is disabled. */
+  quota: RateLimitStatusSchema.optional(),
+});
+
+/**
+ * Quota response type
+ */
+export type QuotaResponse = z.infer<typeof QuotaResponseSchema>;
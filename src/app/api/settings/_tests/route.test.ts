@@ -0,0 +1,60 @@
+import { GET, PUT } from '../route';
+
+// Mock the session and the settings file
+jest.mock('@/services/auth/session', () => ({
+  authenticate: jest.fn(),
+}));
+jest.mock('@/services/settings/fileSettingsStore', () => ({
+  ...jest.requireActual('@/services/settings/fileSettingsStore'),
+  settingsStore: { get: jest.fn(), update: jest.fn() },
+}));
+
+import { authenticate } from '@/services/auth/session';
+import { settingsStore } from '@/services/settings/fileSettingsStore';
+
+const user = { id: 'oidc:1', name: 'Ada', role: 'user' as const };
+
+describe('/api/settings', () => {
+  beforeEach(() => jest.resetAllMocks());
+
+  it("returns the signed-in user's settings", async () => {
+    (authenticate as jest.Mock).mockResolvedValue({ ok: true, user });
+    (settingsStore.get as jest.Mock).mockResolvedValue({ model: 'mock:vision' });
+
+    const res = await GET(new Request('http://localhost/api/settings'));
+
+    expect(await res.json()).toEqual({ settings: { model: 'mock:vision' } });
+    expect(settingsStore.get).toHaveBeenCalledWith('oidc:1');
+  });
+
+  it('saves settings in the shared workspace when signing in is not required', async () => {
+    (authenticate as jest.Mock).mockResolvedValue({ ok: true });
+    (settingsStore.update as jest.Mock).mockResolvedValue({ model: 'openai:gpt-4o' });
+
+    const res = await PUT(
+      new Request('http://localhost/api/settings', {
+        method: 'PUT',
+        body: JSON.stringify({ model: 'openai:gpt-4o' }),
+      })
+    );
+
+    expect(await res.json()).toEqual({ settings: { model: 'openai:gpt-4o' } });
+    expect(settingsStore.update).toHaveBeenCalledWith('shared', { model: 'openai:gpt-4o' });
+  });
+
+  it('rejects invalid settings and requests without a session', async () => {
+    (authenticate as jest.Mock).mockResolvedValue({ ok: true, user });
+    const invalid = await PUT(
+      new Request('http://localhost/api/settings', {
+        method: 'PUT',
+        body: JSON.stringify({ model: '' }),
+      })
+    );
+    expect(invalid.status).toBe(400);
+
+    (authenticate as jest.Mock).mockResolvedValue({ ok: false });
+    const unauthorized = await GET(new Request('http://localhost/api/settings'));
+    expect(unauthorized.status).toBe(401);
+    expect(settingsStore.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,37 @@
+import { SettingsResponseSchema, settingsErrorResponse } from '@/app/api/settings/schemas';
+import { authenticate } from '@/services/auth/session';
+import { settingsKeyFor, settingsStore } from '@/services/settings/fileSettingsStore';
+import { UserSettingsSchema } from '@/services/settings/schemas';
+import { NextResponse } from 'next/server';
+
+/**
+ * GET /api/settings
+ *
+ * Responds with the settings of the signed-in user, or of the shared workspace when signing in
+ * is not required.
+ */
+export const GET = async (req: Request) => {
+  const auth = await authenticate(req.headers);
+  if (!auth.ok) return settingsErrorResponse('unauthorized', 'Sign in to see your settings.');
+  const settings = await settingsStore.get(settingsKeyFor(auth.user));
+  return NextResponse.json(SettingsResponseSchema.parse({ settings }), {
+    headers: { 'Cache-Control': 'no-store' },
+  });
+};
+
+/**
+ * PUT /api/settings
+ *
+ * Updates the caller's settings with a body matching UserSettingsSchema; settings left out of
+ * the body keep their values.
+ */
+export const PUT = async (req: Request) => {
+  const auth = await authenticate(req.headers);
+  if (!auth.ok) return settingsErrorResponse('unauthorized', 'Sign in to change your settings.');
+  const parsed = UserSettingsSchema.safeParse(await req.json().catch(() => undefined));
+  if (!parsed.success) {
+    return settingsErrorResponse('invalid_request', parsed.error.issues[0].message);
+  }
+  const settings = await settingsStore.update(settingsKeyFor(auth.user), parsed.data);
+  return NextResponse.json(SettingsResponseSchema.parse({ settings }));
+};
@@ -0,0 +1,62 @@
+import { UserSettingsSchema } from '@/services/settings/schemas';
+import { z } from 'zod';
+
+/**
+ * Schema for the settings returned by GET and PUT /api/settings.
+ */
+export const SettingsResponseSchema = z.object({
+  /** The caller's settings. */
+  settings: UserSettingsSchema,
+});
+
+/**
+ * Settings response type
+ */
+export type SettingsResponse = z.infer<typeof SettingsResponseSchema>;
+
+/**
+ * Machine-readable codes for errors returned by the settings API.
+ */
+export const SettingsApiErrorCodeSchema = z.enum(['invalid_request', 'unauthorized']);
+
+/**
+ * Settings API error code type
+ */
+export type SettingsApiErrorCode = z.infer<typeof SettingsApiErrorCodeSchema>;
+
+/**
+ * Schema for the structured error body returned by the settings API.
+ */
+export const SettingsApiErrorResponseSchema = z.object({
+  error: z.object({
+    /** Machine-readable error code clients can branch on. */
+    code: SettingsApiErrorCodeSchema,
+    /** Human-readable error message. */
+    message: z.string(),
+  }),
+});
+
+/**
+ * Settings API error response type
+ */
+export type SettingsApiErrorResponse = z.infer<typeof SettingsApiErrorResponseSchema>;
+
+/**
+ * HTTP status code for each settings API error code.
+ */
+const STATUS_BY_ERROR_CODE: Record<SettingsApiErrorCode, number> = {
+  invalid_request: 400,
+  unauthorized: 401,
+};
+
+/**
+ * Builds a structured JSON error response for the settings API.
+ *
+ * @param code - The error code.
+ * @param message - The human-readable message.
+ * @returns The error response.
+ */
+export const settingsErrorResponse = (code: SettingsApiErrorCode, message: string) =>
+  Response.json(SettingsApiErrorResponseSchema.parse({ error: { code, message } }), {
+    status: STATUS_BY_ERROR_CODE[code],
+  });
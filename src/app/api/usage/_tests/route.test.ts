@@ -0,0 +1,83 @@
+import { GET } from '../route';
+
+// Mock the session and the usage store
+jest.mock('@/services/auth/session', () => ({
+  authenticate: jest.fn(),
+}));
+jest.mock('@/services/usage/fileUsageStore', () => ({
+  usageStore: { list: jest.fn() },
+}));
+
+import { authenticate } from '@/services/auth/session';
+import { usageStore } from '@/services/usage/fileUsageStore';
+
+const request = (query = '') => new Request(`http://localhost/api/usage${query}`);
+
+const record = {
+  model: 'openai:gpt-4o-mini',
+  inputTokens: 100,
+  outputTokens: 20,
+  totalTokens: 120,
+  latencyMs: 900,
+  estimatedCostUsd: 0.5,
+  timestamp: Date.now(),
+  userId: 'oidc:1',
+  images: 2,
+};
+
+describe('GET /api/usage', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    (usageStore.list as jest.Mock).mockResolvedValue([record]);
+  });
+
+  it("reports a user's own usage per day and per model", async () => {
+    (authenticate as jest.Mock).mockResolvedValue({
+      ok: true,
+      user: { id: 'oidc:1', name: 'Ada', role: 'user' },
+    });
+
+    const res = await GET(request('?days=7'));
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body).toMatchObject({
+      range: 7,
+      allUsers: false,
+      summary: {
+        models: [{ model: 'openai:gpt-4o-mini', requests: 1, images: 2, estimatedCostUsd: 0.5 }],
+        totals: { requests: 1, totalTokens: 120 },
+      },
+    });
+    expect(body.summary.days).toHaveLength(1);
+    const { since, userId } = (usageStore.list as jest.Mock).mock.calls[0][0];
+    expect(userId).toBe('oidc:1');
+    expect(Date.now() - since).toBeGreaterThan(6 * 24 * 60 * 60 * 1000);
+    expect(Date.now() - since).toBeLessThanOrEqual(7 * 24 * 60 * 60 * 1000);
+  });
+
+  it('reports every user to admins and when authentication is disabled', async () => {
+    (authenticate as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      user: { id: 'dev:local', name: 'Dev', role: 'admin' },
+    });
+    (authenticate as jest.Mock).mockResolvedValueOnce({ ok: true });
+
+    for (const res of [await GET(request()), await GET(request())]) {
+      expect((await res.json()).allUsers).toBe(true);
+    }
+    expect((usageStore.list as jest.Mock).mock.calls.map(([query]) => query.userId)).toEqual([
+      undefined,
+      undefined,
+    ]);
+  });
+
+  it('rejects invalid ranges and requests without a session', async () => {
+    (authenticate as jest.Mock).mockResolvedValueOnce({ ok: true });
+    expect((await GET(request('?days=0'))).status).toBe(400);
+
+    (authenticate as jest.Mock).mockResolvedValueOnce({ ok: false });
+    expect((await GET(request())).status).toBe(401);
+    expect(usageStore.list).toHaveBeenCalledTimes(0);
+  });
+});
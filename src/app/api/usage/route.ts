@@ -0,0 +1,29 @@
+import { UsageQuerySchema, UsageResponseSchema, usageErrorResponse } from '@/app/api/usage/schemas';
+import { authenticate } from '@/services/auth/session';
+import { DEFAULT_USAGE_DAYS, loadUsageSummary } from '@/services/usage/loadUsageSummary';
+import { NextResponse } from 'next/server';
+
+/**
+ * GET /api/usage?days=30
+ *
+ * Reports the recorded model usage of the last days, per UTC day, per model and in total.
+ * Admins (and everyone when authentication is disabled) see every user's usage; other users
+ * see their own.
+ */
+export const GET = async (req: Request) => {
+  const auth = await authenticate(req.headers);
+  if (!auth.ok) return usageErrorResponse('unauthorized', 'Sign in to see usage.');
+  const query = UsageQuerySchema.safeParse(
+    Object.fromEntries(new URL(req.url).searchParams.entries())
+  );
+  if (!query.success) {
+    return usageErrorResponse('invalid_request', 'Days must be a whole number from 1 to 365.');
+  }
+  const range = query.data.days ?? DEFAULT_USAGE_DAYS;
+  const response = UsageResponseSchema.parse({
+    range,
+    allUsers: !auth.user || auth.user.role === 'admin',
+    summary: await loadUsageSummary(auth.user, range),
+  });
+  return NextResponse.json(response, { headers: { 'Cache-Control': 'no-store' } });
+};
@@ -0,0 +1,74 @@
+import { UsageSummarySchema } from '@/services/usage/schemas';
+import { z } from 'zod';
+
+/**
+ * Schema for the query of GET /api/usage.
+ */
+export const UsageQuerySchema = z.object({
+  /** Number of days to cover, counting today. */
+  days: z.coerce.number().int().min(1).max(365).optional(),
+});
+
+/**
+ * Schema for the usage returned by GET /api/usage.
+ */
+export const UsageResponseSchema = z.object({
+  /** Number of days covered, counting today. */
+  range: z.number(),
+  /** True when the totals cover every user rather than only the caller. */
+  allUsers: z.boolean(),
+  /** Totals per day, per model and overall. */
+  summary: UsageSummarySchema,
+});
+
+/**
+ * Usage response type
+ */
+export type UsageResponse = z.infer<typeof UsageResponseSchema>;
+
+/**
+ * Machine-readable codes for errors returned by the usage API.
+ */
+export const UsageApiErrorCodeSchema = z.enum(['invalid_request', 'unauthorized']);
+
+/**
+ * Usage API error code type
+ */
+export type UsageApiErrorCode = z.infer<typeof UsageApiErrorCodeSchema>;
+
+/**
+ * Schema for the structured error body returned by the usage API.
+ */
+export const UsageApiErrorResponseSchema = z.object({
+  error: z.object({
+    /** Machine-readable error code clients can branch on. */
+    code: UsageApiErrorCodeSchema,
+    /** Human-readable error message. */
+    message: z.string(),
+  }),
+});
+
+/**
+ * Usage API error response type
+ */
+export type UsageApiErrorResponse = z.infer<typeof UsageApiErrorResponseSchema>;
+
+/**
+ * HTTP status code for each usage API error code.
+ */
+const STATUS_BY_ERROR_CODE: Record<UsageApiErrorCode, number> = {
+  invalid_request: 400,
+  unauthorized: 401,
+};
+
+/**
+ * Builds a structured JSON error response for the usage API.
+ *
+ * @param code - The error code.
+ * @param message - The human-readable message.
+ * @returns The error response.
+ */
+export const usageErrorResponse = (code: UsageApiErrorCode, message: string) =>
+  Response.json(UsageApiErrorResponseSchema.parse({ error: { code, message } }), {
+    status: STATUS_BY_ERROR_CODE[code],
+  });
@@ -0,0 +1,11 @@
+import { BatchJobView } from '@/components/BatchJobView';
+import { Header } from '@/components/Header';
+
+export default function BatchesPage() {
+  return (
+    <div className="h-screen overflow-y-auto">
+      <Header />
+      <BatchJobView />
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+'use client';
+
+import { ChatSidebar } from '@/components/ChatSidebar';
+import { ChatView } from '@/components/ChatView';
+import { Header } from '@/components/Header';
+import { useParams } from 'next/navigation';
+import { useCallback, useState } from 'react';
+
+export default function ChatPage() {
+  const { id } = useParams<{ id: string }>();
+
+  // Reload the sidebar after saves, and pass renames of the open chat to the view
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [renamed, setRenamed] = useState<{ id: string; title: string }>();
+  const handleSaved = useCallback(() => setRefreshKey(key => key + 1), []);
+  const handleRenamed = useCallback((chatId: string, title: string) => {
+    setRenamed({ id: chatId, title });
+  }, []);
+
+  return (
+    <div className="min-h-screen">
+      <Header />
+      <div className="flex">
+        <ChatSidebar activeChatId={id} refreshKey={refreshKey} onRenamed={handleRenamed} />
+        <ChatView
+          key={id}
+          chatId={id}
+          title={renamed?.id === id ? renamed.title : undefined}
+          onSaved={handleSaved}
+        />
+      </div>
+    </div>
+  );
+}
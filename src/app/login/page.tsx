@@ -0,0 +1,21 @@
+import { LoginForm } from '@/components/LoginForm';
+import { authProviderOptions, isAuthEnabled, safeReturnTo } from '@/services/auth/session';
+import { redirect } from 'next/navigation';
+
+export default async function LoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ returnTo?: string; error?: string }>;
+}) {
+  const { returnTo, error } = await searchParams;
+  if (!isAuthEnabled()) redirect('/');
+  return (
+    <div className="flex h-screen items-center justify-center overflow-y-auto p-4">
+      <LoginForm
+        providers={authProviderOptions()}
+        returnTo={safeReturnTo(returnTo)}
+        initialError={error}
+      />
+    </div>
+  );
+}
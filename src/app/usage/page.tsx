@@ -0,0 +1,106 @@
+import { Header } from '@/components/Header';
+import { authenticate } from '@/services/auth/session';
+import { DEFAULT_USAGE_DAYS, loadUsageSummary } from '@/services/usage/loadUsageSummary';
+import { formatCost, UsageTotals } from '@/services/usage/schemas';
+import { headers } from 'next/headers';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * The columns shown for every row of totals.
+ */
+const TotalsCells = ({ totals }: { totals: UsageTotals }) => (
+  <>
+    <td className="py-2 text-right">{totals.requests.toLocaleString()}</td>
+    <td className="py-2 text-right">{totals.images.toLocaleString()}</td>
+    <td className="py-2 text-right">{totals.totalTokens.toLocaleString()}</td>
+    <td className="py-2 text-right">{(totals.averageLatencyMs / 1000).toFixed(1)} s</td>
+    <td className="py-2 text-right">{formatCost(totals.estimatedCostUsd)}</td>
+  </>
+);
+
+/**
+ * A table of totals, one row per day or model, with the overall totals as its footer.
+ */
+const TotalsTable = ({
+  label,
+  rows,
+  totals,
+}: {
+  label: string;
+  rows: (UsageTotals & { key: string })[];
+  totals: UsageTotals;
+}) => (
+  <table className="w-full text-left text-sm">
+    <thead className="text-muted-foreground border-b">
+      <tr>
+        <th className="py-2 font-medium">{label}</th>
+        <th className="py-2 text-right font-medium">Requests</th>
+        <th className="py-2 text-right font-medium">Images</th>
+        <th className="py-2 text-right font-medium">Tokens</th>
+        <th className="py-2 text-right font-medium">Avg. latency</th>
+        <th className="py-2 text-right font-medium">Est. cost</th>
+      </tr>
+    </thead>
+    <tbody>
+      {rows.map(row => (
+        <tr key={row.key} className="border-b">
+          <td className="py-2 font-mono break-all">{row.key}</td>
+          <TotalsCells totals={row} />
+        </tr>
+      ))}
+    </tbody>
+    <tfoot>
+      <tr className="font-medium">
+        <td className="py-2">Total</td>
+        <TotalsCells totals={totals} />
+      </tr>
+    </tfoot>
+  </table>
+);
+
+export default async function UsagePage() {
+  const auth = await authenticate(await headers());
+  const summary = auth.ok ? await loadUsageSummary(auth.user) : undefined;
+  const allUsers = auth.ok && (!auth.user || auth.user.role === 'admin');
+
+  return (
+    <div className="h-screen overflow-y-auto">
+      <Header />
+      <main className="mx-auto w-full max-w-3xl space-y-6 px-4 py-6 sm:px-6">
+        <h1 className="text-lg font-semibold">
+          {allUsers ? 'Usage' : 'Your usage'}, last {DEFAULT_USAGE_DAYS} days (UTC)
+        </h1>
+        {!summary ? (
+          <p className="text-destructive text-sm" role="alert">
+            Sign in to see usage.
+          </p>
+        ) : summary.totals.requests === 0 ? (
+          <p className="text-muted-foreground text-sm">No analyses have been recorded yet.</p>
+        ) : (
+          <>
+            <section className="space-y-2">
+              <h2 className="font-medium">Per day</h2>
+              <TotalsTable
+                label="Day"
+                rows={summary.days.map(({ day, ...totals }) => ({ key: day, ...totals }))}
+                totals={summary.totals}
+              />
+            </section>
+            <section className="space-y-2">
+              <h2 className="font-medium">Per model</h2>
+              <TotalsTable
+                label="Model"
+                rows={summary.models.map(({ model, ...totals }) => ({ key: model, ...totals }))}
+                totals={summary.totals}
+              />
+            </section>
+            <p className="text-muted-foreground text-xs">
+              Costs are estimates from list prices; models without a known price count as $0.
+            </p>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import { CopyButton } from '@/components/CopyButton';
+import { type AltText } from '@/services/openai/schemas';
+
+/**
+ * Renders the accessibility text of an image: its alt text and long description, each with a
+ * copy button, or a note that a decorative image needs an empty alt attribute.
+ */
+export const AltTextCard = ({
+  altText,
+  position,
+}: {
+  /** The accessibility text of the image. */
+  altText: AltText;
+  /** 1-based position of the image, used to label the copy buttons. */
+  position: number;
+}) => (
+  <dl className="space-y-2 text-sm">
+    <div>
+      <dt className="flex items-center justify-between gap-2 text-xs font-medium text-muted-foreground">
+        Alt text
+        {altText.alt && (
+          <CopyButton text={altText.alt} label={`Copy alt text of image ${position}`} />
+        )}
+      </dt>
+      <dd className="whitespace-pre-wrap">
+        {altText.alt ||
+          (altText.decorative ? (
+            <span className="text-muted-foreground">
+              Decorative image: use an empty alt attribute (alt=&quot;&quot;).
+            </span>
+          ) : (
+            '—'
+          ))}
+      </dd>
+    </div>
+    {altText.longDescription && (
+      <div>
+        <dt className="flex items-center justify-between gap-2 text-xs font-medium text-muted-foreground">
+          Long description
+          <CopyButton
+            text={altText.longDescription}
+            label={`Copy long description of image ${position}`}
+          />
+        </dt>
+        <dd className="whitespace-pre-wrap">{altText.longDescription}</dd>
+      </div>
+    )}
+    {altText.decorative && altText.alt && (
+      <p className="text-xs text-amber-700">
+        Marked decorative: consider an empty alt attribute instead.
+      </p>
+    )}
+  </dl>
+);
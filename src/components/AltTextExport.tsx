@@ -0,0 +1,43 @@
+'use client';
+
+import { toAltTextCsv, toAltTextJson } from '@/lib/altTextExport';
+import { downloadFile } from '@/lib/files';
+import { type ImageAnalysisResult } from '@/services/chats/schemas';
+import { Download } from 'lucide-react';
+
+/**
+ * Buttons exporting the accessibility text of every image as CSV, or as JSON keyed by the
+ * uploaded file names.
+ */
+export const AltTextExport = ({
+  messageId,
+  results,
+}: {
+  /** Id of the assistant message, used to build the file names. */
+  messageId: string;
+  /** The per-image results of the alt-text task. */
+  results: ImageAnalysisResult[];
+}) => (
+  <div className="mt-3 flex gap-2">
+    <button
+      type="button"
+      onClick={() => downloadFile(`alt-text-${messageId}.csv`, toAltTextCsv(results), 'text/csv')}
+      className="inline-flex items-center gap-1 rounded-md border px-2 py-1 text-xs hover:bg-accent"
+      aria-label="Export alt text as CSV"
+    >
+      <Download className="h-3 w-3" />
+      CSV
+    </button>
+    <button
+      type="button"
+      onClick={() =>
+        downloadFile(`alt-text-${messageId}.json`, toAltTextJson(results), 'application/json')
+      }
+      className="inline-flex items-center gap-1 rounded-md border px-2 py-1 text-xs hover:bg-accent"
+      aria-label="Export alt text as JSON"
+    >
+      <Download className="h-3 w-3" />
+      JSON
+    </button>
+  </div>
+);
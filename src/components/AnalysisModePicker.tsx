@@ -0,0 +1,43 @@
+'use client';
+
+import { AnalysisMode } from '@/services/openai/schemas';
+
+/**
+ * Label for each analysis mode.
+ */
+const MODE_LABELS: Record<AnalysisMode, string> = {
+  'per-image': 'Per image',
+  comparative: 'Compare',
+  combined: 'Combine',
+};
+
+/**
+ * Select for choosing how several images are analyzed: independently, compared against each
+ * other, or combined into one answer.
+ */
+export const AnalysisModePicker = ({
+  value,
+  onChange,
+  disabled,
+}: {
+  /** The selected mode. */
+  value: AnalysisMode;
+  /** Called with the mode when the selection changes. */
+  onChange: (mode: AnalysisMode) => void;
+  /** Disables the select, e.g. while a request is in flight. */
+  disabled?: boolean;
+}) => (
+  <select
+    value={value}
+    onChange={e => onChange(e.target.value as AnalysisMode)}
+    disabled={disabled}
+    className="bg-background max-w-32 rounded-md border px-2 py-2 text-sm"
+    aria-label="Analysis mode"
+  >
+    {Object.entries(MODE_LABELS).map(([mode, label]) => (
+      <option key={mode} value={mode}>
+        {label}
+      </option>
+    ))}
+  </select>
+);
@@ -0,0 +1,43 @@
+'use client';
+
+import { AnalysisTask } from '@/services/openai/schemas';
+
+/**
+ * Label for each analysis task.
+ */
+const TASK_LABELS: Record<AnalysisTask, string> = {
+  answer: 'Answer',
+  'alt-text': 'Alt text',
+  ocr: 'Transcribe',
+};
+
+/**
+ * Select for choosing what the model produces for each image: an answer to the question,
+ * accessibility text or a transcription of its text.
+ */
+export const AnalysisTaskPicker = ({
+  value,
+  onChange,
+  disabled,
+}: {
+  /** The selected task. */
+  value: AnalysisTask;
+  /** Called with the task when the selection changes. */
+  onChange: (task: AnalysisTask) => void;
+  /** Disables the select, e.g. while a request is in flight. */
+  disabled?: boolean;
+}) => (
+  <select
+    value={value}
+    onChange={e => onChange(e.target.value as AnalysisTask)}
+    disabled={disabled}
+    className="bg-background max-w-32 rounded-md border px-2 py-2 text-sm"
+    aria-label="Analysis task"
+  >
+    {Object.entries(TASK_LABELS).map(([task, label]) => (
+      <option key={task} value={task}>
+        {label}
+      </option>
+    ))}
+  </select>
+);
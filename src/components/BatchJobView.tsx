@@ -0,0 +1,157 @@
+'use client';
+
+import { ModelPicker } from '@/components/ModelPicker';
+import { batchResultsUrl, createBatch, fetchBatchProgress } from '@/lib/batchesClient';
+import { isErrorWithMessage } from '@/lib/errors';
+import { UPLOAD_IMAGE_MIME_TYPES } from '@/lib/images';
+import { cn } from '@/lib/utils';
+import { type BatchJobProgress, MAX_BATCH_IMAGES } from '@/services/batches/schemas';
+import { Download, Send } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+/**
+ * Interval in milliseconds between job progress checks.
+ */
+const POLL_INTERVAL_MS = 1000;
+
+/**
+ * Form for asking one question of many images (or zip archives of images), followed by the
+ * progress of the batch job and links to download its results.
+ */
+export const BatchJobView = () => {
+  const [question, setQuestion] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [model, setModel] = useState<string>();
+  const [job, setJob] = useState<BatchJobProgress>();
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const running = job?.status === 'queued' || job?.status === 'running';
+  const canSubmit = question.trim().length > 0 && files.length > 0 && !submitting && !running;
+
+  // Poll the job until it completes or fails
+  useEffect(() => {
+    if (!job || job.status === 'completed' || job.status === 'failed') return;
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      fetchBatchProgress(job.id, controller.signal)
+        .then(setJob)
+        .catch(err => {
+          if (!controller.signal.aborted)
+            setError(isErrorWithMessage(err) ? err.message : 'Failed to load the job progress.');
+        });
+    }, POLL_INTERVAL_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [job]);
+
+  /**
+   * Starts the batch job.
+   */
+  const startBatch = async () => {
+    if (!canSubmit) return;
+    setError(null);
+    setSubmitting(true);
+    try {
+      setJob(await createBatch(question.trim(), files, model));
+    } catch (err: unknown) {
+      setError(isErrorWithMessage(err) ? err.message : 'Failed to start the batch.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <main className="mx-auto w-full max-w-3xl space-y-4 p-4">
+      <div className="space-y-3 rounded-xl border p-4">
+        <p className="text-sm text-muted-foreground">
+          Ask one question of up to {MAX_BATCH_IMAGES} images. Select image files or zip archives of
+          images; results can be downloaded as CSV or JSON.
+        </p>
+        <input
+          type="text"
+          className="w-full rounded-md border px-3 py-2 text-sm"
+          placeholder="Ask a question about every image..."
+          value={question}
+          onChange={e => setQuestion(e.target.value)}
+          disabled={running}
+          aria-label="Batch question"
+        />
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="file"
+            multiple
+            accept={[...UPLOAD_IMAGE_MIME_TYPES, '.zip', 'application/zip'].join(',')}
+            onChange={e => setFiles([...(e.target.files ?? [])])}
+            disabled={running}
+            className="flex-1 text-sm"
+            aria-label="Batch images"
+          />
+          <ModelPicker value={model} onChange={setModel} disabled={running} />
+          <button
+            type="button"
+            onClick={startBatch}
+            disabled={!canSubmit}
+            className={cn(
+              'inline-flex items-center gap-2 rounded-md border bg-blue-600 px-3 py-2 text-sm text-white disabled:opacity-50',
+              canSubmit ? 'hover:bg-blue-700' : ''
+            )}
+            aria-label="Start batch"
+          >
+            <Send className="h-4 w-4" />
+            {submitting ? 'Uploading...' : 'Start'}
+          </button>
+        </div>
+        {error && (
+          <p className="text-xs text-red-600" role="alert">
+            {error}
+          </p>
+        )}
+      </div>
+
+      {job && (
+        <div className="space-y-2 rounded-xl border p-4">
+          <p className="text-sm">
+            {job.status === 'completed'
+              ? 'Completed'
+              : job.status === 'failed'
+                ? 'Failed'
+                : job.status === 'running'
+                  ? 'Running'
+                  : 'Queued'}
+            : {job.processed} of {job.total} images analyzed
+            {job.failed > 0 && `, ${job.failed} failed`}
+          </p>
+          <div
+            className="h-2 w-full overflow-hidden rounded bg-muted"
+            role="progressbar"
+            aria-valuemin={0}
+            aria-valuemax={job.total}
+            aria-valuenow={job.processed}
+            aria-label="Batch progress"
+          >
+            <div
+              className="h-full bg-blue-600 transition-all"
+              style={{ width: `${(job.processed / job.total) * 100}%` }}
+            />
+          </div>
+          <div className="flex gap-2">
+            {(['csv', 'json'] as const).map(format => (
+              <a
+                key={format}
+                href={batchResultsUrl(job.id, format)}
+                download
+                className="inline-flex items-center gap-1 rounded-md border px-2 py-1 text-xs hover:bg-accent"
+              >
+                <Download className="h-3 w-3" />
+                {format.toUpperCase()}
+              </a>
+            ))}
+          </div>
+        </div>
+      )}
+    </main>
+  );
+};
@@ -0,0 +1,82 @@
+'use client';
+
+import {
+  exportFileName,
+  toChatHtml,
+  toChatJson,
+  toChatMarkdown,
+  toChatMarkdownZip,
+} from '@/lib/chatExport';
+import { isErrorWithMessage } from '@/lib/errors';
+import { downloadFile, printHtml } from '@/lib/files';
+import { type Chat } from '@/services/chats/schemas';
+
+/**
+ * Export formats, by option value, each downloading or printing the chat.
+ */
+const EXPORT_FORMATS: Record<string, { label: string; run: (chat: Chat) => void }> = {
+  markdown: {
+    label: 'Markdown',
+    run: chat =>
+      downloadFile(
+        exportFileName(chat.title, 'md'),
+        toChatMarkdown(chat).markdown,
+        'text/markdown'
+      ),
+  },
+  'markdown-zip': {
+    label: 'Markdown + images (zip)',
+    run: chat =>
+      downloadFile(exportFileName(chat.title, 'zip'), toChatMarkdownZip(chat), 'application/zip'),
+  },
+  html: {
+    label: 'HTML',
+    run: chat => downloadFile(exportFileName(chat.title, 'html'), toChatHtml(chat), 'text/html'),
+  },
+  pdf: { label: 'PDF (print)', run: chat => printHtml(toChatHtml(chat)) },
+  json: {
+    label: 'JSON (re-importable)',
+    run: chat =>
+      downloadFile(exportFileName(chat.title, 'json'), toChatJson(chat), 'application/json'),
+  },
+};
+
+/**
+ * Select exporting the conversation as Markdown (with embedded or attached images), standalone
+ * HTML, a printable PDF or JSON that can be imported again.
+ */
+export const ChatExportMenu = ({
+  chat,
+  onError,
+  disabled,
+}: {
+  /** The chat to export. */
+  chat: Chat;
+  /** Called with a message when the export fails, e.g. when pop-ups are blocked. */
+  onError: (message: string) => void;
+  /** Disables the select, e.g. while an answer is streaming. */
+  disabled?: boolean;
+}) => (
+  <select
+    value=""
+    onChange={e => {
+      try {
+        EXPORT_FORMATS[e.target.value]?.run(chat);
+      } catch (err) {
+        onError(isErrorWithMessage(err) ? err.message : 'Failed to export the chat.');
+      }
+    }}
+    disabled={disabled}
+    className="bg-background rounded-md border px-2 py-1 text-xs"
+    aria-label="Export chat"
+  >
+    <option value="" disabled>
+      Export…
+    </option>
+    {Object.entries(EXPORT_FORMATS).map(([format, { label }]) => (
+      <option key={format} value={format}>
+        {label}
+      </option>
+    ))}
+  </select>
+);
@@ -0,0 +1,223 @@
+'use client';
+
+import { parseChatExport } from '@/lib/chatExport';
+import { chatStore } from '@/lib/chatsClient';
+import { isErrorWithMessage } from '@/lib/errors';
+import { cn } from '@/lib/utils';
+import type { ChatSummary } from '@/services/chats/schemas';
+import { Check, FileUp, MessageSquarePlus, Pencil, Trash, X } from 'lucide-react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { ChangeEvent, FormEvent, useEffect, useRef, useState } from 'react';
+
+/**
+ * Sidebar listing saved chats, with controls to create, search, rename and delete them.
+ */
+export const ChatSidebar = ({
+  activeChatId,
+  refreshKey,
+  onRenamed,
+}: {
+  /** Id of the chat currently open. */
+  activeChatId: string;
+  /** Changing this value reloads the chat list, e.g. after the active chat is saved. */
+  refreshKey?: number;
+  /** Called after a chat is renamed. */
+  onRenamed?: (id: string, title: string) => void;
+}) => {
+  const router = useRouter();
+  const [chats, setChats] = useState<ChatSummary[]>([]);
+  const [query, setQuery] = useState('');
+  const [editing, setEditing] = useState<{ id: string; title: string }>();
+  const [error, setError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Load the chats matching the search query
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      chatStore
+        .listChats(query.trim() || undefined)
+        .then(list => {
+          if (!cancelled) setChats(list);
+        })
+        .catch(err => {
+          if (!cancelled) setError(isErrorWithMessage(err) ? err.message : 'Failed to load chats.');
+        });
+    }, 200);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, refreshKey]);
+
+  /**
+   * Opens a new, empty chat.
+   */
+  const newChat = () => {
+    router.push(`/chat/${crypto.randomUUID()}`);
+  };
+
+  /**
+   * Imports a chat exported as JSON as a new chat, and opens it.
+   */
+  const importChat = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      const { messages, ...exported } = parseChatExport(await file.text());
+      const summary = { ...exported, id: crypto.randomUUID(), updatedAt: Date.now() };
+      await chatStore.saveChat({ ...summary, messages });
+      setChats(prev => [summary, ...prev]);
+      router.push(`/chat/${summary.id}`);
+    } catch (err) {
+      setError(isErrorWithMessage(err) ? err.message : 'Failed to import chat.');
+    }
+  };
+
+  /**
+   * Saves the title being edited.
+   */
+  const submitRename = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+    const title = editing.title.trim();
+    setEditing(undefined);
+    if (!title) return;
+    try {
+      const summary = await chatStore.renameChat(editing.id, title);
+      if (summary) {
+        setChats(prev => prev.map(c => (c.id === summary.id ? summary : c)));
+        onRenamed?.(summary.id, summary.title);
+      }
+    } catch (err) {
+      setError(isErrorWithMessage(err) ? err.message : 'Failed to rename chat.');
+    }
+  };
+
+  /**
+   * Deletes a chat, opening a new chat when it is the active one.
+   *
+   * @param chat - The chat to delete
+   */
+  const deleteChat = async (chat: ChatSummary) => {
+    if (!window.confirm(`Delete "${chat.title}"?`)) return;
+    try {
+      await chatStore.deleteChat(chat.id);
+      setChats(prev => prev.filter(c => c.id !== chat.id));
+      if (chat.id === activeChatId) newChat();
+    } catch (err) {
+      setError(isErrorWithMessage(err) ? err.message : 'Failed to delete chat.');
+    }
+  };
+
+  return (
+    <aside className="hidden md:flex w-64 shrink-0 flex-col gap-2 border-r p-3 h-[calc(100vh-64px)]">
+      <button
+        type="button"
+        onClick={newChat}
+        className="inline-flex items-center gap-2 text-sm px-3 py-2 rounded-md border hover:bg-accent"
+        aria-label="New chat"
+      >
+        <MessageSquarePlus className="h-4 w-4" />
+        New chat
+      </button>
+      <button
+        type="button"
+        onClick={() => importInputRef.current?.click()}
+        className="inline-flex items-center gap-2 text-sm px-3 py-2 rounded-md border hover:bg-accent"
+        aria-label="Import chat"
+        title="Open a chat exported as JSON"
+      >
+        <FileUp className="h-4 w-4" />
+        Import chat
+      </button>
+      <input
+        ref={importInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={e => void importChat(e)}
+      />
+      <input
+        type="search"
+        className="px-3 py-2 rounded-md border text-sm"
+        placeholder="Search chats..."
+        value={query}
+        onChange={e => setQuery(e.target.value)}
+        aria-label="Search chats"
+      />
+      {error && (
+        <p className="text-xs text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+      <nav className="flex-1 overflow-y-auto space-y-1" aria-label="Chats">
+        {chats.length === 0 && (
+          <p className="px-2 py-4 text-xs text-muted-foreground">
+            {query ? 'No matching chats.' : 'No saved chats yet.'}
+          </p>
+        )}
+        {chats.map(chat =>
+          editing?.id === chat.id ? (
+            <form key={chat.id} onSubmit={submitRename} className="flex items-center gap-1">
+              <input
+                autoFocus
+                className="min-w-0 flex-1 px-2 py-1 rounded-md border text-sm"
+                value={editing.title}
+                onChange={e => setEditing({ id: chat.id, title: e.target.value })}
+                onKeyDown={e => e.key === 'Escape' && setEditing(undefined)}
+                aria-label="Chat title"
+              />
+              <button type="submit" className="p-1 rounded hover:bg-accent" aria-label="Save title">
+                <Check className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => setEditing(undefined)}
+                className="p-1 rounded hover:bg-accent"
+                aria-label="Cancel rename"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </form>
+          ) : (
+            <div
+              key={chat.id}
+              className={cn(
+                'group flex items-center gap-1 rounded-md pr-1 hover:bg-accent',
+                chat.id === activeChatId && 'bg-accent'
+              )}
+            >
+              <Link
+                href={`/chat/${chat.id}`}
+                className="min-w-0 flex-1 truncate px-2 py-1.5 text-sm"
+                aria-current={chat.id === activeChatId ? 'page' : undefined}
+              >
+                {chat.title}
+              </Link>
+              <button
+                type="button"
+                onClick={() => setEditing({ id: chat.id, title: chat.title })}
+                className="p-1 rounded opacity-0 group-hover:opacity-100 focus:opacity-100"
+                aria-label={`Rename ${chat.title}`}
+              >
+                <Pencil className="h-3.5 w-3.5" />
+              </button>
+              <button
+                type="button"
+                onClick={() => deleteChat(chat)}
+                className="p-1 rounded opacity-0 group-hover:opacity-100 focus:opacity-100"
+                aria-label={`Delete ${chat.title}`}
+              >
+                <Trash className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          )
+        )}
+      </nav>
+    </aside>
+  );
+};
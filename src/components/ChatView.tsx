@@ -0,0 +1,801 @@
+'use client';
+
+import { AnalysisModePicker } from '@/components/AnalysisModePicker';
+import { AnalysisTaskPicker } from '@/components/AnalysisTaskPicker';
+import { ChatExportMenu } from '@/components/ChatExportMenu';
+import { ComposerPreviewGrid } from '@/components/ComposerPreviewGrid';
+import { CUSTOM_EXTRACTION, ExtractionPicker } from '@/components/ExtractionPicker';
+import { FrameSamplingPicker } from '@/components/FrameSamplingPicker';
+import { ImageEditor } from '@/components/ImageEditor';
+import { MessagesList } from '@/components/MessagesList';
+import { ModelPicker } from '@/components/ModelPicker';
+import { PresetPicker } from '@/components/PresetPicker';
+import { QuotaIndicator } from '@/components/QuotaIndicator';
+import { MAX_IMAGES, type UploadedImage, useComposerImages } from '@/hooks/useComposerImages';
+import { loadDocumentPages, useDocumentUpload } from '@/hooks/useDocumentUpload';
+import { useImageEditing } from '@/hooks/useImageEditing';
+import { loadVideoFrames, useVideoFrames } from '@/hooks/useVideoFrames';
+import { streamImageAnalysis, toConversationHistory } from '@/lib/analysesClient';
+import { chatStore } from '@/lib/chatsClient';
+import { isDocumentFile } from '@/lib/documentsClient';
+import { isErrorWithMessage } from '@/lib/errors';
+import { readFileAsDataUrl } from '@/lib/files';
+import {
+  estimateDataUrlBytes,
+  formatBytes,
+  MAX_IMAGE_BYTES,
+  MAX_TOTAL_IMAGE_BYTES,
+  UPLOAD_IMAGE_MIME_TYPES,
+} from '@/lib/images';
+import { fetchQuota } from '@/lib/quotaClient';
+import { cn } from '@/lib/utils';
+import { isVideoFile, MAX_VIDEO_BYTES, VIDEO_MIME_TYPES } from '@/lib/videoFrames';
+import {
+  ChatMessage,
+  ChatSummary,
+  ImageAnalysisResult,
+  titleFromQuestion,
+} from '@/services/chats/schemas';
+import { MAX_DOCUMENT_BYTES } from '@/services/documents/schemas';
+import { ExtractionJsonSchemaSchema, ExtractionRequest } from '@/services/extraction/schemas';
+import { AnalysisMode, AnalysisSummary, AnalysisTask } from '@/services/openai/schemas';
+import { RateLimitStatus } from '@/services/rateLimit/schemas';
+import { ImageDown, Send, Trash } from 'lucide-react';
+import { KeyboardEvent, useCallback, useEffect, useMemo, useState } from 'react';
+import { FileRejection, useDropzone } from 'react-dropzone';
+
+/**
+ * Returns the largest size allowed for an uploaded file. Documents are rasterized by the
+ * server and videos are sampled in the browser, so both may be larger than images.
+ */
+const uploadLimit = (file: File) =>
+  isVideoFile(file) ? MAX_VIDEO_BYTES : isDocumentFile(file) ? MAX_DOCUMENT_BYTES : MAX_IMAGE_BYTES;
+
+/**
+ * Returns the image, file name, page and timestamp of a result, kept when its analysis is updated.
+ */
+const sourceOf = ({ image, fileName, page, timestamp }: ImageAnalysisResult) => ({
+  image,
+  ...(fileName && { fileName }),
+  ...(page && { page }),
+  ...(timestamp !== undefined && { timestamp }),
+});
+
+/**
+ * Props for the ChatView component.
+ */
+type ChatViewProps = {
+  /** Id of the chat to load and persist. A chat that does not exist yet is created on the first question. */
+  chatId: string;
+  /** Title set elsewhere (e.g. renamed in the sidebar), applied to the next save. */
+  title?: string;
+  /** Called after the chat has been saved. */
+  onSaved?: (chat: ChatSummary) => void;
+};
+
+export const ChatView = ({ chatId, title, onSaved }: ChatViewProps) => {
+  // Chat state
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [chat, setChat] = useState<Omit<ChatSummary, 'updatedAt'>>();
+  const [loading, setLoading] = useState(true);
+  const [saveRequested, setSaveRequested] = useState(false);
+
+  // Composer state
+  const [question, setQuestion] = useState('');
+  const [model, setModel] = useState<string>();
+  const [presetId, setPresetId] = useState<string>();
+  const [mode, setMode] = useState<AnalysisMode>('per-image');
+  const [task, setTask] = useState<AnalysisTask>('answer');
+  const [extractionChoice, setExtractionChoice] = useState('');
+  const [extractionSchema, setExtractionSchema] = useState('');
+  const [grounding, setGrounding] = useState(false);
+  const [bypassCache, setBypassCache] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [globalError, setGlobalError] = useState<string | null>(null);
+  const composer = useComposerImages(setGlobalError);
+  const {
+    images: uploadedImages,
+    setImages: setUploadedImages,
+    preparing,
+    setPreparing,
+  } = composer;
+  const documents = useDocumentUpload(composer);
+  const videos = useVideoFrames(composer);
+  const { editingItem, openEditor, closeEditor, saveEdits } = useImageEditing(composer);
+  const { frameSampling, summarizeFrames, clipTimestamps } = videos;
+  const [quota, setQuota] = useState<{ status: RateLimitStatus; receivedAt: number }>();
+
+  /**
+   * Records the latest rate limit status; undefined when rate limiting is disabled.
+   */
+  const applyQuota = useCallback((status: RateLimitStatus | undefined) => {
+    setQuota(status && { status, receivedAt: Date.now() });
+  }, []);
+
+  /**
+   * Fetches the rate limit status, e.g. after a rejected request or once a countdown ends.
+   */
+  const refreshQuota = useCallback(() => {
+    fetchQuota()
+      .then(applyQuota)
+      .catch(() => {
+        // The server still enforces the limits
+      });
+  }, [applyQuota]);
+
+  // Load the rate limit status
+  useEffect(refreshQuota, [refreshQuota]);
+
+  // The composer waits for the countdown once a limit is reached
+  const limited = (quota?.status.retryAfterMs ?? 0) > 0;
+
+  // Load the chat
+  useEffect(() => {
+    let cancelled = false;
+    chatStore
+      .getChat(chatId)
+      .then(stored => {
+        if (cancelled || !stored) return;
+        setChat({ id: stored.id, title: stored.title, createdAt: stored.createdAt });
+        setMessages(stored.messages);
+      })
+      .catch(err => {
+        if (!cancelled)
+          setGlobalError(isErrorWithMessage(err) ? err.message : 'Failed to load chat.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [chatId]);
+
+  // Apply titles set elsewhere
+  useEffect(() => {
+    if (title) setChat(prev => prev && { ...prev, title });
+  }, [title]);
+
+  // Save the chat once a question has been answered
+  useEffect(() => {
+    if (!saveRequested) return;
+    setSaveRequested(false);
+    const firstQuestion = messages.find(m => m.role === 'user')?.question ?? '';
+    const saved = {
+      id: chatId,
+      title: chat?.title ?? titleFromQuestion(firstQuestion),
+      createdAt: chat?.createdAt ?? messages[0]?.createdAt ?? Date.now(),
+      updatedAt: Date.now(),
+    };
+    setChat(saved);
+    chatStore
+      .saveChat({ ...saved, messages })
+      .then(() => onSaved?.(saved))
+      .catch(err => setGlobalError(isErrorWithMessage(err) ? err.message : 'Failed to save chat.'));
+  }, [saveRequested, messages, chat, chatId, onSaved]);
+
+  // Handle dropped images, documents and videos
+  const handleDrop = useCallback(
+    async (acceptedFiles: File[], rejectedFiles: FileRejection[]) => {
+      setGlobalError(null);
+      try {
+        // Only accept a certain number of images; documents and videos fill the free slots with
+        // their pages and frames
+        const remaining = Math.max(0, MAX_IMAGES - uploadedImages.length);
+        const files = acceptedFiles.slice(0, remaining);
+        if (acceptedFiles.length > remaining) {
+          const msg = `You can upload up to ${MAX_IMAGES} images.`;
+          setGlobalError(msg);
+          return;
+        }
+
+        // If there are rejections, show the error messages
+        if (rejectedFiles.length) {
+          const msg = rejectedFiles
+            .map(fileRejection => fileRejection.errors?.[0].message)
+            .join('\n');
+          setGlobalError(msg);
+          return;
+        }
+
+        // Create and add new uploaded images, leaving a slot for each file after a document
+        // or video
+        const newUploadedImages: UploadedImage[] = [];
+        for (const [i, file] of files.entries()) {
+          const slots = remaining - newUploadedImages.length - (files.length - i - 1);
+          if (isVideoFile(file)) {
+            setPreparing('Sampling video frames…');
+            newUploadedImages.push(...(await loadVideoFrames(file, frameSampling, slots)));
+            continue;
+          }
+          if (isDocumentFile(file)) {
+            setPreparing('Rendering document pages…');
+            newUploadedImages.push(...(await loadDocumentPages(file, slots)));
+            continue;
+          }
+          const preview = await readFileAsDataUrl(file);
+          newUploadedImages.push({ id: crypto.randomUUID(), file, preview });
+        }
+
+        setUploadedImages(prev => [...prev, ...newUploadedImages]);
+      } catch (err) {
+        setGlobalError(
+          isErrorWithMessage(err) ? err.message : 'Failed to process uploaded images.'
+        );
+      } finally {
+        setPreparing(undefined);
+      }
+    },
+    [uploadedImages.length, frameSampling, setUploadedImages, setPreparing]
+  );
+
+  // Dropzone
+  const {
+    getRootProps,
+    getInputProps,
+    isDragActive,
+    open: openFileDialog,
+  } = useDropzone({
+    onDrop: handleDrop,
+    accept: Object.fromEntries(
+      [...UPLOAD_IMAGE_MIME_TYPES, 'application/pdf', ...VIDEO_MIME_TYPES].map(type => [type, []])
+    ),
+    validator: file =>
+      file.size > uploadLimit(file)
+        ? {
+            code: 'file-too-large',
+            message: `${file.name} is larger than ${formatBytes(uploadLimit(file))}.`,
+          }
+        : null,
+    multiple: true,
+    noClick: true,
+    noKeyboard: true,
+    noDragEventsBubbling: true,
+  });
+
+  /**
+   * Determine if the composer is in a submittable state.
+   */
+  const canSubmit = useMemo(() => {
+    // Follow-up questions may omit images once the chat has earlier images
+    const hasImages =
+      uploadedImages.length > 0 || messages.some(m => m.role === 'user' && m.images.length > 0);
+    return (
+      question.trim().length > 0 && hasImages && !submitting && !preparing && !loading && !limited
+    );
+  }, [question, uploadedImages.length, messages, submitting, preparing, loading, limited]);
+
+  /**
+   * Applies an update to the results of a single assistant message.
+   *
+   * @param id - The id of the assistant message to update
+   * @param update - Maps the current results to the next results
+   * @param pending - Whether the message is still being computed after the update
+   */
+  const updateAssistantResults = (
+    id: string,
+    update: (results: ImageAnalysisResult[]) => ImageAnalysisResult[],
+    pending: boolean
+  ) => {
+    setMessages(prev =>
+      prev.map(m => {
+        if (m.role === 'assistant' && m.id === id) {
+          return { ...m, pending, results: update(m.results) };
+        }
+        return m;
+      })
+    );
+  };
+
+  /**
+   * Applies an update to the aggregate answer of a single assistant message.
+   *
+   * @param id - The id of the assistant message to update
+   * @param update - Maps the current summary to the next summary
+   */
+  const updateAssistantSummary = (
+    id: string,
+    update: (summary: AnalysisSummary | undefined) => AnalysisSummary | undefined
+  ) => {
+    setMessages(prev =>
+      prev.map(m => {
+        if (m.role === 'assistant' && m.id === id) {
+          return { ...m, summary: update(m.summary) };
+        }
+        return m;
+      })
+    );
+  };
+
+  /**
+   * Trigger the image analysis workflow.
+   */
+  const analyzeImages = async () => {
+    // Clear previous errors
+    setGlobalError(null);
+    if (!canSubmit) return;
+
+    // Get the uploaded images and where they came from
+    const images = uploadedImages.map(i => i.preview);
+    const sources = uploadedImages.map(i => ({
+      fileName: i.file.name,
+      ...(i.page && { page: i.page }),
+      ...(i.timestamp !== undefined && { timestamp: i.timestamp }),
+    }));
+
+    // Get the question
+    const q = question.trim();
+
+    // Send the earlier turns as context, with the images that fit beside the new ones
+    const history = toConversationHistory(
+      messages,
+      MAX_TOTAL_IMAGE_BYTES - images.reduce((sum, image) => sum + estimateDataUrlBytes(image), 0)
+    );
+
+    // Read the extraction template or custom JSON Schema
+    let extraction: ExtractionRequest | undefined;
+    if (extractionChoice === CUSTOM_EXTRACTION) {
+      try {
+        extraction = { schema: ExtractionJsonSchemaSchema.parse(JSON.parse(extractionSchema)) };
+      } catch {
+        setGlobalError('The extraction schema must be a JSON Schema object with "type": "object".');
+        return;
+      }
+    } else if (extractionChoice) {
+      extraction = { templateId: extractionChoice };
+    }
+
+    // Tasks other than answering only apply to new images, and not to extraction; they use
+    // their own preset
+    const requestTask = images.length > 0 && !extraction ? task : 'answer';
+    const answering = requestTask === 'answer';
+
+    // Modes other than per-image only apply to several images, and not to extraction or tasks;
+    // frames of a video are combined into a summary on request
+    const chosenMode = clipTimestamps ? (summarizeFrames ? 'combined' : 'per-image') : mode;
+    const requestMode = images.length > 1 && !extraction && answering ? chosenMode : 'per-image';
+    const aggregate = requestMode !== 'per-image';
+    const requestGrounding = grounding && images.length > 0 && !extraction && answering;
+
+    // Add a user message and an assistant message
+    const userId = crypto.randomUUID();
+    const assistantId = crypto.randomUUID();
+    const createdAt = Date.now();
+
+    try {
+      // Start submission
+      setSubmitting(true);
+
+      setMessages(prev => [
+        ...prev,
+        {
+          id: userId,
+          role: 'user',
+          question: q,
+          images,
+          ...(sources.length > 0 && { sources }),
+          createdAt,
+        },
+        {
+          id: assistantId,
+          role: 'assistant',
+          createdAt,
+          pending: true,
+          ...(model && { model }),
+          ...(!answering && { task: requestTask }),
+          ...(extraction && { extraction }),
+          ...(requestGrounding && { grounding: true }),
+          ...(aggregate && {
+            mode: requestMode,
+            summary: { text: '', citations: [], pending: true },
+          }),
+          // A follow-up without images gets a single answer
+          results: (images.length ? images : ['']).map((img, idx) => ({
+            index: idx,
+            ok: true,
+            pending: true,
+            text: '',
+            image: img,
+            ...sources[idx],
+          })),
+        },
+      ]);
+
+      // Stream the analysis, replacing each image's result and the aggregate answer as updates arrive
+      for await (const event of streamImageAnalysis({
+        question: q,
+        images,
+        model,
+        history,
+        ...(presetId && answering && { presetId }),
+        ...(!answering && { task: requestTask }),
+        ...(aggregate && { mode: requestMode }),
+        ...(aggregate && clipTimestamps && { timestamps: clipTimestamps }),
+        ...(extraction && { extraction }),
+        ...(requestGrounding && { grounding: true }),
+        ...(bypassCache && { bypassCache: true }),
+      })) {
+        if ('quota' in event) {
+          applyQuota(event.quota);
+          continue;
+        }
+        if ('summary' in event) {
+          updateAssistantSummary(assistantId, () => event.summary);
+          continue;
+        }
+        if ('usage' in event || 'preset' in event) {
+          setMessages(prev =>
+            prev.map(m => (m.role === 'assistant' && m.id === assistantId ? { ...m, ...event } : m))
+          );
+          continue;
+        }
+        updateAssistantResults(
+          assistantId,
+          results => results.map(r => (r.index === event.index ? { ...event, ...sourceOf(r) } : r)),
+          true
+        );
+      }
+
+      // Complete the aggregate answer; drop it when none arrived
+      updateAssistantSummary(assistantId, summary =>
+        summary?.text ? { ...summary, pending: false } : undefined
+      );
+
+      // Complete the assistant message; images without a final result are errors
+      updateAssistantResults(
+        assistantId,
+        results =>
+          results.map(r =>
+            r.ok && r.pending
+              ? { index: r.index, ok: false, error: 'Unexpected server error', ...sourceOf(r) }
+              : r
+          ),
+        false
+      );
+
+      // Clear composer for the next question
+      setUploadedImages([]);
+      setQuestion('');
+    } catch (err: unknown) {
+      const message = isErrorWithMessage(err) ? err.message : 'Unexpected client error';
+      setGlobalError(message);
+      refreshQuota();
+
+      // Mark the assistant message for this request as error
+      updateAssistantSummary(assistantId, () => undefined);
+      updateAssistantResults(
+        assistantId,
+        results =>
+          results.map(r => ({ index: r.index, ok: false, error: message, ...sourceOf(r) })),
+        false
+      );
+    } finally {
+      setSubmitting(false);
+      setSaveRequested(true);
+    }
+  };
+
+  /**
+   * Re-runs the analysis of a single image of an earlier answer, with the same question,
+   * model, preset, task, extraction and grounding, and the turns before it as context.
+   *
+   * @param messageId - The id of the assistant message holding the result
+   * @param index - The index of the image to analyze again
+   */
+  const retryImage = async (messageId: string, index: number) => {
+    setGlobalError(null);
+    const position = messages.findIndex(m => m.id === messageId);
+    const assistant = messages[position];
+    const user = messages[position - 1];
+    const original =
+      assistant?.role === 'assistant' ? assistant.results.find(r => r.index === index) : undefined;
+    if (!original?.image || user?.role !== 'user' || assistant.role !== 'assistant') return;
+    const { image } = original;
+    const source = sourceOf(original);
+    if (submitting || limited) return;
+
+    /**
+     * Replaces the result of the retried image.
+     */
+    const setResult = (result: ImageAnalysisResult, pending: boolean) =>
+      updateAssistantResults(
+        messageId,
+        results => results.map(r => (r.index === index ? result : r)),
+        pending
+      );
+
+    try {
+      setSubmitting(true);
+      setResult({ index, ok: true, pending: true, text: '', ...source }, true);
+
+      // The retried image is sent alone, so its result arrives as index 0
+      for await (const event of streamImageAnalysis({
+        question: user.question,
+        images: [image],
+        model: assistant.model,
+        history: toConversationHistory(
+          messages.slice(0, position - 1),
+          MAX_TOTAL_IMAGE_BYTES - estimateDataUrlBytes(image)
+        ),
+        ...(assistant.preset && { presetId: assistant.preset.id }),
+        ...(assistant.task && { task: assistant.task }),
+        ...(assistant.extraction && { extraction: assistant.extraction }),
+        ...(assistant.grounding && { grounding: true }),
+      })) {
+        if ('quota' in event) {
+          applyQuota(event.quota);
+          continue;
+        }
+        // The message keeps the usage and preset of its original request
+        if ('summary' in event || 'usage' in event || 'preset' in event || event.index !== 0) {
+          continue;
+        }
+        setResult({ ...event, index, ...source }, true);
+      }
+
+      // Complete the result; an image without a final result is an error
+      updateAssistantResults(
+        messageId,
+        results =>
+          results.map(r =>
+            r.index === index && r.ok && r.pending
+              ? { index, ok: false, error: 'Unexpected server error', ...source }
+              : r
+          ),
+        false
+      );
+    } catch (err: unknown) {
+      const message = isErrorWithMessage(err) ? err.message : 'Unexpected client error';
+      setResult({ index, ok: false, error: message, ...source }, false);
+      refreshQuota();
+    } finally {
+      setSubmitting(false);
+      setSaveRequested(true);
+    }
+  };
+
+  /**
+   * Removes a single uploaded image from the composer by its id.
+   *
+   * @param id - The id of the UploadItem to remove
+   */
+  const removeItem = (id: string) => {
+    setUploadedImages(prev => prev.filter(i => i.id !== id));
+  };
+
+  /**
+   * Clears all uploaded images from the composer and resets any global error.
+   */
+  const clearAll = () => {
+    setUploadedImages([]);
+    setGlobalError(null);
+  };
+
+  /**
+   * Handles Enter-to-submit behavior for the question input.
+   * Prevents default newline insertion when Enter is pressed without Shift and
+   * triggers analysis if the form is in a submittable state.
+   *
+   * @param e - The keyboard event from the question input
+   */
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      if (canSubmit) void analyzeImages();
+    }
+  };
+
+  // The task that applies to the images in the composer
+  const taskChosen = uploadedImages.length > 0 && !extractionChoice ? task : 'answer';
+
+  // Multi-page documents and videos in the composer, with the pages or frames shown of each
+  const pagedFiles = [...new Set(uploadedImages.map(i => i.file))].flatMap(
+    file => videos.pagingOf(file) ?? documents.pagingOf(file) ?? []
+  );
+
+  // Chat area
+  return (
+    <main className="min-w-0 flex-1 mx-auto max-w-3xl w-full h-[calc(100vh-64px)] p-4 flex flex-col">
+      {/* Export */}
+      {messages.length > 0 && (
+        <div className="flex justify-end px-4 sm:px-6">
+          <ChatExportMenu
+            chat={{
+              id: chatId,
+              title:
+                chat?.title ??
+                titleFromQuestion(messages.find(m => m.role === 'user')?.question ?? ''),
+              createdAt: chat?.createdAt ?? messages[0].createdAt,
+              updatedAt: messages.at(-1)?.createdAt ?? messages[0].createdAt,
+              messages,
+            }}
+            onError={setGlobalError}
+            disabled={submitting}
+          />
+        </div>
+      )}
+
+      {/* Messages */}
+      <MessagesList
+        messages={messages}
+        onRetry={submitting || limited ? undefined : (id, index) => void retryImage(id, index)}
+      />
+
+      {/* Global error */}
+      {globalError && (
+        <div className="px-4 sm:px-6 pb-2">
+          <p className="text-xs text-red-600" role="alert">
+            {globalError}
+          </p>
+        </div>
+      )}
+
+      {/* Composer */}
+      <div
+        {...getRootProps()}
+        className={cn(
+          'sticky bottom-0 px-4 sm:px-6 py-3 backdrop-blur supports-[backdrop-filter]:bg-background/60 border-2 border-dashed rounded-xl transition-all',
+          isDragActive
+            ? 'border-blue-600 ring-4 ring-blue-500/40 bg-blue-50/60'
+            : 'border-border bg-background/95'
+        )}
+      >
+        <ComposerPreviewGrid
+          images={uploadedImages}
+          pagedFiles={pagedFiles}
+          preparing={preparing}
+          submitting={submitting}
+          onRemove={removeItem}
+          onEdit={openEditor}
+        />
+        {editingItem && (
+          <ImageEditor
+            original={editingItem.original ?? editingItem.preview}
+            edits={editingItem.edits ?? []}
+            title={`Edit ${editingItem.file.name}`}
+            onSave={saveEdits}
+            onClose={closeEditor}
+          />
+        )}
+        {/* Dropzone */}
+        <input {...getInputProps()} />
+
+        {/* Custom extraction schema */}
+        {extractionChoice === CUSTOM_EXTRACTION && (
+          <textarea
+            className="mb-2 h-24 w-full rounded-md border px-3 py-2 font-mono text-xs"
+            placeholder='{"type": "object", "properties": {"title": {"type": "string"}}}'
+            value={extractionSchema}
+            onChange={e => setExtractionSchema(e.target.value)}
+            disabled={submitting}
+            aria-label="Extraction JSON Schema"
+          />
+        )}
+
+        {/* Remaining quota, or a countdown once a limit is reached */}
+        {quota && (
+          <div className="mb-2">
+            <QuotaIndicator
+              quota={quota.status}
+              receivedAt={quota.receivedAt}
+              onExpired={refreshQuota}
+            />
+          </div>
+        )}
+
+        {/* Composer inputs */}
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={openFileDialog}
+            className="inline-flex items-center gap-2 text-sm px-3 py-2 rounded-md border hover:bg-accent"
+            aria-label="Upload images, documents or videos"
+            title="Images, PDF and TIFF documents analyzed page by page, or videos analyzed frame by frame"
+          >
+            <ImageDown className="h-4 w-4" />
+            Upload images
+          </button>
+          <ModelPicker value={model} onChange={setModel} disabled={submitting} />
+          {/* Tasks other than answering use their own preset; the picker stays mounted so the
+              chosen preset is kept */}
+          <div hidden={taskChosen !== 'answer'}>
+            <PresetPicker value={presetId} onChange={setPresetId} disabled={submitting} />
+          </div>
+          <ExtractionPicker
+            value={extractionChoice}
+            onChange={setExtractionChoice}
+            disabled={submitting}
+          />
+          {uploadedImages.length > 0 && !extractionChoice && (
+            <AnalysisTaskPicker value={task} onChange={setTask} disabled={submitting} />
+          )}
+          {uploadedImages.some(i => i.frameTimestamps) && (
+            <FrameSamplingPicker
+              value={frameSampling}
+              onChange={sampling => void videos.changeFrameSampling(sampling)}
+              disabled={submitting || !!preparing}
+            />
+          )}
+          {uploadedImages.length > 1 &&
+            !extractionChoice &&
+            taskChosen === 'answer' &&
+            (clipTimestamps ? (
+              <label
+                className="inline-flex items-center gap-1 text-sm"
+                title="Also answer across all the frames, following what happens over time"
+              >
+                <input
+                  type="checkbox"
+                  checked={summarizeFrames}
+                  onChange={e => videos.setSummarizeFrames(e.target.checked)}
+                  disabled={submitting}
+                />
+                Summary
+              </label>
+            ) : (
+              <AnalysisModePicker value={mode} onChange={setMode} disabled={submitting} />
+            ))}
+          {uploadedImages.length > 0 && !extractionChoice && taskChosen === 'answer' && (
+            <label
+              className="inline-flex items-center gap-1 text-sm"
+              title="Outline the objects each answer refers to"
+            >
+              <input
+                type="checkbox"
+                checked={grounding}
+                onChange={e => setGrounding(e.target.checked)}
+                disabled={submitting}
+              />
+              Regions
+            </label>
+          )}
+          <label
+            className="inline-flex items-center gap-1 text-sm"
+            title="Ask the model again instead of reusing earlier answers about the same images"
+          >
+            <input
+              type="checkbox"
+              checked={bypassCache}
+              onChange={e => setBypassCache(e.target.checked)}
+              disabled={submitting}
+            />
+            Bypass cache
+          </label>
+          <input
+            type="text"
+            className="flex-1 px-3 py-2 rounded-md border text-sm"
+            placeholder="Ask a question about the images, or a follow-up..."
+            value={question}
+            onChange={e => setQuestion(e.target.value)}
+            onKeyDown={handleKeyDown}
+            aria-label="Question input"
+          />
+          <button
+            type="button"
+            onClick={analyzeImages}
+            disabled={!canSubmit}
+            className={cn(
+              'inline-flex items-center gap-2 text-sm px-3 py-2 rounded-md border bg-blue-600 text-white disabled:opacity-50',
+              canSubmit ? 'hover:bg-blue-700' : ''
+            )}
+            aria-label="Submit question"
+          >
+            <Send className="h-4 w-4" />
+            Ask
+          </button>
+          {uploadedImages.length > 0 && (
+            <button
+              type="button"
+              onClick={clearAll}
+              className="inline-flex items-center gap-2 text-sm px-3 py-2 rounded-md border hover:bg-accent"
+              aria-label="Clear all images"
+            >
+              <Trash className="h-4 w-4" />
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+};
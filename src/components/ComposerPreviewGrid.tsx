@@ -0,0 +1,116 @@
+'use client';
+
+import type { PagedFile, UploadedImage } from '@/hooks/useComposerImages';
+import { formatTimestamp } from '@/lib/videoFrames';
+import { Pencil } from 'lucide-react';
+
+/**
+ * The images in the composer, with Previous and Next buttons for long documents and videos and
+ * what is being prepared, e.g. document pages.
+ */
+export const ComposerPreviewGrid = ({
+  images,
+  pagedFiles,
+  preparing,
+  submitting,
+  onRemove,
+  onEdit,
+}: {
+  /** The uploaded images, in order. */
+  images: UploadedImage[];
+  /** The multi-page documents and videos among them. */
+  pagedFiles: PagedFile[];
+  /** What the composer is preparing, if anything. */
+  preparing?: string;
+  /** Whether a question is being answered. */
+  submitting: boolean;
+  /** Called with the id of an image to remove. */
+  onRemove: (id: string) => void;
+  /** Called with the id of an image to open in the editor. */
+  onEdit: (id: string) => void;
+}) => (
+  <>
+    {/* Paging through long documents and videos */}
+    {pagedFiles.map(({ file, label, hasPrevious, hasNext, noun, turn }) => (
+      <div
+        key={`${file.name}-${file.lastModified}`}
+        className="mt-3 flex items-center gap-2 text-xs"
+      >
+        <span className="truncate text-muted-foreground">
+          {file.name} · {label}
+        </span>
+        <button
+          type="button"
+          onClick={() => void turn(-1)}
+          disabled={!hasPrevious || !!preparing || submitting}
+          className="rounded border px-2 py-0.5 hover:bg-accent disabled:opacity-50"
+          aria-label={`Previous ${noun} of ${file.name}`}
+        >
+          Previous
+        </button>
+        <button
+          type="button"
+          onClick={() => void turn(1)}
+          disabled={!hasNext || !!preparing || submitting}
+          className="rounded border px-2 py-0.5 hover:bg-accent disabled:opacity-50"
+          aria-label={`Next ${noun} of ${file.name}`}
+        >
+          Next {noun}
+        </button>
+      </div>
+    ))}
+    {preparing && (
+      <p className="mt-3 text-xs text-muted-foreground" role="status">
+        {preparing}
+      </p>
+    )}
+    {images.length > 0 && (
+      <div className="my-3 grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {images.map(item => (
+          <div key={item.id} className="relative group">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img
+              src={item.preview}
+              alt={
+                item.page
+                  ? `${item.file.name} page ${item.page}`
+                  : item.timestamp !== undefined
+                    ? `${item.file.name} at ${formatTimestamp(item.timestamp)}`
+                    : 'preview'
+              }
+              className="h-24 w-full object-cover rounded-md border"
+            />
+            {item.edits && (
+              <span className="absolute top-1 left-1 rounded bg-black/60 px-1.5 text-[10px] text-white">
+                Edited
+              </span>
+            )}
+            {(item.page || item.timestamp !== undefined) && (
+              <span className="absolute bottom-1 left-1 rounded bg-black/60 px-1.5 text-[10px] text-white">
+                {item.page ? `p.${item.page}` : formatTimestamp(item.timestamp ?? 0)}
+              </span>
+            )}
+            <button
+              type="button"
+              onClick={() => onRemove(item.id)}
+              className="absolute top-1 right-1 text-[10px] px-2 py-1 rounded bg-black/60 text-white opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+              aria-label="Remove image"
+            >
+              Remove
+            </button>
+            <button
+              type="button"
+              onClick={() => onEdit(item.id)}
+              disabled={submitting}
+              className="absolute bottom-1 right-1 inline-flex items-center gap-1 text-[10px] px-2 py-1 rounded bg-black/60 text-white opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+              aria-label="Edit image"
+            >
+              <Pencil className="h-3 w-3" />
+              Edit
+            </button>
+          </div>
+        ))}
+      </div>
+    )}
+  </>
+);
@@ -0,0 +1,45 @@
+'use client';
+
+import { Check, Copy } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+/**
+ * Button copying text to the clipboard, confirming the copy for a moment.
+ */
+export const CopyButton = ({
+  text,
+  label,
+}: {
+  /** The text to copy. */
+  text: string;
+  /** Accessible name of the button, e.g. "Copy alt text of image 1". */
+  label: string;
+}) => {
+  const [copied, setCopied] = useState(false);
+
+  // Reset the confirmation after a moment
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), 1500);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  return (
+    <button
+      type="button"
+      onClick={() =>
+        navigator.clipboard.writeText(text).then(
+          () => setCopied(true),
+          () => {
+            // Clipboard access denied; the text stays selectable
+          }
+        )
+      }
+      className="inline-flex shrink-0 items-center gap-1 rounded-md border px-2 py-0.5 text-xs hover:bg-accent"
+      aria-label={label}
+    >
+      {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+      {copied ? 'Copied' : 'Copy'}
+    </button>
+  );
+};
@@ -0,0 +1,41 @@
+'use client';
+
+import { EXTRACTION_TEMPLATES } from '@/services/extraction/templates';
+
+/**
+ * Value of the extraction picker for a custom JSON Schema.
+ */
+export const CUSTOM_EXTRACTION = 'custom';
+
+/**
+ * Select for extracting structured fields instead of answering in text: none (the empty value),
+ * a saved template id, or CUSTOM_EXTRACTION for a JSON Schema written in the composer.
+ */
+export const ExtractionPicker = ({
+  value,
+  onChange,
+  disabled,
+}: {
+  /** The selected template id, CUSTOM_EXTRACTION, or empty for no extraction. */
+  value: string;
+  /** Called with the new value when the selection changes. */
+  onChange: (value: string) => void;
+  /** Disables the select, e.g. while a request is in flight. */
+  disabled?: boolean;
+}) => (
+  <select
+    value={value}
+    onChange={e => onChange(e.target.value)}
+    disabled={disabled}
+    className="bg-background max-w-40 rounded-md border px-2 py-2 text-sm"
+    aria-label="Extraction"
+  >
+    <option value="">Answer in text</option>
+    {EXTRACTION_TEMPLATES.map(template => (
+      <option key={template.id} value={template.id} title={template.description}>
+        Extract: {template.name}
+      </option>
+    ))}
+    <option value={CUSTOM_EXTRACTION}>Extract: custom JSON Schema…</option>
+  </select>
+);
@@ -0,0 +1,168 @@
+'use client';
+
+import { ResultError } from '@/components/ResultError';
+import { toCsv } from '@/lib/csv';
+import { downloadFile } from '@/lib/files';
+import { type ImageAnalysisResult } from '@/services/chats/schemas';
+import { Download } from 'lucide-react';
+
+/**
+ * Formats an extracted value for a table cell: strings as-is, missing values as a dash and
+ * anything else as JSON.
+ */
+const formatCell = (value: unknown) =>
+  value === null || value === undefined
+    ? '—'
+    : typeof value === 'string'
+      ? value
+      : JSON.stringify(value);
+
+/**
+ * Lists the problems with a result: its error, or the fields that failed validation.
+ */
+const describeIssues = (result: ImageAnalysisResult) => {
+  if (!result.ok) return [result.error];
+  if (result.pending) return [];
+  return (result.validationErrors ?? []).map(({ path, message }) => `${path || 'data'} ${message}`);
+};
+
+/**
+ * Returns the data extracted from an image, or an empty object when there is none.
+ */
+const dataOf = (result: ImageAnalysisResult) => (result.ok && !result.pending && result.data) || {};
+
+/**
+ * Renders the data extracted from each image as a table, one row per image and one column per
+ * top-level field, with the validation issues or error of each row and CSV and JSON export.
+ */
+export const ExtractionTable = ({
+  messageId,
+  results,
+  onRetry,
+}: {
+  /** Id of the assistant message, used to build the row anchors and file names. */
+  messageId: string;
+  /** The per-image results holding the extracted data. */
+  results: ImageAnalysisResult[];
+  /** Re-runs the analysis of the image at the given index; failed rows offer it when set. */
+  onRetry?: (index: number) => void;
+}) => {
+  // Columns are the union of the fields extracted from every image
+  const columns = [...new Set(results.flatMap(r => Object.keys(dataOf(r))))];
+
+  /**
+   * Downloads the table as CSV, with nested values as JSON.
+   */
+  const exportCsv = () =>
+    downloadFile(
+      `extraction-${messageId}.csv`,
+      toCsv(
+        ['image', ...columns, 'issues'],
+        results.map(r => [
+          r.index + 1,
+          ...columns.map(column => dataOf(r)[column]),
+          describeIssues(r).join('; '),
+        ])
+      ),
+      'text/csv'
+    );
+
+  /**
+   * Downloads the extracted data as JSON, one entry per image.
+   */
+  const exportJson = () =>
+    downloadFile(
+      `extraction-${messageId}.json`,
+      JSON.stringify(
+        results.map(r =>
+          r.ok && !r.pending
+            ? {
+                image: r.index + 1,
+                data: r.data ?? null,
+                validationErrors: r.validationErrors ?? [],
+              }
+            : { image: r.index + 1, error: describeIssues(r).join('; ') }
+        ),
+        null,
+        2
+      ),
+      'application/json'
+    );
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto rounded-md border bg-background">
+        <table className="w-full text-left text-sm">
+          <thead className="border-b text-xs text-muted-foreground">
+            <tr>
+              <th className="px-2 py-1 font-medium">Image</th>
+              {columns.map(column => (
+                <th key={column} className="px-2 py-1 font-medium">
+                  {column}
+                </th>
+              ))}
+              <th className="px-2 py-1 font-medium">Issues</th>
+            </tr>
+          </thead>
+          <tbody>
+            {results.map(r => {
+              const issues = describeIssues(r);
+              return (
+                <tr
+                  key={r.index}
+                  id={`${messageId}-image-${r.index}`}
+                  className="border-b align-top last:border-0 target:bg-blue-500/10"
+                >
+                  <td className="px-2 py-1">
+                    {r.image ? (
+                      // eslint-disable-next-line @next/next/no-img-element
+                      <img
+                        src={r.image}
+                        alt={`Image ${r.index + 1}`}
+                        className="h-10 w-10 rounded object-cover border"
+                      />
+                    ) : (
+                      r.index + 1
+                    )}
+                  </td>
+                  {columns.map(column => (
+                    <td key={column} className="px-2 py-1 break-words">
+                      {formatCell(dataOf(r)[column])}
+                    </td>
+                  ))}
+                  <td className="px-2 py-1 text-xs text-red-600">
+                    {r.ok ? (
+                      issues.map((issue, i) => <p key={i}>{issue}</p>)
+                    ) : (
+                      <ResultError result={r} onRetry={onRetry && (() => onRetry(r.index))} />
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={exportCsv}
+          className="inline-flex items-center gap-1 rounded-md border px-2 py-1 text-xs hover:bg-accent"
+          aria-label="Export extracted data as CSV"
+        >
+          <Download className="h-3 w-3" />
+          CSV
+        </button>
+        <button
+          type="button"
+          onClick={exportJson}
+          className="inline-flex items-center gap-1 rounded-md border px-2 py-1 text-xs hover:bg-accent"
+          aria-label="Export extracted data as JSON"
+        >
+          <Download className="h-3 w-3" />
+          JSON
+        </button>
+      </div>
+    </div>
+  );
+};
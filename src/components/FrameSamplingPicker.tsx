@@ -0,0 +1,62 @@
+'use client';
+
+import { type FrameSampling } from '@/lib/videoFrames';
+
+/**
+ * The sampling strategies offered, by option value.
+ */
+const FRAME_SAMPLING_OPTIONS: Record<string, { label: string; sampling: FrameSampling }> = {
+  'interval-1': { label: 'Every second', sampling: { strategy: 'interval', seconds: 1 } },
+  'interval-5': { label: 'Every 5 s', sampling: { strategy: 'interval', seconds: 5 } },
+  'interval-10': { label: 'Every 10 s', sampling: { strategy: 'interval', seconds: 10 } },
+  'interval-30': { label: 'Every 30 s', sampling: { strategy: 'interval', seconds: 30 } },
+  'scene-change': { label: 'Scene changes', sampling: { strategy: 'scene-change' } },
+  'count-4': { label: '4 frames', sampling: { strategy: 'count', count: 4 } },
+  'count-8': { label: '8 frames', sampling: { strategy: 'count', count: 8 } },
+  'count-16': { label: '16 frames', sampling: { strategy: 'count', count: 16 } },
+};
+
+/**
+ * Returns the option value of a sampling strategy.
+ */
+const optionValue = (sampling: FrameSampling) => {
+  switch (sampling.strategy) {
+    case 'interval':
+      return `interval-${sampling.seconds}`;
+    case 'count':
+      return `count-${sampling.count}`;
+    default:
+      return sampling.strategy;
+  }
+};
+
+/**
+ * Select for choosing how frames are sampled from videos: every N seconds, at scene changes or
+ * a fixed number of evenly spaced frames.
+ */
+export const FrameSamplingPicker = ({
+  value,
+  onChange,
+  disabled,
+}: {
+  /** The selected strategy. */
+  value: FrameSampling;
+  /** Called with the strategy when the selection changes. */
+  onChange: (sampling: FrameSampling) => void;
+  /** Disables the select, e.g. while frames are being sampled. */
+  disabled?: boolean;
+}) => (
+  <select
+    value={optionValue(value)}
+    onChange={e => onChange(FRAME_SAMPLING_OPTIONS[e.target.value].sampling)}
+    disabled={disabled}
+    className="bg-background max-w-36 rounded-md border px-2 py-2 text-sm"
+    aria-label="Frame sampling"
+  >
+    {Object.entries(FRAME_SAMPLING_OPTIONS).map(([option, { label }]) => (
+      <option key={option} value={option}>
+        {label}
+      </option>
+    ))}
+  </select>
+);
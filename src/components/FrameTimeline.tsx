@@ -0,0 +1,41 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import { formatTimestamp } from '@/lib/videoFrames';
+import { type ImageAnalysisResult } from '@/services/chats/schemas';
+
+/**
+ * Strip of the video frames of an answer in time order, each linking to its answer.
+ */
+export const FrameTimeline = ({
+  messageId,
+  results,
+}: {
+  /** Id of the assistant message, used to build the answer anchors. */
+  messageId: string;
+  /** The per-image results; those without a timestamp are left out. */
+  results: ImageAnalysisResult[];
+}) => {
+  const frames = results
+    .filter(result => result.timestamp !== undefined)
+    .sort((a, b) => (a.timestamp ?? 0) - (b.timestamp ?? 0));
+  return (
+    <nav className="mb-3 flex gap-2 overflow-x-auto pb-1" aria-label="Video timeline">
+      {frames.map(frame => (
+        <a
+          key={frame.index}
+          href={`#${messageId}-image-${frame.index}`}
+          className="shrink-0 rounded-md text-center text-[11px] text-muted-foreground hover:text-foreground"
+        >
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img
+            src={frame.image}
+            alt=""
+            className={cn('h-12 w-20 rounded-md border object-cover', !frame.ok && 'opacity-50')}
+          />
+          {formatTimestamp(frame.timestamp ?? 0)}
+        </a>
+      ))}
+    </nav>
+  );
+};
@@ -1,9 +1,23 @@
 'use client';
 
+import { useSession } from '@/components/SessionProvider';
 import { ThemeToggle } from '@/components/ThemeToggle';
+import { signOut } from '@/lib/authClient';
 import { Glasses } from 'lucide-react';
+import Link from 'next/link';
 
 export const Header = () => {
+  const session = useSession();
+  const user = session?.user;
+
+  /**
+   * Signs out and returns to the login page.
+   */
+  const handleSignOut = async () => {
+    await signOut();
+    window.location.assign('/login');
+  };
+
   return (
     <header className="border-b bg-background/80 backdrop-blur supports-[backdrop-filter]:bg-background/60">
       <div className="mx-auto max-w-3xl w-full px-4 sm:px-6 py-4 flex items-center gap-3 justify-between">
@@ -11,7 +25,33 @@ export const Header = () => {
           <Glasses />
           <span className="text-xl font-semibold">Vision Chat</span>
         </div>
-        <ThemeToggle />
+        <nav className="flex items-center gap-4 text-sm">
+          <Link href="/" className="hover:underline">
+            Chat
+          </Link>
+          <Link href="/batches" className="hover:underline">
+            Batch
+          </Link>
+          <Link href="/usage" className="hover:underline">
+            Usage
+          </Link>
+          {user?.role === 'admin' && (
+            <Link href="/admin" className="hover:underline">
+              Admin
+            </Link>
+          )}
+          {user && (
+            <>
+              <span className="text-muted-foreground max-w-32 truncate" title={user.email}>
+                {user.name}
+              </span>
+              <button type="button" onClick={handleSignOut} className="hover:underline">
+                Sign out
+              </button>
+            </>
+          )}
+          <ThemeToggle />
+        </nav>
       </div>
     </header>
   );
@@ -0,0 +1,295 @@
+'use client';
+
+import {
+  applyImageEdits,
+  boxFromPoints,
+  type EditBox,
+  type EditPoint,
+  type ImageEdit,
+  uneditableImageMessage,
+} from '@/lib/imageEdits';
+import { estimateDataUrlBytes, formatBytes, MAX_IMAGE_BYTES } from '@/lib/images';
+import { Loader2, RotateCw, Undo2, X } from 'lucide-react';
+import { type PointerEvent, useEffect, useRef, useState } from 'react';
+
+/**
+ * The edits made by dragging over the image.
+ */
+type DragTool = 'crop' | 'blur' | 'redact' | 'box' | 'arrow';
+
+/**
+ * The drag tools offered, in order.
+ */
+const DRAG_TOOLS: { tool: DragTool; label: string }[] = [
+  { tool: 'crop', label: 'Crop' },
+  { tool: 'blur', label: 'Blur' },
+  { tool: 'redact', label: 'Redact' },
+  { tool: 'box', label: 'Box' },
+  { tool: 'arrow', label: 'Arrow' },
+];
+
+/**
+ * Smallest drag, as a fraction of the image, that makes an edit; shorter drags are clicks.
+ */
+const MIN_DRAG = 0.01;
+
+/**
+ * Builds the edit made by a drag, or undefined when the drag was too short.
+ */
+const dragEdit = (tool: DragTool, from: EditPoint, to: EditPoint): ImageEdit | undefined => {
+  if (tool === 'arrow') {
+    return Math.hypot(to.x - from.x, to.y - from.y) < MIN_DRAG
+      ? undefined
+      : { type: tool, from, to };
+  }
+  const box = boxFromPoints(from, to);
+  return box.width < MIN_DRAG || box.height < MIN_DRAG ? undefined : { type: tool, box };
+};
+
+/**
+ * Dashed outline of the region being dragged, in percentages of the image.
+ */
+const DragOutline = ({ box }: { box: EditBox }) => (
+  <rect
+    x={box.x * 100}
+    y={box.y * 100}
+    width={box.width * 100}
+    height={box.height * 100}
+    fill="none"
+    stroke="#f59e0b"
+    strokeWidth={2}
+    strokeDasharray="6 4"
+    vectorEffect="non-scaling-stroke"
+  />
+);
+
+/**
+ * Edits an image in a dialog before it is sent: crop, rotate, blur or redact regions and draw
+ * boxes or arrows. Edits are replayed on the original, so they can be undone one by one or all
+ * at once. Closes without saving on Escape or a click outside the image. Edits that make the
+ * image larger than MAX_IMAGE_BYTES cannot be applied.
+ */
+export const ImageEditor = ({
+  original,
+  edits: initialEdits,
+  title,
+  onSave,
+  onClose,
+}: {
+  /** Data URL of the image as uploaded. */
+  original: string;
+  /** The edits made so far. */
+  edits: ImageEdit[];
+  /** Accessible name of the dialog, e.g. "Edit photo.png". */
+  title: string;
+  /** Called with the edits and the edited image when they are applied. */
+  onSave: (edits: ImageEdit[], preview: string) => void;
+  /** Called when the editor is dismissed. */
+  onClose: () => void;
+}) => {
+  const [edits, setEdits] = useState(initialEdits);
+  const [preview, setPreview] = useState<string>();
+  const [error, setError] = useState<string>();
+  const [tool, setTool] = useState<DragTool>('crop');
+  const [drag, setDrag] = useState<{ from: EditPoint; to: EditPoint }>();
+  const imageRef = useRef<HTMLImageElement>(null);
+
+  // Re-render the image whenever the edits change
+  useEffect(() => {
+    let cancelled = false;
+    setPreview(undefined);
+    setError(undefined);
+    applyImageEdits(original, edits)
+      .then(image => !cancelled && setPreview(image))
+      .catch((e: Error) => !cancelled && setError(e.message));
+    return () => {
+      cancelled = true;
+    };
+  }, [original, edits]);
+
+  // Close on Escape, undo on Ctrl+Z
+  useEffect(() => {
+    const handleKeyDown = (e: globalThis.KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      if (e.key === 'z' && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault();
+        setEdits(prev => prev.slice(0, -1));
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // Edited images must still fit the upload limit
+  const tooLarge =
+    preview !== undefined && edits.length > 0 && estimateDataUrlBytes(preview) > MAX_IMAGE_BYTES;
+
+  /**
+   * Converts a pointer position to coordinates normalized to the displayed image.
+   */
+  const pointAt = (e: PointerEvent) => {
+    const rect = imageRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  /**
+   * Starts a drag over the image.
+   */
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    if (!preview) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = pointAt(e);
+    setDrag({ from: point, to: point });
+  };
+
+  /**
+   * Ends a drag, adding its edit.
+   */
+  const handlePointerUp = () => {
+    if (!drag) return;
+    const edit = dragEdit(tool, drag.from, drag.to);
+    if (edit) setEdits(prev => [...prev, edit]);
+    setDrag(undefined);
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label={title}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="flex max-h-full max-w-full flex-col gap-2 rounded-lg bg-background p-3"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm font-medium">{title}</p>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded p-1 hover:bg-accent"
+            aria-label="Close image editor"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+        <div className="flex flex-wrap items-center gap-1 text-xs">
+          {DRAG_TOOLS.map(({ tool: option, label }) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setTool(option)}
+              className={`rounded-md border px-2 py-1 hover:bg-accent ${
+                tool === option ? 'bg-accent font-medium' : ''
+              }`}
+              aria-pressed={tool === option}
+            >
+              {label}
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={() => setEdits(prev => [...prev, { type: 'rotate', quarterTurns: 1 }])}
+            className="inline-flex items-center gap-1 rounded-md border px-2 py-1 hover:bg-accent"
+          >
+            <RotateCw className="h-3 w-3" />
+            Rotate
+          </button>
+          <button
+            type="button"
+            onClick={() => setEdits(prev => prev.slice(0, -1))}
+            disabled={edits.length === 0}
+            className="inline-flex items-center gap-1 rounded-md border px-2 py-1 hover:bg-accent disabled:opacity-50"
+          >
+            <Undo2 className="h-3 w-3" />
+            Undo
+          </button>
+          <button
+            type="button"
+            onClick={() => setEdits([])}
+            disabled={edits.length === 0}
+            className="rounded-md border px-2 py-1 hover:bg-accent disabled:opacity-50"
+          >
+            Reset
+          </button>
+        </div>
+        <div className="relative flex min-h-32 min-w-32 items-center justify-center self-center">
+          {error ? (
+            <p className="text-sm text-destructive" role="alert">
+              {error}
+            </p>
+          ) : preview ? (
+            <div
+              className="relative cursor-crosshair touch-none select-none"
+              onPointerDown={handlePointerDown}
+              onPointerMove={e => drag && setDrag({ ...drag, to: pointAt(e) })}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={() => setDrag(undefined)}
+            >
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                ref={imageRef}
+                src={preview}
+                alt={title}
+                draggable={false}
+                className="block max-h-[65vh] max-w-full"
+                onError={() => setError(uneditableImageMessage(original))}
+              />
+              {drag && (
+                <svg
+                  viewBox="0 0 100 100"
+                  preserveAspectRatio="none"
+                  className="pointer-events-none absolute inset-0 h-full w-full"
+                >
+                  {tool === 'arrow' ? (
+                    <line
+                      x1={drag.from.x * 100}
+                      y1={drag.from.y * 100}
+                      x2={drag.to.x * 100}
+                      y2={drag.to.y * 100}
+                      stroke="#f59e0b"
+                      strokeWidth={2}
+                      vectorEffect="non-scaling-stroke"
+                    />
+                  ) : (
+                    <DragOutline box={boxFromPoints(drag.from, drag.to)} />
+                  )}
+                </svg>
+              )}
+            </div>
+          ) : (
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          )}
+        </div>
+        {tooLarge && (
+          <p className="text-xs text-destructive" role="alert">
+            The edited image is larger than {formatBytes(MAX_IMAGE_BYTES)}. Crop it or undo edits to
+            make it smaller.
+          </p>
+        )}
+        <div className="flex justify-end gap-2 text-sm">
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-md border px-3 py-1.5 hover:bg-accent"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => preview && !tooLarge && onSave(edits, preview)}
+            disabled={!preview || !!error || tooLarge}
+            className="rounded-md bg-primary px-3 py-1.5 text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
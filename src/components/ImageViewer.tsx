@@ -0,0 +1,99 @@
+'use client';
+
+import { RegionOverlay } from '@/components/RegionOverlay';
+import { type GroundingRegion } from '@/services/openai/schemas';
+import { X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+/**
+ * Shows an enlarged image in a dialog, with its labelled regions drawn as overlays that can be
+ * toggled all at once or one by one. Closes on Escape or a click outside the image.
+ */
+export const ImageViewer = ({
+  image,
+  title,
+  regions = [],
+  onClose,
+}: {
+  /** Data URL of the image. */
+  image: string;
+  /** Accessible name of the dialog, e.g. "Image 2". */
+  title: string;
+  /** The regions the answer refers to. */
+  regions?: GroundingRegion[];
+  /** Called when the viewer is dismissed. */
+  onClose: () => void;
+}) => {
+  const [hidden, setHidden] = useState<Set<number>>(new Set());
+  const visible = regions.filter((_, i) => !hidden.has(i));
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: globalThis.KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  /**
+   * Shows or hides a single region.
+   */
+  const toggleRegion = (index: number) =>
+    setHidden(prev => {
+      const next = new Set(prev);
+      if (!next.delete(index)) next.add(index);
+      return next;
+    });
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label={title}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="flex max-h-full max-w-full flex-col gap-2 rounded-lg bg-background p-3"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm font-medium">{title}</p>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded p-1 hover:bg-accent"
+            aria-label="Close image viewer"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+        <div className="relative self-center">
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img src={image} alt={title} className="block max-h-[70vh] max-w-full" />
+          <RegionOverlay regions={visible} showLabels />
+        </div>
+        {regions.length > 0 && (
+          <div className="flex max-w-2xl flex-wrap items-center gap-1 text-xs">
+            <button
+              type="button"
+              onClick={() =>
+                setHidden(visible.length ? new Set(regions.map((_, i) => i)) : new Set())
+              }
+              className="rounded-md border px-2 py-1 hover:bg-accent"
+            >
+              {visible.length ? 'Hide regions' : 'Show regions'}
+            </button>
+            {regions.map((region, i) => (
+              <label key={i} className="inline-flex items-center gap-1 rounded-md border px-2 py-1">
+                <input type="checkbox" checked={!hidden.has(i)} onChange={() => toggleRegion(i)} />
+                {region.label}
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
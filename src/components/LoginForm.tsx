@@ -0,0 +1,120 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { signInAsDeveloper, signInWithCredentials } from '@/lib/authClient';
+import { isErrorWithMessage } from '@/lib/errors';
+import type { AuthProviderOption } from '@/services/auth/schemas';
+import { FormEvent, useState } from 'react';
+
+/**
+ * Sign-in options for every enabled provider: an email and password form, a single sign-on
+ * button and a dev stub button.
+ */
+export const LoginForm = ({
+  providers,
+  returnTo,
+  initialError,
+}: {
+  /** The enabled ways of signing in. */
+  providers: AuthProviderOption[];
+  /** Page to go to after signing in. */
+  returnTo: string;
+  /** Error to show on arrival, e.g. after a failed single sign-on. */
+  initialError?: string;
+}) => {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState(initialError);
+
+  /**
+   * Runs a sign-in and goes to the requested page once it succeeds.
+   */
+  const signIn = async (attempt: () => Promise<unknown>) => {
+    setPending(true);
+    setError(undefined);
+    try {
+      await attempt();
+      // Reload so the session reaches every server component
+      window.location.assign(returnTo);
+    } catch (error: unknown) {
+      setError(isErrorWithMessage(error) ? error.message : 'Signing in failed.');
+      setPending(false);
+    }
+  };
+
+  /**
+   * Signs in with the email and password.
+   */
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    void signIn(() => signInWithCredentials(email, password));
+  };
+
+  return (
+    <Card className="w-full max-w-sm">
+      <CardHeader>
+        <CardTitle>Sign in to Vision Chat</CardTitle>
+        <CardDescription>Your chats, settings and quota are kept per user.</CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        {providers.map(provider => {
+          switch (provider.id) {
+            case 'credentials':
+              return (
+                <form key={provider.id} onSubmit={handleSubmit} className="flex flex-col gap-2">
+                  <Input
+                    type="email"
+                    value={email}
+                    onChange={e => setEmail(e.target.value)}
+                    placeholder="Email"
+                    autoComplete="email"
+                    aria-label="Email"
+                    required
+                  />
+                  <Input
+                    type="password"
+                    value={password}
+                    onChange={e => setPassword(e.target.value)}
+                    placeholder="Password"
+                    autoComplete="current-password"
+                    aria-label="Password"
+                    required
+                  />
+                  <Button type="submit" disabled={pending}>
+                    {provider.label}
+                  </Button>
+                </form>
+              );
+            case 'oidc':
+              return (
+                <Button key={provider.id} variant="outline" disabled={pending} asChild>
+                  <a href={`/api/auth/oidc?returnTo=${encodeURIComponent(returnTo)}`}>
+                    {provider.label}
+                  </a>
+                </Button>
+              );
+            case 'dev':
+              return (
+                <Button
+                  key={provider.id}
+                  variant="secondary"
+                  disabled={pending}
+                  onClick={() => void signIn(signInAsDeveloper)}
+                >
+                  {provider.label}
+                </Button>
+              );
+          }
+        })}
+        {error && (
+          <p className="text-destructive text-sm" role="alert">
+            {error}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,49 +1,164 @@
 'use client';
 
-import { type ImageAnalysisResponseItem } from '@/services/openai/analyzeImages';
-import { useEffect, useRef } from 'react';
+import { AltTextCard } from '@/components/AltTextCard';
+import { AltTextExport } from '@/components/AltTextExport';
+import { ExtractionTable } from '@/components/ExtractionTable';
+import { FrameTimeline } from '@/components/FrameTimeline';
+import { ImageViewer } from '@/components/ImageViewer';
+import { RegionOverlay } from '@/components/RegionOverlay';
+import { ResultError } from '@/components/ResultError';
+import { TranscriptionCard } from '@/components/TranscriptionCard';
+import { formatBytes } from '@/lib/images';
+import { formatImageSource } from '@/lib/imageSources';
+import { formatTimestamp } from '@/lib/videoFrames';
+import {
+  type ChatMessage,
+  type ImageAnalysisResult,
+  type ImageSource,
+} from '@/services/chats/schemas';
+import { type ImagePreprocessing } from '@/services/images/schemas';
+import {
+  type AnalysisMode,
+  type AnalysisSummary,
+  type GroundingRegion,
+} from '@/services/openai/schemas';
+import { type AnalysisUsage, formatCost } from '@/services/usage/schemas';
+import { useEffect, useRef, useState } from 'react';
 
 /**
- * Result of analyzing a single image.
+ * Summarizes how an image was normalized before analysis, e.g.
+ * "Sent as 1024×768 JPEG · 4.2 MB → 310.5 KB · ~765 tokens (saved 340)".
  */
-export type ImageAnalysisResult = ImageAnalysisResponseItem & {
-  /** Data URL for the image preview that was analyzed. */
-  image: string;
+const describePreprocessing = (preprocessing: ImagePreprocessing) => {
+  const { width, height, mediaType, originalBytes, bytes, originalTokens, tokens } = preprocessing;
+  const format = mediaType.replace('image/', '').toUpperCase();
+  const saved = Math.max(0, originalTokens - tokens);
+  return `Sent as ${width}×${height} ${format} · ${formatBytes(originalBytes)} → ${formatBytes(bytes)} · ~${tokens} tokens (saved ${saved})`;
 };
 
 /**
- * A chat message in the conversation.
- * Union of:
- * - User message: the question text with up to 4 image data URLs provided by the user.
- * - Assistant message: per-image analysis results returned by the model/service.
+ * Summarizes the model usage of an answer, e.g.
+ * "gpt-4o-mini · 1,234 tokens (1,100 in, 134 out) · 2.4 s · ~$0.00025".
  */
-export type ChatMessage =
-  | {
-      /** Unique id. */
-      id: string;
-      /** Role is 'user' for user messages. */
-      role: 'user';
-      /** The question the user asked about the images. */
-      question: string;
-      /** Array of data URLs for previewing the uploaded images (max 4 enforced elsewhere). */
-      images: string[];
-      /** Timestamp for sorting/display. */
-      createdAt: number;
-    }
-  | {
-      /** Unique id. */
-      id: string;
-      /** Role is 'assistant' for assistant messages. */
-      role: 'assistant';
-      /** One per input image, preserving order via the index field on each result. */
-      results: ImageAnalysisResult[];
-      /** Timestamp for sorting/display. */
-      createdAt: number;
-      /** When true, indicates the assistant response is still being computed. */
-      pending?: boolean;
-    };
+const describeUsage = (usage: AnalysisUsage) => {
+  const model = usage.model.slice(usage.model.indexOf(':') + 1);
+  const tokens = `${usage.totalTokens.toLocaleString()} tokens (${usage.inputTokens.toLocaleString()} in, ${usage.outputTokens.toLocaleString()} out)`;
+  const latency = `${(usage.latencyMs / 1000).toFixed(1)} s`;
+  const cost =
+    usage.estimatedCostUsd !== undefined ? ` · ~${formatCost(usage.estimatedCostUsd)}` : '';
+  return `${model} · ${tokens} · ${latency}${cost}`;
+};
+
+/**
+ * Heading for the aggregate answer of each mode.
+ */
+const SUMMARY_HEADINGS: Record<AnalysisMode, string> = {
+  'per-image': 'Answer',
+  comparative: 'Comparison',
+  combined: 'Combined answer',
+};
+
+/**
+ * Renders an aggregate answer, turning "[Image N]" citations into links to the cited thumbnails,
+ * labelled by timestamp for video frames.
+ */
+const SummaryText = ({
+  messageId,
+  summary,
+  results,
+}: {
+  /** Id of the assistant message, used to build the thumbnail anchors. */
+  messageId: string;
+  /** The aggregate answer. */
+  summary: AnalysisSummary;
+  /** The per-image results holding the thumbnails. */
+  results: ImageAnalysisResult[];
+}) => {
+  const parts = summary.text.split(/(\[Image \d+\])/);
+  return (
+    <p className="text-sm whitespace-pre-wrap" aria-busy={summary.pending || undefined}>
+      {parts.map((part, i) => {
+        const index = Number(/^\[Image (\d+)\]$/.exec(part)?.[1]) - 1;
+        const cited = results.find(r => r.index === index);
+        if (!cited?.image) return part;
+        return (
+          <a
+            key={i}
+            href={`#${messageId}-image-${index}`}
+            className="inline-flex items-center gap-1 rounded border bg-background px-1 align-middle text-xs hover:bg-accent"
+          >
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={cited.image} alt="" className="h-4 w-4 rounded-sm object-cover" />
+            {cited.timestamp !== undefined
+              ? formatTimestamp(cited.timestamp)
+              : `Image ${index + 1}`}
+          </a>
+        );
+      })}
+      {summary.pending && <span className="ml-0.5 inline-block animate-pulse">▍</span>}
+    </p>
+  );
+};
+
+/**
+ * Returns the short label of a document page or video frame, e.g. "p.3" or "0:12".
+ */
+const sourceBadge = ({ page, timestamp }: Partial<ImageSource>) =>
+  page ? `p.${page}` : timestamp !== undefined ? formatTimestamp(timestamp) : undefined;
+
+/**
+ * Groups the images of a user message so the pages of each document and the frames of each
+ * video sit together under its name; other images form groups without a name.
+ */
+const groupBySource = (images: string[], sources: ImageSource[] = []) =>
+  images.reduce<{ fileName?: string; images: { image: string; badge?: string }[] }[]>(
+    (groups, image, i) => {
+      const badge = sourceBadge(sources[i] ?? {});
+      const fileName = badge ? sources[i]?.fileName : undefined;
+      const last = groups.at(-1);
+      if (last && last.fileName === fileName) {
+        last.images.push({ image, badge });
+      } else {
+        groups.push({ fileName, images: [{ image, badge }] });
+      }
+      return groups;
+    },
+    []
+  );
+
+/**
+ * Labels a result by its file and page or timestamp, e.g. "report.pdf p.3" or
+ * "clip.mp4 @ 0:12"; results of plain images are labelled by position.
+ */
+const resultTitle = ({ index, fileName, page, timestamp }: ImageAnalysisResult) =>
+  fileName && sourceBadge({ page, timestamp })
+    ? formatImageSource({ fileName, page, timestamp })
+    : `Image ${index + 1}`;
+
+/**
+ * Returns the regions of a completed result, in grounding requests.
+ */
+const regionsOf = (result: ImageAnalysisResult) =>
+  result.ok && !result.pending ? result.regions : undefined;
+
+/**
+ * Props for the MessagesList component.
+ */
+type MessagesListProps = {
+  /** The conversation, oldest first. */
+  messages: ChatMessage[];
+  /** Re-runs the analysis of a failed image; retry buttons are hidden when absent. */
+  onRetry?: (messageId: string, index: number) => void;
+};
+
+export const MessagesList = ({ messages, onRetry }: MessagesListProps) => {
+  // Image shown enlarged in the viewer
+  const [viewing, setViewing] = useState<{
+    image: string;
+    title: string;
+    regions?: GroundingRegion[];
+  }>();
 
-export const MessagesList = ({ messages }: { messages: ChatMessage[] }) => {
   // Auto-scroll to the bottom when messages change
   const listRef = useRef<HTMLDivElement>(null);
   useEffect(() => {
@@ -58,7 +173,9 @@ export const MessagesList = ({ messages }: { messages: ChatMessage[] }) => {
       {messages.length === 0 && (
         <div className="text-center text-sm text-muted-foreground pt-16">
           <p>
-            Drop up to 4 images and ask a question. I will analyze each image and reply per-image.
+            Drop up to 4 images, a PDF or TIFF document or a video, and ask a question. I will
+            analyze each image, page or frame and reply per-image. Ask follow-up questions about
+            earlier images without uploading them again.
           </p>
         </div>
       )}
@@ -69,19 +186,28 @@ export const MessagesList = ({ messages }: { messages: ChatMessage[] }) => {
             <div key={msg.id} className="flex justify-end">
               <div className="max-w-[80%] rounded-2xl border bg-blue-600 text-white px-4 py-3 shadow">
                 <p className="whitespace-pre-wrap text-sm">{msg.question}</p>
-                {msg.images.length > 0 && (
-                  <div className="mt-3 grid grid-cols-2 sm:grid-cols-4 gap-2">
-                    {msg.images.map((img, i) => (
-                      // eslint-disable-next-line @next/next/no-img-element
-                      <img
-                        key={i}
-                        src={img}
-                        alt={`user-img-${i}`}
-                        className="h-20 w-full object-cover rounded-md border border-white/20"
-                      />
-                    ))}
+                {groupBySource(msg.images, msg.sources).map((group, g) => (
+                  <div key={g} className="mt-3">
+                    {group.fileName && <p className="mb-1 text-xs opacity-80">{group.fileName}</p>}
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                      {group.images.map(({ image, badge }, i) => (
+                        <div key={i} className="relative">
+                          {/* eslint-disable-next-line @next/next/no-img-element */}
+                          <img
+                            src={image}
+                            alt={badge ? `${group.fileName} ${badge}` : `user-img-${i}`}
+                            className="h-20 w-full object-cover rounded-md border border-white/20"
+                          />
+                          {badge && (
+                            <span className="absolute bottom-1 left-1 rounded bg-black/60 px-1.5 text-[10px]">
+                              {badge}
+                            </span>
+                          )}
+                        </div>
+                      ))}
+                    </div>
                   </div>
-                )}
+                ))}
               </div>
             </div>
           );
@@ -90,33 +216,148 @@ export const MessagesList = ({ messages }: { messages: ChatMessage[] }) => {
         return (
           <div key={msg.id} className="flex justify-start">
             <div className="max-w-[90%] rounded-2xl border bg-muted px-4 py-3 shadow w-full">
-              <div className="space-y-3">
-                {msg.results.map((res, i) => (
-                  <div key={i} className="flex items-start gap-3">
-                    {/* eslint-disable-next-line @next/next/no-img-element */}
-                    <img
-                      src={res.image}
-                      alt={`result-${i}`}
-                      className="w-16 h-16 rounded-md object-cover border"
-                    />
-                    <div className="flex-1">
-                      {msg.pending ? (
-                        <p className="text-sm text-muted-foreground">Analyzing...</p>
-                      ) : res.ok ? (
-                        <p className="text-sm whitespace-pre-wrap">{res.text}</p>
-                      ) : (
-                        <p className="text-sm text-red-600" role="alert">
-                          {res.error || 'Error'}
-                        </p>
+              {msg.results.some(r => r.timestamp !== undefined) && (
+                <FrameTimeline messageId={msg.id} results={msg.results} />
+              )}
+              {msg.summary && (
+                <div className="mb-3 border-b pb-3">
+                  <p className="mb-1 text-xs font-medium text-muted-foreground">
+                    {SUMMARY_HEADINGS[msg.mode ?? 'per-image']}
+                  </p>
+                  {msg.summary.text ? (
+                    <SummaryText messageId={msg.id} summary={msg.summary} results={msg.results} />
+                  ) : (
+                    <p className="text-sm text-muted-foreground">Analyzing...</p>
+                  )}
+                </div>
+              )}
+              {/* Extracted data is shown as a table once every image has been analyzed */}
+              {!msg.pending && msg.results.some(r => r.ok && !r.pending && r.data) ? (
+                <ExtractionTable
+                  messageId={msg.id}
+                  results={msg.results}
+                  onRetry={onRetry && (index => onRetry(msg.id, index))}
+                />
+              ) : (
+                <div className="space-y-3">
+                  {msg.results.map((res, i) => (
+                    <div
+                      key={i}
+                      id={`${msg.id}-image-${res.index}`}
+                      className="flex items-start gap-3 rounded-md target:ring-2 target:ring-blue-500"
+                    >
+                      {/* Follow-up answers have no image of their own */}
+                      {res.image && (
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setViewing({
+                              image: res.image,
+                              title: resultTitle(res),
+                              regions: regionsOf(res),
+                            })
+                          }
+                          className="relative shrink-0 rounded-md"
+                          aria-label={`Enlarge image ${res.index + 1}`}
+                        >
+                          {regionsOf(res)?.length ? (
+                            // Keep the aspect ratio so the regions line up
+                            <>
+                              {/* eslint-disable-next-line @next/next/no-img-element */}
+                              <img
+                                src={res.image}
+                                alt={`result-${i}`}
+                                className="block h-16 w-auto rounded-md border"
+                              />
+                              <RegionOverlay regions={regionsOf(res) ?? []} className="border" />
+                            </>
+                          ) : (
+                            // eslint-disable-next-line @next/next/no-img-element
+                            <img
+                              src={res.image}
+                              alt={`result-${i}`}
+                              className="w-16 h-16 rounded-md object-cover border"
+                            />
+                          )}
+                        </button>
                       )}
+                      <div className="flex-1">
+                        {sourceBadge(res) && (
+                          <p className="mb-1 text-xs font-medium text-muted-foreground">
+                            {resultTitle(res)}
+                          </p>
+                        )}
+                        {res.ok && res.pending ? (
+                          res.text ? (
+                            <p className="text-sm whitespace-pre-wrap" aria-busy="true">
+                              {res.text}
+                              <span className="ml-0.5 inline-block animate-pulse">▍</span>
+                            </p>
+                          ) : (
+                            <p className="text-sm text-muted-foreground">Analyzing...</p>
+                          )
+                        ) : res.ok ? (
+                          <>
+                            {res.altText ? (
+                              <AltTextCard altText={res.altText} position={res.index + 1} />
+                            ) : res.transcription ? (
+                              <TranscriptionCard
+                                transcription={res.transcription}
+                                position={res.index + 1}
+                                fileName={res.fileName}
+                                page={res.page}
+                              />
+                            ) : (
+                              res.text && <p className="text-sm whitespace-pre-wrap">{res.text}</p>
+                            )}
+                            {res.preprocessing && (
+                              <p className="mt-1 text-[11px] text-muted-foreground">
+                                {describePreprocessing(res.preprocessing)}
+                              </p>
+                            )}
+                            {res.cached && (
+                              <p className="mt-1 text-[11px] text-muted-foreground">
+                                Cached answer
+                              </p>
+                            )}
+                          </>
+                        ) : (
+                          <ResultError
+                            result={res}
+                            onRetry={onRetry && (() => onRetry(msg.id, res.index))}
+                          />
+                        )}
+                      </div>
                     </div>
-                  </div>
-                ))}
-              </div>
+                  ))}
+                </div>
+              )}
+              {!msg.pending && msg.results.some(r => r.ok && !r.pending && r.altText) && (
+                <AltTextExport messageId={msg.id} results={msg.results} />
+              )}
+              {(msg.usage || msg.preset) && !msg.pending && (
+                <p className="mt-3 text-[11px] text-muted-foreground">
+                  {[
+                    msg.usage && describeUsage(msg.usage),
+                    msg.preset && `${msg.preset.id} preset v${msg.preset.version}`,
+                  ]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </p>
+              )}
             </div>
           </div>
         );
       })}
+
+      {viewing && (
+        <ImageViewer
+          image={viewing.image}
+          title={viewing.title}
+          regions={viewing.regions}
+          onClose={() => setViewing(undefined)}
+        />
+      )}
     </div>
   );
 };
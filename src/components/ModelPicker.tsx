@@ -0,0 +1,73 @@
+'use client';
+
+import { fetchModels } from '@/lib/modelsClient';
+import { fetchSettings, saveSettings } from '@/lib/settingsClient';
+import type { ModelOption } from '@/services/models/registry';
+import { useEffect, useState } from 'react';
+
+/**
+ * Select for choosing the model used to analyze images.
+ * Loads the available models on mount and, until a model is chosen, selects the user's saved
+ * model, or else the default model. Choosing a model saves it as the user's default.
+ */
+export const ModelPicker = ({
+  value,
+  onChange,
+  disabled,
+}: {
+  /** The selected model id, or undefined before models load. */
+  value: string | undefined;
+  /** Called with the model id when the selection changes, and with the initial model. */
+  onChange: (modelId: string) => void;
+  /** Disables the select, e.g. while a request is in flight. */
+  disabled?: boolean;
+}) => {
+  const [models, setModels] = useState<ModelOption[]>([]);
+  const [initialModelId, setInitialModelId] = useState<string>();
+
+  // Load the available models
+  useEffect(() => {
+    const controller = new AbortController();
+    Promise.all([
+      fetchModels(controller.signal),
+      fetchSettings(controller.signal).catch(() => undefined),
+    ])
+      .then(([{ models, defaultModelId }, settings]) => {
+        setModels(models);
+        setInitialModelId(models.find(model => model.id === settings?.model)?.id ?? defaultModelId);
+      })
+      .catch(() => {
+        // The server falls back to its default model when none is selected
+      });
+    return () => controller.abort();
+  }, []);
+
+  // Select the saved or default model, keeping a model already chosen
+  useEffect(() => {
+    if (value === undefined && initialModelId) onChange(initialModelId);
+  }, [value, initialModelId, onChange]);
+
+  // Nothing to choose between
+  if (models.length < 2) return null;
+
+  return (
+    <select
+      value={value}
+      onChange={e => {
+        onChange(e.target.value);
+        saveSettings({ model: e.target.value }).catch(() => {
+          // The choice still applies to this page
+        });
+      }}
+      disabled={disabled}
+      className="bg-background max-w-40 rounded-md border px-2 py-2 text-sm"
+      aria-label="Model"
+    >
+      {models.map(model => (
+        <option key={model.id} value={model.id}>
+          {model.label}
+        </option>
+      ))}
+    </select>
+  );
+};
@@ -0,0 +1,63 @@
+'use client';
+
+import { fetchPresets } from '@/lib/presetsClient';
+import type { PromptPresetOption } from '@/services/prompts/schemas';
+import { useEffect, useState } from 'react';
+
+/**
+ * Select for choosing the prompt preset that shapes the answers.
+ * Loads the saved presets on mount and selects the default preset until a preset is chosen.
+ */
+export const PresetPicker = ({
+  value,
+  onChange,
+  disabled,
+}: {
+  /** The selected preset id, or undefined before presets load. */
+  value: string | undefined;
+  /** Called with the preset id when the selection changes, and with the default preset. */
+  onChange: (presetId: string) => void;
+  /** Disables the select, e.g. while a request is in flight. */
+  disabled?: boolean;
+}) => {
+  const [presets, setPresets] = useState<PromptPresetOption[]>([]);
+  const [defaultPresetId, setDefaultPresetId] = useState<string>();
+
+  // Load the saved presets
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchPresets(controller.signal)
+      .then(({ presets, defaultPresetId }) => {
+        setPresets(presets);
+        setDefaultPresetId(defaultPresetId);
+      })
+      .catch(() => {
+        // The server falls back to its default preset when none is selected
+      });
+    return () => controller.abort();
+  }, []);
+
+  // Select the default preset, keeping a preset already chosen
+  useEffect(() => {
+    if (value === undefined && defaultPresetId) onChange(defaultPresetId);
+  }, [value, defaultPresetId, onChange]);
+
+  // Nothing to choose between
+  if (presets.length < 2) return null;
+
+  return (
+    <select
+      value={value}
+      onChange={e => onChange(e.target.value)}
+      disabled={disabled}
+      className="bg-background max-w-40 rounded-md border px-2 py-2 text-sm"
+      aria-label="Prompt preset"
+    >
+      {presets.map(preset => (
+        <option key={preset.id} value={preset.id} title={preset.description}>
+          {preset.name}
+        </option>
+      ))}
+    </select>
+  );
+};
@@ -0,0 +1,72 @@
+'use client';
+
+import { type RateLimitReason, type RateLimitStatus } from '@/services/rateLimit/schemas';
+import { useEffect, useState } from 'react';
+
+/**
+ * What the countdown waits for, per rejecting limit.
+ */
+const LIMIT_MESSAGES: Record<RateLimitReason, string> = {
+  requests: 'Too many requests.',
+  images: "Today's image quota has been used.",
+  tokens: "Today's token quota has been used.",
+};
+
+/**
+ * Formats a countdown, e.g. "0:42" or "3h 12m".
+ */
+const formatCountdown = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds >= 3600) {
+    return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+  }
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Shows the caller's remaining quota, or a countdown until the next request can be made once
+ * a limit is reached.
+ */
+export const QuotaIndicator = ({
+  quota,
+  receivedAt,
+  onExpired,
+}: {
+  /** The latest rate limit status. */
+  quota: RateLimitStatus;
+  /** When the status was received; the countdown runs from there. */
+  receivedAt: number;
+  /** Called once the countdown ends, e.g. to fetch the status again. */
+  onExpired: () => void;
+}) => {
+  const until = receivedAt + quota.retryAfterMs;
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick every second while limited
+  useEffect(() => {
+    if (quota.retryAfterMs <= 0) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [quota.retryAfterMs, receivedAt]);
+
+  // Report the end of the countdown once
+  const expired = quota.retryAfterMs > 0 && now >= until;
+  useEffect(() => {
+    if (expired) onExpired();
+  }, [expired, onExpired]);
+
+  if (quota.retryAfterMs > 0) {
+    return (
+      <p className="text-xs text-amber-700" role="status">
+        {quota.reason ? LIMIT_MESSAGES[quota.reason] : 'Rate limit reached.'} You can ask again in{' '}
+        <span className="font-mono">{formatCountdown(Math.max(0, until - now))}</span>.
+      </p>
+    );
+  }
+  return (
+    <p className="text-xs text-muted-foreground">
+      {quota.requests.remaining} requests available · {quota.images.remaining} of{' '}
+      {quota.images.limit} images left today
+    </p>
+  );
+};
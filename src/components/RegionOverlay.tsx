@@ -0,0 +1,40 @@
+import { cn } from '@/lib/utils';
+import { type GroundingRegion } from '@/services/openai/schemas';
+
+/**
+ * Outlines labelled regions over an image. Must be placed in a relatively positioned container
+ * that has the image's aspect ratio, since boxes are positioned in percentages of its size.
+ */
+export const RegionOverlay = ({
+  regions,
+  showLabels,
+  className,
+}: {
+  /** The regions to outline, in coordinates normalized to 0–1. */
+  regions: GroundingRegion[];
+  /** Whether to print each region's label above its box. */
+  showLabels?: boolean;
+  /** Extra classes for the boxes, e.g. a thinner border on thumbnails. */
+  className?: string;
+}) => (
+  <div className="pointer-events-none absolute inset-0" aria-hidden="true">
+    {regions.map(({ label, box }, i) => (
+      <div
+        key={i}
+        className={cn('absolute border-2 border-amber-400', className)}
+        style={{
+          left: `${box.x * 100}%`,
+          top: `${box.y * 100}%`,
+          width: `${box.width * 100}%`,
+          height: `${box.height * 100}%`,
+        }}
+      >
+        {showLabels && (
+          <span className="absolute -top-5 left-0 whitespace-nowrap rounded bg-amber-400 px-1 text-[11px] text-black">
+            {label}
+          </span>
+        )}
+      </div>
+    ))}
+  </div>
+);
@@ -0,0 +1,45 @@
+'use client';
+
+import { ANALYSIS_ERRORS, isAnalysisErrorCode } from '@/lib/errors';
+import { type ImageAnalysisResult } from '@/services/chats/schemas';
+import { RotateCw } from 'lucide-react';
+
+/**
+ * Renders a failed result: the tailored message and suggested action for analysis error codes,
+ * or the server's message for validation rejections and results saved without a code. Failures
+ * that may succeed on a second attempt get a Retry button.
+ */
+export const ResultError = ({
+  result,
+  onRetry,
+}: {
+  /** The failed result. */
+  result: Extract<ImageAnalysisResult, { ok: false }>;
+  /** Re-runs the analysis of the image; the button is hidden when absent. */
+  onRetry?: () => void;
+}) => {
+  const { message, action, retryable } = isAnalysisErrorCode(result.code)
+    ? ANALYSIS_ERRORS[result.code]
+    : { message: result.error || 'Error', action: undefined, retryable: !result.code };
+  return (
+    <div className="flex items-start gap-2">
+      <div>
+        <p className="text-sm text-red-600" role="alert">
+          {message}
+        </p>
+        {action && <p className="text-xs text-muted-foreground">{action}</p>}
+      </div>
+      {onRetry && result.image && retryable && (
+        <button
+          type="button"
+          onClick={onRetry}
+          className="inline-flex shrink-0 items-center gap-1 rounded-md border px-2 py-0.5 text-xs hover:bg-accent"
+          aria-label={`Retry image ${result.index + 1}`}
+        >
+          <RotateCw className="h-3 w-3" />
+          Retry
+        </button>
+      )}
+    </div>
+  );
+};
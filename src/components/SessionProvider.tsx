@@ -0,0 +1,36 @@
+'use client';
+
+import { fetchSession } from '@/lib/authClient';
+import type { SessionResponse } from '@/services/auth/schemas';
+import { createContext, ReactNode, useContext, useEffect, useState } from 'react';
+
+/**
+ * The session shared with components; undefined while it loads.
+ */
+const SessionContext = createContext<SessionResponse | undefined>(undefined);
+
+/**
+ * Loads the session once and shares it with the components below.
+ */
+export const SessionProvider = ({ children }: { children: ReactNode }) => {
+  const [session, setSession] = useState<SessionResponse>();
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchSession(controller.signal)
+      .then(setSession)
+      .catch(() => {
+        // Components treat an unknown session like a signed-out one
+      });
+    return () => controller.abort();
+  }, []);
+
+  return <SessionContext.Provider value={session}>{children}</SessionContext.Provider>;
+};
+
+/**
+ * Returns the current session: whether signing in is required and who is signed in.
+ *
+ * @returns The session, or undefined while it loads.
+ */
+export const useSession = () => useContext(SessionContext);
@@ -0,0 +1,87 @@
+'use client';
+
+import { CopyButton } from '@/components/CopyButton';
+import { downloadFile } from '@/lib/files';
+import { transcriptionToMarkdown, transcriptionToText } from '@/lib/transcription';
+import { type Transcription } from '@/services/openai/schemas';
+import { Download } from 'lucide-react';
+
+/**
+ * Renders the text transcribed from an image, keeping its paragraphs, line breaks and tables,
+ * with copy and plain text or Markdown download.
+ */
+export const TranscriptionCard = ({
+  transcription,
+  position,
+  fileName,
+  page,
+}: {
+  /** The transcribed blocks, in reading order. */
+  transcription: Transcription;
+  /** 1-based position of the image, used to label the buttons. */
+  position: number;
+  /** Name of the uploaded file, used to name the downloads. */
+  fileName?: string;
+  /** Page of the document the image was rendered from, e.g. "report-p3.md". */
+  page?: number;
+}) => {
+  const text = transcriptionToText(transcription);
+  const baseName =
+    (fileName?.replace(/\.[^.]+$/, '') || `transcription-${position}`) + (page ? `-p${page}` : '');
+
+  if (transcription.blocks.length === 0) {
+    return <p className="text-sm text-muted-foreground">No text found in this image.</p>;
+  }
+  return (
+    <div className="space-y-2">
+      <div className="space-y-2 rounded-md border bg-background p-2 text-sm">
+        {transcription.blocks.map((block, i) =>
+          block.type === 'paragraph' ? (
+            <p key={i} className="whitespace-pre-wrap">
+              {block.lines.join('\n')}
+            </p>
+          ) : (
+            <div key={i} className="overflow-x-auto">
+              <table className="text-left text-sm">
+                <tbody>
+                  {block.rows.map((row, r) => (
+                    <tr key={r} className="border-b last:border-0">
+                      {row.map((cell, c) => (
+                        <td key={c} className="px-2 py-1 align-top">
+                          {cell}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )
+        )}
+      </div>
+      <div className="flex gap-2">
+        <CopyButton text={text} label={`Copy text of image ${position}`} />
+        <button
+          type="button"
+          onClick={() => downloadFile(`${baseName}.txt`, text, 'text/plain')}
+          className="inline-flex items-center gap-1 rounded-md border px-2 py-0.5 text-xs hover:bg-accent"
+          aria-label={`Download text of image ${position}`}
+        >
+          <Download className="h-3 w-3" />
+          TXT
+        </button>
+        <button
+          type="button"
+          onClick={() =>
+            downloadFile(`${baseName}.md`, transcriptionToMarkdown(transcription), 'text/markdown')
+          }
+          className="inline-flex items-center gap-1 rounded-md border px-2 py-0.5 text-xs hover:bg-accent"
+          aria-label={`Download text of image ${position} as Markdown`}
+        >
+          <Download className="h-3 w-3" />
+          Markdown
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+import { isErrorWithMessage } from '@/lib/errors';
+import { type ImageEdit } from '@/lib/imageEdits';
+import { useState } from 'react';
+
+/**
+ * Max Images allowed per message
+ * */
+export const MAX_IMAGES = 4;
+
+/**
+ * Represents an image the user uploaded for analysis.
+ */
+export type UploadedImage = {
+  /** Unique id */
+  id: string;
+  /** The original File object from the dropzone/input */
+  file: File;
+  /** A base64 data URL used both for visual preview and as the payload sent to the analyzer. */
+  preview: string;
+  /** 1-based page number, for a page of a multi-page PDF or TIFF document. */
+  page?: number;
+  /** Number of pages in the document the page belongs to. */
+  pageCount?: number;
+  /** Seconds from the start of the video, for a frame sampled from a video. */
+  timestamp?: number;
+  /** 0-based position of the frame among the frames sampled from its video. */
+  frame?: number;
+  /** Timestamps of all the frames sampled from the video the frame belongs to. */
+  frameTimestamps?: number[];
+  /** The image as uploaded, kept while it has edits so they can be undone. */
+  original?: string;
+  /** Crops, redactions and annotations applied to the original to make the preview. */
+  edits?: ImageEdit[];
+};
+
+/**
+ * A multi-page document or a video in the composer, with the pages or frames shown of it.
+ */
+export type PagedFile = {
+  /** The uploaded document or video. */
+  file: File;
+  /** The pages or frames shown, e.g. "pages 1–4 of 12". */
+  label: string;
+  /** Whether there are pages or frames before the ones shown. */
+  hasPrevious: boolean;
+  /** Whether there are pages or frames after the ones shown. */
+  hasNext: boolean;
+  /** What is paged through: "pages" or "frames". */
+  noun: string;
+  /** Shows the next (1) or previous (-1) pages or frames. */
+  turn: (direction: 1 | -1) => Promise<void>;
+};
+
+/**
+ * Composer images state type
+ */
+export type ComposerImages = ReturnType<typeof useComposerImages>;
+
+/**
+ * Holds the images in the composer and what is being prepared for it, e.g. the pages of a
+ * document; questions wait for it.
+ *
+ * @param onError - Called with the message of a failed preparation, or null to clear it.
+ */
+export const useComposerImages = (onError: (message: string | null) => void) => {
+  const [images, setImages] = useState<UploadedImage[]>([]);
+  const [preparing, setPreparing] = useState<string>();
+
+  /**
+   * Replaces the images of a document or video in the composer, keeping their place.
+   *
+   * @param file - The document or video.
+   * @param load - Loads the new images, given the slots the file may take.
+   * @param status - What the composer shows while loading.
+   */
+  const replaceImagesOf = async (
+    file: File,
+    load: (slots: number) => Promise<UploadedImage[]>,
+    status: string
+  ) => {
+    const slots = MAX_IMAGES - images.filter(i => i.file !== file).length;
+    onError(null);
+    setPreparing(status);
+    try {
+      const next = await load(slots);
+      setImages(prev => {
+        const at = prev.findIndex(i => i.file === file);
+        const rest = prev.filter(i => i.file !== file);
+        return [...rest.slice(0, at), ...next, ...rest.slice(at)];
+      });
+    } catch (err) {
+      onError(isErrorWithMessage(err) ? err.message : 'Failed to process uploaded images.');
+    } finally {
+      setPreparing(undefined);
+    }
+  };
+
+  return { images, setImages, preparing, setPreparing, replaceImagesOf };
+};
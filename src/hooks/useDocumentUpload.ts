@@ -0,0 +1,87 @@
+import { DocumentPagesResponse } from '@/app/api/documents/schemas';
+import type { ComposerImages, PagedFile, UploadedImage } from '@/hooks/useComposerImages';
+import { fetchDocumentPages } from '@/lib/documentsClient';
+import { MAX_DOCUMENT_PAGES_PER_REQUEST } from '@/services/documents/schemas';
+
+/**
+ * Turns the rasterized pages of a document into uploaded images. Single-page documents are
+ * labelled like plain images.
+ *
+ * @param file - The uploaded document.
+ * @param document - The pages returned by the documents API.
+ * @returns One uploaded image per page.
+ */
+const toUploadedPages = (file: File, { pageCount, pages }: DocumentPagesResponse) =>
+  pages.map(
+    ({ page, image }): UploadedImage => ({
+      id: crypto.randomUUID(),
+      file,
+      preview: image,
+      ...(pageCount > 1 && { page, pageCount }),
+    })
+  );
+
+/**
+ * Rasterizes the first pages of a document.
+ *
+ * @param file - The uploaded document.
+ * @param slots - How many images the document may take.
+ * @returns The pages as uploaded images.
+ * @throws Error when the document cannot be rasterized.
+ */
+export const loadDocumentPages = async (file: File, slots: number) =>
+  toUploadedPages(
+    file,
+    await fetchDocumentPages(file, 1, Math.min(MAX_DOCUMENT_PAGES_PER_REQUEST, slots))
+  );
+
+/**
+ * Pages through the multi-page documents in the composer.
+ *
+ * @param composer - The composer images.
+ */
+export const useDocumentUpload = ({ images, replaceImagesOf }: ComposerImages) => {
+  /**
+   * Replaces the pages of a document in the composer with the next or previous ones, using the
+   * slots the document may take.
+   *
+   * @param file - The uploaded document.
+   * @param direction - 1 for the next pages, -1 for the previous ones.
+   */
+  const turnPages = (file: File, direction: 1 | -1) => {
+    const shown = images.filter(i => i.file === file);
+    const first = shown[0]?.page ?? 1;
+    const last = shown.at(-1)?.page ?? first;
+    return replaceImagesOf(
+      file,
+      async slots => {
+        const count = Math.min(MAX_DOCUMENT_PAGES_PER_REQUEST, slots);
+        const firstPage = direction === 1 ? last + 1 : Math.max(1, first - count);
+        return toUploadedPages(file, await fetchDocumentPages(file, firstPage, count));
+      },
+      'Rendering document pages…'
+    );
+  };
+
+  /**
+   * Returns the pages shown of a file when it is a multi-page document.
+   *
+   * @param file - A file in the composer.
+   */
+  const pagingOf = (file: File): PagedFile | undefined => {
+    const shown = images.filter(i => i.file === file);
+    const [head, tail] = [shown[0], shown.at(-1) ?? shown[0]];
+    if (!head?.pageCount) return undefined;
+    const [first, last] = [head.page ?? 1, tail.page ?? 1];
+    return {
+      file,
+      label: `${first === last ? `page ${first}` : `pages ${first}–${last}`} of ${head.pageCount}`,
+      hasPrevious: first > 1,
+      hasNext: last < head.pageCount,
+      noun: 'pages',
+      turn: direction => turnPages(file, direction),
+    };
+  };
+
+  return { pagingOf };
+};
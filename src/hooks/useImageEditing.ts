@@ -0,0 +1,41 @@
+import type { ComposerImages } from '@/hooks/useComposerImages';
+import { type ImageEdit } from '@/lib/imageEdits';
+import { useCallback, useState } from 'react';
+
+/**
+ * Holds the composer image open in the editor and saves its edits.
+ *
+ * @param composer - The composer images.
+ */
+export const useImageEditing = ({ images, setImages }: ComposerImages) => {
+  // Id of the uploaded image open in the editor
+  const [editingId, setEditingId] = useState<string>();
+  const editingItem = images.find(i => i.id === editingId);
+
+  /**
+   * Closes the image editor without saving.
+   */
+  const closeEditor = useCallback(() => setEditingId(undefined), []);
+
+  /**
+   * Replaces the image open in the editor with its edited version, keeping the original.
+   * Undoing every edit restores the original.
+   *
+   * @param edits - The edits applied to the original.
+   * @param preview - The edited image as a data URL.
+   */
+  const saveEdits = (edits: ImageEdit[], preview: string) => {
+    setImages(prev =>
+      prev.map(item => {
+        if (item.id !== editingId) return item;
+        const original = item.original ?? item.preview;
+        return edits.length
+          ? { ...item, preview, original, edits }
+          : { ...item, preview: original, original: undefined, edits: undefined };
+      })
+    );
+    setEditingId(undefined);
+  };
+
+  return { editingItem, openEditor: setEditingId, closeEditor, saveEdits };
+};
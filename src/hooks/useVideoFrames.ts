@@ -0,0 +1,137 @@
+import type { ComposerImages, PagedFile, UploadedImage } from '@/hooks/useComposerImages';
+import {
+  captureVideoFrames,
+  DEFAULT_FRAME_SAMPLING,
+  formatTimestamp,
+  FrameSampling,
+  sampleVideoFrames,
+} from '@/lib/videoFrames';
+import { useState } from 'react';
+
+/**
+ * Turns captured frames of a video into uploaded images.
+ *
+ * @param file - The uploaded video.
+ * @param frameTimestamps - Timestamps of all the frames sampled from the video.
+ * @param first - 0-based position of the first captured frame among the sampled ones.
+ * @param frames - The captured frames as data URLs.
+ * @returns One uploaded image per frame.
+ */
+const toUploadedFrames = (file: File, frameTimestamps: number[], first: number, frames: string[]) =>
+  frames.map(
+    (preview, i): UploadedImage => ({
+      id: crypto.randomUUID(),
+      file,
+      preview,
+      timestamp: frameTimestamps[first + i],
+      frame: first + i,
+      frameTimestamps,
+    })
+  );
+
+/**
+ * Samples frames from a video and captures the first of them.
+ *
+ * @param file - The uploaded video.
+ * @param sampling - How to sample the frames.
+ * @param count - How many frames to capture.
+ * @returns The captured frames as uploaded images.
+ * @throws Error when the browser cannot play the video or no frame could be sampled.
+ */
+export const loadVideoFrames = async (file: File, sampling: FrameSampling, count: number) => {
+  const { timestamps } = await sampleVideoFrames(file, sampling);
+  if (timestamps.length === 0) throw new Error(`No frames could be read from ${file.name}.`);
+  const frames = await captureVideoFrames(file, timestamps.slice(0, count));
+  return toUploadedFrames(file, timestamps, 0, frames);
+};
+
+/**
+ * Holds how frames are sampled from videos and pages through the frames of the videos in the
+ * composer.
+ *
+ * @param composer - The composer images.
+ */
+export const useVideoFrames = ({ images, replaceImagesOf }: ComposerImages) => {
+  const [frameSampling, setFrameSampling] = useState<FrameSampling>(DEFAULT_FRAME_SAMPLING);
+  const [summarizeFrames, setSummarizeFrames] = useState(false);
+
+  /**
+   * Replaces the frames of a video in the composer with the next or previous ones, using the
+   * slots the video may take.
+   *
+   * @param file - The uploaded video.
+   * @param frameTimestamps - Timestamps of all the frames sampled from the video.
+   * @param direction - 1 for the next frames, -1 for the previous ones.
+   */
+  const turnFrames = (file: File, frameTimestamps: number[], direction: 1 | -1) => {
+    const shown = images.filter(i => i.file === file);
+    const first = shown[0]?.frame ?? 0;
+    const last = shown.at(-1)?.frame ?? first;
+    return replaceImagesOf(
+      file,
+      async slots => {
+        const start = direction === 1 ? last + 1 : Math.max(0, first - slots);
+        const timestamps = frameTimestamps.slice(start, start + slots);
+        const frames = await captureVideoFrames(file, timestamps);
+        return toUploadedFrames(file, frameTimestamps, start, frames);
+      },
+      'Capturing video frames…'
+    );
+  };
+
+  /**
+   * Samples the frames of the videos in the composer again with another strategy, which also
+   * applies to videos dropped later.
+   *
+   * @param sampling - The new sampling strategy.
+   */
+  const changeFrameSampling = async (sampling: FrameSampling) => {
+    setFrameSampling(sampling);
+    const videos = [...new Set(images.filter(i => i.frameTimestamps).map(i => i.file))];
+    for (const file of videos) {
+      await replaceImagesOf(
+        file,
+        slots => loadVideoFrames(file, sampling, slots),
+        'Sampling video frames…'
+      );
+    }
+  };
+
+  /**
+   * Returns the frames shown of a file when it is a video.
+   *
+   * @param file - A file in the composer.
+   */
+  const pagingOf = (file: File): PagedFile | undefined => {
+    const shown = images.filter(i => i.file === file);
+    const [head, tail] = [shown[0], shown.at(-1) ?? shown[0]];
+    const frameTimestamps = head?.frameTimestamps;
+    if (!frameTimestamps) return undefined;
+    const [first, last] = [head.frame ?? 0, tail.frame ?? 0];
+    const times = `${formatTimestamp(head.timestamp ?? 0)}–${formatTimestamp(tail.timestamp ?? 0)}`;
+    return {
+      file,
+      label: `frames ${first + 1}–${last + 1} of ${frameTimestamps.length} (${times})`,
+      hasPrevious: first > 0,
+      hasNext: last < frameTimestamps.length - 1,
+      noun: 'frames',
+      turn: direction => turnFrames(file, frameTimestamps, direction),
+    };
+  };
+
+  // Timestamps of the frames in the composer when they all come from one video, so they can be
+  // summarized together
+  const clipTimestamps =
+    images.length > 1 && images.every(i => i.timestamp !== undefined && i.file === images[0].file)
+      ? images.map(i => i.timestamp ?? 0)
+      : undefined;
+
+  return {
+    frameSampling,
+    changeFrameSampling,
+    summarizeFrames,
+    setSummarizeFrames,
+    clipTimestamps,
+    pagingOf,
+  };
+};
@@ -0,0 +1,83 @@
+import { type ImageAnalysisResult } from '@/services/chats/schemas';
+import { toAltTextCsv, toAltTextJson, uniqueFileNames } from '../altTextExport';
+
+/**
+ * Builds a completed alt-text result.
+ */
+const altTextResult = (index: number, fileName?: string, alt = 'A red bicycle') =>
+  ({
+    index,
+    ok: true,
+    text: alt,
+    altText: { alt, longDescription: '', decorative: !alt },
+    image: 'data:image/png;base64,',
+    ...(fileName && { fileName }),
+  }) as ImageAnalysisResult;
+
+describe('uniqueFileNames', () => {
+  it('numbers repeated names and names results without a file', () => {
+    expect(
+      uniqueFileNames([
+        altTextResult(0, 'photo.jpg'),
+        altTextResult(1, 'photo.jpg'),
+        altTextResult(2),
+        altTextResult(3, 'README'),
+        altTextResult(4, 'README'),
+      ])
+    ).toEqual(['photo.jpg', 'photo (2).jpg', 'image-3', 'README', 'README (2)']);
+  });
+
+  it('skips numbered names already taken by an upload', () => {
+    expect(
+      uniqueFileNames([
+        altTextResult(0, 'a.jpg'),
+        altTextResult(1, 'a.jpg'),
+        altTextResult(2, 'a (2).jpg'),
+        altTextResult(3, 'a (3).jpg'),
+        altTextResult(4, 'a.jpg'),
+      ])
+    ).toEqual(['a.jpg', 'a (2).jpg', 'a (2) (2).jpg', 'a (3).jpg', 'a (4).jpg']);
+  });
+
+  it('labels document pages with their page number', () => {
+    const page = (index: number, n: number) =>
+      ({ ...altTextResult(index, 'report.pdf'), page: n }) as ImageAnalysisResult;
+    expect(uniqueFileNames([page(0, 1), page(1, 2), page(2, 2)])).toEqual([
+      'report.pdf p.1',
+      'report.pdf p.2',
+      'report (2).pdf p.2',
+    ]);
+  });
+
+  it('labels video frames with their timestamp', () => {
+    const frame = { ...altTextResult(0, 'clip.mp4'), timestamp: 75 } as ImageAnalysisResult;
+    expect(uniqueFileNames([frame])).toEqual(['clip.mp4 @ 1:15']);
+  });
+});
+
+describe('toAltTextCsv', () => {
+  it('writes one row per image with its file name and any error', () => {
+    const failed: ImageAnalysisResult = {
+      index: 1,
+      ok: false,
+      error: 'Timed out',
+      image: 'data:image/png;base64,',
+      fileName: 'b.png',
+    };
+
+    expect(toAltTextCsv([altTextResult(0, 'a.png', 'Bikes, parked'), failed])).toBe(
+      'file,alt,longDescription,decorative,error\r\na.png,"Bikes, parked",,false,\r\nb.png,,,,Timed out'
+    );
+  });
+});
+
+describe('toAltTextJson', () => {
+  it('keys the accessibility text by file name', () => {
+    expect(
+      JSON.parse(toAltTextJson([altTextResult(0, 'a.png'), altTextResult(1, 'b.png', '')]))
+    ).toEqual({
+      'a.png': { alt: 'A red bicycle', longDescription: '', decorative: false },
+      'b.png': { alt: '', longDescription: '', decorative: true },
+    });
+  });
+});
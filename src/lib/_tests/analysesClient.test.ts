@@ -0,0 +1,32 @@
+import { toConversationHistory } from '../analysesClient';
+
+describe('toConversationHistory', () => {
+  it('carries the aggregate answer of comparative and combined turns', () => {
+    expect(
+      toConversationHistory([
+        { id: 'u', role: 'user', question: 'Which is newer?', images: [], createdAt: 1 },
+        {
+          id: 'a',
+          role: 'assistant',
+          mode: 'comparative',
+          results: [
+            { index: 0, ok: true, text: '', image: 'data:image/png;base64,AA==' },
+            { index: 1, ok: false, error: 'Timed out', image: 'data:image/png;base64,AQ==' },
+          ],
+          summary: { text: 'The second photo is newer.', citations: [] },
+          createdAt: 2,
+        },
+      ])
+    ).toEqual([
+      { role: 'user', question: 'Which is newer?', images: [] },
+      {
+        role: 'assistant',
+        results: [
+          { index: 0, ok: true, text: '' },
+          { index: 1, ok: false, text: undefined },
+        ],
+        summary: { text: 'The second photo is newer.' },
+      },
+    ]);
+  });
+});
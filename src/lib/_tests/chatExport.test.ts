@@ -0,0 +1,145 @@
+import { type Chat } from '@/services/chats/schemas';
+import { strFromU8, unzipSync } from 'fflate';
+import {
+  exportFileName,
+  parseChatExport,
+  toChatHtml,
+  toChatJson,
+  toChatMarkdown,
+  toChatMarkdownZip,
+} from '../chatExport';
+
+/**
+ * Minimal PNG data URL (signature only).
+ */
+const PNG = 'data:image/png;base64,iVBORw0KGgo=';
+
+/**
+ * A chat with a question about two images, one answered and one failed, and a follow-up.
+ */
+const CHAT: Chat = {
+  id: 'chat-1',
+  title: 'Receipts <March>',
+  createdAt: Date.UTC(2026, 2, 1, 9, 30),
+  updatedAt: Date.UTC(2026, 2, 1, 9, 32),
+  messages: [
+    {
+      id: 'u1',
+      role: 'user',
+      question: 'What is the total?',
+      images: [PNG, PNG],
+      sources: [
+        { fileName: 'receipt.pdf', page: 2 },
+        { fileName: 'clip.mp4', timestamp: 12 },
+      ],
+      createdAt: Date.UTC(2026, 2, 1, 9, 30),
+    },
+    {
+      id: 'a1',
+      role: 'assistant',
+      createdAt: Date.UTC(2026, 2, 1, 9, 31),
+      results: [
+        {
+          index: 0,
+          ok: true,
+          text: 'Total: $12 <b>',
+          image: PNG,
+          fileName: 'receipt.pdf',
+          page: 2,
+        },
+        { index: 1, ok: false, error: 'Boom', code: 'timeout', image: PNG, fileName: 'clip.mp4' },
+      ],
+    },
+    {
+      id: 'u2',
+      role: 'user',
+      question: 'And the tax?',
+      images: [],
+      createdAt: Date.UTC(2026, 2, 1, 9, 32),
+    },
+    {
+      id: 'a2',
+      role: 'assistant',
+      createdAt: Date.UTC(2026, 2, 1, 9, 32),
+      results: [{ index: 0, ok: true, text: '$1', image: '' }],
+    },
+  ],
+};
+
+describe('toChatMarkdown', () => {
+  it('writes each question with its images, then the answers and errors with timestamps', () => {
+    const { markdown, attachments } = toChatMarkdown(CHAT);
+
+    expect(markdown).toContain('# Receipts <March>');
+    expect(markdown).toContain('## Question 1\n\n_2026-03-01 09:30 UTC_\n\n> What is the total?');
+    expect(markdown).toContain(`![receipt.pdf p.2](${PNG})`);
+    expect(markdown).toContain('#### receipt.pdf p.2\n\nTotal: $12 <b>');
+    expect(markdown).toContain('#### clip.mp4\n\n**Error:** The model took too long to respond.');
+    expect(markdown).toContain('> And the tax?');
+    expect(markdown).toContain('#### Answer\n\n$1');
+    expect(attachments).toEqual([]);
+  });
+
+  it('references attached image files instead of embedding them', () => {
+    const { markdown, attachments } = toChatMarkdown(CHAT, 'attached');
+
+    expect(markdown).toContain('![receipt.pdf p.2](images/q1-1.png)');
+    expect(markdown).toContain('![clip.mp4 @ 0:12](images/q1-2.png)');
+    expect(markdown).not.toContain('data:image');
+    expect(attachments.map(a => a.path)).toEqual(['images/q1-1.png', 'images/q1-2.png']);
+  });
+
+  it('packs the Markdown and its images in a zip', () => {
+    const files = unzipSync(toChatMarkdownZip(CHAT));
+
+    expect(Object.keys(files).sort()).toEqual(['chat.md', 'images/q1-1.png', 'images/q1-2.png']);
+    expect(strFromU8(files['chat.md'])).toContain('(images/q1-1.png)');
+    expect(files['images/q1-1.png']).toEqual(
+      new Uint8Array([0x89, 0x50, 0x4e, 0x47, 13, 10, 26, 10])
+    );
+  });
+});
+
+describe('toChatHtml', () => {
+  it('writes a standalone page with embedded images and escaped text', () => {
+    const html = toChatHtml(CHAT);
+
+    expect(html).toMatch(/^<!doctype html>/);
+    expect(html).toContain('<title>Receipts &lt;March&gt;</title>');
+    expect(html).toContain(`<img src="${PNG}" alt="receipt.pdf p.2">`);
+    expect(html).toContain('Total: $12 &lt;b&gt;');
+    expect(html).toContain('<p class="error">Error: The model took too long to respond.</p>');
+    expect(html).toContain('@media print');
+  });
+});
+
+describe('toChatJson and parseChatExport', () => {
+  it('round-trips a chat without loss', () => {
+    expect(parseChatExport(toChatJson(CHAT))).toEqual(CHAT);
+  });
+
+  it('migrates chats exported by older versions', () => {
+    // Unversioned chats were saved without a title or timestamps
+    const legacy = { id: CHAT.id, messages: CHAT.messages };
+    expect(parseChatExport(JSON.stringify(legacy))).toMatchObject({
+      id: 'chat-1',
+      title: 'Untitled chat',
+      messages: CHAT.messages,
+    });
+  });
+
+  it('rejects files that are not exported chats', () => {
+    expect(() => parseChatExport('not json')).toThrow('This file is not an exported chat.');
+    expect(() => parseChatExport('{"messages": 1}')).toThrow('This file is not an exported chat.');
+    expect(() => parseChatExport(JSON.stringify({ ...CHAT, version: 99 }))).toThrow(
+      'Chat version 99 is newer than supported (1).'
+    );
+  });
+});
+
+describe('exportFileName', () => {
+  it('builds a file name from the title', () => {
+    expect(exportFileName('Receipts <March>', 'md')).toBe('receipts-march.md');
+    expect(exportFileName('???', 'json')).toBe('chat.json');
+  });
+});
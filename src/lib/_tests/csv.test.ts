@@ -0,0 +1,31 @@
+import { toCsv, toCsvField } from '../csv';
+
+describe('toCsvField', () => {
+  it('writes strings as-is and other values as JSON', () => {
+    expect(toCsvField('plain')).toBe('plain');
+    expect(toCsvField(4.5)).toBe('4.5');
+    expect(toCsvField(null)).toBe('');
+    expect(toCsvField(undefined)).toBe('');
+  });
+
+  it('quotes fields with delimiters, quotes or newlines', () => {
+    expect(toCsvField('a,b')).toBe('"a,b"');
+    expect(toCsvField('say "hi"')).toBe('"say ""hi"""');
+    expect(toCsvField('two\nlines')).toBe('"two\nlines"');
+    expect(toCsvField(['a', 'b'])).toBe('"[""a"",""b""]"');
+  });
+});
+
+describe('toCsv', () => {
+  it('joins the header and rows with CRLF', () => {
+    expect(
+      toCsv(
+        ['image', 'total'],
+        [
+          [1, 4.5],
+          [2, null],
+        ]
+      )
+    ).toBe('image,total\r\n1,4.5\r\n2,');
+  });
+});
@@ -0,0 +1,80 @@
+import {
+  applyImageEdits,
+  arrowHead,
+  boxFromPoints,
+  editedSize,
+  uneditableImageMessage,
+} from '../imageEdits';
+
+describe('boxFromPoints', () => {
+  it('builds the same box whichever way it is dragged', () => {
+    const box = { x: 0.25, y: 0.5, width: 0.5, height: 0.25 };
+    expect(boxFromPoints({ x: 0.25, y: 0.5 }, { x: 0.75, y: 0.75 })).toEqual(box);
+    expect(boxFromPoints({ x: 0.75, y: 0.75 }, { x: 0.25, y: 0.5 })).toEqual(box);
+  });
+
+  it('clips the box to the image', () => {
+    expect(boxFromPoints({ x: -0.5, y: 0.5 }, { x: 0.5, y: 1.5 })).toEqual({
+      x: 0,
+      y: 0.5,
+      width: 0.5,
+      height: 0.5,
+    });
+  });
+});
+
+describe('editedSize', () => {
+  it('shrinks the image on crops and swaps its sides on quarter turns', () => {
+    const box = { x: 0.1, y: 0.1, width: 0.5, height: 0.25 };
+    expect(
+      editedSize(800, 400, [
+        { type: 'crop', box },
+        { type: 'rotate', quarterTurns: 1 },
+      ])
+    ).toEqual({ width: 100, height: 400 });
+    expect(editedSize(800, 400, [{ type: 'rotate', quarterTurns: 2 }])).toEqual({
+      width: 800,
+      height: 400,
+    });
+  });
+
+  it('keeps the size for annotations and redactions', () => {
+    const box = { x: 0, y: 0, width: 0.5, height: 0.5 };
+    expect(
+      editedSize(640, 480, [
+        { type: 'blur', box },
+        { type: 'redact', box },
+        { type: 'box', box },
+        { type: 'arrow', from: { x: 0, y: 0 }, to: { x: 1, y: 1 } },
+      ])
+    ).toEqual({ width: 640, height: 480 });
+  });
+});
+
+describe('arrowHead', () => {
+  it('draws both strokes back from the tip, on either side of the shaft', () => {
+    const [left, right] = arrowHead({ x: 0, y: 0 }, { x: 100, y: 0 }, 10);
+    expect(left.x).toBeCloseTo(100 - 10 * Math.cos(Math.PI / 6));
+    expect(right.x).toBeCloseTo(left.x);
+    expect(left.y).toBeCloseTo(5);
+    expect(right.y).toBeCloseTo(-5);
+  });
+});
+
+describe('applyImageEdits', () => {
+  it('returns the original when there are no edits', async () => {
+    const original = 'data:image/png;base64,iVBORw0KGgo=';
+    await expect(applyImageEdits(original, [])).resolves.toBe(original);
+  });
+});
+
+describe('uneditableImageMessage', () => {
+  it('names the format the browser cannot open', () => {
+    expect(uneditableImageMessage('data:image/tiff;base64,SUkqAA==')).toBe(
+      'This browser cannot open TIFF images for editing. It can still be sent as uploaded.'
+    );
+    expect(uneditableImageMessage('not a data URL')).toBe(
+      'This browser cannot open this image for editing. It can still be sent as uploaded.'
+    );
+  });
+});
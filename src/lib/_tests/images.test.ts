@@ -0,0 +1,58 @@
+import { detectImageFormat, formatBytes, parseDataUrl, readImageDimensions } from '../images';
+
+/**
+ * Builds bytes from a list of byte values and ASCII strings.
+ */
+const bytes = (...parts: (number | string)[]) =>
+  new Uint8Array(
+    parts.flatMap(part => (typeof part === 'string' ? [...part].map(c => c.charCodeAt(0)) : [part]))
+  );
+
+describe('parseDataUrl', () => {
+  it('parses a base64 data URL', () => {
+    expect(parseDataUrl('data:image/PNG;base64,AAEC')).toEqual({
+      mediaType: 'image/png',
+      bytes: new Uint8Array([0, 1, 2]),
+    });
+  });
+
+  it('rejects strings that are not base64 data URLs', () => {
+    expect(parseDataUrl('img')).toBeUndefined();
+    expect(parseDataUrl('data:image/png,AAEC')).toBeUndefined();
+    expect(parseDataUrl('data:image/png;base64,not base64!')).toBeUndefined();
+  });
+});
+
+describe('detectImageFormat', () => {
+  it('detects formats from their magic bytes', () => {
+    expect(detectImageFormat(bytes(0x89, 'PNG\r\n', 0x1a, '\n'))).toBe('png');
+    expect(detectImageFormat(bytes(0xff, 0xd8, 0xff, 0xe0))).toBe('jpeg');
+    expect(detectImageFormat(bytes('GIF89a'))).toBe('gif');
+    expect(detectImageFormat(bytes('RIFF', 0, 0, 0, 0, 'WEBP'))).toBe('webp');
+    expect(detectImageFormat(bytes(0, 0, 0, 0x18, 'ftypheic'))).toBe('heic');
+    expect(detectImageFormat(bytes('<svg'))).toBeUndefined();
+  });
+});
+
+describe('readImageDimensions', () => {
+  it('reads PNG dimensions', () => {
+    const png = bytes(0x89, 'PNG\r\n', 0x1a, '\n', 0, 0, 0, 13, 'IHDR', 0, 0, 1, 0, 0, 0, 0, 200);
+    expect(readImageDimensions(png)).toEqual({ width: 256, height: 200 });
+  });
+
+  it('reads GIF dimensions', () => {
+    expect(readImageDimensions(bytes('GIF89a', 10, 0, 20, 0))).toEqual({ width: 10, height: 20 });
+  });
+
+  it('returns undefined for truncated headers', () => {
+    expect(readImageDimensions(bytes(0x89, 'PNG\r\n', 0x1a, '\n'))).toBeUndefined();
+  });
+});
+
+describe('formatBytes', () => {
+  it('formats byte counts', () => {
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(1536)).toBe('1.5 KB');
+    expect(formatBytes(3 * 1024 * 1024)).toBe('3.0 MB');
+  });
+});
@@ -0,0 +1,36 @@
+import { backoffDelay, withRetry } from '../retry';
+
+describe('backoffDelay', () => {
+  it('doubles the delay with each retry', () => {
+    expect([0, 1, 2, 3].map(retry => backoffDelay(retry, 100))).toEqual([100, 200, 400, 800]);
+  });
+});
+
+describe('withRetry', () => {
+  it('retries failures until an attempt succeeds', async () => {
+    const task = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('busy'))
+      .mockRejectedValueOnce(new Error('busy'))
+      .mockResolvedValue('done');
+
+    await expect(withRetry(task, { maxRetries: 2, delayMs: 0 })).resolves.toBe('done');
+    expect(task.mock.calls.map(([attempt]) => attempt)).toEqual([0, 1, 2]);
+  });
+
+  it('throws the last error once the retries are exhausted', async () => {
+    const task = jest.fn().mockRejectedValue(new Error('busy'));
+
+    await expect(withRetry(task, { maxRetries: 1, delayMs: 0 })).rejects.toThrow('busy');
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry failures that are not worth retrying', async () => {
+    const task = jest.fn().mockRejectedValue(new Error('invalid'));
+
+    await expect(
+      withRetry(task, { maxRetries: 3, delayMs: 0, shouldRetry: () => false })
+    ).rejects.toThrow('invalid');
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,40 @@
+import { type Transcription } from '@/services/openai/schemas';
+import { transcriptionToMarkdown, transcriptionToText } from '../transcription';
+
+/**
+ * A receipt transcribed as a heading, a table and a footer.
+ */
+const RECEIPT: Transcription = {
+  blocks: [
+    { type: 'paragraph', lines: ['# Cafe Central', 'Main St. 1'] },
+    {
+      type: 'table',
+      rows: [['Item', 'Price'], ['Espresso', '2.50'], ['Tea | large']],
+    },
+    { type: 'paragraph', lines: ['- Thank you *very* much'] },
+  ],
+};
+
+describe('transcriptionToText', () => {
+  it('keeps line breaks, separates blocks and tab-separates table cells', () => {
+    expect(transcriptionToText(RECEIPT)).toBe(
+      '# Cafe Central\nMain St. 1\n\nItem\tPrice\nEspresso\t2.50\nTea | large\n\n- Thank you *very* much'
+    );
+  });
+
+  it('returns an empty string for an image without text', () => {
+    expect(transcriptionToText({ blocks: [] })).toBe('');
+  });
+});
+
+describe('transcriptionToMarkdown', () => {
+  it('writes hard line breaks and tables and escapes the text', () => {
+    expect(transcriptionToMarkdown(RECEIPT)).toBe(
+      [
+        '\\# Cafe Central  \nMain St. 1',
+        '| Item | Price |\n| --- | --- |\n| Espresso | 2.50 |\n| Tea \\| large |  |',
+        '\\- Thank you \\*very\\* much',
+      ].join('\n\n')
+    );
+  });
+});
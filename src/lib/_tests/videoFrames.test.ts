@@ -0,0 +1,176 @@
+import {
+  DEFAULT_FRAME_SAMPLING,
+  formatTimestamp,
+  frameDifference,
+  pickSceneChanges,
+  sampleTimestamps,
+  sampleVideoFrames,
+} from '../videoFrames';
+
+/**
+ * Builds the RGBA pixels of a uniformly grey frame.
+ */
+const greyFrame = (level: number, pixels = 4) =>
+  new Uint8ClampedArray(Array.from({ length: pixels }, () => [level, level, level, 255]).flat());
+
+/**
+ * A detached video element that loads at once and, like a MediaRecorder WebM, reports an
+ * infinite duration until it has been seeked past its end.
+ */
+class FakeVideo {
+  muted = false;
+  preload = '';
+  src = '';
+  duration = Infinity;
+  onloadeddata: (() => void) | null = null;
+  onseeked: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  constructor(
+    private length: number,
+    private seeks = true
+  ) {}
+
+  set currentTime(time: number) {
+    if (!Number.isFinite(time)) throw new TypeError('The provided double value is non-finite.');
+    if (!this.seeks) return;
+    setTimeout(() => {
+      if (time >= this.length) this.duration = this.length;
+      this.onseeked?.();
+    });
+  }
+
+  removeAttribute() {}
+  load() {}
+}
+
+/**
+ * Makes document.createElement('video') return the given video, loading it once a source is set.
+ */
+const mockVideo = (video: FakeVideo) => {
+  Object.defineProperty(globalThis, 'document', {
+    configurable: true,
+    value: { createElement: () => video },
+  });
+  jest.spyOn(URL, 'createObjectURL').mockImplementation(() => {
+    setTimeout(() => video.onloadeddata?.());
+    return 'blob:video';
+  });
+  jest.spyOn(URL, 'revokeObjectURL').mockImplementation(() => {});
+};
+
+/**
+ * A recorded video file.
+ */
+const VIDEO = new File([''], 'recording.webm', { type: 'video/webm' });
+
+describe('formatTimestamp', () => {
+  it('formats minutes and seconds, with hours for long videos', () => {
+    expect(formatTimestamp(0)).toBe('0:00');
+    expect(formatTimestamp(7.9)).toBe('0:07');
+    expect(formatTimestamp(754)).toBe('12:34');
+    expect(formatTimestamp(3723)).toBe('1:02:03');
+  });
+});
+
+describe('sampleTimestamps', () => {
+  it('samples a frame every N seconds from the start', () => {
+    expect(sampleTimestamps({ strategy: 'interval', seconds: 5 }, 12)).toEqual([0, 5, 10]);
+  });
+
+  it('spreads a fixed number of frames over the whole video', () => {
+    expect(sampleTimestamps({ strategy: 'count', count: 3 }, 10.1)).toEqual([0, 5, 10]);
+    expect(sampleTimestamps({ strategy: 'count', count: 1 }, 10)).toEqual([0]);
+  });
+
+  it('rejects videos of unknown length', () => {
+    expect(() => sampleTimestamps({ strategy: 'count', count: 3 }, Infinity)).toThrow(
+      'The length of the video is unknown.'
+    );
+    expect(() => sampleTimestamps({ strategy: 'interval', seconds: 5 }, NaN)).toThrow();
+  });
+
+  it('caps the number of frames', () => {
+    expect(sampleTimestamps({ strategy: 'interval', seconds: 1 }, 3600)).toHaveLength(24);
+    expect(sampleTimestamps({ strategy: 'count', count: 100 }, 60)).toHaveLength(24);
+  });
+});
+
+describe('frameDifference', () => {
+  it('measures the mean brightness difference from 0 to 1', () => {
+    expect(frameDifference(greyFrame(10), greyFrame(10))).toBe(0);
+    expect(frameDifference(greyFrame(0), greyFrame(255))).toBeCloseTo(1);
+    expect(frameDifference(greyFrame(0), greyFrame(51))).toBeCloseTo(0.2);
+  });
+});
+
+describe('pickSceneChanges', () => {
+  it('keeps the first frame and the frames that differ enough from the one before', () => {
+    expect(
+      pickSceneChanges([
+        { time: 0, difference: 0 },
+        { time: 0.5, difference: 0.01 },
+        { time: 1, difference: 0.4 },
+        { time: 1.5, difference: 0.02 },
+        { time: 2, difference: 0.2 },
+      ])
+    ).toEqual([0, 1, 2]);
+    expect(pickSceneChanges([])).toEqual([]);
+  });
+
+  it('keeps the largest changes when there are too many', () => {
+    const scanned = Array.from({ length: 40 }, (_, i) => ({ time: i, difference: i / 100 + 0.2 }));
+    const picked = pickSceneChanges(scanned);
+    expect(picked).toHaveLength(24);
+    expect(picked.slice(0, 2)).toEqual([0, 17]);
+    expect(picked.at(-1)).toBe(39);
+  });
+});
+
+describe('sampleVideoFrames', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+    Reflect.deleteProperty(globalThis, 'document');
+  });
+
+  it('reads the length of videos reporting an infinite duration by seeking past their end', async () => {
+    mockVideo(new FakeVideo(10));
+
+    await expect(sampleVideoFrames(VIDEO, { strategy: 'count', count: 3 })).resolves.toEqual({
+      duration: 10,
+      timestamps: [0, 4.95, 9.9],
+    });
+  });
+
+  it('rejects videos whose length stays unknown', async () => {
+    const video = new FakeVideo(Infinity);
+    mockVideo(video);
+
+    await expect(sampleVideoFrames(VIDEO, { strategy: 'scene-change' })).rejects.toThrow(
+      'The length of recording.webm could not be read.'
+    );
+  });
+
+  it('rejects when the video fails while seeking', async () => {
+    const video = new FakeVideo(10, false);
+    mockVideo(video);
+
+    const sampled = sampleVideoFrames(VIDEO, DEFAULT_FRAME_SAMPLING);
+    await new Promise(resolve => setTimeout(resolve));
+    video.onerror?.();
+
+    await expect(sampled).rejects.toThrow('The video could not be read.');
+  });
+
+  it('rejects when the video takes too long to seek', async () => {
+    jest.useFakeTimers();
+    mockVideo(new FakeVideo(10, false));
+
+    const sampled = sampleVideoFrames(VIDEO, DEFAULT_FRAME_SAMPLING);
+    const rejected = expect(sampled).rejects.toThrow('The video took too long to seek.');
+    await jest.advanceTimersByTimeAsync(10000);
+
+    await rejected;
+  });
+});
@@ -0,0 +1,89 @@
+import { toCsv } from '@/lib/csv';
+import { formatImageSource } from '@/lib/imageSources';
+import { type ImageAnalysisResult } from '@/services/chats/schemas';
+import { type AltText } from '@/services/openai/schemas';
+
+/**
+ * Names each result by its uploaded file name and page or timestamp, e.g. "report.pdf p.3" or
+ * "clip.mp4 @ 0:12", falling back to "image-N" for results without one.
+ * Repeated names get the first free counter before the extension, e.g. "photo (2).jpg", so they
+ * stay unique even next to uploads already named that way.
+ *
+ * @param results - The per-image results.
+ * @returns One unique name per result, in order.
+ */
+export const uniqueFileNames = (results: ImageAnalysisResult[]) => {
+  const seen = new Set<string>();
+  // Last counter given to each repeated name
+  const counters = new Map<string, number>();
+  return results.map(({ index, fileName: uploadedName, page, timestamp }) => {
+    const fileName = uploadedName || `image-${index + 1}`;
+    const base = formatImageSource({ fileName, page, timestamp });
+    const dot = fileName.lastIndexOf('.');
+    let name = base;
+    let count = counters.get(base) ?? 1;
+    // Count up until the numbered name is unused
+    while (seen.has(name)) {
+      count++;
+      const numbered =
+        dot > 0
+          ? `${fileName.slice(0, dot)} (${count})${fileName.slice(dot)}`
+          : `${fileName} (${count})`;
+      name = formatImageSource({ fileName: numbered, page, timestamp });
+    }
+    counters.set(base, count);
+    seen.add(name);
+    return name;
+  });
+};
+
+/**
+ * Returns the accessibility text of a completed result, or undefined when there is none.
+ */
+const altTextOf = (result: ImageAnalysisResult): AltText | undefined =>
+  result.ok && !result.pending ? result.altText : undefined;
+
+/**
+ * Formats the accessibility text of each image as CSV, one row per image with its file name;
+ * failed images keep their row with the error.
+ *
+ * @param results - The per-image results of the alt-text task.
+ * @returns The CSV text.
+ */
+export const toAltTextCsv = (results: ImageAnalysisResult[]) => {
+  const names = uniqueFileNames(results);
+  return toCsv(
+    ['file', 'alt', 'longDescription', 'decorative', 'error'],
+    results.map((result, i) => {
+      const altText = altTextOf(result);
+      return [
+        names[i],
+        altText?.alt,
+        altText?.longDescription,
+        altText?.decorative,
+        result.ok ? undefined : result.error,
+      ];
+    })
+  );
+};
+
+/**
+ * Formats the accessibility text of each image as JSON keyed by file name; failed images map
+ * to their error.
+ *
+ * @param results - The per-image results of the alt-text task.
+ * @returns The indented JSON text.
+ */
+export const toAltTextJson = (results: ImageAnalysisResult[]) => {
+  const names = uniqueFileNames(results);
+  return JSON.stringify(
+    Object.fromEntries(
+      results.map((result, i) => [
+        names[i],
+        altTextOf(result) ?? { error: result.ok ? 'No alt text.' : result.error },
+      ])
+    ),
+    null,
+    2
+  );
+};
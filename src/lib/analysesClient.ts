@@ -0,0 +1,87 @@
+import { AnalysesApiErrorResponseSchema } from '@/app/api/analyses/schemas';
+import { estimateDataUrlBytes, MAX_TOTAL_IMAGE_BYTES } from '@/lib/images';
+import { NDJSON_CONTENT_TYPE, readNdjson } from '@/lib/ndjson';
+import type { ChatMessage } from '@/services/chats/schemas';
+import {
+  type ConversationMessage,
+  type ImageAnalysisRequest,
+  type ImageAnalysisStreamEvent,
+  MAX_HISTORY_IMAGES,
+} from '@/services/openai/schemas';
+
+/**
+ * Converts chat messages into the history sent with a follow-up question.
+ * Pending messages are skipped, and assistant turns keep their aggregate answer. Only the most
+ * recent images are kept so the request stays within MAX_HISTORY_IMAGES and the byte budget;
+ * the answers about older images still provide context.
+ *
+ * @param messages - The chat messages so far, oldest first.
+ * @param byteBudget - Max total size of the history images in bytes, e.g. what the new images
+ * leave of MAX_TOTAL_IMAGE_BYTES.
+ * @returns The conversation history for an analysis request.
+ */
+export const toConversationHistory = (
+  messages: ChatMessage[],
+  byteBudget = MAX_TOTAL_IMAGE_BYTES
+): ConversationMessage[] => {
+  let remainingImages = MAX_HISTORY_IMAGES;
+  let remainingBytes = byteBudget;
+  return messages
+    .filter(m => m.role === 'user' || !m.pending)
+    .reverse()
+    .map((m): ConversationMessage => {
+      if (m.role === 'assistant') {
+        return {
+          role: 'assistant',
+          results: m.results.map(r => ({
+            index: r.index,
+            ok: r.ok,
+            text: r.ok ? r.text : undefined,
+          })),
+          ...(m.summary && { summary: { text: m.summary.text } }),
+        };
+      }
+      // Keep a turn's first images, so they keep their positions
+      const images: string[] = [];
+      for (const image of m.images) {
+        const bytes = estimateDataUrlBytes(image);
+        if (images.length >= remainingImages || bytes > remainingBytes) break;
+        images.push(image);
+        remainingBytes -= bytes;
+      }
+      remainingImages -= images.length;
+      return { role: 'user', question: m.question, images };
+    })
+    .reverse();
+};
+
+/**
+ * Requests a streamed image analysis from POST /api/analyses.
+ *
+ * @param request - The question and images to analyze.
+ * @param signal - Optional signal to abort the request.
+ * @returns An async generator yielding per-image updates and aggregate answer updates as they arrive.
+ * @throws Error with the API error message when the request is rejected.
+ */
+export async function* streamImageAnalysis(
+  request: ImageAnalysisRequest,
+  signal?: AbortSignal
+): AsyncGenerator<ImageAnalysisStreamEvent> {
+  const res = await fetch('/api/analyses', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: NDJSON_CONTENT_TYPE },
+    body: JSON.stringify(request),
+    signal,
+  });
+
+  // Surface structured API errors
+  if (!res.ok || !res.body) {
+    const body = AnalysesApiErrorResponseSchema.safeParse(await res.json().catch(() => null));
+    throw new Error(body.success ? body.data.error.message : 'Unexpected server error');
+  }
+
+  // Events are validated by the route before they are streamed
+  for await (const event of readNdjson(res.body)) {
+    yield event as ImageAnalysisStreamEvent;
+  }
+}
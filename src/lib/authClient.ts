@@ -0,0 +1,62 @@
+import type { AuthApiErrorResponse, SignInResponse } from '@/app/api/auth/schemas';
+import type { SessionResponse } from '@/services/auth/schemas';
+
+/**
+ * Throws the API error message of a failed auth API response.
+ */
+const throwApiError = async (res: Response): Promise<never> => {
+  const body = (await res.json().catch(() => null)) as AuthApiErrorResponse | null;
+  throw new Error(body?.error?.message ?? 'Unexpected server error');
+};
+
+/**
+ * Fetches the current session from GET /api/auth/session.
+ *
+ * @param signal - Optional signal to abort the request.
+ * @returns Whether signing in is required, and the signed-in user.
+ * @throws Error when the request fails.
+ */
+export const fetchSession = async (signal?: AbortSignal) => {
+  const res = await fetch('/api/auth/session', { signal });
+  if (!res.ok) {
+    throw new Error('Failed to load the session.');
+  }
+  return (await res.json()) as SessionResponse;
+};
+
+/**
+ * Signs in with an email and password.
+ *
+ * @param email - The email address.
+ * @param password - The password.
+ * @returns The signed-in user.
+ * @throws Error with a user-facing message when signing in fails.
+ */
+export const signInWithCredentials = async (email: string, password: string) => {
+  const res = await fetch('/api/auth/credentials', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password }),
+  });
+  if (!res.ok) return throwApiError(res);
+  return ((await res.json()) as SignInResponse).user;
+};
+
+/**
+ * Signs in as the local developer.
+ *
+ * @returns The signed-in user.
+ * @throws Error with a user-facing message when the dev sign-in is disabled.
+ */
+export const signInAsDeveloper = async () => {
+  const res = await fetch('/api/auth/dev', { method: 'POST' });
+  if (!res.ok) return throwApiError(res);
+  return ((await res.json()) as SignInResponse).user;
+};
+
+/**
+ * Signs out, clearing the session cookie.
+ */
+export const signOut = async () => {
+  await fetch('/api/auth/logout', { method: 'POST' });
+};
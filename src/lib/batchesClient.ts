@@ -0,0 +1,62 @@
+import { BatchesApiErrorResponseSchema } from '@/app/api/batches/schemas';
+import type { BatchJobProgress } from '@/services/batches/schemas';
+
+/**
+ * Throws the API error message of a failed batches API response.
+ */
+const throwApiError = async (res: Response): Promise<never> => {
+  const body = BatchesApiErrorResponseSchema.safeParse(await res.json().catch(() => null));
+  throw new Error(body.success ? body.data.error.message : 'Unexpected server error');
+};
+
+/**
+ * Starts a batch job with POST /api/batches.
+ *
+ * @param question - The question asked of each image.
+ * @param files - Image files and zip archives of images.
+ * @param model - Optional model id.
+ * @returns The progress of the new job.
+ * @throws Error with the API error message when the request is rejected.
+ */
+export const createBatch = async (
+  question: string,
+  files: File[],
+  model?: string
+): Promise<BatchJobProgress> => {
+  const formData = new FormData();
+  formData.append('question', question);
+  if (model) formData.append('model', model);
+  for (const file of files) {
+    const isArchive = file.type === 'application/zip' || file.name.toLowerCase().endsWith('.zip');
+    formData.append(isArchive ? 'archives' : 'images', file, file.name);
+  }
+  const res = await fetch('/api/batches', { method: 'POST', body: formData });
+  if (!res.ok) return throwApiError(res);
+  return (await res.json()) as BatchJobProgress;
+};
+
+/**
+ * Fetches the progress of a batch job from GET /api/batches/[id].
+ *
+ * @param id - The job id.
+ * @param signal - Optional signal to abort the request.
+ * @returns The job progress.
+ * @throws Error with the API error message when the request fails.
+ */
+export const fetchBatchProgress = async (
+  id: string,
+  signal?: AbortSignal
+): Promise<BatchJobProgress> => {
+  const res = await fetch(`/api/batches/${encodeURIComponent(id)}`, { signal });
+  if (!res.ok) return throwApiError(res);
+  return (await res.json()) as BatchJobProgress;
+};
+
+/**
+ * Returns the download URL of the results of a batch job.
+ *
+ * @param id - The job id.
+ * @param format - The download format.
+ */
+export const batchResultsUrl = (id: string, format: 'csv' | 'json') =>
+  `/api/batches/${encodeURIComponent(id)}/results?format=${format}`;
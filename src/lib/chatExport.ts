@@ -0,0 +1,338 @@
+import { ANALYSIS_ERRORS, isAnalysisErrorCode } from '@/lib/errors';
+import { formatImageSource } from '@/lib/imageSources';
+import { parseDataUrl } from '@/lib/images';
+import { transcriptionToMarkdown } from '@/lib/transcription';
+import {
+  type Chat,
+  type ChatMessage,
+  ChatSchema,
+  type ImageAnalysisResult,
+  parseStoredChat,
+  serializeChat,
+} from '@/services/chats/schemas';
+import { type AnalysisMode, type Transcription } from '@/services/openai/schemas';
+import { strToU8, zipSync } from 'fflate';
+import { ZodError } from 'zod';
+
+/**
+ * How a Markdown export includes the images: inline as data URLs, or as files next to it.
+ */
+export type MarkdownImages = 'embedded' | 'attached';
+
+/**
+ * An image file referenced by a Markdown export with attached images.
+ */
+export interface ExportAttachment {
+  /** Path relative to the Markdown file, e.g. "images/q1-2.jpg". */
+  path: string;
+  /** The image bytes. */
+  bytes: Uint8Array;
+}
+
+/**
+ * Heading of the aggregate answer of each mode.
+ */
+const SUMMARY_HEADINGS: Record<Exclude<AnalysisMode, 'per-image'>, string> = {
+  comparative: 'Comparison',
+  combined: 'Combined answer',
+};
+
+/**
+ * Formats a timestamp as an unambiguous UTC date and time, e.g. "2026-10-19 14:03 UTC".
+ */
+const formatDateTime = (ms: number) =>
+  `${new Date(ms).toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+
+/**
+ * Builds a file name from a chat title, e.g. "receipt-totals.md".
+ *
+ * @param title - The chat title.
+ * @param extension - The file extension, without the dot.
+ * @returns The file name.
+ */
+export const exportFileName = (title: string, extension: string) => {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return `${slug || 'chat'}.${extension}`;
+};
+
+/**
+ * Labels a result by its file, page or timestamp, falling back to its position; a follow-up
+ * answer without an image of its own is labelled "Answer".
+ */
+const resultLabel = ({ index, image, fileName, page, timestamp }: ImageAnalysisResult) => {
+  if (fileName) return formatImageSource({ fileName, page, timestamp });
+  return image ? `Image ${index + 1}` : 'Answer';
+};
+
+/**
+ * Labels the images of a user message by their source, falling back to their position.
+ */
+const imageLabels = (message: Extract<ChatMessage, { role: 'user' }>) =>
+  message.images.map((_, i) => {
+    const source = message.sources?.[i];
+    return source ? formatImageSource(source) : `Image ${i + 1}`;
+  });
+
+/**
+ * Returns the message of a failed result: the generic message of analysis error codes, or the
+ * server's message.
+ */
+const errorMessage = (result: Extract<ImageAnalysisResult, { ok: false }>) =>
+  isAnalysisErrorCode(result.code) ? ANALYSIS_ERRORS[result.code].message : result.error;
+
+/**
+ * Pairs each user message with the assistant message answering it.
+ */
+const toTurns = (messages: ChatMessage[]) =>
+  messages.flatMap((message, i) => {
+    if (message.role !== 'user') return [];
+    const next = messages[i + 1];
+    return [{ question: message, answer: next?.role === 'assistant' ? next : undefined }];
+  });
+
+/**
+ * Formats the answer of a result as Markdown: the answer text, the alt text, the transcription
+ * or the extracted data, or the error.
+ */
+const resultToMarkdown = (result: ImageAnalysisResult) => {
+  if (!result.ok) return `**Error:** ${errorMessage(result)}`;
+  if (result.pending) return '_No answer was received._';
+  if (result.altText) {
+    const { alt, longDescription, decorative } = result.altText;
+    return [
+      `**Alt text:** ${decorative && !alt ? '_(decorative)_' : alt}`,
+      longDescription && `**Long description:** ${longDescription}`,
+    ]
+      .filter(Boolean)
+      .join('\n\n');
+  }
+  if (result.transcription) {
+    return transcriptionToMarkdown(result.transcription) || '_No text found in this image._';
+  }
+  if (result.data) {
+    const issues = (result.validationErrors ?? []).map(
+      ({ path, message }) => `- \`${path || '/'}\`: ${message}`
+    );
+    return [
+      `\`\`\`json\n${JSON.stringify(result.data, null, 2)}\n\`\`\``,
+      ...(issues.length ? ['Does not match the schema:', issues.join('\n')] : []),
+    ].join('\n\n');
+  }
+  return result.text;
+};
+
+/**
+ * Formats a chat as Markdown: each question with its images, then the aggregate answer and the
+ * answer or error for each image, with the time of each message.
+ *
+ * @param chat - The chat to export.
+ * @param images - Whether to embed the images as data URLs or reference attached files.
+ * @returns The Markdown text and, with attached images, the image files it references.
+ */
+export const toChatMarkdown = (chat: Chat, images: MarkdownImages = 'embedded') => {
+  const attachments: ExportAttachment[] = [];
+
+  /**
+   * Returns the Markdown image source of an image, attaching it when requested.
+   */
+  const imageSource = (dataUrl: string, name: string) => {
+    const parsed = images === 'attached' ? parseDataUrl(dataUrl) : undefined;
+    if (!parsed) return dataUrl;
+    const extension = parsed.mediaType.replace('image/', '').replace('jpeg', 'jpg');
+    const path = `images/${name}.${extension}`;
+    attachments.push({ path, bytes: parsed.bytes });
+    return path;
+  };
+
+  const lines = [`# ${chat.title}`, '', `_Exported ${formatDateTime(Date.now())}_`];
+  toTurns(chat.messages).forEach(({ question, answer }, turn) => {
+    lines.push('', `## Question ${turn + 1}`, '', `_${formatDateTime(question.createdAt)}_`, '');
+    lines.push(...question.question.split('\n').map(line => `> ${line}`));
+    const labels = imageLabels(question);
+    question.images.forEach((image, i) => {
+      lines.push('', `![${labels[i]}](${imageSource(image, `q${turn + 1}-${i + 1}`)})`);
+      lines.push(`_${labels[i]}_`);
+    });
+    if (!answer) return;
+
+    lines.push('', '### Answer', '', `_${formatDateTime(answer.createdAt)}_`);
+    if (answer.summary?.text && answer.mode && answer.mode !== 'per-image') {
+      lines.push('', `**${SUMMARY_HEADINGS[answer.mode]}:** ${answer.summary.text}`);
+    }
+    for (const result of answer.results) {
+      // Aggregate answers leave out images that need no note
+      if (answer.summary && result.ok && !result.text) continue;
+      lines.push('', `#### ${resultLabel(result)}`, '', resultToMarkdown(result));
+    }
+  });
+  return { markdown: `${lines.join('\n')}\n`, attachments };
+};
+
+/**
+ * Packs a chat as a zip archive of a Markdown file and the images it references.
+ *
+ * @param chat - The chat to export.
+ * @returns The zip archive, with "chat.md" and an "images" folder.
+ */
+export const toChatMarkdownZip = (chat: Chat) => {
+  const { markdown, attachments } = toChatMarkdown(chat, 'attached');
+  return zipSync({
+    'chat.md': strToU8(markdown),
+    ...Object.fromEntries(attachments.map(({ path, bytes }) => [path, bytes])),
+  });
+};
+
+/**
+ * Escapes text for use in HTML content and attribute values.
+ */
+const escapeHtml = (text: string) =>
+  text.replace(
+    /[&<>"']/g,
+    char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char] ?? char
+  );
+
+/**
+ * Formats a transcription as HTML paragraphs and tables.
+ */
+const transcriptionToHtml = ({ blocks }: Transcription) =>
+  blocks
+    .map(block =>
+      block.type === 'paragraph'
+        ? `<p>${block.lines.map(escapeHtml).join('<br>')}</p>`
+        : `<table>${block.rows
+            .map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`)
+            .join('')}</table>`
+    )
+    .join('\n');
+
+/**
+ * Formats the answer of a result as HTML, like resultToMarkdown.
+ */
+const resultToHtml = (result: ImageAnalysisResult) => {
+  if (!result.ok) return `<p class="error">Error: ${escapeHtml(errorMessage(result))}</p>`;
+  if (result.pending) return '<p class="muted">No answer was received.</p>';
+  if (result.altText) {
+    const { alt, longDescription, decorative } = result.altText;
+    return [
+      `<p><strong>Alt text:</strong> ${decorative && !alt ? '<em>(decorative)</em>' : escapeHtml(alt)}</p>`,
+      longDescription && `<p><strong>Long description:</strong> ${escapeHtml(longDescription)}</p>`,
+    ]
+      .filter(Boolean)
+      .join('\n');
+  }
+  if (result.transcription) {
+    return result.transcription.blocks.length
+      ? transcriptionToHtml(result.transcription)
+      : '<p class="muted">No text found in this image.</p>';
+  }
+  if (result.data) {
+    const issues = (result.validationErrors ?? []).map(
+      ({ path, message }) =>
+        `<li><code>${escapeHtml(path || '/')}</code>: ${escapeHtml(message)}</li>`
+    );
+    return `<pre>${escapeHtml(JSON.stringify(result.data, null, 2))}</pre>${
+      issues.length ? `<p>Does not match the schema:</p><ul>${issues.join('')}</ul>` : ''
+    }`;
+  }
+  return `<p class="text">${escapeHtml(result.text)}</p>`;
+};
+
+/**
+ * Styles of the HTML export, for screens and for printing to PDF.
+ */
+const HTML_STYLES = `
+body { font: 14px/1.5 system-ui, sans-serif; color: #111; max-width: 800px; margin: 2rem auto; padding: 0 1rem; }
+h1 { font-size: 1.5rem; } h2 { font-size: 1.2rem; margin-top: 2rem; border-top: 1px solid #ddd; padding-top: 1rem; }
+h3 { font-size: 1rem; } h4 { font-size: 0.9rem; margin-bottom: 0.25rem; }
+blockquote { margin: 0; padding: 0.5rem 1rem; background: #eff6ff; border-left: 3px solid #2563eb; white-space: pre-wrap; }
+figure { display: inline-block; margin: 0.5rem 0.5rem 0 0; } figcaption { font-size: 0.75rem; color: #555; }
+figure img { max-width: 180px; max-height: 180px; border: 1px solid #ddd; border-radius: 4px; }
+.result { display: flex; gap: 0.75rem; } .result img { width: 64px; height: 64px; object-fit: cover; border-radius: 4px; }
+.text { white-space: pre-wrap; } .error { color: #dc2626; } .muted, time { color: #666; font-size: 0.8rem; }
+table { border-collapse: collapse; } td { border: 1px solid #ccc; padding: 2px 6px; }
+pre { background: #f4f4f5; padding: 0.5rem; overflow-x: auto; }
+@media print { body { margin: 0; max-width: none; } h2 { break-before: auto; } .result, figure, table, pre { break-inside: avoid; } }
+`;
+
+/**
+ * Formats a chat as a standalone HTML page with the images embedded, styled to print well so it
+ * can be saved as a PDF.
+ *
+ * @param chat - The chat to export.
+ * @returns The HTML document.
+ */
+export const toChatHtml = (chat: Chat) => {
+  const body = toTurns(chat.messages).map(({ question, answer }, turn) => {
+    const labels = imageLabels(question);
+    const figures = question.images.map(
+      (image, i) =>
+        `<figure><img src="${escapeHtml(image)}" alt="${escapeHtml(labels[i])}"><figcaption>${escapeHtml(labels[i])}</figcaption></figure>`
+    );
+    const parts = [
+      `<h2>Question ${turn + 1}</h2>`,
+      `<time>${formatDateTime(question.createdAt)}</time>`,
+      `<blockquote>${escapeHtml(question.question)}</blockquote>`,
+      figures.length ? `<div>${figures.join('')}</div>` : '',
+    ];
+    if (answer) {
+      parts.push('<h3>Answer</h3>', `<time>${formatDateTime(answer.createdAt)}</time>`);
+      if (answer.summary?.text && answer.mode && answer.mode !== 'per-image') {
+        parts.push(
+          `<p class="text"><strong>${SUMMARY_HEADINGS[answer.mode]}:</strong> ${escapeHtml(answer.summary.text)}</p>`
+        );
+      }
+      for (const result of answer.results) {
+        if (answer.summary && result.ok && !result.text) continue;
+        const label = escapeHtml(resultLabel(result));
+        parts.push(
+          `<section class="result">${result.image ? `<img src="${escapeHtml(result.image)}" alt="${label}">` : ''}<div><h4>${label}</h4>${resultToHtml(result)}</div></section>`
+        );
+      }
+    }
+    return parts.filter(Boolean).join('\n');
+  });
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(chat.title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(chat.title)}</h1>
+<p class="muted">Exported ${formatDateTime(Date.now())}</p>
+${body.join('\n')}
+</body>
+</html>
+`;
+};
+
+/**
+ * Serializes a chat as versioned JSON that can be imported again without loss.
+ *
+ * @param chat - The chat to export.
+ * @returns The indented JSON text.
+ */
+export const toChatJson = (chat: Chat) => JSON.stringify(serializeChat(chat), null, 2);
+
+/**
+ * Reads a chat exported as JSON, migrating it from older versions when needed.
+ *
+ * @param text - The contents of the exported file.
+ * @returns The chat, with the id and title it was exported with.
+ * @throws Error when the text is not an exported chat, or was exported by a newer version.
+ */
+export const parseChatExport = (text: string): Chat => {
+  try {
+    return ChatSchema.parse(parseStoredChat(JSON.parse(text)));
+  } catch (err) {
+    if (err instanceof SyntaxError || err instanceof ZodError) {
+      throw new Error('This file is not an exported chat.');
+    }
+    throw err;
+  }
+};
@@ -0,0 +1,64 @@
+import { ChatsApiErrorResponseSchema, type ChatsResponse } from '@/app/api/chats/schemas';
+import { createIndexedDbChatStore } from '@/lib/indexedDbChatStore';
+import type { ChatStore } from '@/services/chats/chatStore';
+import type { Chat, ChatSummary } from '@/services/chats/schemas';
+
+/**
+ * Throws the API error message of a failed chats API response.
+ */
+const throwApiError = async (res: Response): Promise<never> => {
+  const body = ChatsApiErrorResponseSchema.safeParse(await res.json().catch(() => null));
+  throw new Error(body.success ? body.data.error.message : 'Unexpected server error');
+};
+
+/**
+ * Creates a chat store backed by the /api/chats routes, which persist chats on the server.
+ *
+ * @returns A ChatStore implementation.
+ */
+export const createApiChatStore = (): ChatStore => ({
+  listChats: async query => {
+    const res = await fetch(`/api/chats${query ? `?q=${encodeURIComponent(query)}` : ''}`);
+    if (!res.ok) return throwApiError(res);
+    return ((await res.json()) as ChatsResponse).chats;
+  },
+  getChat: async id => {
+    const res = await fetch(`/api/chats/${encodeURIComponent(id)}`);
+    if (res.status === 404) return undefined;
+    if (!res.ok) return throwApiError(res);
+    return (await res.json()) as Chat;
+  },
+  saveChat: async chat => {
+    const res = await fetch(`/api/chats/${encodeURIComponent(chat.id)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(chat),
+    });
+    if (!res.ok) return throwApiError(res);
+  },
+  renameChat: async (id, title) => {
+    const res = await fetch(`/api/chats/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title }),
+    });
+    if (res.status === 404) return undefined;
+    if (!res.ok) return throwApiError(res);
+    return (await res.json()) as ChatSummary;
+  },
+  deleteChat: async id => {
+    const res = await fetch(`/api/chats/${encodeURIComponent(id)}`, { method: 'DELETE' });
+    if (res.status === 404) return false;
+    if (!res.ok) return throwApiError(res);
+    return true;
+  },
+});
+
+/**
+ * The chat store used by the UI: chats are kept on the server unless
+ * NEXT_PUBLIC_CHAT_STORAGE is "indexeddb", which keeps them in the browser.
+ */
+export const chatStore: ChatStore =
+  process.env.NEXT_PUBLIC_CHAT_STORAGE === 'indexeddb'
+    ? createIndexedDbChatStore()
+    : createApiChatStore();
@@ -0,0 +1,26 @@
+/**
+ * Formats a value as a CSV field, quoting it when it contains a delimiter, quote or newline.
+ * Strings are written as-is, null and undefined as empty fields and anything else as JSON.
+ *
+ * @param value - The value of the field.
+ * @returns The escaped field.
+ */
+export const toCsvField = (value: unknown) => {
+  const text =
+    value === null || value === undefined
+      ? ''
+      : typeof value === 'string'
+        ? value
+        : JSON.stringify(value);
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+};
+
+/**
+ * Formats rows as RFC 4180 CSV with CRLF line endings.
+ *
+ * @param header - The column names.
+ * @param rows - The rows, one value per column.
+ * @returns The CSV text.
+ */
+export const toCsv = (header: string[], rows: unknown[][]) =>
+  [header, ...rows].map(row => row.map(toCsvField).join(',')).join('\r\n');
@@ -0,0 +1,39 @@
+import {
+  DocumentsApiErrorResponseSchema,
+  type DocumentPagesResponse,
+} from '@/app/api/documents/schemas';
+import { DOCUMENT_MIME_TYPES } from '@/services/documents/schemas';
+
+/**
+ * Returns true when a file is a PDF or TIFF document whose pages are rasterized by the server.
+ *
+ * @param file - The dropped file.
+ */
+export const isDocumentFile = (file: File) =>
+  DOCUMENT_MIME_TYPES.includes(file.type) || /\.(pdf|tiff?)$/i.test(file.name);
+
+/**
+ * Rasterizes a range of pages of a document with POST /api/documents.
+ *
+ * @param file - The PDF or TIFF document.
+ * @param firstPage - 1-based number of the first page.
+ * @param count - Number of pages.
+ * @returns The pages as JPEG data URLs and the document's page count.
+ * @throws Error with the API error message when the request is rejected.
+ */
+export const fetchDocumentPages = async (
+  file: File,
+  firstPage: number,
+  count: number
+): Promise<DocumentPagesResponse> => {
+  const formData = new FormData();
+  formData.append('file', file, file.name);
+  formData.append('firstPage', String(firstPage));
+  formData.append('count', String(count));
+  const res = await fetch('/api/documents', { method: 'POST', body: formData });
+  if (!res.ok) {
+    const body = DocumentsApiErrorResponseSchema.safeParse(await res.json().catch(() => null));
+    throw new Error(body.success ? body.data.error.message : 'Unexpected server error');
+  }
+  return (await res.json()) as DocumentPagesResponse;
+};
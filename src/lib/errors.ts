@@ -1,3 +1,5 @@
+import { z } from 'zod';
+
 /**
  * Error objects that carry a string message.
  */
@@ -20,3 +22,96 @@ export const isErrorWithMessage = (value: unknown): value is ErrorWithMessage =>
     typeof (value as { message?: unknown }).message === 'string'
   );
 };
+
+/**
+ * Schema for the codes of analysis failures, mapped from provider errors so clients can
+ * branch on the reason without seeing provider internals.
+ */
+export const AnalysisErrorCodeSchema = z.enum([
+  'rate_limited',
+  'auth',
+  'content_policy',
+  'too_large',
+  'unsupported_format',
+  'timeout',
+  'model_refusal',
+  'model_unavailable',
+  'unknown',
+]);
+
+/**
+ * Analysis error code type
+ */
+export type AnalysisErrorCode = z.infer<typeof AnalysisErrorCodeSchema>;
+
+/**
+ * How an analysis failure is presented to users.
+ */
+export interface AnalysisErrorDescription {
+  /** What went wrong, safe to show to users. */
+  message: string;
+  /** What the user can do about it. */
+  action: string;
+  /** Whether trying the same request again may succeed. */
+  retryable: boolean;
+}
+
+/**
+ * User-facing message and suggested action for each analysis error code.
+ */
+export const ANALYSIS_ERRORS: Record<AnalysisErrorCode, AnalysisErrorDescription> = {
+  rate_limited: {
+    message: 'The model provider is receiving too many requests.',
+    action: 'Wait a moment, then retry.',
+    retryable: true,
+  },
+  auth: {
+    message: 'The model provider rejected the server credentials.',
+    action: 'Ask an administrator to check the API key.',
+    retryable: false,
+  },
+  content_policy: {
+    message: "The image or question was blocked by the model provider's content policy.",
+    action: 'Try a different image or rephrase the question.',
+    retryable: false,
+  },
+  too_large: {
+    message: 'The image or conversation is too large for the model.',
+    action: 'Upload a smaller image or start a new chat.',
+    retryable: false,
+  },
+  unsupported_format: {
+    message: 'The model cannot read this image format.',
+    action: 'Convert the image to PNG or JPEG and upload it again.',
+    retryable: false,
+  },
+  timeout: {
+    message: 'The model took too long to respond.',
+    action: 'Retry, or ask about fewer images at once.',
+    retryable: true,
+  },
+  model_refusal: {
+    message: 'The model did not answer for this image.',
+    action: 'Retry, or rephrase the question.',
+    retryable: true,
+  },
+  model_unavailable: {
+    message: 'No model is available to analyze images.',
+    action: 'Ask an administrator to configure a model provider.',
+    retryable: false,
+  },
+  unknown: {
+    message: 'Something went wrong while analyzing the image.',
+    action: 'Retry in a moment.',
+    retryable: true,
+  },
+};
+
+/**
+ * Returns true when a value is an analysis error code, rather than e.g. a validation code.
+ *
+ * @param code - The code of an error result.
+ * @returns True for codes of AnalysisErrorCodeSchema.
+ */
+export const isAnalysisErrorCode = (code: unknown): code is AnalysisErrorCode =>
+  AnalysisErrorCodeSchema.safeParse(code).success;
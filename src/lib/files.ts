@@ -11,3 +11,47 @@ export const readFileAsDataUrl = (file: File) =>
     reader.onerror = e => reject(e);
     reader.readAsDataURL(file);
   });
+
+/**
+ * Reads a Blob (or File) on the server and returns its contents as a data URL string.
+ * Unlike readFileAsDataUrl, this does not depend on the browser FileReader API.
+ *
+ * @param blob - The Blob to read.
+ * @returns A promise that resolves to a data URL (base64) string representation of the blob.
+ */
+export const readBlobAsDataUrl = async (blob: Blob) => {
+  const base64 = Buffer.from(await blob.arrayBuffer()).toString('base64');
+  return `data:${blob.type || 'application/octet-stream'};base64,${base64}`;
+};
+
+/**
+ * Downloads text or binary content as a file in the browser.
+ *
+ * @param filename - The name of the downloaded file.
+ * @param content - The file contents.
+ * @param type - The MIME type of the contents.
+ */
+export const downloadFile = (filename: string, content: BlobPart, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Opens an HTML document in a new window and shows the browser's print dialog, from which it
+ * can be saved as a PDF.
+ *
+ * @param html - The standalone HTML document.
+ * @throws Error when the browser blocks the new window.
+ */
+export const printHtml = (html: string) => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) throw new Error('Allow pop-ups for this site to print the chat.');
+  // Print once the embedded images have loaded
+  printWindow.addEventListener('load', () => printWindow.print());
+  printWindow.document.write(html);
+  printWindow.document.close();
+};
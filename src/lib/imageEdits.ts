@@ -0,0 +1,221 @@
+import { parseDataUrl } from '@/lib/images';
+
+/**
+ * A point in coordinates normalized to 0–1 from the image's top-left corner.
+ */
+export interface EditPoint {
+  /** Distance from the left edge as a fraction of the image width. */
+  x: number;
+  /** Distance from the top edge as a fraction of the image height. */
+  y: number;
+}
+
+/**
+ * A rectangle in coordinates normalized to 0–1 from the image's top-left corner.
+ */
+export interface EditBox extends EditPoint {
+  /** Width as a fraction of the image width. */
+  width: number;
+  /** Height as a fraction of the image height. */
+  height: number;
+}
+
+/**
+ * An edit made to an image in the composer before asking about it. Coordinates refer to the
+ * image as it is after the edits before it.
+ */
+export type ImageEdit =
+  | { type: 'crop'; box: EditBox }
+  | { type: 'rotate'; quarterTurns: 1 | 2 | 3 }
+  | { type: 'blur'; box: EditBox }
+  | { type: 'redact'; box: EditBox }
+  | { type: 'box'; box: EditBox }
+  | { type: 'arrow'; from: EditPoint; to: EditPoint };
+
+/**
+ * Colour of the boxes and arrows drawn on images.
+ */
+const ANNOTATION_COLOR = '#ef4444';
+
+/**
+ * Clamps a coordinate to the image.
+ */
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Builds the box spanned by two corners dragged in any direction, clipped to the image.
+ *
+ * @param a - Where the drag started.
+ * @param b - Where the drag ended.
+ * @returns The box with its top-left corner first.
+ */
+export const boxFromPoints = (a: EditPoint, b: EditPoint): EditBox => {
+  const [x1, x2] = [clamp(Math.min(a.x, b.x)), clamp(Math.max(a.x, b.x))];
+  const [y1, y2] = [clamp(Math.min(a.y, b.y)), clamp(Math.max(a.y, b.y))];
+  return { x: x1, y: y1, width: x2 - x1, height: y2 - y1 };
+};
+
+/**
+ * Returns the pixel size of an image after a sequence of edits; only crops and rotations change
+ * it.
+ *
+ * @param width - Width of the original image in pixels.
+ * @param height - Height of the original image in pixels.
+ * @param edits - The edits, in order.
+ * @returns The edited size in pixels.
+ */
+export const editedSize = (width: number, height: number, edits: ImageEdit[]) =>
+  edits.reduce(
+    (size, edit) => {
+      if (edit.type === 'crop') {
+        return {
+          width: Math.max(1, Math.round(edit.box.width * size.width)),
+          height: Math.max(1, Math.round(edit.box.height * size.height)),
+        };
+      }
+      if (edit.type === 'rotate' && edit.quarterTurns % 2 === 1) {
+        return { width: size.height, height: size.width };
+      }
+      return size;
+    },
+    { width, height }
+  );
+
+/**
+ * Returns the ends of the two strokes of an arrow head, in pixels.
+ *
+ * @param from - Tail of the arrow in pixels.
+ * @param to - Tip of the arrow in pixels.
+ * @param length - Length of each stroke in pixels.
+ * @returns The two points the strokes from the tip end at.
+ */
+export const arrowHead = (from: EditPoint, to: EditPoint, length: number): EditPoint[] => {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  return [angle - Math.PI / 6, angle + Math.PI / 6].map(side => ({
+    x: to.x - length * Math.cos(side),
+    y: to.y - length * Math.sin(side),
+  }));
+};
+
+/**
+ * Creates a canvas of the given size with its 2D context.
+ */
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Images cannot be edited in this browser.');
+  return { canvas, context };
+};
+
+/**
+ * Describes why an image cannot be edited when the browser cannot decode it, e.g. TIFF outside
+ * Safari. Such images are converted on the server, so they can still be sent.
+ *
+ * @param original - Data URL of the image as uploaded.
+ * @returns The message shown in the editor.
+ */
+export const uneditableImageMessage = (original: string) => {
+  const format = parseDataUrl(original)
+    ?.mediaType.replace(/^image\//, '')
+    .toUpperCase();
+  return `This browser cannot open ${format ? `${format} images` : 'this image'} for editing. It can still be sent as uploaded.`;
+};
+
+/**
+ * Loads a data URL into an image element.
+ */
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(uneditableImageMessage(src)));
+    image.src = src;
+  });
+
+/**
+ * Applies a single edit to a canvas, returning the canvas holding the result.
+ */
+const applyEdit = (source: HTMLCanvasElement, edit: ImageEdit): HTMLCanvasElement => {
+  const { width, height } = source;
+
+  // Crops and rotations draw onto a canvas of the new size
+  if (edit.type === 'crop' || edit.type === 'rotate') {
+    const size = editedSize(width, height, [edit]);
+    const { canvas, context } = createCanvas(size.width, size.height);
+    if (edit.type === 'crop') {
+      const [sx, sy] = [Math.round(edit.box.x * width), Math.round(edit.box.y * height)];
+      context.drawImage(source, sx, sy, size.width, size.height, 0, 0, size.width, size.height);
+    } else {
+      context.translate(size.width / 2, size.height / 2);
+      context.rotate((edit.quarterTurns * Math.PI) / 2);
+      context.drawImage(source, -width / 2, -height / 2);
+    }
+    return canvas;
+  }
+
+  // Other edits draw over the image
+  const context = source.getContext('2d');
+  if (!context) throw new Error('Images cannot be edited in this browser.');
+  const stroke = Math.max(2, Math.round(Math.max(width, height) / 200));
+  context.strokeStyle = ANNOTATION_COLOR;
+  context.lineWidth = stroke;
+  context.lineCap = 'round';
+  if (edit.type === 'arrow') {
+    const from = { x: edit.from.x * width, y: edit.from.y * height };
+    const to = { x: edit.to.x * width, y: edit.to.y * height };
+    context.beginPath();
+    context.moveTo(from.x, from.y);
+    context.lineTo(to.x, to.y);
+    for (const end of arrowHead(from, to, stroke * 6)) {
+      context.moveTo(to.x, to.y);
+      context.lineTo(end.x, end.y);
+    }
+    context.stroke();
+    return source;
+  }
+  const [x, y] = [Math.round(edit.box.x * width), Math.round(edit.box.y * height)];
+  const [w, h] = [
+    Math.max(1, Math.round(edit.box.width * width)),
+    Math.max(1, Math.round(edit.box.height * height)),
+  ];
+  if (edit.type === 'redact') {
+    context.fillStyle = '#000';
+    context.fillRect(x, y, w, h);
+  } else if (edit.type === 'box') {
+    context.strokeRect(x, y, w, h);
+  } else {
+    // Blur by shrinking the region and scaling it back up smoothly
+    const shrink = Math.max(8, Math.round(Math.max(width, height) / 100));
+    const small = createCanvas(
+      Math.max(1, Math.round(w / shrink)),
+      Math.max(1, Math.round(h / shrink))
+    );
+    small.context.drawImage(source, x, y, w, h, 0, 0, small.canvas.width, small.canvas.height);
+    context.imageSmoothingEnabled = true;
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(small.canvas, 0, 0, small.canvas.width, small.canvas.height, x, y, w, h);
+  }
+  return source;
+};
+
+/**
+ * Applies edits to an image in the browser. Edits are always replayed on the original, so
+ * undoing one is re-applying the others.
+ *
+ * @param original - Data URL of the image as uploaded.
+ * @param edits - The edits, in order.
+ * @returns Data URL of the edited image, PNG for PNG originals and JPEG otherwise; the original
+ * when there are no edits.
+ * @throws Error when the image cannot be loaded or drawn.
+ */
+export const applyImageEdits = async (original: string, edits: ImageEdit[]) => {
+  if (edits.length === 0) return original;
+  const image = await loadImage(original);
+  const { canvas, context } = createCanvas(image.naturalWidth, image.naturalHeight);
+  context.drawImage(image, 0, 0);
+  const edited = edits.reduce(applyEdit, canvas);
+  const type = parseDataUrl(original)?.mediaType === 'image/png' ? 'image/png' : 'image/jpeg';
+  return edited.toDataURL(type, 0.92);
+};
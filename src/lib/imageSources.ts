@@ -0,0 +1,15 @@
+import { formatTimestamp } from '@/lib/videoFrames';
+import type { ImageSource } from '@/services/chats/schemas';
+
+/**
+ * Labels an image by its source, e.g. "photo.jpg", "report.pdf p.3" or "clip.mp4 @ 0:12".
+ *
+ * @param source - The file name and, for document pages, the page number or, for video frames,
+ * the timestamp.
+ * @returns The label.
+ */
+export const formatImageSource = ({ fileName, page, timestamp }: ImageSource) => {
+  if (page !== undefined) return `${fileName} p.${page}`;
+  if (timestamp !== undefined) return `${fileName} @ ${formatTimestamp(timestamp)}`;
+  return fileName;
+};
@@ -0,0 +1,226 @@
+/**
+ * Image formats recognized from their magic bytes.
+ */
+export type ImageFormat = 'png' | 'jpeg' | 'gif' | 'webp' | 'bmp' | 'tiff' | 'heic' | 'avif';
+
+/**
+ * MIME type for each recognized image format.
+ */
+export const IMAGE_FORMAT_MIME_TYPES: Record<ImageFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  tiff: 'image/tiff',
+  heic: 'image/heic',
+  avif: 'image/avif',
+};
+
+/**
+ * Display name for each recognized image format.
+ */
+export const IMAGE_FORMAT_NAMES: Record<ImageFormat, string> = {
+  png: 'PNG',
+  jpeg: 'JPEG',
+  gif: 'GIF',
+  webp: 'WebP',
+  bmp: 'BMP',
+  tiff: 'TIFF',
+  heic: 'HEIC',
+  avif: 'AVIF',
+};
+
+/**
+ * Image formats accepted for analysis.
+ */
+export const ALLOWED_IMAGE_FORMATS: ImageFormat[] = ['png', 'jpeg', 'gif', 'webp'];
+
+/**
+ * MIME types accepted for analysis.
+ */
+export const ALLOWED_IMAGE_MIME_TYPES = ALLOWED_IMAGE_FORMATS.map(
+  format => IMAGE_FORMAT_MIME_TYPES[format]
+);
+
+/**
+ * Image formats accepted for upload that are converted to an allowed format
+ * by server-side normalization before analysis. HEIC and BMP are recognized but not accepted:
+ * the bundled sharp cannot decode them.
+ */
+export const CONVERTIBLE_IMAGE_FORMATS: ImageFormat[] = ['tiff', 'avif'];
+
+/**
+ * MIME types accepted for upload, including formats converted during normalization.
+ */
+export const UPLOAD_IMAGE_MIME_TYPES = [...ALLOWED_IMAGE_FORMATS, ...CONVERTIBLE_IMAGE_FORMATS].map(
+  format => IMAGE_FORMAT_MIME_TYPES[format]
+);
+
+/**
+ * Max size of a single image in bytes.
+ */
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Max combined size of the images in one request in bytes.
+ * Base64 encoding adds a third, keeping requests under the 20mb server action body limit.
+ */
+export const MAX_TOTAL_IMAGE_BYTES = 14 * 1024 * 1024;
+
+/**
+ * A decoded base64 data URL.
+ */
+export interface ParsedDataUrl {
+  /** The declared MIME type, e.g. "image/png". */
+  mediaType: string;
+  /** The decoded payload. */
+  bytes: Uint8Array;
+}
+
+/**
+ * Pattern for base64 data URLs: `data:<mediatype>[;params];base64,<data>`.
+ */
+export const BASE64_DATA_URL_PATTERN =
+  /^data:([\w.+-]+\/[\w.+-]+)((?:;[\w-]+=[^;,]*)*);base64,([A-Za-z0-9+/]*={0,2})$/;
+
+/**
+ * Parses a base64 data URL into its MIME type and bytes.
+ *
+ * @param dataUrl - The data URL to parse.
+ * @returns The parsed data URL, or undefined when the string is not a base64 data URL.
+ */
+export const parseDataUrl = (dataUrl: string): ParsedDataUrl | undefined => {
+  const match = BASE64_DATA_URL_PATTERN.exec(dataUrl);
+  if (!match) return undefined;
+  return {
+    mediaType: match[1].toLowerCase(),
+    bytes: Uint8Array.from(atob(match[3]), char => char.charCodeAt(0)),
+  };
+};
+
+/**
+ * Estimates the decoded size of a base64 data URL without decoding it.
+ *
+ * @param dataUrl - The data URL.
+ * @returns The approximate payload size in bytes.
+ */
+export const estimateDataUrlBytes = (dataUrl: string) => {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  return Math.floor((base64.length * 3) / 4) - (base64.match(/=+$/)?.[0].length ?? 0);
+};
+
+/**
+ * Returns true when the bytes at the given offset equal the expected ASCII signature.
+ */
+const hasSignature = (bytes: Uint8Array, signature: string, offset = 0) =>
+  bytes.length >= offset + signature.length &&
+  [...signature].every((char, i) => bytes[offset + i] === char.charCodeAt(0));
+
+/**
+ * Detects an image format from its magic bytes.
+ *
+ * @param bytes - The file contents.
+ * @returns The detected format, or undefined when the bytes are not a recognized image.
+ */
+export const detectImageFormat = (bytes: Uint8Array): ImageFormat | undefined => {
+  if (hasSignature(bytes, '\x89PNG\r\n\x1a\n')) return 'png';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg';
+  if (hasSignature(bytes, 'GIF87a') || hasSignature(bytes, 'GIF89a')) return 'gif';
+  if (hasSignature(bytes, 'RIFF') && hasSignature(bytes, 'WEBP', 8)) return 'webp';
+  if (hasSignature(bytes, 'BM')) return 'bmp';
+  if (hasSignature(bytes, 'II*\x00') || hasSignature(bytes, 'MM\x00*')) return 'tiff';
+  if (hasSignature(bytes, 'ftyp', 4)) {
+    if (hasSignature(bytes, 'avif', 8) || hasSignature(bytes, 'avis', 8)) return 'avif';
+    if (
+      ['heic', 'heix', 'hevc', 'hevx', 'mif1', 'msf1'].some(brand => hasSignature(bytes, brand, 8))
+    )
+      return 'heic';
+  }
+  return undefined;
+};
+
+/**
+ * Pixel dimensions of an image.
+ */
+export interface ImageDimensions {
+  /** Width in pixels. */
+  width: number;
+  /** Height in pixels. */
+  height: number;
+}
+
+/**
+ * Reads the pixel dimensions from an image header without decoding the image.
+ * Supports PNG, JPEG, GIF, WebP and BMP.
+ *
+ * @param bytes - The file contents.
+ * @returns The dimensions, or undefined when the format is unsupported or the header is malformed.
+ */
+export const readImageDimensions = (bytes: Uint8Array): ImageDimensions | undefined => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  try {
+    switch (detectImageFormat(bytes)) {
+      case 'png':
+        return { width: view.getUint32(16), height: view.getUint32(20) };
+      case 'gif':
+        return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+      case 'bmp':
+        return { width: view.getInt32(18, true), height: Math.abs(view.getInt32(22, true)) };
+      case 'webp':
+        if (hasSignature(bytes, 'VP8X', 12)) {
+          return {
+            width: 1 + (view.getUint32(24, true) & 0xffffff),
+            height: 1 + (view.getUint32(27, true) & 0xffffff),
+          };
+        }
+        if (hasSignature(bytes, 'VP8L', 12)) {
+          const bits = view.getUint32(21, true);
+          return { width: 1 + (bits & 0x3fff), height: 1 + ((bits >> 14) & 0x3fff) };
+        }
+        if (hasSignature(bytes, 'VP8 ', 12)) {
+          return {
+            width: view.getUint16(26, true) & 0x3fff,
+            height: view.getUint16(28, true) & 0x3fff,
+          };
+        }
+        return undefined;
+      case 'jpeg': {
+        // Walk the segments until a start-of-frame marker
+        let offset = 2;
+        while (offset + 9 < bytes.length) {
+          if (bytes[offset] !== 0xff) return undefined;
+          const marker = bytes[offset + 1];
+          const isStartOfFrame =
+            marker >= 0xc0 &&
+            marker <= 0xcf &&
+            marker !== 0xc4 &&
+            marker !== 0xc8 &&
+            marker !== 0xcc;
+          if (isStartOfFrame) {
+            return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+          }
+          offset += 2 + view.getUint16(offset + 2);
+        }
+        return undefined;
+      }
+      default:
+        return undefined;
+    }
+  } catch {
+    // header shorter than expected
+    return undefined;
+  }
+};
+
+/**
+ * Formats a byte count for display, e.g. "1.5 MB".
+ *
+ * @param bytes - The number of bytes.
+ * @returns A human-readable size string.
+ */
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
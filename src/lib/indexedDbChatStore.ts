@@ -0,0 +1,93 @@
+import {
+  byMostRecent,
+  chatMatchesQuery,
+  type ChatStore,
+  toChatSummary,
+} from '@/services/chats/chatStore';
+import { type Chat, ChatSchema, parseStoredChat, serializeChat } from '@/services/chats/schemas';
+
+/**
+ * Name of the IndexedDB object store holding chats, keyed by chat id.
+ */
+const CHATS_STORE = 'chats';
+
+/**
+ * Wraps an IndexedDB request in a promise.
+ */
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Creates a chat store that keeps chats in the browser's IndexedDB.
+ * Chats are stored in the versioned format and migrated when read.
+ *
+ * @param databaseName - The IndexedDB database name.
+ * @returns A ChatStore implementation.
+ */
+export const createIndexedDbChatStore = (databaseName = 'gle-vision-chat'): ChatStore => {
+  let database: Promise<IDBDatabase> | undefined;
+
+  /**
+   * Opens the database once, creating the chats store on first use.
+   */
+  const open = () => {
+    database ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(databaseName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(CHATS_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return database;
+  };
+
+  /**
+   * Runs a request against the chats store in a new transaction.
+   */
+  const withStore = async <T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+  ) => {
+    const db = await open();
+    return promisify(run(db.transaction(CHATS_STORE, mode).objectStore(CHATS_STORE)));
+  };
+
+  /**
+   * Parses a stored chat, dropping the storage version.
+   */
+  const readChat = (raw: unknown): Chat => ChatSchema.parse(parseStoredChat(raw));
+
+  return {
+    listChats: async query => {
+      const chats = (await withStore('readonly', store => store.getAll())).map(readChat);
+      return chats
+        .filter(chat => !query || chatMatchesQuery(chat, query))
+        .map(toChatSummary)
+        .sort(byMostRecent);
+    },
+    getChat: async id => {
+      const raw = await withStore('readonly', store => store.get(id));
+      return raw === undefined ? undefined : readChat(raw);
+    },
+    saveChat: async chat => {
+      await withStore('readwrite', store => store.put(serializeChat(chat)));
+    },
+    renameChat: async (id, title) => {
+      const raw = await withStore('readonly', store => store.get(id));
+      if (raw === undefined) return undefined;
+      const renamed = { ...readChat(raw), title, updatedAt: Date.now() };
+      await withStore('readwrite', store => store.put(serializeChat(renamed)));
+      return toChatSummary(renamed);
+    },
+    deleteChat: async id => {
+      const count = await withStore('readonly', store => store.count(id));
+      if (!count) return false;
+      await withStore('readwrite', store => store.delete(id));
+      return true;
+    },
+  };
+};
@@ -0,0 +1,16 @@
+import type { ModelsResponse } from '@/app/api/models/schemas';
+
+/**
+ * Fetches the selectable models from GET /api/models.
+ *
+ * @param signal - Optional signal to abort the request.
+ * @returns The available models and the default model id.
+ * @throws Error when the request fails.
+ */
+export const fetchModels = async (signal?: AbortSignal): Promise<ModelsResponse> => {
+  const res = await fetch('/api/models', { signal });
+  if (!res.ok) {
+    throw new Error('Failed to load models.');
+  }
+  return (await res.json()) as ModelsResponse;
+};
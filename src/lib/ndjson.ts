@@ -0,0 +1,55 @@
+/**
+ * Content type for newline-delimited JSON streams.
+ */
+export const NDJSON_CONTENT_TYPE = 'application/x-ndjson';
+
+/**
+ * Encodes an async iterable of values as a newline-delimited JSON byte stream.
+ *
+ * @param values - The values to serialize, one JSON document per line.
+ * @returns A ReadableStream of UTF-8 encoded NDJSON.
+ */
+export const toNdjsonStream = <T>(values: AsyncIterable<T>) => {
+  const encoder = new TextEncoder();
+  const iterator = values[Symbol.asyncIterator]();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await iterator.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(`${JSON.stringify(value)}\n`));
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+};
+
+/**
+ * Decodes a newline-delimited JSON byte stream into parsed values.
+ *
+ * @param stream - A ReadableStream of UTF-8 encoded NDJSON.
+ * @returns An async generator yielding one parsed value per non-empty line.
+ */
+export async function* readNdjson(stream: ReadableStream<Uint8Array>): AsyncGenerator<unknown> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line.trim()) yield JSON.parse(line);
+      }
+      if (done) break;
+    }
+    if (buffer.trim()) yield JSON.parse(buffer);
+  } finally {
+    reader.releaseLock();
+  }
+}
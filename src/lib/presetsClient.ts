@@ -0,0 +1,16 @@
+import type { PresetsResponse } from '@/app/api/presets/schemas';
+
+/**
+ * Fetches the selectable prompt presets from GET /api/presets.
+ *
+ * @param signal - Optional signal to abort the request.
+ * @returns The presets and the default preset id.
+ * @throws Error when the request fails.
+ */
+export const fetchPresets = async (signal?: AbortSignal): Promise<PresetsResponse> => {
+  const res = await fetch('/api/presets', { signal });
+  if (!res.ok) {
+    throw new Error('Failed to load prompt presets.');
+  }
+  return (await res.json()) as PresetsResponse;
+};
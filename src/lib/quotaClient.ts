@@ -0,0 +1,16 @@
+import type { QuotaResponse } from '@/app/api/quota/schemas';
+
+/**
+ * Fetches the caller's rate limit and daily quotas from GET /api/quota.
+ *
+ * @param signal - Optional signal to abort the request.
+ * @returns The quota, or undefined when rate limiting is disabled.
+ * @throws Error when the request fails.
+ */
+export const fetchQuota = async (signal?: AbortSignal) => {
+  const res = await fetch('/api/quota', { signal });
+  if (!res.ok) {
+    throw new Error('Failed to load the quota.');
+  }
+  return ((await res.json()) as QuotaResponse).quota;
+};
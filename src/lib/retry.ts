@@ -0,0 +1,50 @@
+/**
+ * Options controlling retries with exponential backoff.
+ */
+export interface RetryOptions {
+  /** Max number of retries after the first attempt. */
+  maxRetries: number;
+  /** Delay in milliseconds before the first retry; doubles with each retry. */
+  delayMs: number;
+  /** Decides whether a failure is worth retrying; defaults to retrying every failure. */
+  shouldRetry?: (error: unknown) => boolean;
+}
+
+/**
+ * Returns the backoff delay before a retry: `delayMs`, doubled for each earlier retry.
+ *
+ * @param retry - 0-based number of the retry.
+ * @param delayMs - Delay before the first retry in milliseconds.
+ * @returns The delay in milliseconds.
+ */
+export const backoffDelay = (retry: number, delayMs: number) => delayMs * 2 ** retry;
+
+/**
+ * Resolves after the given delay.
+ *
+ * @param ms - The delay in milliseconds.
+ */
+export const sleep = (ms: number) =>
+  new Promise<void>(resolve => (ms > 0 ? setTimeout(resolve, ms) : resolve()));
+
+/**
+ * Runs a task, retrying failures with exponential backoff.
+ *
+ * @param task - The task, called with the 0-based attempt number.
+ * @param options - The retry limits and which failures to retry.
+ * @returns The result of the first successful attempt.
+ * @throws The error of the last attempt, or of the first failure not worth retrying.
+ */
+export const withRetry = async <T>(
+  task: (attempt: number) => Promise<T>,
+  { maxRetries, delayMs, shouldRetry = () => true }: RetryOptions
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (error: unknown) {
+      if (attempt >= maxRetries || !shouldRetry(error)) throw error;
+      await sleep(backoffDelay(attempt, delayMs));
+    }
+  }
+};
@@ -0,0 +1,36 @@
+import type { SettingsResponse } from '@/app/api/settings/schemas';
+import type { UserSettings } from '@/services/settings/schemas';
+
+/**
+ * Fetches the caller's settings from GET /api/settings.
+ *
+ * @param signal - Optional signal to abort the request.
+ * @returns The settings.
+ * @throws Error when the request fails.
+ */
+export const fetchSettings = async (signal?: AbortSignal) => {
+  const res = await fetch('/api/settings', { signal });
+  if (!res.ok) {
+    throw new Error('Failed to load settings.');
+  }
+  return ((await res.json()) as SettingsResponse).settings;
+};
+
+/**
+ * Saves changes to the caller's settings with PUT /api/settings.
+ *
+ * @param changes - The settings to change.
+ * @returns The updated settings.
+ * @throws Error when the request fails.
+ */
+export const saveSettings = async (changes: UserSettings) => {
+  const res = await fetch('/api/settings', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(changes),
+  });
+  if (!res.ok) {
+    throw new Error('Failed to save settings.');
+  }
+  return ((await res.json()) as SettingsResponse).settings;
+};
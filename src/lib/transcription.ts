@@ -0,0 +1,54 @@
+import { type Transcription, type TranscriptionBlock } from '@/services/openai/schemas';
+
+/**
+ * Formats a transcription as plain text: paragraphs keep their line breaks, tables put their
+ * cells in tab-separated rows and blocks are separated by blank lines.
+ *
+ * @param transcription - The transcribed blocks, in reading order.
+ * @returns The plain text.
+ */
+export const transcriptionToText = ({ blocks }: Transcription) =>
+  blocks
+    .map(block =>
+      block.type === 'paragraph'
+        ? block.lines.join('\n')
+        : block.rows.map(row => row.join('\t')).join('\n')
+    )
+    .join('\n\n');
+
+/**
+ * Escapes the characters Markdown would read as formatting, including list markers and
+ * heading signs at the start of a line.
+ */
+const escapeMarkdown = (text: string) =>
+  text.replace(/[\\`*_[\]<>|#]/g, '\\$&').replace(/^(\s*)([-+]|\d+\.)(?=\s)/, '$1\\$2');
+
+/**
+ * Formats a table block as a Markdown table, using its first row as the header and padding
+ * short rows.
+ */
+const tableToMarkdown = (rows: string[][]) => {
+  const columns = Math.max(1, ...rows.map(row => row.length));
+  const format = (row: string[]) =>
+    `| ${Array.from({ length: columns }, (_, i) => escapeMarkdown(row[i] ?? '')).join(' | ')} |`;
+  const [header = [], ...body] = rows;
+  return [format(header), `|${' --- |'.repeat(columns)}`, ...body.map(format)].join('\n');
+};
+
+/**
+ * Formats a block as Markdown.
+ */
+const blockToMarkdown = (block: TranscriptionBlock) =>
+  block.type === 'paragraph'
+    ? block.lines.map(escapeMarkdown).join('  \n')
+    : tableToMarkdown(block.rows);
+
+/**
+ * Formats a transcription as Markdown: paragraphs keep their line breaks as hard breaks, tables
+ * become Markdown tables and the transcribed text is escaped so it reads verbatim.
+ *
+ * @param transcription - The transcribed blocks, in reading order.
+ * @returns The Markdown text.
+ */
+export const transcriptionToMarkdown = ({ blocks }: Transcription) =>
+  blocks.map(blockToMarkdown).join('\n\n');
@@ -0,0 +1,269 @@
+/**
+ * MIME types of the videos whose frames are sampled in the browser for analysis.
+ */
+export const VIDEO_MIME_TYPES = ['video/mp4', 'video/webm', 'video/quicktime'];
+
+/**
+ * Max size of a video in bytes. Videos are read in the browser and never uploaded; only the
+ * sampled frames are.
+ */
+export const MAX_VIDEO_BYTES = 500 * 1024 * 1024;
+
+/**
+ * Max number of frames sampled from one video; they are analyzed a few at a time.
+ */
+export const MAX_VIDEO_FRAMES = 24;
+
+/**
+ * Max width or height of a sampled frame in pixels.
+ */
+const MAX_FRAME_DIMENSION = 1280;
+
+/**
+ * Max time to wait for a video to seek, in milliseconds.
+ */
+const SEEK_TIMEOUT_MS = 10000;
+
+/**
+ * Seconds between the frames compared when looking for scene changes, at least.
+ */
+const SCENE_SCAN_INTERVAL = 0.5;
+
+/**
+ * Max number of frames compared when looking for scene changes; longer videos are scanned
+ * less often.
+ */
+const MAX_SCENE_SCAN_FRAMES = 240;
+
+/**
+ * Mean difference in brightness (0 to 1) between consecutive scanned frames that counts as a
+ * scene change.
+ */
+const SCENE_CHANGE_THRESHOLD = 0.12;
+
+/**
+ * How frames are sampled from a video: every N seconds, at scene changes, or a fixed number of
+ * evenly spaced frames.
+ */
+export type FrameSampling =
+  | { strategy: 'interval'; seconds: number }
+  | { strategy: 'scene-change' }
+  | { strategy: 'count'; count: number };
+
+/**
+ * Frames sampled every five seconds, the default strategy.
+ */
+export const DEFAULT_FRAME_SAMPLING: FrameSampling = { strategy: 'interval', seconds: 5 };
+
+/**
+ * Returns true when a file is a video whose frames are sampled for analysis.
+ *
+ * @param file - The dropped file.
+ */
+export const isVideoFile = (file: File) =>
+  VIDEO_MIME_TYPES.includes(file.type) || /\.(mp4|m4v|webm|mov)$/i.test(file.name);
+
+/**
+ * Formats a video timestamp, e.g. "0:07" or "1:02:03".
+ *
+ * @param seconds - Seconds from the start of the video.
+ * @returns The timestamp.
+ */
+export const formatTimestamp = (seconds: number) => {
+  const total = Math.floor(seconds);
+  const [h, m, s] = [Math.floor(total / 3600), Math.floor((total % 3600) / 60), total % 60];
+  const mm = h ? String(m).padStart(2, '0') : String(m);
+  return `${h ? `${h}:` : ''}${mm}:${String(s).padStart(2, '0')}`;
+};
+
+/**
+ * Returns the timestamps of the frames sampled every N seconds or evenly spaced, in order.
+ *
+ * @param sampling - The interval or count strategy.
+ * @param duration - The length of the video in seconds.
+ * @returns Up to MAX_VIDEO_FRAMES timestamps in seconds, starting at 0.
+ * @throws Error when the length is not finite.
+ */
+export const sampleTimestamps = (
+  sampling: Exclude<FrameSampling, { strategy: 'scene-change' }>,
+  duration: number
+) => {
+  if (!Number.isFinite(duration)) throw new Error('The length of the video is unknown.');
+  // Leave the very end out: seeking there may not yield a frame
+  const end = Math.max(0, duration - 0.1);
+  if (sampling.strategy === 'interval') {
+    const step = Math.max(0.1, sampling.seconds);
+    const count = Math.min(MAX_VIDEO_FRAMES, Math.floor(end / step) + 1);
+    return Array.from({ length: count }, (_, i) => i * step);
+  }
+  const count = Math.max(1, Math.min(MAX_VIDEO_FRAMES, Math.floor(sampling.count)));
+  return Array.from({ length: count }, (_, i) => (count === 1 ? 0 : (i * end) / (count - 1)));
+};
+
+/**
+ * Measures how much two frames differ, as the mean absolute difference of their brightness.
+ *
+ * @param a - RGBA pixels of the first frame.
+ * @param b - RGBA pixels of the second frame, of the same size.
+ * @returns The difference, from 0 (identical) to 1.
+ */
+export const frameDifference = (a: Uint8ClampedArray, b: Uint8ClampedArray) => {
+  const brightness = (pixels: Uint8ClampedArray, i: number) =>
+    0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2];
+  let sum = 0;
+  for (let i = 0; i < a.length; i += 4) sum += Math.abs(brightness(a, i) - brightness(b, i));
+  return a.length ? sum / (a.length / 4) / 255 : 0;
+};
+
+/**
+ * Picks the frames that start a new scene: the first frame, then every scanned frame that
+ * differs enough from the one before it. When there are too many, the largest changes win.
+ *
+ * @param scanned - Timestamps of the scanned frames with their difference from the previous one.
+ * @param threshold - The difference that counts as a scene change.
+ * @returns Up to MAX_VIDEO_FRAMES timestamps in seconds, in order.
+ */
+export const pickSceneChanges = (
+  scanned: { time: number; difference: number }[],
+  threshold = SCENE_CHANGE_THRESHOLD
+) => {
+  const [first, ...rest] = scanned;
+  if (!first) return [];
+  const changes = rest
+    .filter(frame => frame.difference >= threshold)
+    .sort((a, b) => b.difference - a.difference)
+    .slice(0, MAX_VIDEO_FRAMES - 1);
+  return [first.time, ...changes.map(frame => frame.time).sort((a, b) => a - b)];
+};
+
+/**
+ * Opens a video file in a detached video element, once its first frame can be drawn.
+ */
+const openVideo = (file: File) =>
+  new Promise<HTMLVideoElement>((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => {
+      URL.revokeObjectURL(video.src);
+      reject(new Error(`${file.name} could not be played in this browser.`));
+    };
+    video.src = URL.createObjectURL(file);
+  });
+
+/**
+ * Releases a video opened with openVideo.
+ */
+const closeVideo = (video: HTMLVideoElement) => {
+  URL.revokeObjectURL(video.src);
+  video.removeAttribute('src');
+  video.load();
+};
+
+/**
+ * Seeks a video and waits until the frame at that time can be drawn.
+ *
+ * @throws Error when the video fails or takes longer than SEEK_TIMEOUT_MS to seek.
+ */
+const seek = (video: HTMLVideoElement, time: number) =>
+  new Promise<void>((resolve, reject) => {
+    const settle = (error?: Error) => {
+      clearTimeout(timeout);
+      video.onseeked = null;
+      video.onerror = null;
+      if (error) reject(error);
+      else resolve();
+    };
+    const timeout = setTimeout(
+      () => settle(new Error('The video took too long to seek.')),
+      SEEK_TIMEOUT_MS
+    );
+    video.onseeked = () => settle();
+    video.onerror = () => settle(new Error('The video could not be read.'));
+    video.currentTime = time;
+  });
+
+/**
+ * Returns the length of a video in seconds. Videos recorded with MediaRecorder report an
+ * infinite length until the browser has read to their end, so those are seeked past it first.
+ *
+ * @throws Error when the length is still unknown.
+ */
+const readDuration = async (video: HTMLVideoElement, file: File) => {
+  if (!Number.isFinite(video.duration)) await seek(video, Number.MAX_SAFE_INTEGER);
+  if (!Number.isFinite(video.duration)) {
+    throw new Error(`The length of ${file.name} could not be read.`);
+  }
+  return video.duration;
+};
+
+/**
+ * Draws the current frame of a video on a canvas of at most the given width or height.
+ */
+const drawFrame = (video: HTMLVideoElement, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(video.videoWidth, video.videoHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(video.videoWidth * scale));
+  canvas.height = Math.max(1, Math.round(video.videoHeight * scale));
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('Video frames cannot be drawn in this browser.');
+  context.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return { canvas, context };
+};
+
+/**
+ * Samples the timestamps of the frames to analyze from a video. Scene changes are found by
+ * comparing small thumbnails of frames scanned across the whole video.
+ *
+ * @param file - The video file.
+ * @param sampling - How to sample the frames.
+ * @returns The length of the video and up to MAX_VIDEO_FRAMES timestamps in seconds, in order.
+ * @throws Error when the browser cannot play the video or read its length.
+ */
+export const sampleVideoFrames = async (file: File, sampling: FrameSampling) => {
+  const video = await openVideo(file);
+  try {
+    const duration = await readDuration(video, file);
+    if (sampling.strategy !== 'scene-change') {
+      return { duration, timestamps: sampleTimestamps(sampling, duration) };
+    }
+
+    // Compare each scanned frame with the one before it
+    const step = Math.max(SCENE_SCAN_INTERVAL, duration / MAX_SCENE_SCAN_FRAMES);
+    const scanned: { time: number; difference: number }[] = [];
+    let previous: Uint8ClampedArray | undefined;
+    for (let time = 0; time < duration; time += step) {
+      await seek(video, time);
+      const { canvas, context } = drawFrame(video, 32);
+      const pixels = context.getImageData(0, 0, canvas.width, canvas.height).data;
+      scanned.push({ time, difference: previous ? frameDifference(previous, pixels) : 0 });
+      previous = pixels;
+    }
+    return { duration, timestamps: pickSceneChanges(scanned) };
+  } finally {
+    closeVideo(video);
+  }
+};
+
+/**
+ * Captures frames of a video as JPEG data URLs.
+ *
+ * @param file - The video file.
+ * @param timestamps - Seconds from the start of the video of each frame.
+ * @returns One data URL per timestamp, in order.
+ * @throws Error when the browser cannot play the video.
+ */
+export const captureVideoFrames = async (file: File, timestamps: number[]) => {
+  const video = await openVideo(file);
+  try {
+    const frames: string[] = [];
+    for (const time of timestamps) {
+      await seek(video, time);
+      frames.push(drawFrame(video, MAX_FRAME_DIMENSION).canvas.toDataURL('image/jpeg', 0.85));
+    }
+    return frames;
+  } finally {
+    closeVideo(video);
+  }
+};
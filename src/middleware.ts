@@ -0,0 +1,19 @@
+import { isAuthEnabled, readSessionToken, SESSION_COOKIE } from '@/services/auth/session';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Sends visitors without a valid session to the login page when signing in is required,
+ * remembering the page they asked for. API routes answer 401 themselves.
+ */
+export const middleware = async (req: NextRequest) => {
+  if (!isAuthEnabled()) return NextResponse.next();
+  if (await readSessionToken(req.cookies.get(SESSION_COOKIE)?.value)) return NextResponse.next();
+  const login = new URL('/login', req.url);
+  login.searchParams.set('returnTo', `${req.nextUrl.pathname}${req.nextUrl.search}`);
+  return NextResponse.redirect(login);
+};
+
+export const config = {
+  // Every page except the login page, API routes and static assets
+  matcher: ['/((?!login|api|_next/static|_next/image|favicon.ico).*)'],
+};
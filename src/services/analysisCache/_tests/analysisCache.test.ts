@@ -0,0 +1,88 @@
+import {
+  analysisCacheKey,
+  cacheResults,
+  normalizeQuestion,
+  readCachedResults,
+} from '@/services/analysisCache/analysisCache';
+import { createMemoryAnalysisCacheStore } from '@/services/analysisCache/memoryAnalysisCacheStore';
+
+const PNG = 'data:image/png;base64,iVBORw0KGgo=';
+const OTHER_PNG = 'data:image/png;base64,iVBORw0KGgoAAAAA';
+
+const key = (overrides = {}) =>
+  analysisCacheKey({
+    image: PNG,
+    question: 'What is this?',
+    model: 'openai:gpt-4o-mini',
+    promptVersion: '1',
+    ...overrides,
+  });
+
+describe('analysisCacheKey', () => {
+  it('ignores case and whitespace in the question', () => {
+    expect(normalizeQuestion('  What   is\nTHIS? ')).toBe('what is this?');
+    expect(key({ question: 'what is  this?' })).toBe(key());
+  });
+
+  it('changes with the image, question, model, prompt version and variant', () => {
+    const keys = [
+      key(),
+      key({ image: OTHER_PNG }),
+      key({ question: 'How many?' }),
+      key({ model: 'openai:gpt-4o' }),
+      key({ promptVersion: '2' }),
+      key({ variant: '{"grounding":true}' }),
+    ];
+
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+});
+
+describe('readCachedResults and cacheResults', () => {
+  const store = () => createMemoryAnalysisCacheStore({ ttlMs: 10_000, maxEntries: 10 });
+
+  it('caches successful answers and reads them back flagged as cached', async () => {
+    const cache = store();
+    const keys = new Map([
+      [0, 'a'],
+      [1, 'b'],
+      [2, 'c'],
+    ]);
+
+    await cacheResults(
+      [
+        { index: 0, ok: true, text: 'A cat', regions: [] },
+        { index: 1, ok: false, code: 'timeout', error: 'Too slow' },
+        { index: 2, ok: true, pending: true, text: 'A d' },
+        { index: 3, ok: true, text: 'No key' },
+      ],
+      keys,
+      cache
+    );
+
+    expect(
+      await readCachedResults(
+        [0, 1, 2, 3].map(index => ({ index })),
+        keys,
+        cache
+      )
+    ).toEqual([{ index: 0, ok: true, text: 'A cat', regions: [], cached: true }]);
+  });
+
+  it('treats cache failures as misses', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const failing = {
+      get: jest.fn().mockRejectedValue(new Error('disk full')),
+      set: jest.fn().mockRejectedValue(new Error('disk full')),
+    };
+
+    await cacheResults([{ index: 0, ok: true, text: 'A cat' }], new Map([[0, 'a']]), failing);
+    expect(await readCachedResults([{ index: 0 }], new Map([[0, 'a']]), failing)).toEqual([]);
+    expect(error).toHaveBeenCalledTimes(2);
+    error.mockRestore();
+  });
+
+  it('does nothing when caching is disabled', async () => {
+    expect(await readCachedResults([{ index: 0 }], new Map([[0, 'a']]), undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,67 @@
+import { createFileAnalysisCacheStore } from '@/services/analysisCache/fileAnalysisCacheStore';
+import { createMemoryAnalysisCacheStore } from '@/services/analysisCache/memoryAnalysisCacheStore';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+
+const analysis = (text: string) => ({ text });
+
+describe.each([
+  ['memory', () => createMemoryAnalysisCacheStore],
+  [
+    'file',
+    (file: string) => (limits: Parameters<typeof createFileAnalysisCacheStore>[0]) =>
+      createFileAnalysisCacheStore(limits, file),
+  ],
+] as const)('%s analysis cache store', (_, factory) => {
+  let directory: string;
+  let create: ReturnType<typeof factory>;
+  let now: number;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'analysis-cache-'));
+    create = factory(path.join(directory, 'nested', 'analysis-cache.json'));
+    now = 1000;
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('returns cached analyses until they expire', async () => {
+    const store = create({ ttlMs: 500, maxEntries: 10, now: () => now });
+    await store.set('a', analysis('A cat'));
+
+    expect(await store.get('a')).toEqual(analysis('A cat'));
+    expect(await store.get('b')).toBeUndefined();
+    now = 1500;
+    expect(await store.get('a')).toBeUndefined();
+  });
+
+  it('evicts the oldest entries beyond the size limit', async () => {
+    const store = create({ ttlMs: 10_000, maxEntries: 2, now: () => now });
+    for (const key of ['a', 'b', 'c']) {
+      await store.set(key, analysis(key));
+      now += 1;
+    }
+
+    expect(await store.get('a')).toBeUndefined();
+    expect(await store.get('b')).toEqual(analysis('b'));
+    expect(await store.get('c')).toEqual(analysis('c'));
+  });
+});
+
+describe('createFileAnalysisCacheStore', () => {
+  it('persists entries across store instances', async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), 'analysis-cache-'));
+    const file = path.join(directory, 'analysis-cache.json');
+    try {
+      const limits = { ttlMs: 10_000, maxEntries: 10 };
+      await createFileAnalysisCacheStore(limits, file).set('a', analysis('A cat'));
+
+      expect(await createFileAnalysisCacheStore(limits, file).get('a')).toEqual(analysis('A cat'));
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
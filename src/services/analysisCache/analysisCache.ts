@@ -0,0 +1,156 @@
+import { parseDataUrl } from '@/lib/images';
+import { AnalysisCacheStore } from '@/services/analysisCache/analysisCacheStore';
+import { createFileAnalysisCacheStore } from '@/services/analysisCache/fileAnalysisCacheStore';
+import { createMemoryAnalysisCacheStore } from '@/services/analysisCache/memoryAnalysisCacheStore';
+import { CachedAnalysis } from '@/services/analysisCache/schemas';
+import {
+  ANALYSIS_CACHE_ENABLED,
+  ANALYSIS_CACHE_MAX_ENTRIES,
+  ANALYSIS_CACHE_STORE,
+  ANALYSIS_CACHE_TTL_HOURS,
+} from '@/services/config/config';
+import { AnalysisTarget } from '@/services/openai/prepareImages';
+import { ImageAnalysisResponseItem } from '@/services/openai/schemas';
+import { createHash } from 'crypto';
+
+/**
+ * What determines the answer for one image.
+ */
+export interface AnalysisCacheKeyParts {
+  /** The image data URL sent to the model. */
+  image: string;
+  /** The question asked about it. */
+  question: string;
+  /** The model id, in `<provider>:<model>` form. */
+  model: string;
+  /** The version of the analysis prompt. */
+  promptVersion: string;
+  /** Anything else shaping the answer, e.g. the extraction schema. */
+  variant?: string;
+}
+
+/**
+ * Normalizes a question for cache lookups: case and runs of whitespace do not change the answer.
+ *
+ * @param question - The question as asked.
+ * @returns The trimmed, lower-case question with single spaces.
+ */
+export const normalizeQuestion = (question: string) =>
+  question.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Computes the cache key of the answer for one image: a hash of the image content, the
+ * normalized question, the model, the prompt version and the variant.
+ *
+ * @param parts - What determines the answer.
+ * @returns The key, as hex.
+ */
+export const analysisCacheKey = ({
+  image,
+  question,
+  model,
+  promptVersion,
+  variant = '',
+}: AnalysisCacheKeyParts) => {
+  const imageHash = createHash('sha256')
+    .update(parseDataUrl(image)?.bytes ?? image)
+    .digest('hex');
+  return createHash('sha256')
+    .update(JSON.stringify([imageHash, normalizeQuestion(question), model, promptVersion, variant]))
+    .digest('hex');
+};
+
+/**
+ * Reads the cached answers of the targets that have a cache key. Cache failures are logged and
+ * treated as misses.
+ *
+ * @param targets - The targets the model would answer for.
+ * @param keys - The cache key of each cacheable target, by request index.
+ * @param store - The cache store; none when caching is disabled.
+ * @returns A success item, flagged as cached, for every target found in the cache.
+ */
+export const readCachedResults = async (
+  targets: AnalysisTarget[],
+  keys: Map<number, string>,
+  store: AnalysisCacheStore | undefined = analysisCacheStore
+): Promise<ImageAnalysisResponseItem[]> => {
+  if (!store || keys.size === 0) return [];
+  const results = await Promise.all(
+    targets.map(async ({ index, preprocessing }): Promise<ImageAnalysisResponseItem[]> => {
+      const key = keys.get(index);
+      if (!key) return [];
+      try {
+        const analysis = await store.get(key);
+        if (!analysis) return [];
+        return [
+          { index, ok: true, ...analysis, cached: true, ...(preprocessing && { preprocessing }) },
+        ];
+      } catch (error) {
+        console.error('Failed to read the analysis cache', error);
+        return [];
+      }
+    })
+  );
+  return results.flat();
+};
+
+/**
+ * Caches the successful answers of the targets that have a cache key. Failed answers are not
+ * cached, and cache failures are logged rather than failing the analysis.
+ *
+ * @param results - The results returned by the model.
+ * @param keys - The cache key of each cacheable target, by request index.
+ * @param store - The cache store; none when caching is disabled.
+ */
+export const cacheResults = async (
+  results: ImageAnalysisResponseItem[],
+  keys: Map<number, string>,
+  store: AnalysisCacheStore | undefined = analysisCacheStore
+) => {
+  if (!store) return;
+  await Promise.all(
+    results.map(async result => {
+      const key = keys.get(result.index);
+      if (!key || !result.ok || result.pending) return;
+      const analysis: CachedAnalysis = {
+        text: result.text,
+        ...(result.data && { data: result.data }),
+        ...(result.validationErrors && { validationErrors: result.validationErrors }),
+        ...(result.regions && { regions: result.regions }),
+        ...(result.altText && { altText: result.altText }),
+        ...(result.transcription && { transcription: result.transcription }),
+      };
+      try {
+        await store.set(key, analysis);
+      } catch (error) {
+        console.error('Failed to write the analysis cache', error);
+      }
+    })
+  );
+};
+
+/**
+ * Shared cache store, kept on globalThis so every route bundle and server action sees the same
+ * cached results.
+ */
+const globalForAnalysisCache = globalThis as { analysisCacheStore?: AnalysisCacheStore };
+
+/**
+ * Creates the cache store configured from the environment.
+ */
+const createAnalysisCacheStore = () => {
+  const limits = {
+    ttlMs: ANALYSIS_CACHE_TTL_HOURS * 60 * 60 * 1000,
+    maxEntries: ANALYSIS_CACHE_MAX_ENTRIES,
+  };
+  return ANALYSIS_CACHE_STORE === 'file'
+    ? createFileAnalysisCacheStore(limits)
+    : createMemoryAnalysisCacheStore(limits);
+};
+
+/**
+ * The server's analysis cache store; undefined when caching is disabled.
+ */
+export const analysisCacheStore = ANALYSIS_CACHE_ENABLED
+  ? (globalForAnalysisCache.analysisCacheStore ??= createAnalysisCacheStore())
+  : undefined;
@@ -0,0 +1,24 @@
+import { CachedAnalysis } from '@/services/analysisCache/schemas';
+
+/**
+ * Storage for cached analysis results, keyed by the hash of what produced them. Stores expire
+ * entries after their time to live and evict the oldest entries beyond their size limit.
+ */
+export interface AnalysisCacheStore {
+  /** Returns the analysis cached under a key, or undefined when there is none or it expired. */
+  get(key: string): Promise<CachedAnalysis | undefined>;
+  /** Caches an analysis under a key, replacing any earlier one. */
+  set(key: string, analysis: CachedAnalysis): Promise<void>;
+}
+
+/**
+ * Limits applied by an analysis cache store.
+ */
+export interface AnalysisCacheLimits {
+  /** Milliseconds an entry is kept. */
+  ttlMs: number;
+  /** Max number of entries; the oldest are evicted first. */
+  maxEntries: number;
+  /** Returns the current time; defaults to Date.now. */
+  now?: () => number;
+}
@@ -0,0 +1,84 @@
+import {
+  AnalysisCacheLimits,
+  AnalysisCacheStore,
+} from '@/services/analysisCache/analysisCacheStore';
+import { AnalysisCacheEntry, AnalysisCacheEntrySchema } from '@/services/analysisCache/schemas';
+import { ANALYSIS_CACHE_FILE } from '@/services/config/config';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+
+/**
+ * Schema for the cache file: entries keyed by their cache key.
+ */
+const AnalysisCacheFileSchema = z.record(z.string(), AnalysisCacheEntrySchema);
+
+/**
+ * Returns true when the error is a missing file error.
+ */
+const isNotFound = (error: unknown) =>
+  typeof error === 'object' && error !== null && 'code' in error && error.code === 'ENOENT';
+
+/**
+ * Creates an analysis cache store that keeps every entry in one JSON file, so cached results
+ * survive restarts. Writes are applied one at a time and written atomically (to a temporary
+ * file, then renamed); expired entries are dropped on write.
+ *
+ * @param limits - The time to live and size limit.
+ * @param file - The JSON file; created on first write.
+ * @returns An AnalysisCacheStore implementation.
+ */
+export const createFileAnalysisCacheStore = (
+  { ttlMs, maxEntries, now = Date.now }: AnalysisCacheLimits,
+  file = ANALYSIS_CACHE_FILE
+): AnalysisCacheStore => {
+  // Serializes read-modify-write cycles
+  let queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Reads every entry, treating a missing file as empty.
+   */
+  const readEntries = async (): Promise<Record<string, AnalysisCacheEntry>> => {
+    try {
+      return AnalysisCacheFileSchema.parse(JSON.parse(await readFile(file, 'utf8')));
+    } catch (error) {
+      if (isNotFound(error)) return {};
+      throw error;
+    }
+  };
+
+  /**
+   * Returns true while an entry is within its time to live.
+   */
+  const isFresh = (entry: AnalysisCacheEntry) => now() - entry.storedAt < ttlMs;
+
+  /**
+   * Writes the newest fresh entries, up to the size limit, atomically.
+   */
+  const writeEntries = async (entries: Record<string, AnalysisCacheEntry>) => {
+    const kept = Object.entries(entries)
+      .filter(([, entry]) => isFresh(entry))
+      .sort(([, a], [, b]) => b.storedAt - a.storedAt)
+      .slice(0, maxEntries);
+    await mkdir(path.dirname(file), { recursive: true });
+    const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await writeFile(tmp, JSON.stringify(Object.fromEntries(kept)));
+    await rename(tmp, file);
+  };
+
+  return {
+    get: async key => {
+      const entry = (await readEntries())[key];
+      return entry && isFresh(entry) ? entry.analysis : undefined;
+    },
+    set: (key, analysis) => {
+      const result = queue.then(async () => {
+        const entries = await readEntries();
+        await writeEntries({ ...entries, [key]: { analysis, storedAt: now() } });
+      });
+      // Keep the queue going after a failed write
+      queue = result.catch(() => undefined);
+      return result;
+    },
+  };
+};
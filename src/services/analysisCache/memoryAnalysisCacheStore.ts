@@ -0,0 +1,40 @@
+import {
+  AnalysisCacheLimits,
+  AnalysisCacheStore,
+} from '@/services/analysisCache/analysisCacheStore';
+import { AnalysisCacheEntry } from '@/services/analysisCache/schemas';
+
+/**
+ * Creates an analysis cache store that keeps entries in memory. Entries are per server process
+ * and do not survive a restart.
+ *
+ * @param limits - The time to live and size limit.
+ * @returns An AnalysisCacheStore implementation.
+ */
+export const createMemoryAnalysisCacheStore = ({
+  ttlMs,
+  maxEntries,
+  now = Date.now,
+}: AnalysisCacheLimits): AnalysisCacheStore => {
+  // Kept in insertion order, so the first entry is the oldest
+  const entries = new Map<string, AnalysisCacheEntry>();
+  return {
+    get: async key => {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (now() - entry.storedAt >= ttlMs) {
+        entries.delete(key);
+        return undefined;
+      }
+      return entry.analysis;
+    },
+    set: async (key, analysis) => {
+      entries.delete(key);
+      entries.set(key, { analysis, storedAt: now() });
+      for (const oldest of entries.keys()) {
+        if (entries.size <= maxEntries) break;
+        entries.delete(oldest);
+      }
+    },
+  };
+};
@@ -0,0 +1,46 @@
+import { ExtractionValidationErrorSchema } from '@/services/extraction/schemas';
+import {
+  AltTextSchema,
+  GroundingRegionSchema,
+  TranscriptionSchema,
+} from '@/services/openai/schemas';
+import { z } from 'zod';
+
+/**
+ * Schema for the cached analysis of one image: the parts of a successful result that depend
+ * only on the image, the question, the model and the prompt.
+ */
+export const CachedAnalysisSchema = z.object({
+  /** The analysis text (the extracted data as JSON, in extraction requests). */
+  text: z.string(),
+  /** Data extracted from the image, in extraction requests. */
+  data: z.record(z.string(), z.unknown()).optional(),
+  /** Fields of `data` that do not match the extraction schema. */
+  validationErrors: z.array(ExtractionValidationErrorSchema).optional(),
+  /** Labelled regions the answer refers to, in grounding requests. */
+  regions: z.array(GroundingRegionSchema).optional(),
+  /** The accessibility text of the image, in the alt-text task. */
+  altText: AltTextSchema.optional(),
+  /** The transcribed text of the image, in the OCR task. */
+  transcription: TranscriptionSchema.optional(),
+});
+
+/**
+ * Cached analysis type
+ */
+export type CachedAnalysis = z.infer<typeof CachedAnalysisSchema>;
+
+/**
+ * Schema for a cache entry: a cached analysis and when it was stored.
+ */
+export const AnalysisCacheEntrySchema = z.object({
+  /** The cached analysis. */
+  analysis: CachedAnalysisSchema,
+  /** When the analysis was stored, in milliseconds since the epoch. */
+  storedAt: z.number(),
+});
+
+/**
+ * Analysis cache entry type
+ */
+export type AnalysisCacheEntry = z.infer<typeof AnalysisCacheEntrySchema>;
@@ -0,0 +1,51 @@
+import { authenticateCredentials } from '@/services/auth/credentials';
+import { hashPassword } from '@/services/auth/passwords';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+
+jest.mock('@/services/config/config', () => ({
+  ...jest.requireActual('@/services/config/config'),
+  AUTH_ADMIN_EMAILS: 'grace@example.com',
+}));
+
+describe('authenticateCredentials', () => {
+  let directory: string;
+  let file: string;
+
+  beforeAll(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'users-'));
+    file = path.join(directory, 'users.json');
+    await writeFile(
+      file,
+      JSON.stringify([
+        { email: 'Ada@example.com', name: 'Ada', passwordHash: await hashPassword('pw-ada') },
+        { email: 'grace@example.com', name: 'Grace', passwordHash: await hashPassword('pw-grace') },
+      ])
+    );
+  });
+
+  afterAll(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('signs in users with the right password, matching emails case-insensitively', async () => {
+    expect(await authenticateCredentials(' ada@EXAMPLE.com', 'pw-ada', file)).toEqual({
+      id: 'credentials:ada@example.com',
+      name: 'Ada',
+      email: 'Ada@example.com',
+      role: 'user',
+    });
+    expect(await authenticateCredentials('grace@example.com', 'pw-grace', file)).toMatchObject({
+      role: 'admin',
+    });
+  });
+
+  it('rejects wrong passwords, unknown users and a missing users file', async () => {
+    expect(await authenticateCredentials('ada@example.com', 'pw-grace', file)).toBeUndefined();
+    expect(await authenticateCredentials('bob@example.com', 'pw-ada', file)).toBeUndefined();
+    expect(
+      await authenticateCredentials('ada@example.com', 'pw-ada', path.join(directory, 'none.json'))
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,129 @@
+import { completeOidcSignIn, startOidcSignIn } from '@/services/auth/oidc';
+import { createHash } from 'crypto';
+
+jest.mock('@/services/config/config', () => ({
+  ...jest.requireActual('@/services/config/config'),
+  AUTH_ADMIN_EMAILS: 'ada@example.com',
+}));
+
+const options = { issuer: 'https://id.example.com/', clientId: 'app', clientSecret: 's3cret' };
+const redirectUri = 'http://localhost:3000/api/auth/oidc/callback';
+
+/**
+ * Builds an unsigned JWT carrying the given claims.
+ */
+const jwt = (claims: object) =>
+  `e30.${Buffer.from(JSON.stringify(claims)).toString('base64url')}.signature`;
+
+/**
+ * Mocks the provider's discovery, token and userinfo endpoints. The ID token carries the claims
+ * in `idTokenClaims` at the time of the token request; the profile carries `userInfo`.
+ */
+const mockProvider = (
+  idTokenClaims: Record<string, unknown>,
+  userInfo: Record<string, unknown> = { sub: '42', name: 'Ada Lovelace', email: 'ada@example.com' }
+) => {
+  const fetchMock = jest.fn(async (url: string | URL | Request) => {
+    switch (String(url)) {
+      case 'https://id.example.com/.well-known/openid-configuration':
+        return Response.json({
+          authorization_endpoint: 'https://id.example.com/authorize',
+          token_endpoint: 'https://id.example.com/token',
+          userinfo_endpoint: 'https://id.example.com/userinfo',
+        });
+      case 'https://id.example.com/token':
+        return Response.json({ access_token: 'at', id_token: jwt(idTokenClaims) });
+      case 'https://id.example.com/userinfo':
+        return Response.json(userInfo);
+      default:
+        return new Response(null, { status: 404 });
+    }
+  });
+  jest.spyOn(global, 'fetch').mockImplementation(fetchMock);
+  return fetchMock;
+};
+
+describe('OIDC sign-in', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('redirects with PKCE, then exchanges the code and reads the profile', async () => {
+    const claims: Record<string, unknown> = {};
+    const fetchMock = mockProvider(claims);
+    const { url, state } = await startOidcSignIn(redirectUri, '/chat/1', options);
+    claims.nonce = state.nonce;
+    const params = new URL(url).searchParams;
+
+    expect(url).toMatch(/^https:\/\/id\.example\.com\/authorize\?/);
+    expect(params.get('state')).toBe(state.state);
+    expect(params.get('code_challenge')).toBe(
+      createHash('sha256').update(state.verifier).digest('base64url')
+    );
+
+    const user = await completeOidcSignIn(
+      new URLSearchParams({ code: 'c0de', state: state.state }),
+      state,
+      redirectUri,
+      options
+    );
+
+    expect(user).toEqual({
+      id: 'oidc:42',
+      name: 'Ada Lovelace',
+      email: 'ada@example.com',
+      role: 'user',
+    });
+    const tokenRequest = fetchMock.mock.calls.find(
+      ([url]) => String(url) === 'https://id.example.com/token'
+    ) as unknown as [string, RequestInit];
+    expect(new URLSearchParams(String(tokenRequest[1].body)).get('code_verifier')).toBe(
+      state.verifier
+    );
+  });
+
+  it('makes listed emails admins only once the provider has verified them', async () => {
+    const state = { state: 's', nonce: 'n', verifier: 'v', returnTo: '/' };
+    const params = new URLSearchParams({ code: 'c', state: 's' });
+    const profile = { sub: '42', email: 'ada@example.com' };
+
+    mockProvider({ nonce: 'n' }, { ...profile, email_verified: false });
+    const unverified = await completeOidcSignIn(params, state, redirectUri, options);
+    jest.restoreAllMocks();
+    mockProvider({ nonce: 'n' }, { ...profile, email_verified: true });
+    const verified = await completeOidcSignIn(params, state, redirectUri, options);
+
+    expect(unverified).toMatchObject({ email: 'ada@example.com', role: 'user' });
+    expect(verified).toMatchObject({ email: 'ada@example.com', role: 'admin' });
+  });
+
+  it('rejects callbacks that do not match the sign-in attempt', async () => {
+    const fetchMock = mockProvider({ nonce: 'n' });
+    const state = { state: 's', nonce: 'n', verifier: 'v', returnTo: '/' };
+
+    await expect(
+      completeOidcSignIn(
+        new URLSearchParams({ code: 'c', state: 'other' }),
+        state,
+        redirectUri,
+        options
+      )
+    ).rejects.toThrow('does not match');
+    await expect(
+      completeOidcSignIn(
+        new URLSearchParams({ error: 'access_denied' }),
+        state,
+        redirectUri,
+        options
+      )
+    ).rejects.toThrow('access_denied');
+    expect(fetchMock).toHaveBeenCalledTimes(0);
+
+    await expect(
+      completeOidcSignIn(
+        new URLSearchParams({ code: 'c', state: 's' }),
+        { ...state, nonce: 'replayed' },
+        redirectUri,
+        options
+      )
+    ).rejects.toThrow('ID token');
+  });
+});
@@ -0,0 +1,18 @@
+import { hashPassword, verifyPassword } from '@/services/auth/passwords';
+
+describe('hashPassword', () => {
+  it('hashes with a random salt and verifies only the same password', async () => {
+    const hash = await hashPassword('correct horse');
+
+    expect(hash).toMatch(/^scrypt:[0-9a-f]{32}:[0-9a-f]{128}$/);
+    expect(await hashPassword('correct horse')).not.toBe(hash);
+    expect(await verifyPassword('correct horse', hash)).toBe(true);
+    expect(await verifyPassword('battery staple', hash)).toBe(false);
+  });
+
+  it('rejects malformed hashes', async () => {
+    expect(await verifyPassword('x', 'plain')).toBe(false);
+    expect(await verifyPassword('x', 'scrypt:abcd:')).toBe(false);
+    expect(await verifyPassword('x', 'bcrypt:abcd:1234')).toBe(false);
+  });
+});
@@ -0,0 +1,79 @@
+import {
+  authenticate,
+  createSessionToken,
+  enabledAuthProviders,
+  readCookie,
+  readSessionToken,
+  roleForEmail,
+  safeReturnTo,
+  SESSION_COOKIE,
+} from '@/services/auth/session';
+
+jest.mock('@/services/config/config', () => ({
+  ...jest.requireActual('@/services/config/config'),
+  AUTH_PROVIDERS: 'credentials,dev',
+  AUTH_SECRET: 'test-secret',
+  AUTH_SESSION_TTL_HOURS: 1,
+  AUTH_ADMIN_EMAILS: 'root@example.com, Boss@Example.com',
+}));
+
+const user = { id: 'credentials:ada@example.com', name: 'Ada', role: 'user' as const };
+
+describe('session tokens', () => {
+  it('reads sessions until they expire', async () => {
+    const { token, expiresAt } = await createSessionToken(user, 1000);
+
+    expect(expiresAt).toBe(1000 + 3600_000);
+    expect(await readSessionToken(token, 2000)).toEqual({ user, expiresAt });
+    expect(await readSessionToken(token, expiresAt)).toBeUndefined();
+    expect(await readSessionToken(undefined)).toBeUndefined();
+  });
+});
+
+describe('authenticate', () => {
+  it('identifies the user from the session cookie', async () => {
+    const { token } = await createSessionToken(user);
+    const headers = new Headers({ cookie: `theme=dark; ${SESSION_COOKIE}=${token}` });
+
+    expect(await authenticate(headers)).toEqual({ ok: true, user });
+  });
+
+  it('rejects requests without a valid session when signing in is required', async () => {
+    expect(await authenticate(new Headers())).toEqual({ ok: false });
+    expect(await authenticate(new Headers({ cookie: `${SESSION_COOKIE}=forged.token` }))).toEqual({
+      ok: false,
+    });
+  });
+});
+
+describe('enabledAuthProviders', () => {
+  it('keeps known providers in order', () => {
+    expect(enabledAuthProviders(' oidc, saml ,dev')).toEqual(['oidc', 'dev']);
+    expect(enabledAuthProviders('')).toEqual([]);
+  });
+});
+
+describe('roleForEmail', () => {
+  it('makes listed emails admins, case-insensitively', () => {
+    expect(roleForEmail('boss@example.com')).toBe('admin');
+    expect(roleForEmail('ada@example.com')).toBe('user');
+    expect(roleForEmail(undefined, 'admin')).toBe('admin');
+  });
+});
+
+describe('safeReturnTo', () => {
+  it('only returns to local paths', () => {
+    expect(safeReturnTo('/chat/1?x=2')).toBe('/chat/1?x=2');
+    expect(safeReturnTo('https://evil.example')).toBe('/');
+    expect(safeReturnTo('//evil.example')).toBe('/');
+    expect(safeReturnTo(null)).toBe('/');
+  });
+});
+
+describe('readCookie', () => {
+  it('reads and decodes one cookie', () => {
+    expect(readCookie('a=1; b=x%3Dy', 'b')).toBe('x=y');
+    expect(readCookie('a=1', 'b')).toBeUndefined();
+    expect(readCookie(null, 'a')).toBeUndefined();
+  });
+});
@@ -0,0 +1,21 @@
+import { signToken, verifyToken } from '@/services/auth/signedToken';
+
+describe('signToken', () => {
+  it('round-trips values signed with the same secret', async () => {
+    const token = await signToken({ user: 'ada', n: [1, 2] }, 'secret');
+
+    expect(token).toMatch(/^[\w-]+\.[\w-]+$/);
+    expect(await verifyToken(token, 'secret')).toEqual({ user: 'ada', n: [1, 2] });
+  });
+
+  it('rejects other secrets, tampered payloads and malformed tokens', async () => {
+    const token = await signToken({ role: 'user' }, 'secret');
+    const [, signature] = token.split('.');
+    const forged = `${Buffer.from('{"role":"admin"}').toString('base64url')}.${signature}`;
+
+    expect(await verifyToken(token, 'other')).toBeUndefined();
+    expect(await verifyToken(forged, 'secret')).toBeUndefined();
+    expect(await verifyToken('garbage', 'secret')).toBeUndefined();
+    expect(await verifyToken(`${token}.extra`, 'secret')).toBeUndefined();
+  });
+});
@@ -0,0 +1,63 @@
+import { verifyPassword } from '@/services/auth/passwords';
+import { SessionUser, UserRoleSchema } from '@/services/auth/schemas';
+import { roleForEmail } from '@/services/auth/session';
+import { AUTH_USERS_FILE } from '@/services/config/config';
+import { readFile } from 'fs/promises';
+import { z } from 'zod';
+
+/**
+ * Schema for a user of the credentials provider, as listed in the users file.
+ */
+export const StoredUserSchema = z.object({
+  /** Email address the user signs in with. */
+  email: z.string().min(1),
+  /** Display name. */
+  name: z.string(),
+  /** Password hash created by hashPassword. */
+  passwordHash: z.string(),
+  /** The user's role; AUTH_ADMIN_EMAILS also grants admin. */
+  role: UserRoleSchema.optional(),
+});
+
+/**
+ * Stored user type
+ */
+export type StoredUser = z.infer<typeof StoredUserSchema>;
+
+/**
+ * Reads the users file, returning no users when it does not exist.
+ */
+const readUsers = async (file: string): Promise<StoredUser[]> => {
+  try {
+    return z.array(StoredUserSchema).parse(JSON.parse(await readFile(file, 'utf8')));
+  } catch (error) {
+    if (typeof error === 'object' && error !== null && 'code' in error && error.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+};
+
+/**
+ * Checks an email and password against the users file.
+ *
+ * @param email - The email address, matched case-insensitively.
+ * @param password - The password.
+ * @param file - The users file.
+ * @returns The signed-in user, or undefined when the email or password is wrong.
+ */
+export const authenticateCredentials = async (
+  email: string,
+  password: string,
+  file = AUTH_USERS_FILE
+): Promise<SessionUser | undefined> => {
+  const normalized = email.trim().toLowerCase();
+  const user = (await readUsers(file)).find(entry => entry.email.toLowerCase() === normalized);
+  if (!user || !(await verifyPassword(password, user.passwordHash))) return undefined;
+  return {
+    id: `credentials:${normalized}`,
+    name: user.name,
+    email: user.email,
+    role: roleForEmail(user.email, user.role),
+  };
+};
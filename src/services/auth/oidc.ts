@@ -0,0 +1,194 @@
+import { SessionUser } from '@/services/auth/schemas';
+import { roleForEmail } from '@/services/auth/session';
+import { OIDC_CLIENT_ID, OIDC_CLIENT_SECRET, OIDC_ISSUER } from '@/services/config/config';
+import { createHash, randomBytes } from 'crypto';
+import { z } from 'zod';
+
+/**
+ * Schema for the parts of the provider's discovery document used to sign in.
+ */
+const OidcConfigurationSchema = z.object({
+  authorization_endpoint: z.string(),
+  token_endpoint: z.string(),
+  userinfo_endpoint: z.string(),
+});
+
+/**
+ * Schema for the token endpoint response.
+ */
+const OidcTokenResponseSchema = z.object({
+  access_token: z.string(),
+  id_token: z.string().optional(),
+});
+
+/**
+ * Schema for the userinfo endpoint response.
+ */
+const OidcUserInfoSchema = z.object({
+  sub: z.string(),
+  name: z.string().optional(),
+  preferred_username: z.string().optional(),
+  email: z.string().optional(),
+  email_verified: z.boolean().optional(),
+});
+
+/**
+ * Schema for the sign-in attempt kept in a signed cookie between the redirect to the provider and
+ * the callback.
+ */
+export const OidcSignInStateSchema = z.object({
+  /** Random value echoed by the provider, tying the callback to this attempt. */
+  state: z.string(),
+  /** Random value the provider puts in the ID token. */
+  nonce: z.string(),
+  /** PKCE code verifier. */
+  verifier: z.string(),
+  /** Page to return to after signing in. */
+  returnTo: z.string(),
+});
+
+/**
+ * OIDC sign-in state type
+ */
+export type OidcSignInState = z.infer<typeof OidcSignInStateSchema>;
+
+/**
+ * Connection settings of the OpenID Connect provider.
+ */
+export interface OidcClientOptions {
+  /** Issuer URL. */
+  issuer?: string;
+  /** Client id. */
+  clientId?: string;
+  /** Client secret. */
+  clientSecret?: string;
+}
+
+/**
+ * Returns the configured connection settings, failing when any is missing.
+ */
+const requireOptions = ({
+  issuer = OIDC_ISSUER,
+  clientId = OIDC_CLIENT_ID,
+  clientSecret = OIDC_CLIENT_SECRET,
+}: OidcClientOptions) => {
+  if (!issuer || !clientId || !clientSecret) {
+    throw new Error('OIDC_ISSUER, OIDC_CLIENT_ID and OIDC_CLIENT_SECRET must be set.');
+  }
+  return { issuer, clientId, clientSecret };
+};
+
+/**
+ * Fetches the provider's discovery document.
+ */
+const discover = async (issuer: string) => {
+  const response = await fetch(`${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`);
+  if (!response.ok) throw new Error(`OIDC discovery failed with status ${response.status}.`);
+  return OidcConfigurationSchema.parse(await response.json());
+};
+
+/**
+ * Decodes the claims of a JWT without checking its signature. Only used for ID tokens received
+ * straight from the token endpoint over TLS.
+ */
+const decodeJwtClaims = (jwt: string): Record<string, unknown> => {
+  const payload = jwt.split('.')[1] ?? '';
+  return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+};
+
+/**
+ * Starts signing in with the OpenID Connect provider (authorization code flow with PKCE).
+ *
+ * @param redirectUri - The callback URL registered with the provider.
+ * @param returnTo - Page to return to after signing in.
+ * @param options - Connection settings; default to the OIDC_* environment variables.
+ * @returns The provider URL to redirect to, and the state to keep until the callback.
+ */
+export const startOidcSignIn = async (
+  redirectUri: string,
+  returnTo: string,
+  options: OidcClientOptions = {}
+) => {
+  const { issuer, clientId } = requireOptions(options);
+  const configuration = await discover(issuer);
+  const state: OidcSignInState = {
+    state: randomBytes(16).toString('base64url'),
+    nonce: randomBytes(16).toString('base64url'),
+    verifier: randomBytes(32).toString('base64url'),
+    returnTo,
+  };
+  const url = new URL(configuration.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: clientId,
+    redirect_uri: redirectUri,
+    scope: 'openid profile email',
+    state: state.state,
+    nonce: state.nonce,
+    code_challenge: createHash('sha256').update(state.verifier).digest('base64url'),
+    code_challenge_method: 'S256',
+  }).toString();
+  return { url: url.href, state };
+};
+
+/**
+ * Completes signing in with the OpenID Connect provider: checks the callback against the
+ * sign-in attempt, exchanges the code for tokens and reads the user's profile.
+ *
+ * @param params - The callback query parameters.
+ * @param signInState - The state kept since startOidcSignIn.
+ * @param redirectUri - The callback URL passed to startOidcSignIn.
+ * @param options - Connection settings; default to the OIDC_* environment variables.
+ * @returns The signed-in user. Only a verified email can make the user an admin.
+ */
+export const completeOidcSignIn = async (
+  params: URLSearchParams,
+  signInState: OidcSignInState,
+  redirectUri: string,
+  options: OidcClientOptions = {}
+): Promise<SessionUser> => {
+  const { issuer, clientId, clientSecret } = requireOptions(options);
+  const error = params.get('error');
+  if (error) throw new Error(`The identity provider returned an error: ${error}.`);
+  const code = params.get('code');
+  if (!code || params.get('state') !== signInState.state) {
+    throw new Error('The sign-in response does not match the sign-in attempt.');
+  }
+  const configuration = await discover(issuer);
+
+  // Exchange the code for tokens
+  const tokenResponse = await fetch(configuration.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri,
+      client_id: clientId,
+      client_secret: clientSecret,
+      code_verifier: signInState.verifier,
+    }),
+  });
+  if (!tokenResponse.ok) {
+    throw new Error(`OIDC token exchange failed with status ${tokenResponse.status}.`);
+  }
+  const tokens = OidcTokenResponseSchema.parse(await tokenResponse.json());
+  if (tokens.id_token && decodeJwtClaims(tokens.id_token).nonce !== signInState.nonce) {
+    throw new Error('The ID token does not match the sign-in attempt.');
+  }
+
+  // Read the user's profile
+  const userInfoResponse = await fetch(configuration.userinfo_endpoint, {
+    headers: { Authorization: `Bearer ${tokens.access_token}` },
+  });
+  if (!userInfoResponse.ok) {
+    throw new Error(`OIDC userinfo request failed with status ${userInfoResponse.status}.`);
+  }
+  const info = OidcUserInfoSchema.parse(await userInfoResponse.json());
+  return {
+    id: `oidc:${info.sub}`,
+    name: info.name ?? info.preferred_username ?? info.email ?? info.sub,
+    email: info.email,
+    role: roleForEmail(info.email_verified === true ? info.email : undefined),
+  };
+};
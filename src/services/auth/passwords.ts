@@ -0,0 +1,44 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+/**
+ * Derives a key from a password with scrypt.
+ */
+const deriveKey = promisify(scrypt) as (
+  password: string,
+  salt: string,
+  keyLength: number
+) => Promise<Buffer>;
+
+/**
+ * Length of derived password keys in bytes.
+ */
+const KEY_LENGTH = 64;
+
+/**
+ * Hashes a password for the users file, as `scrypt:<hex salt>:<hex key>`.
+ *
+ * @param password - The password.
+ * @returns The password hash.
+ */
+export const hashPassword = async (password: string) => {
+  const salt = randomBytes(16).toString('hex');
+  const key = await deriveKey(password, salt, KEY_LENGTH);
+  return `scrypt:${salt}:${key.toString('hex')}`;
+};
+
+/**
+ * Checks a password against a hash created by hashPassword, in constant time.
+ *
+ * @param password - The password to check.
+ * @param hash - The stored hash.
+ * @returns True when the password matches; false for other passwords and malformed hashes.
+ */
+export const verifyPassword = async (password: string, hash: string) => {
+  const [scheme, salt, expected] = hash.split(':');
+  if (scheme !== 'scrypt' || !salt || !expected) return false;
+  const expectedKey = Buffer.from(expected, 'hex');
+  if (expectedKey.length === 0) return false;
+  const key = await deriveKey(password, salt, expectedKey.length);
+  return timingSafeEqual(key, expectedKey);
+};
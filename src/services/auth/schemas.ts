@@ -0,0 +1,103 @@
+import { z } from 'zod';
+
+/**
+ * Schema for user roles: admins can also see the aggregate usage of every user.
+ */
+export const UserRoleSchema = z.enum(['user', 'admin']);
+
+/**
+ * User role type
+ */
+export type UserRole = z.infer<typeof UserRoleSchema>;
+
+/**
+ * Schema for the signed-in user carried by a session.
+ */
+export const SessionUserSchema = z.object({
+  /** Stable id, prefixed with the provider that authenticated the user, e.g. "oidc:1234". */
+  id: z.string().min(1),
+  /** Display name. */
+  name: z.string(),
+  /** Email address, when the provider shares one. */
+  email: z.string().optional(),
+  /** The user's role. */
+  role: UserRoleSchema,
+});
+
+/**
+ * Session user type
+ */
+export type SessionUser = z.infer<typeof SessionUserSchema>;
+
+/**
+ * Schema for a session, as signed into the session cookie.
+ */
+export const SessionSchema = z.object({
+  /** The signed-in user. */
+  user: SessionUserSchema,
+  /** Expiry timestamp. */
+  expiresAt: z.number(),
+});
+
+/**
+ * Session type
+ */
+export type Session = z.infer<typeof SessionSchema>;
+
+/**
+ * Schema for the ways of signing in:
+ * - credentials: email and password of a user in the users file
+ * - oidc: an OpenID Connect identity provider
+ * - dev: a local stub signing in as a developer without a password (never in production)
+ */
+export const AuthProviderIdSchema = z.enum(['credentials', 'oidc', 'dev']);
+
+/**
+ * Auth provider id type
+ */
+export type AuthProviderId = z.infer<typeof AuthProviderIdSchema>;
+
+/**
+ * Schema for a sign-in option shown on the login page.
+ */
+export const AuthProviderOptionSchema = z.object({
+  /** The provider. */
+  id: AuthProviderIdSchema,
+  /** Display label, e.g. "Sign in with Okta". */
+  label: z.string(),
+});
+
+/**
+ * Auth provider option type
+ */
+export type AuthProviderOption = z.infer<typeof AuthProviderOptionSchema>;
+
+/**
+ * Schema for the body of POST /api/auth/credentials.
+ */
+export const CredentialsSignInRequestSchema = z.object({
+  /** The user's email address. */
+  email: z.string().trim().min(1, 'Email is required.'),
+  /** The user's password. */
+  password: z.string().min(1, 'Password is required.'),
+});
+
+/**
+ * Credentials sign-in request type
+ */
+export type CredentialsSignInRequest = z.infer<typeof CredentialsSignInRequestSchema>;
+
+/**
+ * Schema for the session returned by GET /api/auth/session.
+ */
+export const SessionResponseSchema = z.object({
+  /** Whether signing in is required; when false, everyone shares one workspace. */
+  authEnabled: z.boolean(),
+  /** The signed-in user, absent when signed out. */
+  user: SessionUserSchema.optional(),
+});
+
+/**
+ * Session response type
+ */
+export type SessionResponse = z.infer<typeof SessionResponseSchema>;
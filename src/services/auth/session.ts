@@ -0,0 +1,160 @@
+import {
+  AuthProviderId,
+  AuthProviderIdSchema,
+  AuthProviderOption,
+  Session,
+  SessionSchema,
+  SessionUser,
+  UserRole,
+} from '@/services/auth/schemas';
+import { signToken, verifyToken } from '@/services/auth/signedToken';
+import {
+  AUTH_ADMIN_EMAILS,
+  AUTH_DEV_USER_NAME,
+  AUTH_PROVIDERS,
+  AUTH_SECRET,
+  AUTH_SESSION_TTL_HOURS,
+  OIDC_LABEL,
+} from '@/services/config/config';
+
+/**
+ * Name of the cookie holding the signed session.
+ */
+export const SESSION_COOKIE = 'session';
+
+/**
+ * Returns the enabled ways of signing in, from AUTH_PROVIDERS. The dev stub is never enabled in
+ * production.
+ *
+ * @param value - The comma-separated provider list.
+ * @returns The enabled providers, in the configured order.
+ */
+export const enabledAuthProviders = (value = AUTH_PROVIDERS): AuthProviderId[] =>
+  value
+    .split(',')
+    .map(id => id.trim())
+    .flatMap(id => {
+      const parsed = AuthProviderIdSchema.safeParse(id);
+      return parsed.success ? [parsed.data] : [];
+    })
+    .filter(id => id !== 'dev' || process.env.NODE_ENV !== 'production');
+
+/**
+ * Returns true when users have to sign in. Otherwise everyone shares one workspace.
+ */
+export const isAuthEnabled = () => enabledAuthProviders().length > 0;
+
+/**
+ * Returns the sign-in options shown on the login page.
+ */
+export const authProviderOptions = (): AuthProviderOption[] =>
+  enabledAuthProviders().map(id => ({
+    id,
+    label:
+      id === 'credentials'
+        ? 'Sign in with email'
+        : id === 'oidc'
+          ? `Sign in with ${OIDC_LABEL}`
+          : `Continue as ${AUTH_DEV_USER_NAME} (dev)`,
+  }));
+
+/**
+ * Returns the role of a user signing in: admin when their email is listed in AUTH_ADMIN_EMAILS.
+ *
+ * @param email - The user's email address, if known.
+ * @param fallback - The role when the email is not listed.
+ * @returns The role.
+ */
+export const roleForEmail = (email: string | undefined, fallback: UserRole = 'user'): UserRole => {
+  const admins = AUTH_ADMIN_EMAILS.split(',').map(entry => entry.trim().toLowerCase());
+  return email && admins.includes(email.toLowerCase()) ? 'admin' : fallback;
+};
+
+/**
+ * The user signed in by the dev stub. Always an admin, so every page can be tried locally.
+ */
+export const devUser = (): SessionUser => ({
+  id: 'dev:local',
+  name: AUTH_DEV_USER_NAME,
+  role: 'admin',
+});
+
+/**
+ * Returns the secret signing sessions, failing when it is not configured.
+ */
+export const authSecret = () => {
+  if (!AUTH_SECRET) throw new Error('AUTH_SECRET must be set when AUTH_PROVIDERS is set.');
+  return AUTH_SECRET;
+};
+
+/**
+ * Creates the signed session cookie value for a user.
+ *
+ * @param user - The signed-in user.
+ * @param now - Current time, for tests.
+ * @returns The cookie value and the session's expiry timestamp.
+ */
+export const createSessionToken = async (user: SessionUser, now = Date.now()) => {
+  const session: Session = { user, expiresAt: now + AUTH_SESSION_TTL_HOURS * 3600_000 };
+  return { token: await signToken(session, authSecret()), expiresAt: session.expiresAt };
+};
+
+/**
+ * Reads a session cookie value.
+ *
+ * @param token - The cookie value.
+ * @param now - Current time, for tests.
+ * @returns The session, or undefined when the token is invalid or has expired.
+ */
+export const readSessionToken = async (
+  token: string | undefined,
+  now = Date.now()
+): Promise<Session | undefined> => {
+  if (!token || !AUTH_SECRET) return undefined;
+  const parsed = SessionSchema.safeParse(await verifyToken(token, AUTH_SECRET));
+  return parsed.success && parsed.data.expiresAt > now ? parsed.data : undefined;
+};
+
+/**
+ * Returns a same-site path to go to after signing in, ignoring anything that could leave the site.
+ *
+ * @param value - The requested path.
+ * @returns The path, or "/" when it is missing or not a local path.
+ */
+export const safeReturnTo = (value: string | null | undefined) =>
+  value && value.startsWith('/') && !value.startsWith('//') && !value.startsWith('/\\')
+    ? value
+    : '/';
+
+/**
+ * Reads a cookie from a Cookie header.
+ *
+ * @param header - The Cookie header.
+ * @param name - The cookie name.
+ * @returns The decoded cookie value, or undefined when absent.
+ */
+export const readCookie = (header: string | null, name: string) => {
+  for (const part of header?.split(';') ?? []) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) return decodeURIComponent(value.join('='));
+  }
+  return undefined;
+};
+
+/**
+ * Who made a request: a signed-in user, nobody in particular when signing in is not required,
+ * or a rejection when it is and the request has no valid session.
+ */
+export type RequestUser = { ok: true; user?: SessionUser } | { ok: false };
+
+/**
+ * Identifies the user making a request from its session cookie.
+ *
+ * @param headers - The request headers.
+ * @returns The signed-in user; `{ ok: true }` without a user when signing in is not required.
+ */
+export const authenticate = async (headers: Headers): Promise<RequestUser> => {
+  if (!isAuthEnabled()) return { ok: true };
+  const session = await readSessionToken(readCookie(headers.get('cookie'), SESSION_COOKIE));
+  return session ? { ok: true, user: session.user } : { ok: false };
+};
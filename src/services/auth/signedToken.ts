@@ -0,0 +1,68 @@
+/**
+ * Encodes bytes as base64url without padding.
+ */
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+/**
+ * Decodes base64url (with or without padding) into bytes.
+ */
+const fromBase64Url = (value: string) =>
+  Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0));
+
+/**
+ * Imports the HMAC-SHA256 key derived from a secret.
+ */
+const importKey = (secret: string) =>
+  crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+
+/**
+ * Signs a JSON value into a compact `<payload>.<signature>` token with HMAC-SHA256.
+ * Uses Web Crypto, so tokens can be verified in middleware as well as in route handlers.
+ *
+ * @param value - The value to sign; it is readable by anyone holding the token.
+ * @param secret - The signing secret.
+ * @returns The token.
+ */
+export const signToken = async (value: unknown, secret: string) => {
+  const payload = toBase64Url(new TextEncoder().encode(JSON.stringify(value)));
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    await importKey(secret),
+    new TextEncoder().encode(payload)
+  );
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+};
+
+/**
+ * Verifies a token created by signToken and returns its value.
+ *
+ * @param token - The token.
+ * @param secret - The signing secret.
+ * @returns The signed value, or undefined when the token is malformed or its signature is invalid.
+ */
+export const verifyToken = async (token: string, secret: string): Promise<unknown> => {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length) return undefined;
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await importKey(secret),
+      fromBase64Url(signature),
+      new TextEncoder().encode(payload)
+    );
+    return valid ? JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) : undefined;
+  } catch {
+    // not base64url or not JSON
+    return undefined;
+  }
+};
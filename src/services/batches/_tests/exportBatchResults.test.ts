@@ -0,0 +1,29 @@
+import { exportBatchResults } from '../exportBatchResults';
+import { BatchJob } from '../schemas';
+
+const job: BatchJob = {
+  id: 'job',
+  question: 'What is this?',
+  status: 'completed',
+  total: 2,
+  processed: 2,
+  failed: 1,
+  createdAt: 0,
+  updatedAt: 0,
+  results: [
+    { index: 0, ok: true, text: 'A cat, sleeping', name: 'a.png' },
+    { index: 1, ok: false, error: 'Provider unavailable', name: 'b.png' },
+  ],
+};
+
+describe('exportBatchResults', () => {
+  it('formats one CSV row per image', () => {
+    expect(exportBatchResults(job, 'csv')).toBe(
+      'index,name,ok,text,error\r\n0,a.png,true,"A cat, sleeping",\r\n1,b.png,false,,Provider unavailable'
+    );
+  });
+
+  it('lists the result items as JSON', () => {
+    expect(JSON.parse(exportBatchResults(job, 'json'))).toEqual(job.results);
+  });
+});
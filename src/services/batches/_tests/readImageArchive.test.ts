@@ -0,0 +1,42 @@
+import { zipSync } from 'fflate';
+import { readImageArchive } from '../readImageArchive';
+
+/**
+ * PNG signature, enough for format detection.
+ */
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+describe('readImageArchive', () => {
+  it('reads images named by their archive path, skipping folders and hidden files', () => {
+    const zip = zipSync({
+      'photos/a.png': PNG_BYTES,
+      'photos/.DS_Store': new Uint8Array([1]),
+      '__MACOSX/photos/._a.png': new Uint8Array([1]),
+      'notes.txt': new TextEncoder().encode('hello'),
+    });
+
+    expect(readImageArchive(zip)).toEqual([
+      { name: 'photos/a.png', image: 'data:image/png;base64,iVBORw0KGgo=' },
+      { name: 'notes.txt', image: 'data:application/octet-stream;base64,aGVsbG8=' },
+    ]);
+  });
+
+  it('rejects files over the image size limit without decompressing them', () => {
+    const zip = zipSync({ 'big.png': new Uint8Array(6 * 1024 * 1024) });
+
+    expect(() => readImageArchive(zip)).toThrow('"big.png" exceeds the 5.0 MB image limit.');
+  });
+
+  it('rejects files that decompress past the image size limit despite their declared size', () => {
+    const zip = Buffer.from(zipSync({ 'big.png': new Uint8Array(6 * 1024 * 1024) }));
+    // Forge the uncompressed size in the local header and the central directory
+    zip.writeUInt32LE(10, 22);
+    zip.writeUInt32LE(10, zip.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02])) + 24);
+
+    expect(() => readImageArchive(zip)).toThrow('"big.png" exceeds the 5.0 MB image limit.');
+  });
+
+  it('rejects data that is not a zip archive', () => {
+    expect(() => readImageArchive(new Uint8Array([1, 2, 3]))).toThrow();
+  });
+});
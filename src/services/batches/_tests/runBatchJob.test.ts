@@ -0,0 +1,153 @@
+import { createMemoryBatchJobStore } from '../memoryBatchJobStore';
+import { chunkImages, runBatchJob } from '../runBatchJob';
+
+// Mock the analysis service
+jest.mock('@/services/openai/analyzeImages', () => ({
+  analyzeImages: jest.fn(),
+}));
+
+import { analyzeImages } from '@/services/openai/analyzeImages';
+import { ImageAnalysisRequest } from '@/services/openai/schemas';
+
+/**
+ * Builds a data URL whose payload decodes to the given number of bytes.
+ */
+const imageOfSize = (bytes: number) => `data:image/png;base64,${'A'.repeat((bytes / 3) * 4)}`;
+
+/**
+ * Creates a store holding a new job for the given images.
+ */
+const createJob = async (count: number) => {
+  const store = createMemoryBatchJobStore();
+  await store.createJob({
+    id: 'job',
+    question: 'What is this?',
+    status: 'queued',
+    total: count,
+    processed: 0,
+    failed: 0,
+    createdAt: 0,
+    updatedAt: 0,
+    results: [],
+  });
+  const request = {
+    question: 'What is this?',
+    images: Array.from({ length: count }, (_, i) => ({ name: `${i}.png`, image: `img-${i}` })),
+  };
+  return { store, request };
+};
+
+describe('chunkImages', () => {
+  it('splits images into chunks of at most 4', () => {
+    const images = Array.from({ length: 9 }, () => ({ image: imageOfSize(3) }));
+
+    expect(chunkImages(images).map(chunk => chunk.length)).toEqual([4, 4, 1]);
+  });
+
+  it('starts a new chunk when the combined size would exceed the request limit', () => {
+    const images = [6, 6, 6, 1].map(mb => ({ image: imageOfSize(mb * 1024 * 1024) }));
+
+    expect(chunkImages(images).map(chunk => chunk.length)).toEqual([2, 2]);
+  });
+});
+
+describe('runBatchJob', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('analyzes every chunk and records the results in batch order', async () => {
+    (analyzeImages as jest.Mock).mockImplementation(async ({ images }: ImageAnalysisRequest) => ({
+      results: images.map((image, index) => ({ index, ok: true, text: `Saw ${image}` })),
+    }));
+    const { store, request } = await createJob(6);
+
+    await runBatchJob(store, 'job', request, { concurrency: 2 });
+
+    expect(analyzeImages).toHaveBeenCalledTimes(2);
+    const job = await store.getJob('job');
+    expect(job).toMatchObject({ status: 'completed', total: 6, processed: 6, failed: 0 });
+    expect(job?.results.map(r => [r.index, r.name, r.ok && r.text])).toEqual(
+      Array.from({ length: 6 }, (_, i) => [i, `${i}.png`, `Saw img-${i}`])
+    );
+  });
+
+  it('records failed images without retrying the chunk again', async () => {
+    (analyzeImages as jest.Mock).mockResolvedValue({
+      results: [
+        { index: 0, ok: true, text: 'A cat' },
+        { index: 1, ok: false, code: 'rate_limited', error: 'Too many requests' },
+      ],
+    });
+    const { store, request } = await createJob(3);
+
+    await runBatchJob(store, 'job', request);
+
+    expect(analyzeImages).toHaveBeenCalledTimes(1);
+    const job = await store.getJob('job');
+    expect(job).toMatchObject({ processed: 3, failed: 2 });
+    expect(job?.results).toEqual([
+      { index: 0, ok: true, text: 'A cat', name: '0.png' },
+      { index: 1, ok: false, code: 'rate_limited', error: 'Too many requests', name: '1.png' },
+      {
+        index: 2,
+        ok: false,
+        code: 'unknown',
+        error: 'Something went wrong while analyzing the image.',
+        name: '2.png',
+      },
+    ]);
+  });
+
+  it('records an error for every image when the analysis throws', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    (analyzeImages as jest.Mock).mockRejectedValue(new Error('Rate limited'));
+    const { store, request } = await createJob(1);
+
+    await runBatchJob(store, 'job', request);
+
+    expect(analyzeImages).toHaveBeenCalledTimes(1);
+    expect((await store.getJob('job'))?.results).toEqual([
+      {
+        index: 0,
+        ok: false,
+        code: 'unknown',
+        error: 'Something went wrong while analyzing the image.',
+        name: '0.png',
+      },
+    ]);
+  });
+
+  it('marks the job failed when recording the results throws', async () => {
+    (analyzeImages as jest.Mock).mockResolvedValue({
+      results: [{ index: 0, ok: true, text: 'ok' }],
+    });
+    const { store, request } = await createJob(1);
+    const updateJob = store.updateJob;
+    jest
+      .spyOn(store, 'updateJob')
+      .mockImplementationOnce(updateJob)
+      .mockRejectedValueOnce(new Error('Disk full'));
+
+    await expect(runBatchJob(store, 'job', request)).rejects.toThrow('Disk full');
+
+    expect((await store.getJob('job'))?.status).toBe('failed');
+  });
+
+  it('runs at most the configured number of chunks at once', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    (analyzeImages as jest.Mock).mockImplementation(async ({ images }: ImageAnalysisRequest) => {
+      maxRunning = Math.max(maxRunning, ++running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+      return { results: images.map((_, index) => ({ index, ok: true, text: 'ok' })) };
+    });
+    const { store, request } = await createJob(20);
+
+    await runBatchJob(store, 'job', request, { concurrency: 2 });
+
+    expect(analyzeImages).toHaveBeenCalledTimes(5);
+    expect(maxRunning).toBe(2);
+  });
+});
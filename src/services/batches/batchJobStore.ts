@@ -0,0 +1,18 @@
+import { BatchJob, BatchJobProgressSchema } from '@/services/batches/schemas';
+
+/**
+ * Storage for batch jobs and their results.
+ */
+export interface BatchJobStore {
+  /** Adds a new job. */
+  createJob(job: BatchJob): Promise<void>;
+  /** Returns the job, or undefined when it does not exist. */
+  getJob(id: string): Promise<BatchJob | undefined>;
+  /** Replaces the job with the result of `update`; returns undefined when it does not exist. */
+  updateJob(id: string, update: (job: BatchJob) => BatchJob): Promise<BatchJob | undefined>;
+}
+
+/**
+ * Strips the results of a job, leaving its progress.
+ */
+export const toBatchJobProgress = (job: BatchJob) => BatchJobProgressSchema.parse(job);
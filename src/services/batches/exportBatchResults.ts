@@ -0,0 +1,31 @@
+import { toCsv } from '@/lib/csv';
+import { BatchJob } from '@/services/batches/schemas';
+
+/**
+ * Formats in which batch results can be downloaded.
+ */
+export type BatchResultsFormat = 'csv' | 'json';
+
+/**
+ * MIME type of each download format.
+ */
+export const BATCH_RESULTS_CONTENT_TYPES: Record<BatchResultsFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json',
+};
+
+/**
+ * Formats the results of a batch job for download, one row per image in batch order.
+ * CSV has the columns index, name, ok, text and error; JSON lists the result items.
+ *
+ * @param job - The batch job.
+ * @param format - The download format.
+ * @returns The file contents.
+ */
+export const exportBatchResults = ({ results }: BatchJob, format: BatchResultsFormat) => {
+  if (format === 'json') return JSON.stringify(results, null, 2);
+  return toCsv(
+    ['index', 'name', 'ok', 'text', 'error'],
+    results.map(r => [r.index, r.name, r.ok, r.ok ? r.text : '', r.ok ? '' : r.error])
+  );
+};
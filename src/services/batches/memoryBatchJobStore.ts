@@ -0,0 +1,49 @@
+import { BatchJobStore } from '@/services/batches/batchJobStore';
+import { BatchJob } from '@/services/batches/schemas';
+import { BATCH_MAX_JOBS } from '@/services/config/config';
+
+/**
+ * Creates a batch job store that keeps jobs in memory. Jobs run in the server process, so they
+ * do not outlive it; the oldest completed jobs are evicted beyond `maxJobs`.
+ *
+ * @param maxJobs - Max number of jobs kept.
+ * @returns A BatchJobStore implementation.
+ */
+export const createMemoryBatchJobStore = (maxJobs = BATCH_MAX_JOBS): BatchJobStore => {
+  const jobs = new Map<string, BatchJob>();
+
+  /**
+   * Evicts completed and failed jobs, oldest first, until at most `maxJobs` remain.
+   */
+  const evict = () => {
+    for (const [id, job] of jobs) {
+      if (jobs.size <= maxJobs) break;
+      if (job.status === 'completed' || job.status === 'failed') jobs.delete(id);
+    }
+  };
+
+  return {
+    createJob: async job => {
+      jobs.set(job.id, job);
+      evict();
+    },
+    getJob: async id => jobs.get(id),
+    updateJob: async (id, update) => {
+      const job = jobs.get(id);
+      if (!job) return undefined;
+      const updated = update(job);
+      jobs.set(id, updated);
+      return updated;
+    },
+  };
+};
+
+/**
+ * Shared store, kept on globalThis so every route bundle sees the same jobs.
+ */
+const globalForBatches = globalThis as { batchJobStore?: BatchJobStore };
+
+/**
+ * The server's batch job store.
+ */
+export const batchJobStore = (globalForBatches.batchJobStore ??= createMemoryBatchJobStore());
@@ -0,0 +1,97 @@
+import {
+  detectImageFormat,
+  formatBytes,
+  IMAGE_FORMAT_MIME_TYPES,
+  MAX_IMAGE_BYTES,
+} from '@/lib/images';
+import { BatchImage, MAX_BATCH_IMAGES } from '@/services/batches/schemas';
+import { Unzip, UnzipInflate } from 'fflate';
+
+/**
+ * Max bytes of the decompressed images of one archive (matches the batches request size limit).
+ */
+const MAX_ARCHIVE_BYTES = 200 * 1024 * 1024;
+
+/**
+ * Bytes of the archive decompressed at a time, which bounds the output of a single step.
+ */
+const CHUNK_BYTES = 16 * 1024;
+
+/**
+ * Returns true for archive entries that are not user files: directories, macOS resource forks
+ * and hidden files.
+ */
+const isIgnoredEntry = (name: string) =>
+  name.endsWith('/') || name.startsWith('__MACOSX/') || /(^|\/)\./.test(name);
+
+/**
+ * Returns true when the bytes start with a zip file entry or, for an empty archive, the end of
+ * the central directory.
+ */
+const isZipArchive = (bytes: Uint8Array) =>
+  bytes[0] === 0x50 && bytes[1] === 0x4b && [0x0304, 0x0506].includes((bytes[2] << 8) | bytes[3]);
+
+/**
+ * Reads the images of a zip archive. Entries are checked against the image and batch limits as
+ * they are decompressed, since the sizes the archive declares may be forged; files that are not
+ * images are passed on and rejected per image.
+ *
+ * @param bytes - The zip file contents.
+ * @returns The images as data URLs, named by their path in the archive, in archive order.
+ * @throws Error when the archive cannot be read, holds too many files, a file over the image
+ * size limit or more decompressed bytes than the archive limit.
+ */
+export const readImageArchive = (bytes: Uint8Array): BatchImage[] => {
+  if (!isZipArchive(bytes)) throw new Error('The file is not a zip archive.');
+  const files: { name: string; chunks: Uint8Array[]; size: number }[] = [];
+  let total = 0;
+  let failure: Error | undefined;
+  const tooLarge = (name: string) =>
+    new Error(`"${name}" exceeds the ${formatBytes(MAX_IMAGE_BYTES)} image limit.`);
+
+  const unzip = new Unzip(entry => {
+    if (failure || isIgnoredEntry(entry.name)) return;
+    if (files.length === MAX_BATCH_IMAGES) {
+      failure = new Error(`The archive holds more than ${MAX_BATCH_IMAGES} files.`);
+      return;
+    }
+    if ((entry.originalSize ?? 0) > MAX_IMAGE_BYTES) {
+      failure = tooLarge(entry.name);
+      return;
+    }
+    const file = { name: entry.name, chunks: [] as Uint8Array[], size: 0 };
+    files.push(file);
+    entry.ondata = (error, chunk) => {
+      if (failure) return;
+      if (error) {
+        failure = new Error(`"${entry.name}" cannot be decompressed.`);
+        return;
+      }
+      // Stop as soon as the decompressed bytes go over a limit
+      file.size += chunk.length;
+      total += chunk.length;
+      if (file.size > MAX_IMAGE_BYTES) {
+        failure = tooLarge(entry.name);
+      } else if (total > MAX_ARCHIVE_BYTES) {
+        failure = new Error(`The archive exceeds ${formatBytes(MAX_ARCHIVE_BYTES)} of images.`);
+      }
+      if (failure) return entry.terminate();
+      file.chunks.push(chunk);
+    };
+    entry.start();
+  });
+  unzip.register(UnzipInflate);
+
+  // Feed the archive a chunk at a time until it is read or a limit is reached
+  for (let offset = 0; offset < bytes.length && !failure; offset += CHUNK_BYTES) {
+    unzip.push(bytes.subarray(offset, offset + CHUNK_BYTES), offset + CHUNK_BYTES >= bytes.length);
+  }
+  if (failure) throw failure;
+
+  return files.map(({ name, chunks, size }) => {
+    const data = Buffer.concat(chunks, size);
+    const format = detectImageFormat(data);
+    const mediaType = format ? IMAGE_FORMAT_MIME_TYPES[format] : 'application/octet-stream';
+    return { name, image: `data:${mediaType};base64,${data.toString('base64')}` };
+  });
+};
@@ -0,0 +1,156 @@
+import { ANALYSIS_ERRORS } from '@/lib/errors';
+import { estimateDataUrlBytes, MAX_TOTAL_IMAGE_BYTES } from '@/lib/images';
+import { BatchJobStore } from '@/services/batches/batchJobStore';
+import { BatchImage, BatchImageResult, CreateBatchRequest } from '@/services/batches/schemas';
+import { BATCH_CONCURRENCY } from '@/services/config/config';
+import { analyzeImages } from '@/services/openai/analyzeImages';
+import { ImageAnalysisResponseItem } from '@/services/openai/schemas';
+import { AnalysisUsage } from '@/services/usage/schemas';
+
+/**
+ * Max number of images analyzed in one model request (matches ImageAnalysisRequestSchema).
+ */
+const MAX_CHUNK_IMAGES = 4;
+
+/**
+ * A batch image with its index in the batch.
+ */
+type IndexedBatchImage = BatchImage & {
+  /** 0-based index of the image in the batch. */
+  index: number;
+};
+
+/**
+ * Options controlling how a batch job runs.
+ */
+export type RunBatchJobOptions = {
+  /** Max number of chunks analyzed at the same time. */
+  concurrency?: number;
+  /** Called with the model usage of each chunk request and its number of images. */
+  onUsage?: (usage: AnalysisUsage, images: number) => void | Promise<void>;
+};
+
+/**
+ * Splits images into chunks that fit one analysis request: at most 4 images whose combined size
+ * stays within the request limit. Oversized images get a chunk of their own and are rejected
+ * by image validation.
+ *
+ * @param images - The images, in batch order.
+ * @returns The chunks, in batch order.
+ */
+export const chunkImages = <T extends { image: string }>(images: T[]): T[][] => {
+  const chunks: T[][] = [];
+  let chunk: T[] = [];
+  let bytes = 0;
+  for (const image of images) {
+    const size = estimateDataUrlBytes(image.image);
+    if (
+      chunk.length &&
+      (chunk.length >= MAX_CHUNK_IMAGES || bytes + size > MAX_TOTAL_IMAGE_BYTES)
+    ) {
+      chunks.push(chunk);
+      chunk = [];
+      bytes = 0;
+    }
+    chunk.push(image);
+    bytes += size;
+  }
+  if (chunk.length) chunks.push(chunk);
+  return chunks;
+};
+
+/**
+ * Runs a task for every item with at most `concurrency` tasks in flight.
+ */
+const forEachWithConcurrency = async <T>(
+  items: T[],
+  concurrency: number,
+  task: (item: T) => Promise<void>
+) => {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) await task(items[next++]);
+  };
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker)
+  );
+};
+
+/**
+ * Analyzes a chunk of images. Failed model calls and images left out of the answer are already
+ * retried by analyzeImages, so each chunk is requested once.
+ *
+ * @param chunk - The images of the chunk.
+ * @param request - The batch request holding the question and model.
+ * @param onUsage - Called with the model usage of the request.
+ * @returns One result per image, indexed by batch position.
+ */
+const analyzeChunk = async (
+  chunk: IndexedBatchImage[],
+  { question, model }: CreateBatchRequest,
+  onUsage: RunBatchJobOptions['onUsage']
+): Promise<BatchImageResult[]> => {
+  let items: ImageAnalysisResponseItem[];
+  try {
+    const response = await analyzeImages({
+      question,
+      images: chunk.map(({ image }) => image),
+      model,
+    });
+    items = response.results;
+    if (response.usage) await onUsage?.(response.usage, chunk.length);
+  } catch (error: unknown) {
+    console.error('Batch chunk analysis failed', error);
+    items = [];
+  }
+
+  // Map the chunk positions back to batch positions
+  return chunk.map(({ index, name }, position) => {
+    const item = items.find(i => i.index === position) ?? {
+      index: position,
+      ok: false,
+      code: 'unknown',
+      error: ANALYSIS_ERRORS.unknown.message,
+    };
+    return { ...item, index, name };
+  });
+};
+
+/**
+ * Runs a batch job: analyzes its images in chunks with bounded concurrency and records the
+ * results in the store as each chunk completes. The job is marked failed when it stops on an
+ * error, so it does not stay running.
+ *
+ * @param store - The store holding the job.
+ * @param jobId - Id of the job, created in the store beforehand.
+ * @param request - The batch request.
+ * @param options - Overrides for the configured concurrency.
+ * @throws The error that stopped the job, e.g. a failing store update.
+ */
+export const runBatchJob = async (
+  store: BatchJobStore,
+  jobId: string,
+  request: CreateBatchRequest,
+  { concurrency = BATCH_CONCURRENCY, onUsage }: RunBatchJobOptions = {}
+) => {
+  try {
+    await store.updateJob(jobId, job => ({ ...job, status: 'running', updatedAt: Date.now() }));
+
+    const chunks = chunkImages(request.images.map((image, index) => ({ ...image, index })));
+    await forEachWithConcurrency(chunks, concurrency, async chunk => {
+      const results = await analyzeChunk(chunk, request, onUsage);
+      await store.updateJob(jobId, job => ({
+        ...job,
+        processed: job.processed + results.length,
+        failed: job.failed + results.filter(r => !r.ok).length,
+        results: [...job.results, ...results].sort((a, b) => a.index - b.index),
+        updatedAt: Date.now(),
+      }));
+    });
+
+    await store.updateJob(jobId, job => ({ ...job, status: 'completed', updatedAt: Date.now() }));
+  } catch (error: unknown) {
+    await store.updateJob(jobId, job => ({ ...job, status: 'failed', updatedAt: Date.now() }));
+    throw error;
+  }
+};
@@ -0,0 +1,116 @@
+import { ImageAnalysisResponseItemSchema } from '@/services/openai/schemas';
+import { z } from 'zod';
+
+/**
+ * Max number of images in one batch job.
+ */
+export const MAX_BATCH_IMAGES = 500;
+
+/**
+ * Schema for an image submitted to a batch job.
+ */
+export const BatchImageSchema = z.object({
+  /** File name (or archive path) used to identify the image in the results. */
+  name: z.string().min(1).max(255),
+  /** The image as a base64 data URL. */
+  image: z.string(),
+});
+
+/**
+ * Batch image type
+ */
+export type BatchImage = z.infer<typeof BatchImageSchema>;
+
+/**
+ * Schema for the body of POST /api/batches: one question asked of every image.
+ */
+export const CreateBatchRequestSchema = z.object({
+  /** The question asked of each image. */
+  question: z.string().min(1, 'Please provide a question.'),
+  /** The images to analyze, in result order. */
+  images: z
+    .array(BatchImageSchema)
+    .min(1, 'Please upload at least one image.')
+    .max(MAX_BATCH_IMAGES, `A batch may include at most ${MAX_BATCH_IMAGES} images.`),
+  /** Optional model id in `<provider>:<model>` form; falls back to the default model when unavailable. */
+  model: z.string().min(1).optional(),
+});
+
+/**
+ * Create batch request type
+ */
+export type CreateBatchRequest = z.infer<typeof CreateBatchRequestSchema>;
+
+/**
+ * Schema for the final result of one image in a batch job, indexed by its position in the batch.
+ */
+export const BatchImageResultSchema = z.intersection(
+  ImageAnalysisResponseItemSchema,
+  z.object({
+    /** Name of the image. */
+    name: z.string(),
+  })
+);
+
+/**
+ * Batch image result type
+ */
+export type BatchImageResult = z.infer<typeof BatchImageResultSchema>;
+
+/**
+ * Schema for the state of a batch job:
+ * - queued: accepted, not started
+ * - running: chunks are being analyzed
+ * - completed: every image has a result (successful or not)
+ * - failed: stopped by an error, e.g. the store failing, before every image had a result
+ */
+export const BatchJobStatusSchema = z.enum(['queued', 'running', 'completed', 'failed']);
+
+/**
+ * Batch job status type
+ */
+export type BatchJobStatus = z.infer<typeof BatchJobStatusSchema>;
+
+/**
+ * Schema for the progress of a batch job, returned by the job-status route.
+ */
+export const BatchJobProgressSchema = z.object({
+  /** Unique job id. */
+  id: z.string(),
+  /** The question asked of each image. */
+  question: z.string(),
+  /** The requested model id, if any. */
+  model: z.string().optional(),
+  /** Current state of the job. */
+  status: BatchJobStatusSchema,
+  /** Number of images in the batch. */
+  total: z.number(),
+  /** Number of images with a final result. */
+  processed: z.number(),
+  /** Number of processed images whose analysis failed. */
+  failed: z.number(),
+  /** Creation timestamp (ms since epoch). */
+  createdAt: z.number(),
+  /** Timestamp of the latest progress (ms since epoch). */
+  updatedAt: z.number(),
+});
+
+/**
+ * Batch job progress type
+ */
+export type BatchJobProgress = z.infer<typeof BatchJobProgressSchema>;
+
+/**
+ * Schema for a batch job with the results received so far.
+ */
+export const BatchJobSchema = BatchJobProgressSchema.extend({
+  /** Id of the user who created the job; absent in the shared workspace. */
+  ownerId: z.string().optional(),
+  /** Final per-image results, ordered by index. */
+  results: z.array(BatchImageResultSchema),
+});
+
+/**
+ * Batch job type
+ */
+export type BatchJob = z.infer<typeof BatchJobSchema>;
@@ -0,0 +1,85 @@
+import { createFileChatStore } from '@/services/chats/fileChatStore';
+import { Chat } from '@/services/chats/schemas';
+import { mkdtemp, readdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+
+const makeChat = (id: string, title: string, updatedAt: number, question = 'Hello'): Chat => ({
+  id,
+  title,
+  createdAt: 1,
+  updatedAt,
+  messages: [{ id: `${id}-u`, role: 'user', question, images: [], createdAt: 1 }],
+});
+
+describe('createFileChatStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'chats-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('saves, loads and lists chats, most recent first', async () => {
+    const store = createFileChatStore(directory);
+    await store.saveChat(makeChat('a', 'First', 10));
+    await store.saveChat(makeChat('b', 'Second', 20));
+
+    expect(await store.getChat('a')).toEqual(makeChat('a', 'First', 10));
+    expect((await store.listChats()).map(c => c.id)).toEqual(['b', 'a']);
+    expect(await readdir(directory)).toEqual(['a.json', 'b.json']);
+  });
+
+  it('returns nothing for a missing directory or chat', async () => {
+    const store = createFileChatStore(path.join(directory, 'missing'));
+
+    expect(await store.listChats()).toEqual([]);
+    expect(await store.getChat('a')).toBeUndefined();
+    expect(await store.renameChat('a', 'New')).toBeUndefined();
+    expect(await store.deleteChat('a')).toBe(false);
+  });
+
+  it('searches titles and message text', async () => {
+    const store = createFileChatStore(directory);
+    await store.saveChat(makeChat('a', 'Cats', 10, 'What breed?'));
+    await store.saveChat(makeChat('b', 'Dogs', 20, 'Is this a husky?'));
+
+    expect((await store.listChats('cat')).map(c => c.id)).toEqual(['a']);
+    expect((await store.listChats('HUSKY')).map(c => c.id)).toEqual(['b']);
+  });
+
+  it('renames and deletes chats', async () => {
+    const store = createFileChatStore(directory);
+    await store.saveChat(makeChat('a', 'First', 10));
+
+    const renamed = await store.renameChat('a', 'Renamed');
+    expect(renamed).toMatchObject({ id: 'a', title: 'Renamed' });
+    expect((await store.getChat('a'))?.title).toBe('Renamed');
+
+    expect(await store.deleteChat('a')).toBe(true);
+    expect(await store.listChats()).toEqual([]);
+  });
+
+  it('migrates chats saved in an older format', async () => {
+    const store = createFileChatStore(directory);
+    const { messages } = makeChat('old', 'Old', 1);
+    await writeFile(path.join(directory, 'old.json'), JSON.stringify({ id: 'old', messages }));
+
+    expect(await store.getChat('old')).toEqual({
+      id: 'old',
+      title: 'Untitled chat',
+      createdAt: 1,
+      updatedAt: 1,
+      messages,
+    });
+  });
+
+  it('rejects ids that could escape the directory', async () => {
+    const store = createFileChatStore(directory);
+
+    await expect(store.getChat('../secrets')).rejects.toThrow('Invalid chat id.');
+  });
+});
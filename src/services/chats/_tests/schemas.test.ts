@@ -0,0 +1,65 @@
+import {
+  CHAT_SCHEMA_VERSION,
+  parseStoredChat,
+  serializeChat,
+  titleFromQuestion,
+} from '@/services/chats/schemas';
+
+const messages = [
+  { id: 'u1', role: 'user', question: 'What is this?', images: ['data:a'], createdAt: 100 },
+  {
+    id: 'a1',
+    role: 'assistant',
+    createdAt: 200,
+    results: [{ index: 0, ok: true, text: 'A cat', image: 'data:a' }],
+  },
+];
+
+describe('parseStoredChat', () => {
+  it('parses chats in the current version', () => {
+    const chat = { id: 'c1', title: 'Cats', createdAt: 100, updatedAt: 200, messages };
+
+    expect(parseStoredChat(serializeChat(chat as never))).toEqual({
+      ...chat,
+      version: CHAT_SCHEMA_VERSION,
+    });
+  });
+
+  it('migrates unversioned chats, deriving missing fields from the messages', () => {
+    expect(parseStoredChat({ id: 'c1', messages })).toEqual({
+      id: 'c1',
+      title: 'Untitled chat',
+      createdAt: 100,
+      updatedAt: 200,
+      messages,
+      version: 1,
+    });
+  });
+
+  it('rejects chats from a newer version', () => {
+    expect(() => parseStoredChat({ id: 'c1', version: CHAT_SCHEMA_VERSION + 1 })).toThrow(
+      'newer than supported'
+    );
+  });
+
+  it('rejects invalid messages', () => {
+    expect(() =>
+      parseStoredChat({
+        id: 'c1',
+        title: 'Cats',
+        createdAt: 1,
+        updatedAt: 1,
+        messages: [{ id: 'x', role: 'system' }],
+        version: 1,
+      })
+    ).toThrow();
+  });
+});
+
+describe('titleFromQuestion', () => {
+  it('collapses whitespace and truncates long questions', () => {
+    expect(titleFromQuestion('  What   is\nthis? ')).toBe('What is this?');
+    expect(titleFromQuestion('x'.repeat(80))).toBe(`${'x'.repeat(59)}…`);
+    expect(titleFromQuestion('')).toBe('Untitled chat');
+  });
+});
@@ -0,0 +1,72 @@
+import { Chat, ChatSummary } from '@/services/chats/schemas';
+
+/**
+ * Persistence for chats. Implemented by the server-side file store and the
+ * client-side API and IndexedDB stores.
+ */
+export interface ChatStore {
+  /**
+   * Lists chats, most recently updated first.
+   *
+   * @param query - When set, only chats whose title or messages contain it (case-insensitive).
+   */
+  listChats(query?: string): Promise<ChatSummary[]>;
+  /**
+   * Loads a chat with its messages.
+   *
+   * @returns The chat, or undefined when it does not exist.
+   */
+  getChat(id: string): Promise<Chat | undefined>;
+  /**
+   * Creates or replaces a chat.
+   */
+  saveChat(chat: Chat): Promise<void>;
+  /**
+   * Renames a chat.
+   *
+   * @returns The updated summary, or undefined when the chat does not exist.
+   */
+  renameChat(id: string, title: string): Promise<ChatSummary | undefined>;
+  /**
+   * Deletes a chat.
+   *
+   * @returns True when the chat existed.
+   */
+  deleteChat(id: string): Promise<boolean>;
+}
+
+/**
+ * Returns the summary of a chat, without its messages.
+ *
+ * @param chat - The chat.
+ * @returns The chat summary.
+ */
+export const toChatSummary = ({ id, title, createdAt, updatedAt }: Chat): ChatSummary => ({
+  id,
+  title,
+  createdAt,
+  updatedAt,
+});
+
+/**
+ * Returns true when the chat title or any message text contains the query (case-insensitive).
+ *
+ * @param chat - The chat to search.
+ * @param query - The search text.
+ */
+export const chatMatchesQuery = (chat: Chat, query: string) => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  const texts = [
+    chat.title,
+    ...chat.messages.flatMap(m =>
+      m.role === 'user' ? [m.question] : m.results.map(r => (r.ok ? r.text : r.error))
+    ),
+  ];
+  return texts.some(text => text.toLowerCase().includes(needle));
+};
+
+/**
+ * Sorts chat summaries, most recently updated first.
+ */
+export const byMostRecent = (a: ChatSummary, b: ChatSummary) => b.updatedAt - a.updatedAt;
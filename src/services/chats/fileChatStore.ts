@@ -0,0 +1,134 @@
+import { SessionUser } from '@/services/auth/schemas';
+import {
+  byMostRecent,
+  chatMatchesQuery,
+  ChatStore,
+  toChatSummary,
+} from '@/services/chats/chatStore';
+import {
+  Chat,
+  ChatSchema,
+  ChatSummarySchema,
+  parseStoredChat,
+  serializeChat,
+} from '@/services/chats/schemas';
+import { CHAT_STORAGE_DIR } from '@/services/config/config';
+import { createHash } from 'crypto';
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import path from 'path';
+
+/**
+ * Returns true when the error is a missing file error.
+ */
+const isNotFound = (error: unknown) =>
+  typeof error === 'object' && error !== null && 'code' in error && error.code === 'ENOENT';
+
+/**
+ * Creates a chat store that keeps one JSON file per chat in a directory.
+ * Files are written atomically (to a temporary file, then renamed) and migrated
+ * to the current chat format when read.
+ *
+ * @param directory - The directory holding the chat files; created on first write.
+ * @returns A ChatStore implementation.
+ */
+export const createFileChatStore = (directory = CHAT_STORAGE_DIR): ChatStore => {
+  /**
+   * Resolves the file of a chat, rejecting ids that could escape the directory.
+   */
+  const chatPath = (id: string) => {
+    const parsed = ChatSummarySchema.shape.id.safeParse(id);
+    if (!parsed.success) throw new Error('Invalid chat id.');
+    return path.join(directory, `${parsed.data}.json`);
+  };
+
+  /**
+   * Reads a chat file, returning undefined when it does not exist.
+   */
+  const readChat = async (file: string): Promise<Chat | undefined> => {
+    try {
+      // Parsing through ChatSchema drops the storage version
+      return ChatSchema.parse(parseStoredChat(JSON.parse(await readFile(file, 'utf8'))));
+    } catch (error) {
+      if (isNotFound(error)) return undefined;
+      throw error;
+    }
+  };
+
+  /**
+   * Writes a chat file atomically.
+   */
+  const writeChat = async (chat: Chat) => {
+    const file = chatPath(chat.id);
+    await mkdir(directory, { recursive: true });
+    const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await writeFile(tmp, JSON.stringify(serializeChat(chat)));
+    await rename(tmp, file);
+  };
+
+  return {
+    listChats: async query => {
+      let files: string[];
+      try {
+        files = (await readdir(directory)).filter(file => file.endsWith('.json'));
+      } catch (error) {
+        if (isNotFound(error)) return [];
+        throw error;
+      }
+      const chats: Chat[] = [];
+      for (const file of files) {
+        try {
+          const chat = await readChat(path.join(directory, file));
+          if (chat) chats.push(chat);
+        } catch (error) {
+          // Skip unreadable chats rather than failing the whole listing
+          console.warn(`Skipping unreadable chat file ${file}:`, error);
+        }
+      }
+      return chats
+        .filter(chat => !query || chatMatchesQuery(chat, query))
+        .map(toChatSummary)
+        .sort(byMostRecent);
+    },
+    getChat: async id => readChat(chatPath(id)),
+    saveChat: writeChat,
+    renameChat: async (id, title) => {
+      const chat = await readChat(chatPath(id));
+      if (!chat) return undefined;
+      const renamed = { ...chat, title, updatedAt: Date.now() };
+      await writeChat(renamed);
+      return toChatSummary(renamed);
+    },
+    deleteChat: async id => {
+      try {
+        await rm(chatPath(id));
+        return true;
+      } catch (error) {
+        if (isNotFound(error)) return false;
+        throw error;
+      }
+    },
+  };
+};
+
+/**
+ * The chat store of the shared workspace, used when signing in is not required.
+ */
+export const chatStore = createFileChatStore();
+
+/**
+ * Returns the chat store of a user's workspace: a directory per user under
+ * `CHAT_STORAGE_DIR/users`, named after a hash of the user id so it is safe as a path.
+ *
+ * @param user - The signed-in user, or undefined for the shared workspace.
+ * @returns The ChatStore holding the user's chats.
+ */
+export const chatStoreFor = (user: SessionUser | undefined) =>
+  user
+    ? createFileChatStore(
+        path.join(
+          CHAT_STORAGE_DIR,
+          'users',
+          createHash('sha256').update(user.id).digest('hex').slice(0, 32)
+        )
+      )
+    : chatStore;
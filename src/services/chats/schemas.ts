@@ -0,0 +1,227 @@
+import { ExtractionRequestSchema } from '@/services/extraction/schemas';
+import {
+  AnalysisModeSchema,
+  AnalysisSummarySchema,
+  AnalysisTaskSchema,
+  ImageAnalysisResponseItemSchema,
+} from '@/services/openai/schemas';
+import { PromptPresetRefSchema } from '@/services/prompts/schemas';
+import { AnalysisUsageSchema } from '@/services/usage/schemas';
+import { z } from 'zod';
+
+/**
+ * Schema for where an uploaded image came from: a file, a page of a document or a frame of a video.
+ */
+export const ImageSourceSchema = z.object({
+  /** Name of the uploaded file. */
+  fileName: z.string(),
+  /** 1-based page number, for pages rasterized from a PDF or TIFF document. */
+  page: z.number().int().positive().optional(),
+  /** Seconds from the start of the video, for frames sampled from a video. */
+  timestamp: z.number().min(0).optional(),
+});
+
+/**
+ * Image source type
+ */
+export type ImageSource = z.infer<typeof ImageSourceSchema>;
+
+/**
+ * Schema for the result of analyzing a single image, as shown in the chat.
+ */
+export const ImageAnalysisResultSchema = z.intersection(
+  ImageAnalysisResponseItemSchema,
+  z.object({
+    /** Data URL for the image preview that was analyzed. */
+    image: z.string(),
+    /** Name of the uploaded file, used to label exports. */
+    fileName: z.string().optional(),
+    /** 1-based page number, when the image is a page of a document. */
+    page: z.number().int().positive().optional(),
+    /** Seconds from the start of the video, when the image is a video frame. */
+    timestamp: z.number().min(0).optional(),
+  })
+);
+
+/**
+ * Result of analyzing a single image.
+ */
+export type ImageAnalysisResult = z.infer<typeof ImageAnalysisResultSchema>;
+
+/**
+ * Schema for a user message: the question text with up to 4 image data URLs.
+ */
+const UserChatMessageSchema = z.object({
+  /** Unique id. */
+  id: z.string(),
+  /** Role is 'user' for user messages. */
+  role: z.literal('user'),
+  /** The question the user asked about the images. */
+  question: z.string(),
+  /** Array of data URLs for previewing the uploaded images (max 4 enforced elsewhere). */
+  images: z.array(z.string()),
+  /** Where each image came from, aligned with images; absent for chats saved before documents. */
+  sources: z.array(ImageSourceSchema).optional(),
+  /** Timestamp for sorting/display. */
+  createdAt: z.number(),
+});
+
+/**
+ * Schema for an assistant message: per-image analysis results returned by the model/service.
+ */
+const AssistantChatMessageSchema = z.object({
+  /** Unique id. */
+  id: z.string(),
+  /** Role is 'assistant' for assistant messages. */
+  role: z.literal('assistant'),
+  /** One per input image, preserving order via the index field on each result. In-progress results carry partial text. */
+  results: z.array(ImageAnalysisResultSchema),
+  /** Timestamp for sorting/display. */
+  createdAt: z.number(),
+  /** When true, indicates the assistant response is still being streamed. */
+  pending: z.boolean().optional(),
+  /** The analysis mode used; absent for per-image answers. */
+  mode: AnalysisModeSchema.optional(),
+  /** The aggregate answer, in the comparative and combined modes. */
+  summary: AnalysisSummarySchema.optional(),
+  /** The task requested; absent for answers. Reused when retrying an image. */
+  task: AnalysisTaskSchema.optional(),
+  /** The model id requested; absent for the default model. Reused when retrying an image. */
+  model: z.string().optional(),
+  /** The extraction requested, reused when retrying an image. */
+  extraction: ExtractionRequestSchema.optional(),
+  /** Whether regions were requested, reused when retrying an image. */
+  grounding: z.boolean().optional(),
+  /** The model, tokens, latency and estimated cost of the analysis. */
+  usage: AnalysisUsageSchema.optional(),
+  /** The prompt preset the answers were produced with; its id is reused when retrying an image. */
+  preset: PromptPresetRefSchema.optional(),
+});
+
+/**
+ * Schema for a chat message in the conversation.
+ */
+export const ChatMessageSchema = z.discriminatedUnion('role', [
+  UserChatMessageSchema,
+  AssistantChatMessageSchema,
+]);
+
+/**
+ * A chat message in the conversation.
+ * Union of:
+ * - User message: the question text with up to 4 image data URLs provided by the user.
+ * - Assistant message: per-image analysis results returned by the model/service.
+ */
+export type ChatMessage = z.infer<typeof ChatMessageSchema>;
+
+/**
+ * Schema for a chat's listing entry, without its messages.
+ */
+export const ChatSummarySchema = z.object({
+  /** Unique id, used in the /chat/[id] route. */
+  id: z.string().regex(/^[\w-]{1,64}$/, 'Invalid chat id.'),
+  /** Display title. */
+  title: z.string().min(1).max(200),
+  /** Creation timestamp. */
+  createdAt: z.number(),
+  /** Timestamp of the last change, used to order the chat list. */
+  updatedAt: z.number(),
+});
+
+/**
+ * Chat summary type
+ */
+export type ChatSummary = z.infer<typeof ChatSummarySchema>;
+
+/**
+ * Schema for a chat with its full message history.
+ */
+export const ChatSchema = ChatSummarySchema.extend({
+  /** The conversation, oldest first. */
+  messages: z.array(ChatMessageSchema),
+});
+
+/**
+ * Chat type
+ */
+export type Chat = z.infer<typeof ChatSchema>;
+
+/**
+ * Current version of the persisted chat format. Bump it and add a migration
+ * whenever the shape of a stored chat changes.
+ */
+export const CHAT_SCHEMA_VERSION = 1;
+
+/**
+ * Schema for a chat as persisted by a chat store.
+ */
+export const StoredChatSchema = ChatSchema.extend({
+  /** Version of the persisted chat format. */
+  version: z.literal(CHAT_SCHEMA_VERSION),
+});
+
+/**
+ * Stored chat type
+ */
+export type StoredChat = z.infer<typeof StoredChatSchema>;
+
+/**
+ * Migrations keyed by the version they upgrade from. Each migration receives a chat
+ * persisted in that version and returns it in the next version.
+ */
+const CHAT_MIGRATIONS: Record<number, (chat: Record<string, unknown>) => Record<string, unknown>> =
+  {
+    // v0: unversioned chats saved without timestamps
+    0: chat => {
+      const messages = Array.isArray(chat.messages) ? chat.messages : [];
+      const createdAt = Number(messages[0]?.createdAt ?? Date.now());
+      return {
+        ...chat,
+        title: chat.title || 'Untitled chat',
+        createdAt: chat.createdAt ?? createdAt,
+        updatedAt: chat.updatedAt ?? Number(messages.at(-1)?.createdAt ?? createdAt),
+        version: 1,
+      };
+    },
+  };
+
+/**
+ * Parses a persisted chat, migrating it from older versions when needed.
+ *
+ * @param raw - The persisted value, e.g. parsed JSON.
+ * @returns The chat in the current format.
+ * @throws ZodError when the value is not a valid chat after migration.
+ * @throws Error when the chat was persisted by a newer version of the app.
+ */
+export const parseStoredChat = (raw: unknown): StoredChat => {
+  let chat = z.record(z.string(), z.unknown()).parse(raw);
+  let version = typeof chat.version === 'number' ? chat.version : 0;
+  if (version > CHAT_SCHEMA_VERSION) {
+    throw new Error(`Chat version ${version} is newer than supported (${CHAT_SCHEMA_VERSION}).`);
+  }
+  while (version < CHAT_SCHEMA_VERSION) {
+    chat = CHAT_MIGRATIONS[version](chat);
+    version++;
+  }
+  return StoredChatSchema.parse(chat);
+};
+
+/**
+ * Serializes a chat for persistence in the current format.
+ *
+ * @param chat - The chat to persist.
+ * @returns The validated, versioned chat.
+ */
+export const serializeChat = (chat: Chat): StoredChat =>
+  StoredChatSchema.parse({ ...chat, version: CHAT_SCHEMA_VERSION });
+
+/**
+ * Derives a chat title from its first question.
+ *
+ * @param question - The first question asked in the chat.
+ * @returns The question, truncated to 60 characters.
+ */
+export const titleFromQuestion = (question: string) => {
+  const title = question.trim().replace(/\s+/g, ' ');
+  return title.length > 60 ? `${title.slice(0, 59)}…` : title || 'Untitled chat';
+};
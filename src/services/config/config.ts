@@ -1,4 +1,255 @@
+import { NormalizedImageFormatSchema } from '@/services/images/schemas';
+
 /**
  * OpenAI API key
  */
 export const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+
+/**
+ * Anthropic API key
+ */
+export const ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY;
+
+/**
+ * Google Generative AI API key
+ */
+export const GOOGLE_GENERATIVE_AI_API_KEY = process.env.GOOGLE_GENERATIVE_AI_API_KEY;
+
+/**
+ * Base URL of an OpenAI-compatible server (e.g. Ollama, LM Studio, vLLM)
+ */
+export const LOCAL_MODEL_BASE_URL = process.env.LOCAL_MODEL_BASE_URL;
+
+/**
+ * Optional API key for the OpenAI-compatible server
+ */
+export const LOCAL_MODEL_API_KEY = process.env.LOCAL_MODEL_API_KEY;
+
+/**
+ * Comma-separated model names served by the OpenAI-compatible server
+ */
+export const LOCAL_MODEL_NAMES = process.env.LOCAL_MODEL_NAMES;
+
+/**
+ * Default model id in `<provider>:<model>` form
+ */
+export const DEFAULT_MODEL_ID = process.env.DEFAULT_MODEL_ID ?? 'openai:gpt-4o-mini';
+
+/**
+ * Enables the offline mock vision provider ("mock:vision") when "true"
+ */
+export const MOCK_MODEL_ENABLED = process.env.MOCK_MODEL_ENABLED === 'true';
+
+/**
+ * Artificial latency in milliseconds added to every mock model call
+ */
+export const MOCK_MODEL_LATENCY_MS = Number(process.env.MOCK_MODEL_LATENCY_MS ?? 0);
+
+/**
+ * When set, every mock model call fails with this error message
+ */
+export const MOCK_MODEL_FAIL_WITH = process.env.MOCK_MODEL_FAIL_WITH;
+
+/**
+ * Comma-separated image indexes the mock model omits from its answers
+ */
+export const MOCK_MODEL_MISSING_INDEXES = process.env.MOCK_MODEL_MISSING_INDEXES;
+
+/**
+ * Normalizes images (auto-rotate, resize, re-encode, strip metadata) before analysis unless "false"
+ */
+export const IMAGE_NORMALIZATION_ENABLED = process.env.IMAGE_NORMALIZATION_ENABLED !== 'false';
+
+/**
+ * Max width or height in pixels of a normalized image
+ */
+export const IMAGE_MAX_DIMENSION = Number(process.env.IMAGE_MAX_DIMENSION ?? 2048);
+
+/**
+ * Output format of normalized images: "jpeg", "png", "webp", or "auto" (PNG when the image
+ * has transparency, otherwise JPEG)
+ */
+export const IMAGE_OUTPUT_FORMAT = NormalizedImageFormatSchema.parse(
+  process.env.IMAGE_OUTPUT_FORMAT ?? 'auto',
+  { error: () => 'IMAGE_OUTPUT_FORMAT must be "auto", "jpeg", "png" or "webp".' }
+);
+
+/**
+ * Directory where the server stores chats as JSON files
+ */
+export const CHAT_STORAGE_DIR = process.env.CHAT_STORAGE_DIR ?? '.data/chats';
+
+/**
+ * Max estimated tokens of earlier conversation turns (questions, answers and images)
+ * sent as context with a follow-up question
+ */
+export const CONTEXT_TOKEN_BUDGET = Number(process.env.CONTEXT_TOKEN_BUDGET ?? 6000);
+
+/**
+ * Max number of batch chunks analyzed at the same time
+ */
+export const BATCH_CONCURRENCY = Number(process.env.BATCH_CONCURRENCY ?? 2);
+
+/**
+ * Max number of batch jobs kept in memory; the oldest completed jobs are evicted first
+ */
+export const BATCH_MAX_JOBS = Number(process.env.BATCH_MAX_JOBS ?? 50);
+
+/**
+ * Max time in milliseconds to wait for one model call before it is abandoned (and retried)
+ */
+export const ANALYSIS_TIMEOUT_MS = Number(process.env.ANALYSIS_TIMEOUT_MS ?? 60000);
+
+/**
+ * Max number of retries of a model call that failed with a transient error, and of re-requests
+ * for images the model left out of its answer
+ */
+export const ANALYSIS_MAX_RETRIES = Number(process.env.ANALYSIS_MAX_RETRIES ?? 2);
+
+/**
+ * Delay in milliseconds before the first retry of a failed model call; doubles with each retry
+ */
+export const ANALYSIS_RETRY_DELAY_MS = Number(process.env.ANALYSIS_RETRY_DELAY_MS ?? 500);
+
+/**
+ * Applies the request rate limit and daily quotas to analyses unless "false"
+ */
+export const RATE_LIMIT_ENABLED = process.env.RATE_LIMIT_ENABLED !== 'false';
+
+/**
+ * Max number of analysis requests a user or IP can make in a burst (the token bucket size)
+ */
+export const RATE_LIMIT_BURST = Number(process.env.RATE_LIMIT_BURST ?? 10);
+
+/**
+ * Sustained number of analysis requests per minute a user or IP can make (the bucket refill rate)
+ */
+export const RATE_LIMIT_PER_MINUTE = Number(process.env.RATE_LIMIT_PER_MINUTE ?? 10);
+
+/**
+ * Max number of images a user or IP can have analyzed per day (UTC)
+ */
+export const QUOTA_DAILY_IMAGES = Number(process.env.QUOTA_DAILY_IMAGES ?? 200);
+
+/**
+ * Max model tokens a user or IP can use per day (UTC): estimated when a request is admitted,
+ * then corrected to the tokens the model reports
+ */
+export const QUOTA_DAILY_TOKENS = Number(process.env.QUOTA_DAILY_TOKENS ?? 1000000);
+
+/**
+ * Keys anonymous clients by the first X-Forwarded-For address or X-Real-IP when "true". Only set
+ * it behind a proxy that overwrites these headers; otherwise anonymous clients share one limit
+ */
+export const RATE_LIMIT_TRUST_PROXY = process.env.RATE_LIMIT_TRUST_PROXY === 'true';
+
+/**
+ * Where rate limit usage is kept: "memory" (per server process) or "file" (RATE_LIMIT_FILE)
+ */
+export const RATE_LIMIT_STORE = process.env.RATE_LIMIT_STORE ?? 'memory';
+
+/**
+ * JSON file holding rate limit usage when RATE_LIMIT_STORE is "file"
+ */
+export const RATE_LIMIT_FILE = process.env.RATE_LIMIT_FILE ?? '.data/rate-limits.json';
+
+/**
+ * Comma-separated ways of signing in: "credentials", "oidc" and/or "dev". When empty, signing in
+ * is not required and everyone shares one workspace
+ */
+export const AUTH_PROVIDERS = process.env.AUTH_PROVIDERS ?? '';
+
+/**
+ * Secret used to sign session cookies; required when AUTH_PROVIDERS is set
+ */
+export const AUTH_SECRET = process.env.AUTH_SECRET;
+
+/**
+ * How long a session lasts in hours before the user has to sign in again
+ */
+export const AUTH_SESSION_TTL_HOURS = Number(process.env.AUTH_SESSION_TTL_HOURS ?? 168);
+
+/**
+ * JSON file listing the users of the "credentials" provider: `[{ email, name, passwordHash, role? }]`
+ */
+export const AUTH_USERS_FILE = process.env.AUTH_USERS_FILE ?? '.data/users.json';
+
+/**
+ * Comma-separated emails of users who are given the admin role on sign-in
+ */
+export const AUTH_ADMIN_EMAILS = process.env.AUTH_ADMIN_EMAILS ?? '';
+
+/**
+ * Name of the user signed in by the "dev" provider, which is disabled in production
+ */
+export const AUTH_DEV_USER_NAME = process.env.AUTH_DEV_USER_NAME ?? 'Developer';
+
+/**
+ * Issuer URL of the OpenID Connect provider; its configuration is discovered from
+ * `<issuer>/.well-known/openid-configuration`
+ */
+export const OIDC_ISSUER = process.env.OIDC_ISSUER;
+
+/**
+ * Client id registered with the OpenID Connect provider
+ */
+export const OIDC_CLIENT_ID = process.env.OIDC_CLIENT_ID;
+
+/**
+ * Client secret registered with the OpenID Connect provider
+ */
+export const OIDC_CLIENT_SECRET = process.env.OIDC_CLIENT_SECRET;
+
+/**
+ * Label of the OpenID Connect button on the login page
+ */
+export const OIDC_LABEL = process.env.OIDC_LABEL ?? 'Single sign-on';
+
+/**
+ * JSON file holding the settings of each user (e.g. their default model)
+ */
+export const SETTINGS_FILE = process.env.SETTINGS_FILE ?? '.data/settings.json';
+
+/**
+ * JSON object overriding or adding model prices in US dollars per million tokens, used to
+ * estimate costs, e.g. `{"local:llava": {"input": 0, "output": 0}}`
+ */
+export const MODEL_PRICES = process.env.MODEL_PRICES;
+
+/**
+ * JSON Lines file recording the model usage of every analysis request
+ */
+export const USAGE_FILE = process.env.USAGE_FILE ?? '.data/usage.jsonl';
+
+/**
+ * Caches per-image analysis results, so the same question about the same image is answered
+ * without calling the model again, unless "false"
+ */
+export const ANALYSIS_CACHE_ENABLED = process.env.ANALYSIS_CACHE_ENABLED !== 'false';
+
+/**
+ * Where cached analysis results are kept: "memory" (per server process) or "file"
+ * (ANALYSIS_CACHE_FILE)
+ */
+export const ANALYSIS_CACHE_STORE = process.env.ANALYSIS_CACHE_STORE ?? 'memory';
+
+/**
+ * JSON file holding cached analysis results when ANALYSIS_CACHE_STORE is "file"
+ */
+export const ANALYSIS_CACHE_FILE = process.env.ANALYSIS_CACHE_FILE ?? '.data/analysis-cache.json';
+
+/**
+ * Hours a cached analysis result is reused before the image is analyzed again
+ */
+export const ANALYSIS_CACHE_TTL_HOURS = Number(process.env.ANALYSIS_CACHE_TTL_HOURS ?? 24);
+
+/**
+ * Max number of cached analysis results; the oldest are evicted first
+ */
+export const ANALYSIS_CACHE_MAX_ENTRIES = Number(process.env.ANALYSIS_CACHE_MAX_ENTRIES ?? 1000);
+
+/**
+ * JSON file of prompt presets (`[{ id, version, name, description, systemPrompt, temperature?,
+ * constraints? }]`) that add to or replace the built-in presets with the same id
+ */
+export const PROMPT_PRESETS_FILE = process.env.PROMPT_PRESETS_FILE ?? '.data/prompt-presets.json';
@@ -0,0 +1,101 @@
+import sharp from 'sharp';
+import { detectDocumentFormat, rasterizeDocument } from '../rasterizeDocument';
+import { renderPdfPages } from '../renderPdfPages';
+
+// PDF.js is an ES module; render PDFs with a stub returning solid pages
+jest.mock('../renderPdfPages', () => ({ renderPdfPages: jest.fn() }));
+
+/**
+ * The header of a PDF file.
+ */
+const PDF = new Uint8Array(Buffer.from('%PDF-1.7\n%\xe2\xe3\xcf\xd3\n', 'latin1'));
+
+/**
+ * Creates a TIFF with the given number of 40×30 pages, each a different shade of grey.
+ */
+const multiPageTiff = async (pages: number) => {
+  const page = (shade: number) => Buffer.alloc(40 * 30 * 3, shade);
+  const raw = Buffer.concat(Array.from({ length: pages }, (_, i) => page(i * 50)));
+  return new Uint8Array(
+    await sharp(raw, { raw: { width: 40, height: 30 * pages, channels: 3, pageHeight: 30 } })
+      .tiff()
+      .toBuffer()
+  );
+};
+
+/**
+ * Decodes a JPEG data URL, returning its size and mean brightness.
+ */
+const inspect = async (dataUrl: string) => {
+  const bytes = Buffer.from(dataUrl.replace('data:image/jpeg;base64,', ''), 'base64');
+  const { width, height, format } = await sharp(bytes).metadata();
+  const { channels } = await sharp(bytes).stats();
+  return { format, width, height, shade: Math.round(channels[0].mean / 25) * 25 };
+};
+
+describe('detectDocumentFormat', () => {
+  it('recognizes PDFs and TIFFs from their magic bytes', async () => {
+    expect(detectDocumentFormat(PDF)).toBe('pdf');
+    expect(detectDocumentFormat(await multiPageTiff(1))).toBe('tiff');
+    expect(detectDocumentFormat(new Uint8Array([0x89, 0x50, 0x4e, 0x47]))).toBeUndefined();
+  });
+});
+
+describe('rasterizeDocument', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('rasterizes a range of TIFF pages as JPEGs', async () => {
+    const tiff = await multiPageTiff(5);
+
+    const document = await rasterizeDocument(tiff, { firstPage: 2, count: 3 });
+
+    expect(document.pageCount).toBe(5);
+    expect(document.pages.map(({ page }) => page)).toEqual([2, 3, 4]);
+    expect(await Promise.all(document.pages.map(({ image }) => inspect(image)))).toEqual([
+      { format: 'jpeg', width: 40, height: 30, shade: 50 },
+      { format: 'jpeg', width: 40, height: 30, shade: 100 },
+      { format: 'jpeg', width: 40, height: 30, shade: 150 },
+    ]);
+  });
+
+  it('stops at the last page', async () => {
+    const document = await rasterizeDocument(await multiPageTiff(3), { firstPage: 3 });
+
+    expect(document.pages.map(({ page }) => page)).toEqual([3]);
+  });
+
+  it('renders PDF pages and encodes them as JPEGs within the max dimension', async () => {
+    const png = await sharp({
+      create: { width: 300, height: 200, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } },
+    })
+      .png()
+      .toBuffer();
+    (renderPdfPages as jest.Mock).mockResolvedValue({ pageCount: 12, pages: [{ page: 5, png }] });
+
+    const document = await rasterizeDocument(PDF, { firstPage: 5, count: 1, maxDimension: 150 });
+
+    expect(renderPdfPages).toHaveBeenCalledWith(PDF, 5, 1, 150);
+    expect(document.pageCount).toBe(12);
+    // transparent areas become white
+    expect(await inspect(document.pages[0].image)).toEqual({
+      format: 'jpeg',
+      width: 150,
+      height: 100,
+      shade: 250,
+    });
+  });
+
+  it('rejects pages past the end, unreadable documents and other files', async () => {
+    await expect(rasterizeDocument(await multiPageTiff(2), { firstPage: 3 })).rejects.toThrow(
+      'The document has 2 page(s); page 3 does not exist.'
+    );
+    (renderPdfPages as jest.Mock).mockRejectedValue(new Error('Invalid PDF structure.'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    await expect(rasterizeDocument(PDF)).rejects.toThrow('The PDF document could not be read.');
+    await expect(rasterizeDocument(new Uint8Array([1, 2, 3]))).rejects.toThrow(
+      'Only PDF and TIFF documents can be split into pages.'
+    );
+  });
+});
@@ -0,0 +1,106 @@
+import { detectImageFormat } from '@/lib/images';
+import { IMAGE_MAX_DIMENSION } from '@/services/config/config';
+import { renderPdfPages } from '@/services/documents/renderPdfPages';
+import { MAX_DOCUMENT_PAGES_PER_REQUEST, RasterizedDocument } from '@/services/documents/schemas';
+import sharp from 'sharp';
+
+/**
+ * Document formats whose pages can be rasterized.
+ */
+export type DocumentFormat = 'pdf' | 'tiff';
+
+/**
+ * Detects a document format from its magic bytes.
+ *
+ * @param bytes - The file contents.
+ * @returns The document format, or undefined for anything else.
+ */
+export const detectDocumentFormat = (bytes: Uint8Array): DocumentFormat | undefined => {
+  if (Buffer.from(bytes.subarray(0, 5)).toString('latin1') === '%PDF-') return 'pdf';
+  return detectImageFormat(bytes) === 'tiff' ? 'tiff' : undefined;
+};
+
+/**
+ * Options controlling which pages are rasterized and how large.
+ */
+export interface RasterizeDocumentOptions {
+  /** 1-based number of the first page; defaults to the first page. */
+  firstPage?: number;
+  /** Max number of pages; defaults to the images allowed per question. */
+  count?: number;
+  /** Max width or height of each page in pixels. */
+  maxDimension?: number;
+}
+
+/**
+ * Encodes a page as a JPEG data URL on a white background, fit within the max dimension.
+ */
+const toJpegDataUrl = async (image: sharp.Sharp, maxDimension: number) => {
+  const jpeg = await image
+    .rotate()
+    .resize({
+      width: maxDimension,
+      height: maxDimension,
+      fit: 'inside',
+      withoutEnlargement: true,
+    })
+    .flatten({ background: '#ffffff' })
+    .jpeg({ quality: 85 })
+    .toBuffer();
+  return `data:image/jpeg;base64,${jpeg.toString('base64')}`;
+};
+
+/**
+ * Rasterizes a range of pages of a PDF or multi-page TIFF into JPEG images for analysis.
+ * PDF pages are rendered with PDF.js; TIFF pages are decoded with sharp.
+ *
+ * @param bytes - The document file contents.
+ * @param options - The page range and the max page size.
+ * @returns The number of pages in the document and the requested pages.
+ * @throws Error when the file is not a supported document, cannot be read or has no page at
+ * the first requested page.
+ */
+export const rasterizeDocument = async (
+  bytes: Uint8Array,
+  {
+    firstPage = 1,
+    count = MAX_DOCUMENT_PAGES_PER_REQUEST,
+    maxDimension = IMAGE_MAX_DIMENSION,
+  }: RasterizeDocumentOptions = {}
+): Promise<RasterizedDocument> => {
+  const format = detectDocumentFormat(bytes);
+  if (!format) {
+    throw new Error('Only PDF and TIFF documents can be split into pages.');
+  }
+
+  // Read the page count and the requested pages
+  let pageCount: number;
+  let pages: RasterizedDocument['pages'];
+  try {
+    if (format === 'pdf') {
+      const rendered = await renderPdfPages(bytes, firstPage, count, maxDimension);
+      pageCount = rendered.pageCount;
+      pages = await Promise.all(
+        rendered.pages.map(async ({ page, png }) => ({
+          page,
+          image: await toJpegDataUrl(sharp(png), maxDimension),
+        }))
+      );
+    } else {
+      pageCount = (await sharp(bytes).metadata()).pages ?? 1;
+      const lastPage = Math.min(pageCount, firstPage + count - 1);
+      pages = [];
+      for (let page = firstPage; page <= lastPage; page++) {
+        const image = sharp(bytes, { page: page - 1, failOn: 'error' });
+        pages.push({ page, image: await toJpegDataUrl(image, maxDimension) });
+      }
+    }
+  } catch (error: unknown) {
+    console.error('Failed to rasterize a document', error);
+    throw new Error(`The ${format.toUpperCase()} document could not be read.`);
+  }
+  if (firstPage > pageCount) {
+    throw new Error(`The document has ${pageCount} page(s); page ${firstPage} does not exist.`);
+  }
+  return { pageCount, pages };
+};
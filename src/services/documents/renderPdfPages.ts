@@ -0,0 +1,60 @@
+import type { Canvas } from '@napi-rs/canvas';
+
+/**
+ * A PDF page rendered to PNG.
+ */
+export interface RenderedPdfPage {
+  /** 1-based page number. */
+  page: number;
+  /** The rendered page as PNG bytes. */
+  png: Uint8Array;
+}
+
+/**
+ * The canvas factory of a PDF.js document, which its declarations leave untyped. In Node it
+ * creates @napi-rs/canvas canvases, which PDF.js renders to as if they were DOM canvases.
+ */
+interface PdfCanvasFactory {
+  create(width: number, height: number): { canvas: HTMLCanvasElement & Pick<Canvas, 'toBuffer'> };
+  destroy(canvasAndContext: { canvas: HTMLCanvasElement | null }): void;
+}
+
+/**
+ * Renders a range of PDF pages with PDF.js, scaling each page so its longer side is the
+ * given size.
+ *
+ * @param bytes - The PDF file contents.
+ * @param firstPage - 1-based number of the first page to render.
+ * @param count - Max number of pages to render.
+ * @param maxDimension - Size of the longer side of each rendered page in pixels.
+ * @returns The number of pages in the document and the rendered pages.
+ * @throws Error when the PDF cannot be parsed.
+ */
+export const renderPdfPages = async (
+  bytes: Uint8Array,
+  firstPage: number,
+  count: number,
+  maxDimension: number
+): Promise<{ pageCount: number; pages: RenderedPdfPage[] }> => {
+  const { getDocument } = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  // PDF.js takes ownership of the buffer, so it gets a copy
+  const document = await getDocument({ data: bytes.slice(), isEvalSupported: false }).promise;
+  const canvasFactory = document.canvasFactory as PdfCanvasFactory;
+  try {
+    const pages: RenderedPdfPage[] = [];
+    const lastPage = Math.min(document.numPages, firstPage + count - 1);
+    for (let number = firstPage; number <= lastPage; number++) {
+      const page = await document.getPage(number);
+      const { width, height } = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: maxDimension / Math.max(width, height) });
+      const target = canvasFactory.create(Math.ceil(viewport.width), Math.ceil(viewport.height));
+      await page.render({ canvas: target.canvas, viewport }).promise;
+      pages.push({ page: number, png: target.canvas.toBuffer('image/png') });
+      canvasFactory.destroy(target);
+      page.cleanup();
+    }
+    return { pageCount: document.numPages, pages };
+  } finally {
+    await document.destroy();
+  }
+};
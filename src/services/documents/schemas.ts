@@ -0,0 +1,47 @@
+import { z } from 'zod';
+
+/**
+ * MIME types of the multi-page documents whose pages are rasterized for analysis.
+ */
+export const DOCUMENT_MIME_TYPES = ['application/pdf', 'image/tiff'];
+
+/**
+ * Max size of an uploaded document in bytes.
+ */
+export const MAX_DOCUMENT_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Max number of pages rasterized per request, matching the images allowed per question.
+ * Longer documents are paged through.
+ */
+export const MAX_DOCUMENT_PAGES_PER_REQUEST = 4;
+
+/**
+ * Schema for a rasterized document page.
+ */
+export const DocumentPageSchema = z.object({
+  /** 1-based page number within the document. */
+  page: z.number().int().positive(),
+  /** The page as a JPEG data URL. */
+  image: z.string(),
+});
+
+/**
+ * Document page type
+ */
+export type DocumentPage = z.infer<typeof DocumentPageSchema>;
+
+/**
+ * Schema for a range of rasterized pages of a document.
+ */
+export const RasterizedDocumentSchema = z.object({
+  /** Number of pages in the whole document. */
+  pageCount: z.number().int().positive(),
+  /** The requested pages, in order. */
+  pages: z.array(DocumentPageSchema),
+});
+
+/**
+ * Rasterized document type
+ */
+export type RasterizedDocument = z.infer<typeof RasterizedDocumentSchema>;
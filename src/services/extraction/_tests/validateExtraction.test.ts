@@ -0,0 +1,51 @@
+import { resolveExtraction, validateExtractedData } from '../validateExtraction';
+
+describe('resolveExtraction', () => {
+  it('resolves a saved template', () => {
+    const resolution = resolveExtraction({ templateId: 'serial-number' });
+
+    expect(resolution.ok).toBe(true);
+    expect(resolution.ok && resolution.extraction.schema.properties).toHaveProperty('serialNumber');
+  });
+
+  it('rejects an unknown template', () => {
+    expect(resolveExtraction({ templateId: 'missing' })).toEqual({
+      ok: false,
+      message: 'Unknown extraction template "missing".',
+    });
+  });
+
+  it('rejects an inline schema that does not compile', () => {
+    const resolution = resolveExtraction({
+      schema: { type: 'object', properties: { a: { type: 'nope' } } },
+    });
+
+    expect(resolution).toEqual({
+      ok: false,
+      message: expect.stringMatching(/^Invalid extraction schema: .+\.$/),
+    });
+  });
+});
+
+describe('validateExtractedData', () => {
+  const resolution = resolveExtraction({
+    schema: {
+      type: 'object',
+      properties: { name: { type: 'string' }, count: { type: 'integer', minimum: 0 } },
+      required: ['name'],
+    },
+  });
+  if (!resolution.ok) throw new Error(resolution.message);
+  const { extraction } = resolution;
+
+  it('returns no errors for valid data', () => {
+    expect(validateExtractedData(extraction, { name: 'Widget', count: 2 })).toEqual([]);
+  });
+
+  it('returns every invalid field with its JSON Pointer', () => {
+    expect(validateExtractedData(extraction, { count: -1 })).toEqual([
+      { path: '', message: "must have required property 'name'" },
+      { path: '/count', message: 'must be >= 0' },
+    ]);
+  });
+});
@@ -0,0 +1,70 @@
+import { z } from 'zod';
+
+/**
+ * Schema for a JSON Schema describing the fields extracted from each image.
+ * The root must describe an object; the schema itself is compiled on the server.
+ */
+export const ExtractionJsonSchemaSchema = z
+  .record(z.string(), z.unknown())
+  .refine(schema => schema.type === 'object', {
+    message: 'The extraction schema must describe an object ("type": "object").',
+  });
+
+/**
+ * Extraction JSON Schema type
+ */
+export type ExtractionJsonSchema = z.infer<typeof ExtractionJsonSchemaSchema>;
+
+/**
+ * Schema for the extraction attached to an analysis request: either a saved template or an
+ * inline JSON Schema.
+ */
+export const ExtractionRequestSchema = z.union([
+  z.object({
+    /** Id of a saved extraction template. */
+    templateId: z.string().min(1),
+  }),
+  z.object({
+    /** JSON Schema describing the fields to extract from each image. */
+    schema: ExtractionJsonSchemaSchema,
+  }),
+]);
+
+/**
+ * Extraction request type
+ */
+export type ExtractionRequest = z.infer<typeof ExtractionRequestSchema>;
+
+/**
+ * Schema for a saved extraction template.
+ */
+export const ExtractionTemplateSchema = z.object({
+  /** Unique id, referenced by `templateId` in requests. */
+  id: z.string(),
+  /** Display name. */
+  name: z.string(),
+  /** What the template extracts. */
+  description: z.string(),
+  /** JSON Schema describing the fields to extract. */
+  schema: ExtractionJsonSchemaSchema,
+});
+
+/**
+ * Extraction template type
+ */
+export type ExtractionTemplate = z.infer<typeof ExtractionTemplateSchema>;
+
+/**
+ * Schema for a field of extracted data that failed validation against the extraction schema.
+ */
+export const ExtractionValidationErrorSchema = z.object({
+  /** JSON Pointer to the invalid field, e.g. "/total"; empty for the whole object. */
+  path: z.string(),
+  /** Human-readable description of the problem. */
+  message: z.string(),
+});
+
+/**
+ * Extraction validation error type
+ */
+export type ExtractionValidationError = z.infer<typeof ExtractionValidationErrorSchema>;
@@ -0,0 +1,65 @@
+import { ExtractionTemplate } from '@/services/extraction/schemas';
+
+/**
+ * Saved extraction templates for the fields the app is most often used to pull out of photos.
+ */
+export const EXTRACTION_TEMPLATES: ExtractionTemplate[] = [
+  {
+    id: 'receipt',
+    name: 'Receipt',
+    description: 'Merchant, date, total and currency of a receipt.',
+    schema: {
+      type: 'object',
+      properties: {
+        merchant: { type: ['string', 'null'], description: 'Name of the store or business.' },
+        date: { type: ['string', 'null'], description: 'Purchase date as YYYY-MM-DD.' },
+        total: { type: ['number', 'null'], description: 'Total amount paid.' },
+        currency: { type: ['string', 'null'], description: 'ISO 4217 currency code, e.g. USD.' },
+      },
+      required: ['merchant', 'date', 'total', 'currency'],
+      additionalProperties: false,
+    },
+  },
+  {
+    id: 'serial-number',
+    name: 'Serial number',
+    description: 'Serial number, model number and manufacturer from a device label or plate.',
+    schema: {
+      type: 'object',
+      properties: {
+        serialNumber: { type: ['string', 'null'], description: 'The serial number, verbatim.' },
+        modelNumber: { type: ['string', 'null'], description: 'The model number, verbatim.' },
+        manufacturer: { type: ['string', 'null'], description: 'The manufacturer name.' },
+      },
+      required: ['serialNumber', 'modelNumber', 'manufacturer'],
+      additionalProperties: false,
+    },
+  },
+  {
+    id: 'label-text',
+    name: 'Label text',
+    description: 'Product name and the text printed on a label, line by line.',
+    schema: {
+      type: 'object',
+      properties: {
+        productName: { type: ['string', 'null'], description: 'The product name.' },
+        lines: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Each line of text on the label, top to bottom.',
+        },
+      },
+      required: ['productName', 'lines'],
+      additionalProperties: false,
+    },
+  },
+];
+
+/**
+ * Looks up a saved extraction template.
+ *
+ * @param id - The template id.
+ * @returns The template, or undefined when no template has that id.
+ */
+export const getExtractionTemplate = (id: string) =>
+  EXTRACTION_TEMPLATES.find(template => template.id === id);
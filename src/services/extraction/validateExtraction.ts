@@ -0,0 +1,74 @@
+import { isErrorWithMessage } from '@/lib/errors';
+import {
+  ExtractionJsonSchema,
+  ExtractionRequest,
+  ExtractionValidationError,
+} from '@/services/extraction/schemas';
+import { getExtractionTemplate } from '@/services/extraction/templates';
+import Ajv, { ValidateFunction } from 'ajv';
+
+/**
+ * Shared validator instance; compiled schemas are cached by Ajv.
+ * Unknown keywords (e.g. "description" extensions) are tolerated.
+ */
+const ajv = new Ajv({ allErrors: true, strict: false });
+
+/**
+ * An extraction schema ready to validate extracted data.
+ */
+export type ResolvedExtraction = {
+  /** The JSON Schema sent to the model. */
+  schema: ExtractionJsonSchema;
+  /** The compiled validator for the schema. */
+  validate: ValidateFunction;
+};
+
+/**
+ * Result of resolving an extraction request.
+ */
+export type ExtractionResolution =
+  | { ok: true; extraction: ResolvedExtraction }
+  | { ok: false; message: string };
+
+/**
+ * Resolves the JSON Schema of an extraction request (looking up saved templates) and compiles it.
+ *
+ * @param request - The extraction attached to the analysis request.
+ * @returns The compiled extraction, or a message explaining why the template or schema is unusable.
+ */
+export const resolveExtraction = (request: ExtractionRequest): ExtractionResolution => {
+  let schema: ExtractionJsonSchema;
+  if ('templateId' in request) {
+    const template = getExtractionTemplate(request.templateId);
+    if (!template) {
+      return { ok: false, message: `Unknown extraction template "${request.templateId}".` };
+    }
+    schema = template.schema;
+  } else {
+    schema = request.schema;
+  }
+  try {
+    return { ok: true, extraction: { schema, validate: ajv.compile(schema) } };
+  } catch (error: unknown) {
+    const reason = isErrorWithMessage(error) ? error.message : 'it could not be compiled';
+    return { ok: false, message: `Invalid extraction schema: ${reason}.` };
+  }
+};
+
+/**
+ * Validates data extracted from an image against the extraction schema.
+ *
+ * @param extraction - The compiled extraction.
+ * @param data - The data returned by the model.
+ * @returns One error per invalid field; empty when the data is valid.
+ */
+export const validateExtractedData = (
+  extraction: ResolvedExtraction,
+  data: unknown
+): ExtractionValidationError[] => {
+  if (extraction.validate(data)) return [];
+  return (extraction.validate.errors ?? []).map(error => ({
+    path: error.instancePath,
+    message: error.message ?? 'is invalid',
+  }));
+};
@@ -0,0 +1,119 @@
+import { ALLOWED_IMAGE_FORMATS, CONVERTIBLE_IMAGE_FORMATS } from '@/lib/images';
+import sharp from 'sharp';
+import { estimateImageTokens, normalizeImage } from '../normalizeImage';
+
+/**
+ * Builds a data URL for a generated image.
+ */
+const toDataUrl = (mediaType: string, bytes: Buffer) =>
+  `data:${mediaType};base64,${bytes.toString('base64')}`;
+
+/**
+ * Creates a solid image of the given size.
+ */
+const solid = (width: number, height: number, channels: 3 | 4 = 3) =>
+  sharp({
+    create: {
+      width,
+      height,
+      channels,
+      background: { r: 200, g: 50, b: 50, alpha: channels === 4 ? 0.5 : 1 },
+    },
+  });
+
+describe('estimateImageTokens', () => {
+  it('estimates tokens from the high-detail tile count', () => {
+    expect(estimateImageTokens({ width: 512, height: 512 })).toBe(85 + 170);
+    expect(estimateImageTokens({ width: 1024, height: 1024 })).toBe(85 + 170 * 4);
+    expect(estimateImageTokens({ width: 4096, height: 2048 })).toBe(85 + 170 * 6);
+  });
+});
+
+describe('normalizeImage', () => {
+  it('downsizes to the max dimension and reports savings', async () => {
+    const png = await solid(4000, 3000).png().toBuffer();
+
+    const { dataUrl, preprocessing } = await normalizeImage(toDataUrl('image/png', png), {
+      maxDimension: 500,
+      format: 'jpeg',
+    });
+
+    expect(dataUrl.startsWith('data:image/jpeg;base64,')).toBe(true);
+    expect(preprocessing).toMatchObject({
+      originalBytes: png.length,
+      width: 500,
+      height: 375,
+      mediaType: 'image/jpeg',
+      originalTokens: 85 + 170 * 4,
+      tokens: 85 + 170,
+    });
+    expect(preprocessing.bytes).toBeLessThan(png.length);
+  });
+
+  it('does not enlarge small images', async () => {
+    const png = await solid(100, 50).png().toBuffer();
+
+    const { preprocessing } = await normalizeImage(toDataUrl('image/png', png), {
+      maxDimension: 1000,
+    });
+
+    expect(preprocessing).toMatchObject({ width: 100, height: 50 });
+  });
+
+  it('applies EXIF orientation and strips metadata', async () => {
+    const jpeg = await solid(200, 100).jpeg().withMetadata({ orientation: 6 }).toBuffer();
+
+    const { dataUrl, preprocessing } = await normalizeImage(toDataUrl('image/jpeg', jpeg), {
+      maxDimension: 1000,
+    });
+
+    expect(preprocessing).toMatchObject({ width: 100, height: 200 });
+    const metadata = await sharp(Buffer.from(dataUrl.split(',')[1], 'base64')).metadata();
+    expect(metadata.orientation).toBeUndefined();
+    expect(metadata.exif).toBeUndefined();
+  });
+
+  it('keeps transparency as PNG in auto format', async () => {
+    const png = await solid(10, 10, 4).png().toBuffer();
+
+    const { preprocessing } = await normalizeImage(toDataUrl('image/png', png), {
+      format: 'auto',
+    });
+
+    expect(preprocessing.mediaType).toBe('image/png');
+  });
+
+  it.each([
+    ['image/png', () => solid(10, 10).png()],
+    ['image/jpeg', () => solid(10, 10).jpeg()],
+    ['image/gif', () => solid(10, 10).gif()],
+    ['image/webp', () => solid(10, 10).webp()],
+    ['image/tiff', () => solid(10, 10).tiff()],
+    ['image/avif', () => solid(10, 10).avif()],
+  ])('decodes %s uploads', async (mediaType, encode) => {
+    const bytes = await encode().toBuffer();
+
+    const { preprocessing } = await normalizeImage(toDataUrl(mediaType, bytes), {
+      format: 'jpeg',
+    });
+
+    expect(preprocessing).toMatchObject({ width: 10, height: 10, mediaType: 'image/jpeg' });
+  });
+
+  it('covers every format accepted for upload', () => {
+    expect([...ALLOWED_IMAGE_FORMATS, ...CONVERTIBLE_IMAGE_FORMATS].sort()).toEqual([
+      'avif',
+      'gif',
+      'jpeg',
+      'png',
+      'tiff',
+      'webp',
+    ]);
+  });
+
+  it('throws for undecodable images', async () => {
+    await expect(
+      normalizeImage('data:image/png;base64,iVBORw0KGgo=', { maxDimension: 1000 })
+    ).rejects.toThrow();
+  });
+});
@@ -0,0 +1,59 @@
+import { MAX_IMAGE_BYTES } from '@/lib/images';
+import { validateImage } from '../validateImage';
+
+/**
+ * Builds a data URL from a MIME type and raw bytes.
+ */
+const dataUrl = (mediaType: string, bytes: Buffer) =>
+  `data:${mediaType};base64,${bytes.toString('base64')}`;
+
+const PNG_BYTES = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const JPEG_BYTES = Buffer.from([0xff, 0xd8, 0xff, 0xe0]);
+
+describe('validateImage', () => {
+  it('accepts an allowed image whose content matches its type', () => {
+    expect(validateImage(dataUrl('image/png', PNG_BYTES))).toEqual({
+      ok: true,
+      mediaType: 'image/png',
+      byteLength: 8,
+    });
+    expect(validateImage(dataUrl('image/jpg', JPEG_BYTES))).toMatchObject({
+      ok: true,
+      mediaType: 'image/jpeg',
+    });
+  });
+
+  it('rejects strings that are not base64 data URLs', () => {
+    expect(validateImage('https://example.com/cat.png')).toMatchObject({
+      ok: false,
+      code: 'invalid_data_url',
+    });
+  });
+
+  it('rejects MIME types outside the allowlist', () => {
+    expect(validateImage(dataUrl('image/svg+xml', Buffer.from('<svg/>')))).toMatchObject({
+      ok: false,
+      code: 'unsupported_type',
+    });
+  });
+
+  it('rejects content that does not match the declared type', () => {
+    expect(validateImage(dataUrl('image/png', JPEG_BYTES))).toEqual({
+      ok: false,
+      code: 'type_mismatch',
+      message: 'The image is declared as image/png but its content is image/jpeg.',
+    });
+    expect(validateImage(dataUrl('image/png', Buffer.from('not an image')))).toMatchObject({
+      ok: false,
+      code: 'type_mismatch',
+    });
+  });
+
+  it('rejects images over the per-image size cap', () => {
+    const large = Buffer.concat([PNG_BYTES, Buffer.alloc(MAX_IMAGE_BYTES)]);
+    expect(validateImage(dataUrl('image/png', large))).toMatchObject({
+      ok: false,
+      code: 'too_large',
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { ImageDimensions, parseDataUrl } from '@/lib/images';
+import { IMAGE_MAX_DIMENSION, IMAGE_OUTPUT_FORMAT } from '@/services/config/config';
+import { ImagePreprocessing, NormalizedImageFormat } from '@/services/images/schemas';
+import sharp from 'sharp';
+
+/**
+ * Options controlling image normalization.
+ */
+export interface NormalizeImageOptions {
+  /** Max width or height in pixels; larger images are downsized to fit. */
+  maxDimension?: number;
+  /** Output format of the normalized image. */
+  format?: NormalizedImageFormat;
+}
+
+/**
+ * Estimates the vision input tokens an image costs, using OpenAI's high-detail tiling:
+ * the image is fit within 2048×2048, its short side scaled to at most 768, and each
+ * 512×512 tile costs 170 tokens on top of an 85-token base.
+ *
+ * @param dimensions - The image dimensions in pixels.
+ * @returns The estimated token count.
+ */
+export const estimateImageTokens = ({ width, height }: ImageDimensions) => {
+  if (width <= 0 || height <= 0) return 0;
+  const fit = Math.min(1, 2048 / Math.max(width, height));
+  const shortSide = Math.min(width, height) * fit;
+  const scale = fit * Math.min(1, 768 / shortSide);
+  const tiles = Math.ceil((width * scale) / 512) * Math.ceil((height * scale) / 512);
+  return 85 + 170 * tiles;
+};
+
+/**
+ * Normalizes an image for analysis: applies its EXIF orientation, downsizes it to fit
+ * the max dimension, re-encodes it and strips all metadata (including GPS EXIF data).
+ *
+ * @param dataUrl - The validated image data URL.
+ * @param options - Overrides for the configured max dimension and output format.
+ * @returns The normalized image data URL and a report of the byte and token savings.
+ * @throws Error when the image cannot be decoded.
+ */
+export const normalizeImage = async (
+  dataUrl: string,
+  { maxDimension = IMAGE_MAX_DIMENSION, format = IMAGE_OUTPUT_FORMAT }: NormalizeImageOptions = {}
+): Promise<{ dataUrl: string; preprocessing: ImagePreprocessing }> => {
+  const parsed = parseDataUrl(dataUrl);
+  if (!parsed) {
+    throw new Error('The image is not a valid base64 data URL.');
+  }
+
+  // Read the original dimensions, accounting for EXIF rotation
+  const input = sharp(parsed.bytes, { failOn: 'error' });
+  const metadata = await input.metadata();
+  const rotated = (metadata.orientation ?? 1) >= 5;
+  const original = {
+    width: (rotated ? metadata.height : metadata.width) ?? 0,
+    height: (rotated ? metadata.width : metadata.height) ?? 0,
+  };
+
+  // Rotate, resize and re-encode; sharp drops metadata unless asked to keep it
+  const outputFormat = format === 'auto' ? (metadata.hasAlpha ? 'png' : 'jpeg') : format;
+  const { data, info } = await input
+    .rotate()
+    .resize({
+      width: maxDimension,
+      height: maxDimension,
+      fit: 'inside',
+      withoutEnlargement: true,
+    })
+    .toFormat(outputFormat, outputFormat === 'png' ? {} : { quality: 85 })
+    .toBuffer({ resolveWithObject: true });
+
+  const mediaType = `image/${info.format}`;
+  return {
+    dataUrl: `data:${mediaType};base64,${data.toString('base64')}`,
+    preprocessing: {
+      originalBytes: parsed.bytes.length,
+      bytes: info.size,
+      originalTokens: estimateImageTokens(original),
+      tokens: estimateImageTokens(info),
+      width: info.width,
+      height: info.height,
+      mediaType,
+    },
+  };
+};
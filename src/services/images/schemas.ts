@@ -0,0 +1,52 @@
+import { z } from 'zod';
+
+/**
+ * Schema for the codes of per-image validation failures.
+ */
+export const ImageValidationErrorCodeSchema = z.enum([
+  'invalid_data_url',
+  'unsupported_type',
+  'type_mismatch',
+  'too_large',
+]);
+
+/**
+ * Image validation error code type
+ */
+export type ImageValidationErrorCode = z.infer<typeof ImageValidationErrorCodeSchema>;
+
+/**
+ * Schema for the output formats of normalized images. "auto" keeps transparency as PNG and uses
+ * JPEG otherwise.
+ */
+export const NormalizedImageFormatSchema = z.enum(['auto', 'jpeg', 'png', 'webp']);
+
+/**
+ * Normalized image format type
+ */
+export type NormalizedImageFormat = z.infer<typeof NormalizedImageFormatSchema>;
+
+/**
+ * Schema for the outcome of normalizing one image, reported alongside its analysis.
+ */
+export const ImagePreprocessingSchema = z.object({
+  /** Size of the uploaded image in bytes. */
+  originalBytes: z.number(),
+  /** Size of the normalized image in bytes. */
+  bytes: z.number(),
+  /** Estimated vision input tokens for the uploaded image. */
+  originalTokens: z.number(),
+  /** Estimated vision input tokens for the normalized image. */
+  tokens: z.number(),
+  /** Width in pixels of the normalized image. */
+  width: z.number(),
+  /** Height in pixels of the normalized image. */
+  height: z.number(),
+  /** MIME type of the normalized image. */
+  mediaType: z.string(),
+});
+
+/**
+ * Image preprocessing type
+ */
+export type ImagePreprocessing = z.infer<typeof ImagePreprocessingSchema>;
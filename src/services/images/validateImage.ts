@@ -0,0 +1,93 @@
+import {
+  ALLOWED_IMAGE_FORMATS,
+  detectImageFormat,
+  formatBytes,
+  IMAGE_FORMAT_MIME_TYPES,
+  IMAGE_FORMAT_NAMES,
+  ImageFormat,
+  MAX_IMAGE_BYTES,
+  parseDataUrl,
+} from '@/lib/images';
+import { ImageValidationErrorCode } from '@/services/images/schemas';
+
+/**
+ * Outcome of validating a single image.
+ */
+export type ImageValidationResult =
+  | {
+      /** The image passed validation. */
+      ok: true;
+      /** The MIME type detected from the image's magic bytes. */
+      mediaType: string;
+      /** The decoded image size in bytes. */
+      byteLength: number;
+    }
+  | {
+      /** The image failed validation. */
+      ok: false;
+      /** Machine-readable reason the image was rejected. */
+      code: ImageValidationErrorCode;
+      /** Human-readable explanation. */
+      message: string;
+    };
+
+/**
+ * Validates an uploaded image data URL.
+ *
+ * Checks that the string is a base64 data URL, that its declared MIME type is allowed,
+ * that the magic bytes match the declared type and that it fits the per-image size cap.
+ *
+ * @param dataUrl - The image data URL sent by the client.
+ * @param formats - The accepted image formats; defaults to the formats models accept.
+ * @returns The validation outcome.
+ */
+export const validateImage = (
+  dataUrl: string,
+  formats: ImageFormat[] = ALLOWED_IMAGE_FORMATS
+): ImageValidationResult => {
+  const parsed = parseDataUrl(dataUrl);
+  if (!parsed) {
+    return {
+      ok: false,
+      code: 'invalid_data_url',
+      message: 'The image is not a valid base64 data URL.',
+    };
+  }
+
+  const declared = parsed.mediaType === 'image/jpg' ? 'image/jpeg' : parsed.mediaType;
+  const mimeTypes = formats.map(format => IMAGE_FORMAT_MIME_TYPES[format]);
+  if (!mimeTypes.includes(declared)) {
+    const names = formats.map(format => IMAGE_FORMAT_NAMES[format]);
+    return {
+      ok: false,
+      code: 'unsupported_type',
+      message: `Unsupported image type "${parsed.mediaType}". Use ${names.slice(0, -1).join(', ')} or ${names.at(-1)}.`,
+    };
+  }
+
+  const format = detectImageFormat(parsed.bytes);
+  if (!format || !formats.includes(format)) {
+    return {
+      ok: false,
+      code: 'type_mismatch',
+      message: `The image content does not match its declared type ${declared}.`,
+    };
+  }
+  if (IMAGE_FORMAT_MIME_TYPES[format] !== declared) {
+    return {
+      ok: false,
+      code: 'type_mismatch',
+      message: `The image is declared as ${declared} but its content is ${IMAGE_FORMAT_MIME_TYPES[format]}.`,
+    };
+  }
+
+  if (parsed.bytes.length > MAX_IMAGE_BYTES) {
+    return {
+      ok: false,
+      code: 'too_large',
+      message: `The image is ${formatBytes(parsed.bytes.length)}; the limit is ${formatBytes(MAX_IMAGE_BYTES)}.`,
+    };
+  }
+
+  return { ok: true, mediaType: declared, byteLength: parsed.bytes.length };
+};
@@ -0,0 +1,329 @@
+import { analyzeImages, streamAnalyzeImages } from '@/services/openai/analyzeImages';
+import { deflateSync } from 'zlib';
+import { createMockVisionModel, MockVisionModelOptions } from '../mockVisionModel';
+
+// Send images to the model as uploaded and uncached, with a short timeout and no retry delay
+jest.mock('@/services/config/config', () => ({
+  ...jest.requireActual('@/services/config/config'),
+  ANALYSIS_CACHE_ENABLED: false,
+  IMAGE_NORMALIZATION_ENABLED: false,
+  ANALYSIS_TIMEOUT_MS: 50,
+  ANALYSIS_RETRY_DELAY_MS: 0,
+}));
+
+// Route every analysis through a mock model configured per test
+let mockOptions: MockVisionModelOptions = {};
+jest.mock('@/services/models/registry', () => ({
+  resolveModel: () => ({ id: 'mock:vision', model: createMockVisionModel('vision', mockOptions) }),
+}));
+
+/**
+ * Builds a data URL for a solid-colour 8-bit RGB PNG.
+ */
+const solidPng = (width: number, height: number, [r, g, b]: [number, number, number]) => {
+  const chunk = (type: string, data: Buffer) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    // the mock decoder does not verify CRCs
+    return Buffer.concat([length, Buffer.from(type), data, Buffer.alloc(4)]);
+  };
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // RGB
+  const row = Buffer.concat([Buffer.from([0]), Buffer.from(Array(width).fill([r, g, b]).flat())]);
+  const png = Buffer.concat([
+    Buffer.from('\x89PNG\r\n\x1a\n', 'latin1'),
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(Buffer.concat(Array(height).fill(row)))),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+  return `data:image/png;base64,${png.toString('base64')}`;
+};
+
+describe('mock vision model', () => {
+  beforeEach(() => {
+    mockOptions = {};
+  });
+
+  it('describes each image from its bytes', async () => {
+    const red = solidPng(3, 2, [255, 0, 0]);
+    const blue = solidPng(1, 1, [0, 0, 255]);
+
+    const res = await analyzeImages({ question: 'What is this?', images: [red, blue] });
+
+    expect(res.results).toEqual([
+      {
+        index: 0,
+        ok: true,
+        text: expect.stringMatching(/^PNG image, 3×2 px, \d+ B, dominant colour #ff0000\.$/),
+      },
+      {
+        index: 1,
+        ok: true,
+        text: expect.stringMatching(/^PNG image, 1×1 px, \d+ B, dominant colour #0000ff\.$/),
+      },
+    ]);
+  });
+
+  it('uses a custom responder with the question', async () => {
+    mockOptions = { respond: (image, question) => `${question} #${image.index}` };
+
+    const res = await analyzeImages({
+      question: 'Count cars',
+      images: [solidPng(1, 1, [0, 0, 0])],
+    });
+
+    expect(res.results).toEqual([{ index: 0, ok: true, text: 'Count cars #0' }]);
+  });
+
+  it('omits the configured missing indexes', async () => {
+    mockOptions = { missingIndexes: [0] };
+
+    const res = await analyzeImages({ question: 'Q', images: [solidPng(1, 1, [0, 0, 0])] });
+
+    expect(res.results).toEqual([
+      {
+        index: 0,
+        ok: false,
+        code: 'model_refusal',
+        error: 'No response received for this image.',
+      },
+    ]);
+  });
+
+  it('recovers omitted images by re-requesting only those images', async () => {
+    mockOptions = { missingIndexes: [1] };
+    const image = solidPng(1, 1, [0, 0, 0]);
+
+    const res = await analyzeImages({ question: 'Q', images: [image, image, image] });
+
+    expect(res.results.map(r => r.ok)).toEqual([true, true, true]);
+  });
+
+  it('times out calls that take longer than the configured timeout', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockOptions = { latencyMs: 200 };
+
+    const res = await analyzeImages({ question: 'Q', images: [solidPng(1, 1, [0, 0, 0])] });
+
+    expect(res.results).toEqual([
+      {
+        index: 0,
+        ok: false,
+        code: 'timeout',
+        error: 'The model did not respond within 0.05 seconds.',
+      },
+    ]);
+  });
+
+  it('fails every image with the configured error', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockOptions = { failWith: 'Mock outage' };
+
+    const res = await analyzeImages({ question: 'Q', images: [solidPng(1, 1, [0, 0, 0])] });
+
+    expect(res.results).toEqual([
+      {
+        index: 0,
+        ok: false,
+        code: 'unknown',
+        error: 'Something went wrong while analyzing the image.',
+      },
+    ]);
+  });
+
+  it('answers follow-ups without images from the earlier images', async () => {
+    const res = await analyzeImages({
+      question: 'What colour was it?',
+      images: [],
+      history: [
+        { role: 'user', question: 'What is this?', images: [solidPng(2, 2, [0, 255, 0])] },
+        { role: 'assistant', results: [{ index: 0, ok: true, text: 'A square' }] },
+      ],
+    });
+
+    expect(res.results).toEqual([
+      {
+        index: 0,
+        ok: true,
+        text: expect.stringMatching(/^Follow-up about 1 earlier image\(s\)\. Latest: .*#00ff00\.$/),
+      },
+    ]);
+  });
+
+  it('returns an aggregate answer citing each image in the comparative mode', async () => {
+    const res = await analyzeImages({
+      question: 'Which is bigger?',
+      images: [solidPng(1, 1, [0, 0, 0]), solidPng(2, 2, [0, 0, 0])],
+      mode: 'comparative',
+    });
+
+    expect(res.summary).toEqual({
+      text: expect.stringMatching(/^\[Image 1\] PNG image, 1×1 px.* \[Image 2\] PNG image, 2×2 px/),
+      citations: [0, 1],
+    });
+    expect(res.results).toHaveLength(2);
+  });
+
+  it('fills the extraction schema with placeholders of each type', async () => {
+    const res = await analyzeImages({
+      question: 'Extract the label',
+      images: [solidPng(1, 1, [0, 0, 0])],
+      extraction: {
+        schema: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            size: { type: ['integer', 'null'] },
+            tags: { type: 'array', items: { type: 'string' } },
+          },
+          required: ['name', 'size', 'tags'],
+        },
+      },
+    });
+
+    expect(res.results).toEqual([
+      {
+        index: 0,
+        ok: true,
+        text: expect.any(String),
+        data: {
+          name: expect.stringMatching(/^PNG image, 1×1 px/),
+          size: expect.any(Number),
+          tags: [],
+        },
+      },
+    ]);
+  });
+
+  it('returns regions for each image in grounding requests', async () => {
+    const res = await analyzeImages({
+      question: 'Where is it?',
+      images: [solidPng(1, 1, [0, 0, 0])],
+      grounding: true,
+    });
+
+    expect(res.results).toEqual([
+      expect.objectContaining({
+        index: 0,
+        ok: true,
+        regions: [{ label: 'subject', box: { x: 0.25, y: 0.25, width: 0.5, height: 0.5 } }],
+      }),
+    ]);
+  });
+
+  it('returns the accessibility text of each image in the alt-text task', async () => {
+    mockOptions = {
+      describeForAccessibility: (image, question) => ({
+        alt: `Chart for ${question}`,
+        longDescription: 'Sales rose from 10 to 40 units.',
+        decorative: image.index > 0,
+      }),
+    };
+
+    const res = await analyzeImages({
+      question: 'the sales report',
+      images: [solidPng(1, 1, [0, 0, 0]), solidPng(1, 1, [9, 9, 9])],
+      task: 'alt-text',
+    });
+
+    expect(res.results).toEqual([
+      {
+        index: 0,
+        ok: true,
+        text: 'Chart for the sales report',
+        altText: {
+          alt: 'Chart for the sales report',
+          longDescription: 'Sales rose from 10 to 40 units.',
+          decorative: false,
+        },
+      },
+      expect.objectContaining({ index: 1, altText: expect.objectContaining({ decorative: true }) }),
+    ]);
+    expect(res.preset).toEqual({ id: 'alt-text', version: 1 });
+  });
+
+  it('retries alt text longer than the schema allows', async () => {
+    mockOptions = {
+      describeForAccessibility: () => ({
+        alt: 'x'.repeat(200),
+        longDescription: '',
+        decorative: false,
+      }),
+    };
+
+    const res = await analyzeImages({
+      question: 'Q',
+      images: [solidPng(1, 1, [0, 0, 0])],
+      task: 'alt-text',
+    });
+
+    expect(res.results).toEqual([expect.objectContaining({ index: 0, ok: false })]);
+  });
+
+  it('returns the transcribed blocks and their plain text in the OCR task', async () => {
+    mockOptions = {
+      transcribe: () => [
+        { type: 'paragraph', lines: ['INVOICE', 'No. 42'] },
+        {
+          type: 'table',
+          rows: [
+            ['Item', 'Total'],
+            ['Paper', '9.99'],
+          ],
+        },
+      ],
+    };
+
+    const res = await analyzeImages({
+      question: 'Transcribe this',
+      images: [solidPng(1, 1, [255, 255, 255])],
+      task: 'ocr',
+    });
+
+    expect(res.results).toEqual([
+      {
+        index: 0,
+        ok: true,
+        text: 'INVOICE\nNo. 42\n\nItem\tTotal\nPaper\t9.99',
+        transcription: {
+          blocks: [
+            { type: 'paragraph', lines: ['INVOICE', 'No. 42'] },
+            {
+              type: 'table',
+              rows: [
+                ['Item', 'Total'],
+                ['Paper', '9.99'],
+              ],
+            },
+          ],
+        },
+      },
+    ]);
+    expect(res.preset).toEqual({ id: 'ocr', version: 1 });
+  });
+
+  it('streams partial results', async () => {
+    mockOptions = { respond: () => 'A fairly long answer that arrives in several chunks' };
+
+    const items = [];
+    for await (const item of streamAnalyzeImages({
+      question: 'Q',
+      images: [solidPng(1, 1, [0, 0, 0])],
+    })) {
+      items.push(item);
+    }
+
+    expect(items.some(item => 'ok' in item && item.ok && item.pending)).toBe(true);
+    expect(items.at(-2)).toEqual({
+      index: 0,
+      ok: true,
+      text: 'A fairly long answer that arrives in several chunks',
+    });
+    expect(items.at(-1)).toEqual({
+      usage: expect.objectContaining({ model: 'mock:vision', outputTokens: 22, totalTokens: 22 }),
+    });
+  });
+});
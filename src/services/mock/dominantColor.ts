@@ -0,0 +1,108 @@
+import { detectImageFormat } from '@/lib/images';
+import { inflateSync } from 'zlib';
+
+/**
+ * Channels per pixel for the supported 8-bit PNG color types.
+ * 0: grayscale, 2: RGB, 4: grayscale + alpha, 6: RGBA.
+ */
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 4: 2, 6: 4 };
+
+/**
+ * Decodes the pixels of a non-interlaced 8-bit PNG into RGB triples.
+ *
+ * @param bytes - The PNG file contents.
+ * @returns The pixels as [r, g, b] triples, or undefined for unsupported PNG variants.
+ */
+const decodePngPixels = (bytes: Uint8Array): [number, number, number][] | undefined => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const width = view.getUint32(16);
+  const height = view.getUint32(20);
+  const bitDepth = bytes[24];
+  const colorType = bytes[25];
+  const interlace = bytes[28];
+  const channels = PNG_CHANNELS[colorType];
+  if (bitDepth !== 8 || !channels || interlace !== 0) return undefined;
+
+  // Concatenate the IDAT chunks
+  const idat: Uint8Array[] = [];
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    if (type === 'IDAT') idat.push(bytes.subarray(offset + 8, offset + 8 + length));
+    if (type === 'IEND') break;
+    offset += 12 + length;
+  }
+  const data = inflateSync(Buffer.concat(idat));
+
+  // Reverse the per-row filters
+  const stride = width * channels;
+  const pixels: [number, number, number][] = [];
+  let previous = new Uint8Array(stride);
+  for (let y = 0; y < height; y++) {
+    const filter = data[y * (stride + 1)];
+    const row = new Uint8Array(data.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1)));
+    for (let x = 0; x < stride; x++) {
+      const left = x >= channels ? row[x - channels] : 0;
+      const up = previous[x];
+      const upLeft = x >= channels ? previous[x - channels] : 0;
+      let predictor = 0;
+      if (filter === 1) predictor = left;
+      else if (filter === 2) predictor = up;
+      else if (filter === 3) predictor = (left + up) >> 1;
+      else if (filter === 4) {
+        const p = left + up - upLeft;
+        const pa = Math.abs(p - left);
+        const pb = Math.abs(p - up);
+        const pc = Math.abs(p - upLeft);
+        predictor = pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+      }
+      row[x] = (row[x] + predictor) & 0xff;
+    }
+    for (let x = 0; x < width; x++) {
+      const i = x * channels;
+      pixels.push(channels < 3 ? [row[i], row[i], row[i]] : [row[i], row[i + 1], row[i + 2]]);
+    }
+    previous = row;
+  }
+  return pixels;
+};
+
+/**
+ * Computes the dominant colour of an image by bucketing pixels into a coarse palette
+ * and averaging the most populated bucket. Only 8-bit, non-interlaced PNGs are decoded.
+ *
+ * @param bytes - The image file contents.
+ * @returns The dominant colour as a hex string (e.g. "#ff0000"), or undefined when unsupported.
+ */
+export const readDominantColor = (bytes: Uint8Array): string | undefined => {
+  if (detectImageFormat(bytes) !== 'png') return undefined;
+  let pixels: [number, number, number][] | undefined;
+  try {
+    pixels = decodePngPixels(bytes);
+  } catch {
+    // corrupt image data
+    return undefined;
+  }
+  if (!pixels?.length) return undefined;
+
+  // Bucket pixels by their top 4 bits per channel
+  const buckets = new Map<number, { count: number; sum: [number, number, number] }>();
+  for (const [r, g, b] of pixels) {
+    const key = ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+    const bucket = buckets.get(key) ?? { count: 0, sum: [0, 0, 0] };
+    bucket.count++;
+    bucket.sum[0] += r;
+    bucket.sum[1] += g;
+    bucket.sum[2] += b;
+    buckets.set(key, bucket);
+  }
+  const dominant = [...buckets.values()].reduce((a, b) => (b.count > a.count ? b : a));
+  return `#${dominant.sum
+    .map(sum =>
+      Math.round(sum / dominant.count)
+        .toString(16)
+        .padStart(2, '0')
+    )
+    .join('')}`;
+};
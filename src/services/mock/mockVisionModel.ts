@@ -0,0 +1,415 @@
+import { formatBytes, parseDataUrl, readImageDimensions } from '@/lib/images';
+import { readDominantColor } from '@/services/mock/dominantColor';
+import {
+  JSONSchema7,
+  LanguageModelV2,
+  LanguageModelV2CallOptions,
+  LanguageModelV2DataContent,
+  LanguageModelV2StreamPart,
+  NoSuchModelError,
+  ProviderV2,
+} from '@ai-sdk/provider';
+import { simulateReadableStream } from 'ai';
+
+/**
+ * An image found in the prompt sent to the mock model.
+ */
+export interface MockImage {
+  /** 0-based index of the image within the prompt. */
+  index: number;
+  /** The declared media type, e.g. "image/png". */
+  mediaType: string;
+  /** The image file contents. */
+  bytes: Uint8Array;
+}
+
+/**
+ * Options controlling the behaviour of the mock vision model.
+ */
+export interface MockVisionModelOptions {
+  /** Delay in milliseconds before the model responds. */
+  latencyMs?: number;
+  /** When set, every call fails with an error carrying this message. */
+  failWith?: string;
+  /** Image indexes the model omits from its answer, simulating partial responses. */
+  missingIndexes?: number[];
+  /** Produces the answer for an image; defaults to a description of its properties. */
+  respond?: (image: MockImage, question: string) => string;
+  /**
+   * Produces the answer to a follow-up question sent without new images, given the images
+   * of earlier turns; defaults to a description of the most recent earlier image.
+   */
+  respondToFollowUp?: (contextImages: MockImage[], question: string) => string;
+  /**
+   * Produces the aggregate answer requested by the comparative and combined modes;
+   * defaults to a description of every image, citing each as "[Image N]".
+   */
+  summarize?: (images: MockImage[], question: string) => string;
+  /**
+   * Produces the extracted data for an image given the extraction JSON Schema;
+   * defaults to filling each property with a placeholder of its type.
+   */
+  extract?: (image: MockImage, schema: JSONSchema7) => unknown;
+  /**
+   * Produces the labelled regions of an image requested in grounding requests;
+   * defaults to a single box around the centre of the image.
+   */
+  ground?: (image: MockImage, question: string) => MockRegion[];
+  /**
+   * Produces the accessibility text of an image requested in the alt-text task; defaults to
+   * its description as alt text, without a long description.
+   */
+  describeForAccessibility?: (image: MockImage, question: string) => MockAltText;
+  /**
+   * Produces the transcribed blocks of an image requested in the OCR task; defaults to its
+   * description as a single paragraph.
+   */
+  transcribe?: (image: MockImage, question: string) => MockTranscriptionBlock[];
+}
+
+/**
+ * A block of text transcribed by the mock model: a paragraph as its lines, or a table as its rows.
+ */
+export type MockTranscriptionBlock =
+  | { type: 'paragraph'; lines: string[] }
+  | { type: 'table'; rows: string[][] };
+
+/**
+ * The accessibility text of an image returned by the mock model.
+ */
+export interface MockAltText {
+  /** Short alt text. */
+  alt: string;
+  /** Long description of the details the alt text leaves out. */
+  longDescription: string;
+  /** Whether the image is purely decorative. */
+  decorative: boolean;
+}
+
+/**
+ * A labelled region returned by the mock model, in coordinates normalized to 0–1.
+ */
+export interface MockRegion {
+  /** What the region shows. */
+  label: string;
+  /** The bounding box from the top-left corner of the image. */
+  box: { x: number; y: number; width: number; height: number };
+}
+
+/**
+ * Outlines the centre of an image as its only region.
+ */
+const centreRegion = (): MockRegion[] => [
+  { label: 'subject', box: { x: 0.25, y: 0.25, width: 0.5, height: 0.5 } },
+];
+
+/**
+ * Describes an image from properties read out of its bytes: format, dimensions,
+ * file size and (for PNGs) dominant colour.
+ *
+ * @param image - The image to describe.
+ * @returns A one-sentence description.
+ */
+export const describeImage = ({ mediaType, bytes }: MockImage) => {
+  const dimensions = readImageDimensions(bytes);
+  const color = readDominantColor(bytes);
+  return [
+    `${mediaType.replace('image/', '').toUpperCase()} image`,
+    dimensions ? `${dimensions.width}×${dimensions.height} px` : undefined,
+    formatBytes(bytes.length),
+    color ? `dominant colour ${color}` : undefined,
+  ]
+    .filter(Boolean)
+    .join(', ')
+    .concat('.');
+};
+
+/**
+ * Uses the description of an image as its alt text.
+ */
+const describeAsAltText = (image: MockImage): MockAltText => ({
+  alt: describeImage(image),
+  longDescription: '',
+  decorative: false,
+});
+
+/**
+ * Transcribes the description of an image as its only paragraph.
+ */
+const describeAsText = (image: MockImage): MockTranscriptionBlock[] => [
+  { type: 'paragraph', lines: [describeImage(image)] },
+];
+
+/**
+ * Answers a follow-up question by describing the most recent image in the conversation.
+ */
+const describeLatestImage = (contextImages: MockImage[]) => {
+  const latest = contextImages.at(-1);
+  return latest
+    ? `Follow-up about ${contextImages.length} earlier image(s). Latest: ${describeImage(latest)}`
+    : 'There are no earlier images to answer about.';
+};
+
+/**
+ * Summarizes images by describing each one, citing it as "[Image N]".
+ */
+const describeImages = (images: MockImage[]) =>
+  images.map(image => `[Image ${image.index + 1}] ${describeImage(image)}`).join(' ');
+
+/**
+ * Fills a JSON Schema with placeholder values: the image description for strings, the file
+ * size for numbers, true for booleans and nested objects for objects.
+ */
+const fillSchema = (image: MockImage, schema: JSONSchema7): unknown => {
+  const type = [schema.type ?? 'null'].flat().find(t => t !== 'null');
+  switch (type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, property]) => [
+          key,
+          typeof property === 'object' ? fillSchema(image, property) : null,
+        ])
+      );
+    case 'array':
+      return [];
+    case 'string':
+      return describeImage(image);
+    case 'number':
+    case 'integer':
+      return image.bytes.length;
+    case 'boolean':
+      return true;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Returns the properties of each result when the call asks for JSON results.
+ */
+const readResultProperties = ({ responseFormat }: LanguageModelV2CallOptions) => {
+  if (responseFormat?.type !== 'json') return undefined;
+  const results = responseFormat.schema?.properties?.results;
+  const items = typeof results === 'object' ? results.items : undefined;
+  return typeof items === 'object' && !Array.isArray(items) ? items.properties : undefined;
+};
+
+/**
+ * Returns the extraction schema when the call asks for JSON results with a "data" property.
+ */
+const readExtractionSchema = (options: LanguageModelV2CallOptions) => {
+  const data = readResultProperties(options)?.data;
+  return typeof data === 'object' ? data : undefined;
+};
+
+/**
+ * Returns true when the call asks for JSON results with a "regions" property (grounding requests).
+ */
+const wantsRegions = (options: LanguageModelV2CallOptions) =>
+  !!readResultProperties(options)?.regions;
+
+/**
+ * Returns true when the call asks for JSON results with an "alt" property (the alt-text task).
+ */
+const wantsAltText = (options: LanguageModelV2CallOptions) => !!readResultProperties(options)?.alt;
+
+/**
+ * Returns true when the call asks for JSON results with a "blocks" property (the OCR task).
+ */
+const wantsTranscription = (options: LanguageModelV2CallOptions) =>
+  !!readResultProperties(options)?.blocks;
+
+/**
+ * Returns true when the call asks for JSON with a "summary" property (comparative and
+ * combined modes).
+ */
+const wantsSummary = ({ responseFormat }: LanguageModelV2CallOptions) =>
+  responseFormat?.type === 'json' &&
+  typeof responseFormat.schema?.properties === 'object' &&
+  'summary' in responseFormat.schema.properties;
+
+/**
+ * Decodes prompt file data, which may be raw bytes, base64 or a (data) URL.
+ */
+const toBytes = (data: LanguageModelV2DataContent): Uint8Array => {
+  if (data instanceof Uint8Array) return data;
+  const value = data instanceof URL ? data.href : data;
+  return (
+    parseDataUrl(value)?.bytes ??
+    (value.startsWith('data:') || /^https?:/.test(value)
+      ? new Uint8Array()
+      : Uint8Array.from(atob(value), char => char.charCodeAt(0)))
+  );
+};
+
+/**
+ * Reads the images from the content of a user message.
+ */
+const readImages = (message: LanguageModelV2CallOptions['prompt'][number]): MockImage[] =>
+  (message.role === 'user' ? message.content : [])
+    .flatMap(part => (part.type === 'file' && part.mediaType.startsWith('image/') ? [part] : []))
+    .map((part, index) => ({ index, mediaType: part.mediaType, bytes: toBytes(part.data) }));
+
+/**
+ * Reads the question and images from the last user message of a prompt, along with the
+ * images of earlier user messages (the conversation context).
+ */
+const readPrompt = ({ prompt }: LanguageModelV2CallOptions) => {
+  const userMessages = prompt.filter(m => m.role === 'user');
+  const message = userMessages.at(-1);
+  const parts = message?.role === 'user' ? message.content : [];
+  const question = parts
+    .flatMap(part => (part.type === 'text' ? [part.text.split('\n\n')[0]] : []))
+    .join(' ');
+  const images = message ? readImages(message) : [];
+  const contextImages = userMessages.slice(0, -1).flatMap(readImages);
+  return { question, images, contextImages };
+};
+
+/**
+ * Resolves after the given delay, or rejects when the call is aborted.
+ */
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (ms <= 0) return resolve();
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    });
+  });
+
+/**
+ * Creates a deterministic, offline vision language model.
+ *
+ * The model answers the image analysis prompt with one result per image, as JSON in the
+ * `{ results: [{ index, text }] }` shape the analysis schema expects (plus a `summary` when the
+ * schema asks for one, `regions` when it asks for grounding, `data` instead of `text` when it
+ * asks for extracted fields, `alt`, `longDescription` and `decorative` for alt text, or `blocks`
+ * of transcribed text), or with a single result for follow-up questions sent without
+ * images. Latency, thrown errors and missing indexes can be injected to exercise failure handling
+ * without network access.
+ *
+ * @param modelId - The model id reported to the AI SDK.
+ * @param options - Behaviour overrides.
+ * @returns A LanguageModelV2 implementation.
+ */
+export const createMockVisionModel = (
+  modelId = 'vision',
+  {
+    latencyMs = 0,
+    failWith,
+    missingIndexes = [],
+    respond = describeImage,
+    respondToFollowUp = describeLatestImage,
+    summarize = describeImages,
+    extract = fillSchema,
+    ground = centreRegion,
+    describeForAccessibility = describeAsAltText,
+    transcribe = describeAsText,
+  }: MockVisionModelOptions = {}
+): LanguageModelV2 => {
+  /**
+   * Builds the JSON answer for a call, failing when configured to.
+   */
+  const answer = (options: LanguageModelV2CallOptions) => {
+    if (failWith) throw new Error(failWith);
+    const { question, images, contextImages } = readPrompt(options);
+    const extractionSchema = readExtractionSchema(options);
+    if (extractionSchema) {
+      const targets = images.length ? images : contextImages.slice(-1);
+      const results = targets
+        .filter(image => !missingIndexes.includes(image.index))
+        .map((image, i) => ({
+          index: images.length ? image.index : i,
+          data: extract(image, extractionSchema),
+        }));
+      return JSON.stringify({ results });
+    }
+    if (wantsAltText(options)) {
+      const results = images
+        .filter(image => !missingIndexes.includes(image.index))
+        .map(image => ({ index: image.index, ...describeForAccessibility(image, question) }));
+      return JSON.stringify({ results });
+    }
+    if (wantsTranscription(options)) {
+      const results = images
+        .filter(image => !missingIndexes.includes(image.index))
+        .map(image => ({ index: image.index, blocks: transcribe(image, question) }));
+      return JSON.stringify({ results });
+    }
+    const results =
+      images.length === 0
+        ? [{ index: 0, text: respondToFollowUp(contextImages, question) }]
+        : images
+            .filter(image => !missingIndexes.includes(image.index))
+            .map(image => ({
+              index: image.index,
+              text: respond(image, question),
+              ...(wantsRegions(options) && { regions: ground(image, question) }),
+            }));
+    if (images.length > 0 && wantsSummary(options)) {
+      return JSON.stringify({ summary: summarize(images, question), results });
+    }
+    return JSON.stringify({ results });
+  };
+
+  /**
+   * Rough token usage for a call: one token per four characters of output.
+   */
+  const usage = (text: string) => ({
+    inputTokens: 0,
+    outputTokens: Math.ceil(text.length / 4),
+    totalTokens: Math.ceil(text.length / 4),
+  });
+
+  return {
+    specificationVersion: 'v2',
+    provider: 'mock',
+    modelId,
+    supportedUrls: {},
+    doGenerate: async options => {
+      await delay(latencyMs, options.abortSignal);
+      const text = answer(options);
+      return {
+        content: [{ type: 'text', text }],
+        finishReason: 'stop',
+        usage: usage(text),
+        warnings: [],
+      };
+    },
+    doStream: async options => {
+      await delay(latencyMs, options.abortSignal);
+      const text = answer(options);
+      const deltas = text.match(/[\s\S]{1,16}/g) ?? [];
+      return {
+        stream: simulateReadableStream<LanguageModelV2StreamPart>({
+          chunks: [
+            { type: 'stream-start', warnings: [] },
+            { type: 'text-start', id: '0' },
+            ...deltas.map(delta => ({ type: 'text-delta' as const, id: '0', delta })),
+            { type: 'text-end', id: '0' },
+            { type: 'finish', finishReason: 'stop', usage: usage(text) },
+          ],
+          chunkDelayInMs: latencyMs > 0 ? 10 : null,
+        }),
+      };
+    },
+  };
+};
+
+/**
+ * Creates a provider serving the mock vision model under any model id.
+ *
+ * @param options - Behaviour overrides applied to every model.
+ * @returns A ProviderV2 implementation for the model registry.
+ */
+export const createMockVisionProvider = (options: MockVisionModelOptions = {}): ProviderV2 => ({
+  languageModel: modelId => createMockVisionModel(modelId, options),
+  textEmbeddingModel: modelId => {
+    throw new NoSuchModelError({ modelId, modelType: 'textEmbeddingModel' });
+  },
+  imageModel: modelId => {
+    throw new NoSuchModelError({ modelId, modelType: 'imageModel' });
+  },
+});
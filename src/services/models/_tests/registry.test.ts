@@ -0,0 +1,63 @@
+/**
+ * Loads a fresh copy of the registry with the given configuration.
+ */
+const loadRegistry = (config: Record<string, string | undefined>) => {
+  jest.resetModules();
+  jest.doMock('@/services/config/config', () => ({
+    DEFAULT_MODEL_ID: 'openai:gpt-4o-mini',
+    ...config,
+  }));
+  return jest.requireActual<typeof import('../registry')>('../registry');
+};
+
+describe('model registry', () => {
+  it('lists only models whose provider is configured', () => {
+    const { getAvailableModels } = loadRegistry({
+      ANTHROPIC_API_KEY: 'key',
+      LOCAL_MODEL_BASE_URL: 'http://localhost:11434/v1',
+      LOCAL_MODEL_NAMES: 'llava, qwen2.5vl',
+    });
+
+    const providers = new Set(getAvailableModels().map(model => model.provider));
+    expect(providers).toEqual(new Set(['anthropic', 'local']));
+    expect(getAvailableModels().filter(model => model.provider === 'local')).toEqual([
+      { id: 'local:llava', provider: 'local', label: 'Local llava' },
+      { id: 'local:qwen2.5vl', provider: 'local', label: 'Local qwen2.5vl' },
+    ]);
+  });
+
+  it('resolves a selected model', () => {
+    const { resolveModel } = loadRegistry({ OPENAI_API_KEY: 'key', ANTHROPIC_API_KEY: 'key' });
+
+    const { id, model } = resolveModel('anthropic:claude-sonnet-4-0');
+
+    expect(id).toBe('anthropic:claude-sonnet-4-0');
+    expect(model).toMatchObject({ modelId: 'claude-sonnet-4-0' });
+  });
+
+  it('falls back to the default model for unavailable selections', () => {
+    const { resolveModel } = loadRegistry({ OPENAI_API_KEY: 'key' });
+
+    expect(resolveModel('google:gemini-2.5-pro').id).toBe('openai:gpt-4o-mini');
+    expect(resolveModel().id).toBe('openai:gpt-4o-mini');
+  });
+
+  it('falls back to the first available model when the default provider is unconfigured', () => {
+    const { getDefaultModelId } = loadRegistry({ GOOGLE_GENERATIVE_AI_API_KEY: 'key' });
+
+    expect(getDefaultModelId()).toBe('google:gemini-2.5-flash');
+  });
+
+  it('offers the mock model when enabled', () => {
+    const { getAvailableModels, resolveModel } = loadRegistry({ MOCK_MODEL_ENABLED: 'true' });
+
+    expect(getAvailableModels().map(model => model.id)).toEqual(['mock:vision']);
+    expect(resolveModel().model).toMatchObject({ provider: 'mock', modelId: 'vision' });
+  });
+
+  it('throws when no provider is configured', () => {
+    const { resolveModel } = loadRegistry({});
+
+    expect(() => resolveModel()).toThrow('No model provider is configured.');
+  });
+});
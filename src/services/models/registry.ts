@@ -0,0 +1,173 @@
+import {
+  ANTHROPIC_API_KEY,
+  DEFAULT_MODEL_ID,
+  GOOGLE_GENERATIVE_AI_API_KEY,
+  LOCAL_MODEL_API_KEY,
+  LOCAL_MODEL_BASE_URL,
+  LOCAL_MODEL_NAMES,
+  MOCK_MODEL_ENABLED,
+  MOCK_MODEL_FAIL_WITH,
+  MOCK_MODEL_LATENCY_MS,
+  MOCK_MODEL_MISSING_INDEXES,
+  OPENAI_API_KEY,
+} from '@/services/config/config';
+import { createMockVisionProvider } from '@/services/mock/mockVisionModel';
+import { openai } from '@/services/openai/openai';
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import { ProviderV2 } from '@ai-sdk/provider';
+import { createProviderRegistry, LanguageModel, NoSuchModelError } from 'ai';
+import { z } from 'zod';
+
+/**
+ * Schema for the supported model provider ids.
+ */
+export const ModelProviderIdSchema = z.enum(['openai', 'anthropic', 'google', 'local', 'mock']);
+
+/**
+ * Model provider id type
+ */
+export type ModelProviderId = z.infer<typeof ModelProviderIdSchema>;
+
+/**
+ * Schema for a selectable model.
+ */
+export const ModelOptionSchema = z.object({
+  /** Registry id in `<provider>:<model>` form, e.g. "openai:gpt-4o-mini". */
+  id: z.string(),
+  /** The provider serving the model. */
+  provider: ModelProviderIdSchema,
+  /** Human-readable label shown in the model picker. */
+  label: z.string(),
+});
+
+/**
+ * Model option type
+ */
+export type ModelOption = z.infer<typeof ModelOptionSchema>;
+
+/**
+ * Vision-capable models offered for each hosted provider, plus the offline mock model.
+ * Models served by the local provider are read from configuration.
+ */
+const HOSTED_MODELS: ModelOption[] = [
+  { id: 'openai:gpt-4o-mini', provider: 'openai', label: 'OpenAI GPT-4o mini' },
+  { id: 'openai:gpt-4o', provider: 'openai', label: 'OpenAI GPT-4o' },
+  { id: 'openai:gpt-4.1-mini', provider: 'openai', label: 'OpenAI GPT-4.1 mini' },
+  {
+    id: 'anthropic:claude-3-5-haiku-latest',
+    provider: 'anthropic',
+    label: 'Anthropic Claude 3.5 Haiku',
+  },
+  { id: 'anthropic:claude-sonnet-4-0', provider: 'anthropic', label: 'Anthropic Claude Sonnet 4' },
+  { id: 'google:gemini-2.5-flash', provider: 'google', label: 'Google Gemini 2.5 Flash' },
+  { id: 'google:gemini-2.5-pro', provider: 'google', label: 'Google Gemini 2.5 Pro' },
+  { id: 'mock:vision', provider: 'mock', label: 'Mock vision (offline)' },
+];
+
+/**
+ * Factories for each provider. A factory returns undefined when the provider is not configured.
+ */
+const PROVIDER_FACTORIES: Record<ModelProviderId, () => ProviderV2 | undefined> = {
+  openai: () => (OPENAI_API_KEY ? openai : undefined),
+  anthropic: () => (ANTHROPIC_API_KEY ? createAnthropic({ apiKey: ANTHROPIC_API_KEY }) : undefined),
+  google: () =>
+    GOOGLE_GENERATIVE_AI_API_KEY
+      ? createGoogleGenerativeAI({ apiKey: GOOGLE_GENERATIVE_AI_API_KEY })
+      : undefined,
+  local: () =>
+    LOCAL_MODEL_BASE_URL
+      ? createOpenAICompatible({
+          name: 'local',
+          baseURL: LOCAL_MODEL_BASE_URL,
+          apiKey: LOCAL_MODEL_API_KEY,
+        })
+      : undefined,
+  mock: () =>
+    MOCK_MODEL_ENABLED
+      ? createMockVisionProvider({
+          latencyMs: MOCK_MODEL_LATENCY_MS,
+          failWith: MOCK_MODEL_FAIL_WITH || undefined,
+          missingIndexes: (MOCK_MODEL_MISSING_INDEXES ?? '')
+            .split(',')
+            .filter(index => index.trim())
+            .map(Number),
+        })
+      : undefined,
+};
+
+/**
+ * Creates every configured provider, skipping any that are unconfigured or fail to configure.
+ */
+const createConfiguredProviders = () => {
+  const providers: Partial<Record<ModelProviderId, ProviderV2>> = {};
+  for (const id of ModelProviderIdSchema.options) {
+    try {
+      const provider = PROVIDER_FACTORIES[id]();
+      if (provider) providers[id] = provider;
+    } catch (error: unknown) {
+      console.warn(`Model provider "${id}" failed to configure and was skipped.`, error);
+    }
+  }
+  return providers;
+};
+
+/**
+ * Providers that are configured in this environment.
+ */
+const configuredProviders = createConfiguredProviders();
+
+/**
+ * ai-sdk provider registry over the configured providers.
+ */
+const registry = createProviderRegistry(configuredProviders);
+
+/**
+ * Lists the models that can be selected in this environment.
+ * Only models whose provider is configured are returned.
+ *
+ * @returns The selectable models, hosted models first followed by local models
+ */
+export const getAvailableModels = (): ModelOption[] => {
+  const localModels: ModelOption[] = (LOCAL_MODEL_NAMES ?? '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean)
+    .map(name => ({ id: `local:${name}`, provider: 'local', label: `Local ${name}` }));
+  return [...HOSTED_MODELS, ...localModels].filter(
+    model => configuredProviders[model.provider] !== undefined
+  );
+};
+
+/**
+ * Resolves the default model id, falling back to the first available model
+ * when the configured default is unavailable.
+ *
+ * @returns The default model id, or undefined when no provider is configured
+ */
+export const getDefaultModelId = (): string | undefined => {
+  const models = getAvailableModels();
+  return models.find(model => model.id === DEFAULT_MODEL_ID)?.id ?? models[0]?.id;
+};
+
+/**
+ * Resolves a model id to a language model.
+ * Unknown or unavailable model ids fall back to the default model.
+ *
+ * @param modelId - The requested model id in `<provider>:<model>` form
+ * @returns The resolved model id and language model
+ * @throws NoSuchModelError when no model provider is configured or the model cannot be loaded
+ */
+export const resolveModel = (modelId?: string): { id: string; model: LanguageModel } => {
+  const available = getAvailableModels();
+  const id = available.some(model => model.id === modelId) ? modelId : getDefaultModelId();
+  if (!id) {
+    throw new NoSuchModelError({
+      modelId: modelId ?? DEFAULT_MODEL_ID,
+      modelType: 'languageModel',
+      message: 'No model provider is configured.',
+    });
+  }
+  return { id, model: registry.languageModel(id as `${ModelProviderId}:${string}`) };
+};
@@ -0,0 +1,649 @@
+import { analyzeImages, streamAnalyzeImages } from '../analyzeImages';
+
+// Mock the ai-sdk model calls
+jest.mock('ai', () => ({
+  ...jest.requireActual('ai'),
+  generateObject: jest.fn(),
+  streamObject: jest.fn(),
+}));
+
+// Send images to the model as uploaded, without caching
+jest.mock('@/services/config/config', () => ({
+  ...jest.requireActual('@/services/config/config'),
+  ANALYSIS_CACHE_ENABLED: false,
+  IMAGE_NORMALIZATION_ENABLED: false,
+  ANALYSIS_RETRY_DELAY_MS: 0,
+}));
+
+// Mock the model registry
+jest.mock('@/services/models/registry', () => ({
+  resolveModel: jest.fn(() => ({ id: 'openai:gpt-4o-mini', model: 'model' })),
+}));
+
+import { ANALYSIS_ERRORS } from '@/lib/errors';
+import { resolveModel } from '@/services/models/registry';
+import { APICallError, generateObject, NoSuchModelError, streamObject } from 'ai';
+
+/**
+ * Minimal data URL that passes image validation (PNG signature only).
+ */
+const PNG = 'data:image/png;base64,iVBORw0KGgo=';
+
+/**
+ * Token usage reported by every mocked model call.
+ */
+const USAGE = { inputTokens: 100, outputTokens: 20, totalTokens: 120 };
+
+/**
+ * Builds a streamObject mock result from a list of partial objects and a final object.
+ */
+const mockStream = (partials: unknown[], final: Promise<unknown>) => {
+  // Rejections are handled once the analysis awaits the final object
+  final.catch(() => undefined);
+  return {
+    partialObjectStream: (async function* () {
+      yield* partials;
+    })(),
+    object: final,
+    usage: Promise.resolve(USAGE),
+  };
+};
+
+/**
+ * Collects every item yielded by an async iterable, leaving out the preset and usage events.
+ */
+const collect = async <T extends object>(iterable: AsyncIterable<T>) => {
+  const items: T[] = [];
+  for await (const item of iterable) if (!('usage' in item || 'preset' in item)) items.push(item);
+  return items;
+};
+
+describe('streamAnalyzeImages', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('yields in-progress partial text followed by final results', async () => {
+    (streamObject as jest.Mock).mockReturnValue(
+      mockStream(
+        [
+          { results: [{ index: 0, text: 'A' }] },
+          { results: [{ index: 0, text: 'A cat' }, { index: 1 }] },
+          {
+            results: [
+              { index: 0, text: 'A cat' },
+              { index: 1, text: 'A dog' },
+            ],
+          },
+        ],
+        Promise.resolve({
+          results: [
+            { index: 0, text: 'A cat' },
+            { index: 1, text: 'A dog' },
+          ],
+        })
+      )
+    );
+
+    const items = await collect(streamAnalyzeImages({ question: 'Q', images: [PNG, PNG] }));
+
+    expect(items).toEqual([
+      { index: 0, ok: true, pending: true, text: 'A' },
+      { index: 0, ok: true, pending: true, text: 'A cat' },
+      { index: 1, ok: true, pending: true, text: 'A dog' },
+      { index: 0, ok: true, text: 'A cat' },
+      { index: 1, ok: true, text: 'A dog' },
+    ]);
+  });
+
+  it('reports the usage of every model call last', async () => {
+    (streamObject as jest.Mock).mockReturnValue(
+      mockStream([], Promise.resolve({ results: [{ index: 0, text: 'A cat' }] }))
+    );
+    (generateObject as jest.Mock).mockResolvedValue({
+      object: { results: [{ index: 0, text: 'A dog' }] },
+      usage: USAGE,
+    });
+
+    const items = [];
+    for await (const item of streamAnalyzeImages({ question: 'Q', images: [PNG, PNG] })) {
+      items.push(item);
+    }
+
+    expect(items.at(-1)).toEqual({
+      usage: expect.objectContaining({
+        model: 'openai:gpt-4o-mini',
+        inputTokens: 200,
+        outputTokens: 40,
+        totalTokens: 240,
+        estimatedCostUsd: expect.any(Number),
+      }),
+    });
+  });
+
+  it('re-requests only the images missing from the final object', async () => {
+    (streamObject as jest.Mock).mockReturnValue(
+      mockStream([], Promise.resolve({ results: [{ index: 0, text: 'A cat' }] }))
+    );
+    (generateObject as jest.Mock).mockResolvedValue({
+      object: { results: [{ index: 0, text: 'A dog' }] },
+    });
+
+    const items = await collect(streamAnalyzeImages({ question: 'Q', images: [PNG, PNG] }));
+
+    expect(items).toEqual([
+      { index: 0, ok: true, text: 'A cat' },
+      { index: 1, ok: true, text: 'A dog' },
+    ]);
+    const { messages } = (generateObject as jest.Mock).mock.calls[0][0];
+    expect(
+      messages[0].content.filter((part: { type: string }) => part.type === 'image')
+    ).toHaveLength(1);
+  });
+
+  it('yields an error for images still missing after the re-requests', async () => {
+    (streamObject as jest.Mock).mockReturnValue(
+      mockStream([], Promise.resolve({ results: [{ index: 0, text: 'A cat' }] }))
+    );
+    (generateObject as jest.Mock).mockResolvedValue({ object: { results: [] } });
+
+    const items = await collect(streamAnalyzeImages({ question: 'Q', images: [PNG, PNG] }));
+
+    expect(items).toEqual([
+      { index: 0, ok: true, text: 'A cat' },
+      {
+        index: 1,
+        ok: false,
+        code: 'model_refusal',
+        error: 'No response received for this image.',
+      },
+    ]);
+    expect(generateObject).toHaveBeenCalledTimes(2);
+  });
+
+  it('retries the stream after a transient provider error', async () => {
+    const overloaded = new APICallError({
+      message: 'Overloaded',
+      url: 'https://api.example.com',
+      requestBodyValues: {},
+      statusCode: 529,
+      isRetryable: true,
+    });
+    (streamObject as jest.Mock)
+      .mockReturnValueOnce(mockStream([], Promise.reject(overloaded)))
+      .mockReturnValueOnce(
+        mockStream([], Promise.resolve({ results: [{ index: 0, text: 'A cat' }] }))
+      );
+
+    const items = await collect(streamAnalyzeImages({ question: 'Q', images: [PNG] }));
+
+    expect(items).toEqual([{ index: 0, ok: true, text: 'A cat' }]);
+    expect(streamObject).toHaveBeenCalledTimes(2);
+  });
+
+  it('yields an error for every image when the provider fails with a permanent error', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    (streamObject as jest.Mock).mockReturnValue(
+      mockStream([{ results: [{ index: 0, text: 'A' }] }], Promise.reject(new Error('boom')))
+    );
+
+    const items = await collect(streamAnalyzeImages({ question: 'Q', images: [PNG, PNG] }));
+
+    expect(items.slice(-2)).toEqual([
+      { index: 0, ok: false, code: 'unknown', error: ANALYSIS_ERRORS.unknown.message },
+      { index: 1, ok: false, code: 'unknown', error: ANALYSIS_ERRORS.unknown.message },
+    ]);
+    expect(streamObject).toHaveBeenCalledTimes(1);
+  });
+
+  it('yields an error for every image when no model is available', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const unavailable = new NoSuchModelError({ modelId: 'm', modelType: 'languageModel' });
+    (resolveModel as jest.Mock).mockImplementation(() => {
+      throw unavailable;
+    });
+    const error = ANALYSIS_ERRORS.model_unavailable.message;
+    const expected = [
+      { index: 0, ok: false, code: 'model_unavailable', error },
+      { index: 1, ok: false, code: 'model_unavailable', error },
+    ];
+
+    const request = { question: 'Q', images: [PNG, PNG] };
+    expect(await collect(streamAnalyzeImages(request))).toEqual(expected);
+    expect(await analyzeImages(request)).toEqual({ results: expected });
+    expect(streamObject).not.toHaveBeenCalled();
+    (resolveModel as jest.Mock).mockImplementation(() => ({
+      id: 'openai:gpt-4o-mini',
+      model: 'model',
+    }));
+  });
+
+  it('rejects invalid images without sending them to the model', async () => {
+    (streamObject as jest.Mock).mockReturnValue(
+      mockStream(
+        [{ results: [{ index: 0, text: 'A cat' }] }],
+        Promise.resolve({ results: [{ index: 0, text: 'A cat' }] })
+      )
+    );
+
+    const items = await collect(
+      streamAnalyzeImages({ question: 'Q', images: ['data:text/plain;base64,AAAA', PNG] })
+    );
+
+    expect(items).toEqual([
+      {
+        index: 0,
+        ok: false,
+        code: 'unsupported_type',
+        error: 'Unsupported image type "text/plain". Use PNG, JPEG, GIF or WebP.',
+      },
+      { index: 1, ok: true, pending: true, text: 'A cat' },
+      { index: 1, ok: true, text: 'A cat' },
+    ]);
+    const { messages } = (streamObject as jest.Mock).mock.calls[0][0];
+    expect(messages[0].content.filter((part: { type: string }) => part.type === 'image')).toEqual([
+      { type: 'image', image: PNG },
+    ]);
+  });
+
+  it('skips the model when every image is invalid', async () => {
+    const items = await collect(streamAnalyzeImages({ question: 'Q', images: ['img'] }));
+
+    expect(items).toEqual([
+      {
+        index: 0,
+        ok: false,
+        code: 'invalid_data_url',
+        error: 'The image is not a valid base64 data URL.',
+      },
+    ]);
+    expect(streamObject).not.toHaveBeenCalled();
+  });
+});
+
+describe('streamAnalyzeImages follow-ups', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('answers a follow-up without images in a single result, with earlier turns as context', async () => {
+    (streamObject as jest.Mock).mockReturnValue(
+      mockStream([], Promise.resolve({ results: [{ index: 0, text: 'Two red cars' }] }))
+    );
+
+    const items = await collect(
+      streamAnalyzeImages({
+        question: 'Now count only the red cars',
+        images: [],
+        history: [
+          { role: 'user', question: 'How many cars?', images: [PNG] },
+          { role: 'assistant', results: [{ index: 0, ok: true, text: 'Five cars' }] },
+        ],
+      })
+    );
+
+    expect(items).toEqual([{ index: 0, ok: true, text: 'Two red cars' }]);
+    const { messages } = (streamObject as jest.Mock).mock.calls[0][0];
+    expect(messages.map((m: { role: string }) => m.role)).toEqual(['user', 'assistant', 'user']);
+    expect(messages[0].content).toContainEqual({ type: 'image', image: PNG });
+    expect(messages[1].content).toBe('Image 1.1: Five cars');
+    expect(messages[2].content[0].text).toContain('follow-up question');
+  });
+});
+
+describe('streamAnalyzeImages aggregate modes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('yields the aggregate answer with citations mapped to request positions', async () => {
+    (streamObject as jest.Mock).mockReturnValue(
+      mockStream(
+        [{ summary: '[Image 2] is' }, { summary: '[Image 2] is newer than [Image 1]' }],
+        Promise.resolve({
+          summary: '[Image 2] is newer than [Image 1]',
+          results: [{ index: 1, text: 'Has a 2024 badge' }],
+        })
+      )
+    );
+
+    const items = await collect(
+      streamAnalyzeImages({
+        question: 'Which is newest?',
+        images: ['img', PNG, PNG],
+        mode: 'comparative',
+      })
+    );
+
+    expect(items).toEqual([
+      expect.objectContaining({ index: 0, ok: false }),
+      { summary: { text: '[Image 3] is', citations: [2], pending: true } },
+      { summary: { text: '[Image 3] is newer than [Image 2]', citations: [2, 1], pending: true } },
+      { index: 1, ok: true, text: '' },
+      { index: 2, ok: true, text: 'Has a 2024 badge' },
+      { summary: { text: '[Image 3] is newer than [Image 2]', citations: [2, 1] } },
+    ]);
+    const { messages, schema } = (streamObject as jest.Mock).mock.calls[0][0];
+    expect(Object.keys(schema.jsonSchema.properties)).toContain('summary');
+    expect(messages[0].content[0].text).toContain('Compare the images');
+  });
+
+  it('tells the model the timestamps of the video frames it answers about together', async () => {
+    (streamObject as jest.Mock).mockReturnValue(
+      mockStream([], Promise.resolve({ summary: 'A door opens at 1:10', results: [] }))
+    );
+    await collect(
+      streamAnalyzeImages({
+        question: 'What happens?',
+        images: ['img', PNG, PNG],
+        mode: 'combined',
+        timestamps: [0, 5, 70],
+      })
+    );
+
+    // The rejected first frame is left out
+    const { messages } = (streamObject as jest.Mock).mock.calls[0][0];
+    expect(messages[0].content[0].text).toContain(
+      'The images are frames of one video, in time order, taken at 0:05, 1:10.'
+    );
+  });
+
+  it('answers video frames one by one without their timestamps', async () => {
+    (streamObject as jest.Mock).mockReturnValue(
+      mockStream([], Promise.resolve({ results: [{ index: 0, text: 'A door' }] }))
+    );
+    await collect(
+      streamAnalyzeImages({ question: 'What is shown?', images: [PNG], timestamps: [5] })
+    );
+
+    const { messages } = (streamObject as jest.Mock).mock.calls[0][0];
+    expect(messages[0].content[0].text).not.toContain('frames of one video');
+  });
+});
+
+describe('streamAnalyzeImages grounding', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('asks for regions and clips them to the image bounds', async () => {
+    (streamObject as jest.Mock).mockReturnValue(
+      mockStream(
+        [],
+        Promise.resolve({
+          results: [
+            {
+              index: 0,
+              text: '2 people',
+              regions: [
+                { label: 'person', box: { x: 0.1, y: 0.2, width: 0.3, height: 0.5 } },
+                { label: 'person', box: { x: 0.8, y: 0.6, width: 0.4, height: 0.6 } },
+                { label: 'empty', box: { x: 1, y: 0, width: 0.2, height: 0.2 } },
+              ],
+            },
+          ],
+        })
+      )
+    );
+
+    const items = await collect(
+      streamAnalyzeImages({ question: 'How many people?', images: [PNG], grounding: true })
+    );
+
+    expect(items).toEqual([
+      {
+        index: 0,
+        ok: true,
+        text: '2 people',
+        regions: [
+          { label: 'person', box: { x: 0.1, y: 0.2, width: 0.3, height: 0.5 } },
+          { label: 'person', box: { x: 0.8, y: 0.6, width: expect.closeTo(0.2), height: 0.4 } },
+        ],
+      },
+    ]);
+    const { messages, schema } = (streamObject as jest.Mock).mock.calls[0][0];
+    expect(schema.jsonSchema.properties.results.items.properties).toHaveProperty('regions');
+    expect(messages[0].content[0].text).toContain('"regions"');
+  });
+
+  it('does not ask for regions in follow-ups without images', async () => {
+    (streamObject as jest.Mock).mockReturnValue(
+      mockStream([], Promise.resolve({ results: [{ index: 0, text: 'Yes' }] }))
+    );
+
+    await collect(
+      streamAnalyzeImages({
+        question: 'Is it red?',
+        images: [],
+        grounding: true,
+        history: [{ role: 'user', question: 'What is this?', images: [PNG] }],
+      })
+    );
+
+    const { schema } = (streamObject as jest.Mock).mock.calls[0][0];
+    expect(schema.jsonSchema.properties.results.items.properties).not.toHaveProperty('regions');
+  });
+});
+
+describe('streamAnalyzeImages extraction', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('validates the extracted data of each image against the template schema', async () => {
+    (streamObject as jest.Mock).mockReturnValue(
+      mockStream(
+        [{ results: [{ index: 0, data: { merchant: 'Cafe' } }] }],
+        Promise.resolve({
+          results: [
+            {
+              index: 0,
+              data: { merchant: 'Cafe', date: '2024-01-02', total: 4.5, currency: 'EUR' },
+            },
+            { index: 1, data: { merchant: 'Shop', total: 'ten' } },
+          ],
+        })
+      )
+    );
+
+    const items = await collect(
+      streamAnalyzeImages({
+        question: 'Extract the receipt',
+        images: [PNG, PNG],
+        extraction: { templateId: 'receipt' },
+      })
+    );
+
+    expect(items).toEqual([
+      { index: 0, ok: true, pending: true, text: '{"merchant":"Cafe"}' },
+      expect.objectContaining({
+        index: 0,
+        ok: true,
+        data: { merchant: 'Cafe', date: '2024-01-02', total: 4.5, currency: 'EUR' },
+      }),
+      expect.objectContaining({
+        index: 1,
+        ok: true,
+        data: { merchant: 'Shop', total: 'ten' },
+        validationErrors: [
+          { path: '', message: "must have required property 'date'" },
+          { path: '', message: "must have required property 'currency'" },
+          { path: '/total', message: 'must be number,null' },
+        ],
+      }),
+    ]);
+    expect(items[1]).not.toHaveProperty('validationErrors');
+    const { messages, schema } = (streamObject as jest.Mock).mock.calls[0][0];
+    expect(schema.jsonSchema.properties.results.items.properties.data.properties).toHaveProperty(
+      'merchant'
+    );
+    expect(messages[0].content[0].text).toContain('extract the requested fields');
+  });
+
+  it('yields an error for every image when the extraction schema cannot be compiled', async () => {
+    const items = await collect(
+      streamAnalyzeImages({
+        question: 'Extract',
+        images: [PNG],
+        extraction: { schema: { type: 'object', properties: { a: { type: 'nope' } } } },
+      })
+    );
+
+    expect(items).toEqual([
+      {
+        index: 0,
+        ok: false,
+        error: expect.stringMatching(/^Invalid extraction schema: /),
+      },
+    ]);
+    expect(streamObject).not.toHaveBeenCalled();
+  });
+});
+
+describe('streamAnalyzeImages alt-text task', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('streams the alt text and returns the accessibility text of each image', async () => {
+    (streamObject as jest.Mock).mockReturnValue(
+      mockStream(
+        [{ results: [{ index: 0, alt: 'A red' }] }],
+        Promise.resolve({
+          results: [
+            { index: 0, alt: 'A red bicycle', longDescription: '', decorative: false },
+            { index: 1, alt: '', longDescription: '', decorative: true },
+          ],
+        })
+      )
+    );
+
+    const items = [];
+    for await (const item of streamAnalyzeImages({
+      question: 'Product page',
+      images: [PNG, PNG],
+      mode: 'comparative',
+      grounding: true,
+      task: 'alt-text',
+    })) {
+      items.push(item);
+    }
+
+    expect(items).toEqual([
+      { preset: { id: 'alt-text', version: 1 } },
+      { index: 0, ok: true, pending: true, text: 'A red' },
+      {
+        index: 0,
+        ok: true,
+        text: 'A red bicycle',
+        altText: { alt: 'A red bicycle', longDescription: '', decorative: false },
+      },
+      {
+        index: 1,
+        ok: true,
+        text: '',
+        altText: { alt: '', longDescription: '', decorative: true },
+      },
+      { usage: expect.objectContaining({ model: 'openai:gpt-4o-mini' }) },
+    ]);
+    const { messages, schema } = (streamObject as jest.Mock).mock.calls[0][0];
+    const item = schema.jsonSchema.properties.results.items;
+    expect(Object.keys(item.properties)).toEqual(['alt', 'longDescription', 'decorative', 'index']);
+    expect(item.properties.alt.maxLength).toBe(150);
+    expect(messages[0].content[0].text).toContain('Write accessibility text for each image');
+    expect(messages[0].content[0].text).not.toContain('Keep each answer under');
+  });
+
+  it('answers follow-ups without images', async () => {
+    (streamObject as jest.Mock).mockReturnValue(
+      mockStream([], Promise.resolve({ results: [{ index: 0, text: 'It is red.' }] }))
+    );
+
+    const items = await collect(
+      streamAnalyzeImages({
+        question: 'What colour is it?',
+        images: [],
+        task: 'alt-text',
+        history: [{ role: 'user', question: 'Q', images: [PNG] }],
+      })
+    );
+
+    expect(items).toEqual([{ index: 0, ok: true, text: 'It is red.' }]);
+  });
+});
+
+describe('streamAnalyzeImages OCR task', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('streams the complete blocks transcribed so far as plain text', async () => {
+    const blocks = [
+      { type: 'paragraph', lines: ['Dear Sam,', 'thanks for the long letter.'] },
+      { type: 'table', rows: [['Mon', '9:00']] },
+    ];
+    (streamObject as jest.Mock).mockReturnValue(
+      mockStream(
+        [
+          { results: [{ index: 0, blocks: [{ type: 'paragraph', lines: ['Dear Sam,'] }] }] },
+          { results: [{ index: 0, blocks: [blocks[0], { type: 'table', rows: [[undefined]] }] }] },
+        ],
+        Promise.resolve({ results: [{ index: 0, blocks }] })
+      )
+    );
+
+    const items = await collect(
+      streamAnalyzeImages({ question: 'Transcribe this', images: [PNG], task: 'ocr' })
+    );
+
+    expect(items).toEqual([
+      { index: 0, ok: true, pending: true, text: 'Dear Sam,' },
+      { index: 0, ok: true, pending: true, text: 'Dear Sam,\nthanks for the long letter.' },
+      {
+        index: 0,
+        ok: true,
+        text: 'Dear Sam,\nthanks for the long letter.\n\nMon\t9:00',
+        transcription: { blocks },
+      },
+    ]);
+    const { system, messages } = (streamObject as jest.Mock).mock.calls[0][0];
+    expect(system).toMatch(/transcribe/);
+    expect(messages[0].content[0].text).toContain('Transcribe the full text however long it is');
+  });
+});
+
+describe('streamAnalyzeImages prompt presets', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("sends the preset's system prompt and settings and reports its version first", async () => {
+    (streamObject as jest.Mock).mockReturnValue(
+      mockStream([], Promise.resolve({ results: [{ index: 0, text: 'A cat sleeping.' }] }))
+    );
+
+    const items = [];
+    for await (const item of streamAnalyzeImages({
+      question: 'Q',
+      images: [PNG],
+      presetId: 'alt-text',
+    })) {
+      items.push(item);
+    }
+
+    expect(items[0]).toEqual({ preset: { id: 'alt-text', version: 1 } });
+    const { system, temperature, messages } = (streamObject as jest.Mock).mock.calls[0][0];
+    expect(system).toMatch(/alt text/);
+    expect(temperature).toBe(0.2);
+    expect(messages[0].content[0].text).toContain('Keep each answer under 25 words.');
+  });
+
+  it('yields an error for every image when the preset is unknown', async () => {
+    const items = await collect(
+      streamAnalyzeImages({ question: 'Q', images: [PNG], presetId: 'poetry' })
+    );
+
+    expect(items).toEqual([{ index: 0, ok: false, error: 'Unknown prompt preset "poetry".' }]);
+    expect(streamObject).not.toHaveBeenCalled();
+  });
+});
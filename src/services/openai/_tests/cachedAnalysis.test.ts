@@ -0,0 +1,115 @@
+import { analyzeImages, streamAnalyzeImages } from '../analyzeImages';
+
+// Mock the ai-sdk model calls
+jest.mock('ai', () => ({
+  ...jest.requireActual('ai'),
+  generateObject: jest.fn(),
+  streamObject: jest.fn(),
+}));
+
+// Send images to the model as uploaded, caching answers in memory
+jest.mock('@/services/config/config', () => ({
+  ...jest.requireActual('@/services/config/config'),
+  IMAGE_NORMALIZATION_ENABLED: false,
+  ANALYSIS_CACHE_ENABLED: true,
+  ANALYSIS_CACHE_STORE: 'memory',
+}));
+
+// Mock the model registry
+jest.mock('@/services/models/registry', () => ({
+  resolveModel: jest.fn((id?: string) => ({ id: id ?? 'openai:gpt-4o-mini', model: 'model' })),
+}));
+
+import { generateObject, streamObject } from 'ai';
+
+/**
+ * Minimal data URLs that pass image validation (PNG signature, then different bytes).
+ */
+const CAT = 'data:image/png;base64,iVBORw0KGgoAAAAA';
+const DOG = 'data:image/png;base64,iVBORw0KGgoBBBBB';
+const BIRD = 'data:image/png;base64,iVBORw0KGgoCCCCC';
+
+/**
+ * Returns the number of images sent in a generateObject call.
+ */
+const imagesSent = (call: number) =>
+  (generateObject as jest.Mock).mock.calls[call][0].messages[0].content.filter(
+    (part: { type: string }) => part.type === 'image'
+  ).length;
+
+describe('cached analyses', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('sends only the images that are not cached', async () => {
+    (generateObject as jest.Mock)
+      .mockResolvedValueOnce({
+        object: {
+          results: [
+            { index: 0, text: 'A cat' },
+            { index: 1, text: 'A dog' },
+          ],
+        },
+      })
+      .mockResolvedValueOnce({ object: { results: [{ index: 0, text: 'A bird' }] } });
+
+    await analyzeImages({ question: 'What is it?', images: [CAT, DOG] });
+    const response = await analyzeImages({ question: ' what is IT? ', images: [DOG, BIRD] });
+
+    expect(response.results).toEqual([
+      { index: 0, ok: true, text: 'A dog', cached: true },
+      { index: 1, ok: true, text: 'A bird' },
+    ]);
+    expect(imagesSent(1)).toBe(1);
+  });
+
+  it('answers fully cached requests without calling the model', async () => {
+    (generateObject as jest.Mock).mockResolvedValueOnce({
+      object: { results: [{ index: 0, text: 'Two cats' }] },
+    });
+    await analyzeImages({ question: 'How many cats?', images: [CAT] });
+
+    const items = [];
+    for await (const item of streamAnalyzeImages({ question: 'How many cats?', images: [CAT] })) {
+      items.push(item);
+    }
+
+    expect(items).toEqual([
+      { preset: { id: 'succinct', version: 1 } },
+      { index: 0, ok: true, text: 'Two cats', cached: true },
+    ]);
+    expect(generateObject).toHaveBeenCalledTimes(1);
+    expect(streamObject).not.toHaveBeenCalled();
+  });
+
+  it('asks the model again when bypassing the cache, for another model or with history', async () => {
+    (generateObject as jest.Mock).mockResolvedValue({
+      object: { results: [{ index: 0, text: 'A cat' }] },
+    });
+    const request = { question: 'Which animal?', images: [CAT] };
+    await analyzeImages(request);
+
+    await analyzeImages({ ...request, bypassCache: true });
+    await analyzeImages({ ...request, model: 'openai:gpt-4o' });
+    const response = await analyzeImages({
+      ...request,
+      history: [{ role: 'user', question: 'Hi', images: [] }],
+    });
+
+    expect(generateObject).toHaveBeenCalledTimes(4);
+    expect(response.results[0]).not.toHaveProperty('cached');
+  });
+
+  it('does not cache failed answers', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    (generateObject as jest.Mock)
+      .mockRejectedValueOnce(new Error('boom'))
+      .mockResolvedValueOnce({ object: { results: [{ index: 0, text: 'A dog' }] } });
+
+    await analyzeImages({ question: 'Is it a dog?', images: [DOG] });
+    const response = await analyzeImages({ question: 'Is it a dog?', images: [DOG] });
+
+    expect(response.results).toEqual([{ index: 0, ok: true, text: 'A dog' }]);
+  });
+});
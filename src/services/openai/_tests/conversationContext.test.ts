@@ -0,0 +1,74 @@
+import { buildConversationContext, estimateTextTokens } from '../conversationContext';
+
+// Send images to the model as uploaded
+jest.mock('@/services/config/config', () => ({
+  ...jest.requireActual('@/services/config/config'),
+  IMAGE_NORMALIZATION_ENABLED: false,
+}));
+
+/**
+ * Minimal data URL that passes image validation (PNG signature only).
+ * Its dimensions cannot be read, so it is estimated at 765 tokens.
+ */
+const PNG = 'data:image/png;base64,iVBORw0KGgo=';
+
+const history = [
+  { role: 'user' as const, question: 'What animals are these?', images: [PNG, PNG] },
+  {
+    role: 'assistant' as const,
+    results: [
+      { index: 0, ok: true, text: 'A cat' },
+      { index: 1, ok: false },
+    ],
+  },
+  { role: 'user' as const, question: 'Which is bigger?', images: [] },
+  { role: 'assistant' as const, results: [{ index: 0, ok: true, text: 'The cat' }] },
+];
+
+describe('buildConversationContext', () => {
+  it('replays earlier turns with labelled images and answers', async () => {
+    const messages = await buildConversationContext(history, 10_000);
+
+    expect(messages).toEqual([
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'What animals are these?' },
+          { type: 'text', text: 'Image 1.1:' },
+          { type: 'image', image: PNG },
+          { type: 'text', text: 'Image 1.2:' },
+          { type: 'image', image: PNG },
+        ],
+      },
+      { role: 'assistant', content: 'Image 1.1: A cat\nImage 1.2: (no answer)' },
+      { role: 'user', content: [{ type: 'text', text: 'Which is bigger?' }] },
+      { role: 'assistant', content: 'The cat' },
+    ]);
+  });
+
+  it('references images by label when they exceed the budget', async () => {
+    const messages = await buildConversationContext(history, 1000);
+
+    expect(messages[0].content).toEqual([
+      { type: 'text', text: 'What animals are these?' },
+      { type: 'text', text: 'Image 1.1:' },
+      { type: 'image', image: PNG },
+      { type: 'text', text: 'Image 1.2: (not shown; see the earlier answer)' },
+    ]);
+  });
+
+  it('drops the oldest turns that do not fit the budget', async () => {
+    const latestTurnTokens = estimateTextTokens('Which is bigger?' + 'The cat');
+
+    const messages = await buildConversationContext(history, latestTurnTokens);
+
+    expect(messages).toEqual([
+      { role: 'user', content: [{ type: 'text', text: 'Which is bigger?' }] },
+      { role: 'assistant', content: 'The cat' },
+    ]);
+  });
+
+  it('returns no messages without history', async () => {
+    expect(await buildConversationContext([])).toEqual([]);
+  });
+});
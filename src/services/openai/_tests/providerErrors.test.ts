@@ -0,0 +1,66 @@
+import { APICallError, LoadAPIKeyError, NoObjectGeneratedError, NoSuchModelError } from 'ai';
+import { classifyProviderError } from '../providerErrors';
+
+/**
+ * Builds a provider error with the given status code and response body.
+ */
+const apiError = (statusCode: number, responseBody = '', message = 'Bad request') =>
+  new APICallError({
+    message,
+    url: 'https://api.example.com',
+    requestBodyValues: {},
+    statusCode,
+    responseBody,
+  });
+
+/**
+ * Builds the error thrown when the model's output does not match the schema.
+ */
+const noObjectError = (finishReason: 'stop' | 'content-filter') =>
+  new NoObjectGeneratedError({
+    response: { id: 'r', timestamp: new Date(0), modelId: 'm' },
+    usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
+    finishReason,
+  });
+
+describe('classifyProviderError', () => {
+  it.each([
+    [401, 'auth'],
+    [403, 'auth'],
+    [408, 'timeout'],
+    [413, 'too_large'],
+    [415, 'unsupported_format'],
+    [429, 'rate_limited'],
+    [500, 'unknown'],
+  ])('maps status %i to %s', (status, code) => {
+    expect(classifyProviderError(apiError(status))).toBe(code);
+  });
+
+  it('reads the reason for a bad request from the provider response', () => {
+    expect(
+      classifyProviderError(apiError(400, '{"error":{"code":"content_policy_violation"}}'))
+    ).toBe('content_policy');
+    expect(
+      classifyProviderError(apiError(400, '', "This model's maximum context length is 128000"))
+    ).toBe('too_large');
+    expect(classifyProviderError(apiError(400, '', 'Invalid image format: image/bmp'))).toBe(
+      'unsupported_format'
+    );
+    expect(classifyProviderError(apiError(400, '', 'Missing field'))).toBe('unknown');
+  });
+
+  it('maps timeouts, missing keys and unusable output', () => {
+    expect(classifyProviderError(new DOMException('Aborted', 'TimeoutError'))).toBe('timeout');
+    expect(classifyProviderError(new LoadAPIKeyError({ message: 'No key' }))).toBe('auth');
+    expect(classifyProviderError(noObjectError('stop'))).toBe('model_refusal');
+    expect(classifyProviderError(noObjectError('content-filter'))).toBe('content_policy');
+    expect(
+      classifyProviderError(new NoSuchModelError({ modelId: 'm', modelType: 'languageModel' }))
+    ).toBe('model_unavailable');
+  });
+
+  it('maps anything else to unknown', () => {
+    expect(classifyProviderError(new Error('boom'))).toBe('unknown');
+    expect(classifyProviderError('boom')).toBe('unknown');
+  });
+});
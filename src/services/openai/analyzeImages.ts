@@ -1,109 +1,673 @@
-import { isErrorWithMessage } from '@/lib/errors';
-import { openai } from '@/services/openai/openai';
-import { generateObject } from 'ai';
+import { ANALYSIS_ERRORS } from '@/lib/errors';
+import { backoffDelay, RetryOptions, sleep, withRetry } from '@/lib/retry';
+import { transcriptionToText } from '@/lib/transcription';
+import { formatTimestamp } from '@/lib/videoFrames';
+import {
+  analysisCacheKey,
+  cacheResults,
+  readCachedResults,
+} from '@/services/analysisCache/analysisCache';
+import {
+  ANALYSIS_MAX_RETRIES,
+  ANALYSIS_RETRY_DELAY_MS,
+  ANALYSIS_TIMEOUT_MS,
+} from '@/services/config/config';
+import {
+  ResolvedExtraction,
+  resolveExtraction,
+  validateExtractedData,
+} from '@/services/extraction/validateExtraction';
+import { resolveModel } from '@/services/models/registry';
+import { buildConversationContext } from '@/services/openai/conversationContext';
+import { AnalysisTarget, byIndex, prepareImages } from '@/services/openai/prepareImages';
+import { classifyProviderError, isTimeoutError } from '@/services/openai/providerErrors';
+import {
+  AIAltTextResponseSchema,
+  AIImageAnalysisGroundedResponseItemSchema,
+  AIImageAnalysisResponseSchema,
+  AIImageAnalysisSummaryResponseSchema,
+  AITranscriptionResponseSchema,
+  AnalysisMode,
+  AnalysisSummary,
+  AnalysisTask,
+  GroundingRegion,
+  ImageAnalysisRequest,
+  ImageAnalysisResponse,
+  ImageAnalysisResponseItem,
+  ImageAnalysisStreamEvent,
+  MAX_ALT_TEXT_LENGTH,
+  MAX_LONG_DESCRIPTION_LENGTH,
+  TranscriptionBlock,
+  TranscriptionBlockSchema,
+} from '@/services/openai/schemas';
+import { resolvePromptPreset } from '@/services/prompts/presets';
+import { PromptPreset } from '@/services/prompts/schemas';
+import { createUsageMeter, UsageMeter } from '@/services/usage/usageMeter';
+import {
+  APICallError,
+  generateObject,
+  jsonSchema,
+  LanguageModel,
+  ModelMessage,
+  NoObjectGeneratedError,
+  Schema,
+  streamObject,
+  zodSchema,
+} from 'ai';
 import { z } from 'zod';
 
 /**
- * Schema for a single AI image analysis result.
- * Contains the index of the analyzed image and the analysis text.
+ * Model response shared by every analysis mode and task: per-image answers (`text`), extracted
+ * fields (`data`), accessibility text (`alt`, `longDescription` and `decorative`) or transcribed
+ * text (`blocks`), plus the aggregate answer in the comparative and combined modes.
  */
-const AIImageAnalysisResponseItemSchema = z.object({
-  /** The index of the image in the original array (0-based) */
-  index: z.number(),
-  /** The analysis text generated for the image */
-  text: z.string(),
-});
+type AnalysisOutput = {
+  /** Per-image results, indexed by position among the images sent to the model. */
+  results: {
+    index: number;
+    text?: string;
+    data?: unknown;
+    regions?: GroundingRegion[];
+    alt?: string;
+    longDescription?: string;
+    decorative?: boolean;
+    blocks?: TranscriptionBlock[];
+  }[];
+  /** The aggregate answer citing images as "[Image N]". */
+  summary?: string;
+};
 
 /**
- * Schema for the complete set of AI image analysis results.
- * Contains an array of individual image analysis results.
+ * Version of the analysis instructions, part of every cache key along with the preset version.
+ * Bump it whenever the instructions change, so answers to the old prompts are not reused.
  */
-const AIImageAnalysisResponseSchema = z.object({
-  /** Array of image analyses */
-  results: z.array(AIImageAnalysisResponseItemSchema),
-});
+const PROMPT_VERSION = '2';
 
 /**
- * Schema for validating image analysis request data.
+ * Instructions for each analysis mode, given the number of images provided.
  */
-export const ImageAnalysisRequestSchema = z.object({
-  /** The natural-language question guiding the analysis. Must be a non-empty string. */
-  question: z.string().min(1, 'Please provide a question.'),
-  /** Array of base64 data URLs for up to 4 images to analyze. Must include at least 1 image. */
-  images: z
-    .array(z.string())
-    .min(1, 'Please upload at least one image.')
-    .max(4, 'You can upload up to 4 images.'),
-});
+const MODE_INSTRUCTIONS: Record<AnalysisMode, (count: number) => string> = {
+  'per-image': count =>
+    `I'm providing you with ${count} image(s). Please analyze each image and answer for each one. If counting or listing, be specific.`,
+  comparative: count =>
+    `I'm providing you with ${count} image(s), numbered from 1 in the order given. Compare the images to answer the question in a "summary", citing each image you refer to as "[Image N]". If counting or listing, be specific.`,
+  combined: count =>
+    `I'm providing you with ${count} image(s), numbered from 1 in the order given. Treat them together as one set (for example views or pages of the same subject) and answer the question in a "summary" that uses all of them, citing each image you refer to as "[Image N]". If counting or listing, be specific.`,
+};
 
 /**
- * Image analysis request type
+ * Instructions for comparing or combining frames of one video, given their timestamps.
  */
-export type ImageAnalysisRequest = z.infer<typeof ImageAnalysisRequestSchema>;
+const VIDEO_FRAME_INSTRUCTIONS = (timestamps: number[]) =>
+  `The images are frames of one video, in time order, taken at ${timestamps.map(formatTimestamp).join(', ')}. Describe what happens over time and mention the timestamps of the moments you refer to.`;
 
 /**
- * Schema for validating a successful image analysis response.
+ * Instructions for returning the regions each answer refers to, in grounding requests.
  */
-const ImageAnalysisSuccessSchema = AIImageAnalysisResponseItemSchema.extend({
-  /** Discriminator flag for a successful analysis result. */
-  ok: z.literal(true),
-});
+const GROUNDING_INSTRUCTIONS =
+  'Also give each result "regions": a bounding box for every object your text refers to (e.g. each counted item), each with a short "label" and a "box" with "x", "y", "width" and "height" as fractions (0 to 1) of the image size, measured from its top-left corner.';
 
 /**
- * Schema for validating an error image analysis response.
+ * Instructions for writing the accessibility text of each image, given the number of images.
  */
-const ImageAnalysisErrorSchema = z.object({
-  /** 0-based index of the image in the request payload. */
-  index: z.number(),
-  /** Discriminator flag for an error result. */
-  ok: z.literal(false),
-  /** Human-readable error message explaining why analysis failed. */
-  error: z.string(),
-});
+const ALT_TEXT_INSTRUCTIONS = (count: number) =>
+  `I'm providing you with ${count} image(s). Write accessibility text for each image following WCAG, using the question above as context for where the image is used. "alt" is concise alt text of at most ${MAX_ALT_TEXT_LENGTH} characters conveying the content and purpose of the image, without starting with "Image of"; leave it empty for decorative images. "longDescription" describes in at most ${MAX_LONG_DESCRIPTION_LENGTH} characters the details the alt text leaves out, such as the data of a chart or the text of a document; leave it empty when the alt text suffices. "decorative" is true only for images that add no information, such as backgrounds and ornaments.`;
+
+/**
+ * Instructions for transcribing the text of each image, given the number of images.
+ */
+const OCR_INSTRUCTIONS = (count: number) =>
+  `I'm providing you with ${count} image(s). Transcribe all the text in each image verbatim as "blocks" in reading order: a "paragraph" block with the "lines" of each paragraph or heading, keeping its line breaks, and a "table" block with the "rows" of cells of each table, top to bottom and left to right. Transcribe the full text however long it is; do not summarize, translate or correct it, write [illegible] for text that cannot be read and return no blocks for an image without text.`;
+
+/**
+ * Options shaping the analysis instructions.
+ */
+type AnalysisPromptOptions = {
+  /** How the images are analyzed. */
+  mode?: AnalysisMode;
+  /** What the model produces for each image. */
+  task?: AnalysisTask;
+  /** Whether to extract structured fields instead of answering in text. */
+  extracting?: boolean;
+  /** Whether to ask for the labelled regions each answer refers to. */
+  grounding?: boolean;
+  /** Max words per answer, from the prompt preset. */
+  maxWords?: number;
+  /** Seconds from the start of the video of each image, when the images are video frames. */
+  timestamps?: number[];
+};
+
+/**
+ * Builds the model messages for analyzing images against a question.
+ *
+ * @param question - The question or prompt to guide the image analysis
+ * @param images - Array of base64-encoded image strings to be analyzed; empty for a follow-up
+ * question about images earlier in the conversation
+ * @param context - Earlier turns of the conversation, replayed before the question
+ * @param options - The analysis mode and task, whether to extract fields or ask for regions, the
+ * preset's word limit and the timestamps of video frames
+ * @returns The context messages followed by a user message with the instructions and every image
+ */
+const buildAnalysisMessages = (
+  question: string,
+  images: string[],
+  context: ModelMessage[] = [],
+  {
+    mode = 'per-image',
+    task = 'answer',
+    extracting = false,
+    grounding = false,
+    maxWords,
+    timestamps,
+  }: AnalysisPromptOptions = {}
+): ModelMessage[] => {
+  const contextNote = context.length
+    ? ' Earlier turns of this conversation are included above; their images are labelled "Image <turn>.<n>".'
+    : '';
+  let instructions: string;
+  if (extracting) {
+    instructions = images.length
+      ? `I'm providing you with ${images.length} image(s). Please extract the requested fields from each image, using null for fields that are not visible.${contextNote} Return the results as an array where each result has an "index" (starting from 0) and "data" with the extracted fields.`
+      : `This is a follow-up request about the images earlier in this conversation. Extract the requested fields using the conversation so far, using null for fields that are not visible.${contextNote} Return the results as an array with a single result that has "index" 0 and "data" with the extracted fields.`;
+  } else if (task === 'alt-text') {
+    instructions = `${ALT_TEXT_INSTRUCTIONS(images.length)}${contextNote} Return the results as an array where each result has an "index" (starting from 0), "alt", "longDescription" and "decorative".`;
+  } else if (task === 'ocr') {
+    instructions = `${OCR_INSTRUCTIONS(images.length)}${contextNote} Return the results as an array where each result has an "index" (starting from 0) and "blocks".`;
+  } else {
+    const format =
+      mode === 'per-image'
+        ? 'Return the results as an array where each result has an "index" (starting from 0) and "text" with your analysis.'
+        : 'Return the "summary" and a "results" array of short per-image notes where each note has an "index" (starting from 0) and "text"; leave out images that need no note.';
+    // Only aggregate answers look at frames together, so per-image answers stay cacheable
+    const frames =
+      mode !== 'per-image' && timestamps ? ` ${VIDEO_FRAME_INSTRUCTIONS(timestamps)}` : '';
+    instructions = images.length
+      ? `${MODE_INSTRUCTIONS[mode](images.length)}${frames}${contextNote} ${format}${grounding ? ` ${GROUNDING_INSTRUCTIONS}` : ''}`
+      : `This is a follow-up question about the images earlier in this conversation. Answer it using the conversation so far. If counting or listing, be specific.${contextNote} Return the results as an array with a single result that has "index" 0 and "text" with your answer.`;
+  }
+  if (maxWords && !extracting && task === 'answer')
+    instructions += ` Keep each answer under ${maxWords} words.`;
+  return [
+    ...context,
+    {
+      role: 'user',
+      content: [
+        {
+          type: 'text',
+          text: `${question}\n\n${instructions}`,
+        },
+        ...images.map(image => ({
+          type: 'image' as const,
+          image,
+        })),
+      ],
+    },
+  ];
+};
+
+/**
+ * Prompt preset used by each task other than answering when the request names none.
+ */
+const TASK_PRESET_IDS: Partial<Record<AnalysisTask, string>> = {
+  'alt-text': 'alt-text',
+  ocr: 'ocr',
+};
+
+/**
+ * Prepares an analysis request: validates and normalizes the images, resolves the extraction
+ * schema and the prompt preset, builds the conversation context and determines what the model
+ * answers for.
+ *
+ * @param request - The analysis request
+ * @returns The rejected images, the targets the model answers for (the accepted images, or
+ * a single target for a follow-up question without images), the effective mode and task, the resolved
+ * extraction and preset (or why either could not be resolved), whether regions are requested,
+ * a builder of the model messages for some or all of the targets and a builder of their cache
+ * keys
+ */
+const prepareAnalysis = async ({
+  question,
+  images,
+  history = [],
+  mode = 'per-image',
+  task: requestedTask = 'answer',
+  extraction: extractionRequest,
+  grounding: groundingRequested = false,
+  presetId,
+  timestamps,
+}: ImageAnalysisRequest) => {
+  const { accepted, rejected } = await prepareImages(images);
+  const followUp = images.length === 0;
+  const targets: AnalysisTarget[] = followUp ? [{ index: 0 }] : accepted;
+
+  // Extraction answers per image
+  const resolution = extractionRequest && resolveExtraction(extractionRequest);
+  const extraction = resolution?.ok ? resolution.extraction : undefined;
+  // Tasks other than answering describe each new image on its own
+  const task: AnalysisTask = followUp || extractionRequest ? 'answer' : requestedTask;
+  const effectiveMode: AnalysisMode =
+    followUp || extractionRequest || task !== 'answer' ? 'per-image' : mode;
+
+  // Regions are drawn on the request's own images
+  const grounding = groundingRequested && !followUp && !extractionRequest && task === 'answer';
+
+  // The preset's system prompt and settings apply to every model call
+  const presetResolution = await resolvePromptPreset(presetId ?? TASK_PRESET_IDS[task]);
+  const preset = presetResolution.ok ? presetResolution.preset : undefined;
+  const requestError =
+    resolution && !resolution.ok
+      ? resolution.message
+      : !presetResolution.ok
+        ? presetResolution.message
+        : undefined;
+
+  // Replay earlier turns before the question
+  const context =
+    targets.length === 0 || requestError ? [] : await buildConversationContext(history);
+
+  /**
+   * Builds the model messages asking about some of the targets, for (re-)requests.
+   */
+  const messagesFor = (subset: AnalysisTarget[]) => {
+    const asked = accepted.filter(({ index }) => subset.some(t => t.index === index));
+    return buildAnalysisMessages(
+      question,
+      asked.map(({ image }) => image),
+      context,
+      {
+        mode: effectiveMode,
+        task,
+        extracting: !!extraction,
+        grounding,
+        maxWords: preset?.constraints.maxWords,
+        timestamps: timestamps && asked.map(({ index }) => timestamps[index]),
+      }
+    );
+  };
+
+  /**
+   * Builds the cache key of each image for a model. Only per-image answers about new images
+   * without earlier turns depend on nothing but the image, so other requests are not cached.
+   */
+  const cacheKeysFor = (model: string) =>
+    new Map(
+      followUp || history.length > 0 || effectiveMode !== 'per-image'
+        ? []
+        : accepted.map(({ index, image }) => [
+            index,
+            analysisCacheKey({
+              image,
+              question,
+              model,
+              promptVersion: `${PROMPT_VERSION}:${preset?.id}@${preset?.version}`,
+              variant: JSON.stringify({ task, extraction: extraction?.schema, grounding }),
+            }),
+          ])
+    );
+
+  return {
+    rejected,
+    targets,
+    mode: effectiveMode,
+    task,
+    extraction,
+    preset,
+    requestError,
+    grounding,
+    messagesFor,
+    cacheKeysFor,
+  };
+};
+
+/**
+ * Maps model results onto the accepted images by index, flagging images the model skipped.
+ * The model sees only accepted images, so its indexes are positions in `accepted`.
+ * In the comparative and combined modes notes are optional, so skipped images get an empty note.
+ * In extraction requests the extracted data is validated against the extraction schema; in the
+ * alt-text task the alt text doubles as the result text, and in the OCR task the plain text of
+ * the transcription.
+ *
+ * @param accepted - The targets the model answered for
+ * @param results - The analyses returned by the model
+ * @param mode - The analysis mode
+ * @param extraction - The extraction schema, in extraction requests
+ * @returns One success or error item per accepted image, indexed by request position
+ */
+const mapAnalysisResults = (
+  accepted: AnalysisTarget[],
+  results: AnalysisOutput['results'],
+  mode: AnalysisMode = 'per-image',
+  extraction?: ResolvedExtraction
+): ImageAnalysisResponseItem[] =>
+  accepted.map(({ index, preprocessing }, modelIndex) => {
+    const analysis = results.find(r => r.index === modelIndex);
+    if (analysis && extraction) {
+      // extracted data, kept only when it is an object
+      const data = isRecord(analysis.data) ? analysis.data : undefined;
+      const validationErrors = validateExtractedData(extraction, analysis.data);
+      return {
+        index,
+        ok: true,
+        text: JSON.stringify(analysis.data ?? null),
+        ...(data && { data }),
+        ...(validationErrors.length && { validationErrors }),
+        ...(preprocessing && { preprocessing }),
+      };
+    }
+    if (analysis?.alt !== undefined) {
+      // accessibility text
+      const { alt, longDescription = '', decorative = false } = analysis;
+      return {
+        index,
+        ok: true,
+        text: alt,
+        altText: { alt, longDescription, decorative },
+        ...(preprocessing && { preprocessing }),
+      };
+    }
+    if (analysis?.blocks) {
+      // transcribed text
+      const transcription = { blocks: analysis.blocks };
+      return {
+        index,
+        ok: true,
+        text: transcriptionToText(transcription),
+        transcription,
+        ...(preprocessing && { preprocessing }),
+      };
+    }
+    if (analysis || mode !== 'per-image') {
+      // found analysis, or an image without a note
+      return {
+        index,
+        ok: true,
+        text: analysis?.text ?? '',
+        ...(analysis?.regions && { regions: clipRegions(analysis.regions) }),
+        ...(preprocessing && { preprocessing }),
+      };
+    } else {
+      // missing analysis
+      return {
+        index,
+        ok: false,
+        code: 'model_refusal',
+        error: 'No response received for this image.',
+      };
+    }
+  });
+
+/**
+ * Maps the model's aggregate answer onto request positions: "[Image N]" citations use the
+ * model's 1-based positions among the accepted images and are rewritten to request positions.
+ *
+ * @param accepted - The targets the model answered for
+ * @param text - The aggregate answer returned by the model
+ * @param pending - Whether the answer is still being streamed
+ * @returns The summary with rewritten citations and the cited request indexes
+ */
+const mapAnalysisSummary = (
+  accepted: AnalysisTarget[],
+  text: string,
+  pending?: boolean
+): AnalysisSummary => {
+  const citations: number[] = [];
+  const mapped = text.replace(/\[Image (\d+)\]/gi, (citation, position: string) => {
+    const target = accepted[Number(position) - 1];
+    if (!target) return citation;
+    if (!citations.includes(target.index)) citations.push(target.index);
+    return `[Image ${target.index + 1}]`;
+  });
+  return { text: mapped, citations, ...(pending && { pending }) };
+};
+
+/**
+ * Returns the plain text of the blocks transcribed so far while streaming, leaving out blocks
+ * that are not complete enough to show.
+ */
+const partialTranscriptionText = (blocks: unknown[]) =>
+  transcriptionToText({
+    blocks: blocks.flatMap(block => {
+      const parsed = TranscriptionBlockSchema.safeParse(block);
+      return parsed.success ? [parsed.data] : [];
+    }),
+  });
+
+/**
+ * Returns true for plain (non-array) objects.
+ */
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Clips regions to the image bounds, dropping regions left without an area.
+ * Models occasionally return boxes that overflow the image edge.
+ */
+const clipRegions = (regions: GroundingRegion[]): GroundingRegion[] =>
+  regions.flatMap(({ label, box }) => {
+    const x = Math.min(Math.max(box.x, 0), 1);
+    const y = Math.min(Math.max(box.y, 0), 1);
+    const width = Math.min(box.width, 1 - x);
+    const height = Math.min(box.height, 1 - y);
+    return width > 0 && height > 0 ? [{ label, box: { x, y, width, height } }] : [];
+  });
+
+/**
+ * Returns the schema of the model response for an analysis mode, task or extraction.
+ * Extraction responses embed the extraction schema as the `data` of each result; grounding
+ * responses add the regions of each result.
+ */
+const responseSchemaFor = (
+  mode: AnalysisMode,
+  task: AnalysisTask,
+  extraction?: ResolvedExtraction,
+  grounding = false
+): Schema<AnalysisOutput> => {
+  if (task === 'alt-text') return zodSchema(AIAltTextResponseSchema);
+  if (task === 'ocr') return zodSchema(AITranscriptionResponseSchema);
+  if (extraction) {
+    return jsonSchema<AnalysisOutput>({
+      type: 'object',
+      properties: {
+        results: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { index: { type: 'integer' }, data: extraction.schema },
+            required: ['index', 'data'],
+            additionalProperties: false,
+          },
+        },
+      },
+      required: ['results'],
+      additionalProperties: false,
+    });
+  }
+  const schema =
+    mode === 'per-image' ? AIImageAnalysisResponseSchema : AIImageAnalysisSummaryResponseSchema;
+  return zodSchema(
+    grounding
+      ? schema.extend({ results: z.array(AIImageAnalysisGroundedResponseItemSchema) })
+      : schema
+  );
+};
 
 /**
- * Schema for validating image analysis response item.
- * Each result represents the outcome of analyzing a single image.
+ * Returns true for provider failures worth retrying: timeouts, errors the provider flags as
+ * retryable (rate limits, overloaded or failing servers) and responses that did not match the
+ * schema.
  */
-export const ImageAnalysisResponseItemSchema = z.discriminatedUnion('ok', [
-  ImageAnalysisSuccessSchema,
-  ImageAnalysisErrorSchema,
-]);
+const isTransientError = (error: unknown) =>
+  isTimeoutError(error) ||
+  (APICallError.isInstance(error) && error.isRetryable) ||
+  NoObjectGeneratedError.isInstance(error);
+
+/**
+ * Retry policy for model calls.
+ */
+const RETRY_OPTIONS: RetryOptions = {
+  maxRetries: ANALYSIS_MAX_RETRIES,
+  delayMs: ANALYSIS_RETRY_DELAY_MS,
+  shouldRetry: isTransientError,
+};
 
 /**
- *  Image analysis response item type
+ * Settings of every model call of an analysis, from its prompt preset.
  */
-export type ImageAnalysisResponseItem = z.infer<typeof ImageAnalysisResponseItemSchema>;
+type PresetCallSettings = {
+  /** The preset's system prompt. */
+  system: string;
+  /** The sampling temperature, when the preset sets one. */
+  temperature?: number;
+  /** The max tokens per call, when the preset limits them. */
+  maxOutputTokens?: number;
+};
 
 /**
- * Schema for the full analysis response returned to the client.
- * Wraps an array of per-image results that can either be successful or contain an error.
+ * Returns the model call settings of a prompt preset.
  */
-export const ImageAnalysisResponseSchema = z.object({
-  /** Per-image analysis results mapped by index; items are success or error variants. */
-  results: z.array(ImageAnalysisResponseItemSchema),
+const callSettingsFor = ({
+  systemPrompt,
+  temperature,
+  constraints,
+}: PromptPreset): PresetCallSettings => ({
+  system: systemPrompt,
+  ...(temperature !== undefined && { temperature }),
+  ...(constraints.maxOutputTokens && { maxOutputTokens: constraints.maxOutputTokens }),
 });
 
 /**
- * Image analysis response type
+ * Generates a complete model response, abandoning calls that exceed the timeout and retrying
+ * transient failures with exponential backoff. The token usage of every attempt, including
+ * responses that did not match the schema, is added to the meter.
+ *
+ * @param model - The language model
+ * @param schema - The response schema
+ * @param messages - The model messages
+ * @param settings - The system prompt and sampling settings of the preset
+ * @param meter - The usage meter of the analysis
+ * @returns The model response
+ * @throws The error of the last attempt, or the first error that is not transient
  */
-export type ImageAnalysisResponse = z.infer<typeof ImageAnalysisResponseSchema>;
+const generateAnalysis = (
+  model: LanguageModel,
+  schema: Schema<AnalysisOutput>,
+  messages: ModelMessage[],
+  settings: PresetCallSettings,
+  meter: UsageMeter
+) =>
+  withRetry(async () => {
+    try {
+      const { object, usage } = await generateObject({
+        model,
+        schema,
+        messages,
+        ...settings,
+        maxRetries: 0,
+        abortSignal: AbortSignal.timeout(ANALYSIS_TIMEOUT_MS),
+      });
+      meter.add(usage);
+      return object;
+    } catch (error: unknown) {
+      if (NoObjectGeneratedError.isInstance(error)) meter.add(error.usage);
+      throw error;
+    }
+  }, RETRY_OPTIONS);
 
 /**
- * Analyzes multiple images using OpenAI's GPT-4o-mini model based on a user question.
+ * Re-requests the images the model left out of its answer, asking only about those images,
+ * up to ANALYSIS_MAX_RETRIES times. Only the per-image answers can be missing; notes in the
+ * comparative and combined modes are optional.
  *
- * This function sends a question along with multiple images to the OpenAI API and returns
+ * @param items - The mapped results of the first request
+ * @param targets - The targets the model answered for
+ * @param request - Requests the model response for some of the targets
+ * @param mode - The analysis mode
+ * @param extraction - The extraction schema, in extraction requests
+ * @returns The results, with the re-requested images replaced by their new results
+ */
+const rerequestMissing = async (
+  items: ImageAnalysisResponseItem[],
+  targets: AnalysisTarget[],
+  request: (subset: AnalysisTarget[]) => Promise<AnalysisOutput>,
+  mode: AnalysisMode,
+  extraction?: ResolvedExtraction
+) => {
+  let results = items;
+  for (let attempt = 0; attempt < ANALYSIS_MAX_RETRIES; attempt++) {
+    const missing = targets.filter(({ index }) => results.some(r => r.index === index && !r.ok));
+    if (missing.length === 0) break;
+    try {
+      const object = await request(missing);
+      const retried = mapAnalysisResults(missing, object.results, mode, extraction);
+      results = results.map(r => retried.find(({ index }) => index === r.index) ?? r);
+    } catch {
+      // keep the earlier errors
+      break;
+    }
+  }
+  return results;
+};
+
+/**
+ * Maps a provider failure onto an error item for each accepted image. The error is classified
+ * and logged; users only see the message for its code.
+ *
+ * @param accepted - The targets the model answered for
+ * @param error - The error thrown by the provider
+ * @returns One error item per accepted image
+ */
+const mapAnalysisError = (
+  accepted: AnalysisTarget[],
+  error: unknown
+): ImageAnalysisResponseItem[] => {
+  const code = classifyProviderError(error);
+  console.error(`Image analysis failed (${code})`, error);
+  const message =
+    code === 'timeout'
+      ? `The model did not respond within ${ANALYSIS_TIMEOUT_MS / 1000} seconds.`
+      : ANALYSIS_ERRORS[code].message;
+  return accepted.map(({ index }) => ({
+    index,
+    ok: false,
+    code,
+    error: message,
+  }));
+};
+
+/**
+ * Analyzes multiple images with the requested model based on a user question.
+ *
+ * This function sends a question along with multiple images to the model provider and returns
  * analysis results for each image. The AI model provides succinct answers for each image,
  * with specific details when counting or listing items.
  *
  * @param question - The question or prompt to guide the image analysis
- * @param images - Array of base64-encoded image strings to be analyzed
+ * @param images - Array of base64-encoded image strings to be analyzed; when empty, the question
+ * is a follow-up answered in a single result with index 0
+ * @param model - Optional model id from the model registry
+ * @param history - Optional earlier messages of the conversation, replayed as context within
+ * the configured token budget
+ * @param mode - Optional analysis mode: per-image (default), comparative or combined
+ * @param task - Optional task: an answer (default), or alt text or an OCR transcription for each
+ * new image
+ * @param extraction - Optional saved template or JSON Schema of fields to extract from each image
+ * @param grounding - Optional flag asking for the labelled regions each answer refers to
+ * @param presetId - Optional prompt preset id; the succinct preset by default
+ * @param bypassCache - Optional flag asking the model again instead of reusing cached answers
  *
  * @returns Promise that resolves to an array of analysis results, where each result contains:
  *   - `index`: The 0-based index of the image in the input array
  *   - `ok`: Boolean indicating if the analysis was successful
  *   - `text`: The analysis text (only present if `ok` is true)
  *   - `error`: Error message (only present if `ok` is false)
+ * In the comparative and combined modes the response also carries a `summary` with the
+ * aggregate answer and the indexes of the images it cites; per-image texts are optional notes.
+ * In the alt-text task each success item carries the `altText` of its image, and in the OCR task
+ * its `transcription`.
+ * The response records the `preset` id and version the answers were produced with, and
+ * whenever the model was called, `usage` reports its tokens, latency and estimated cost.
+ * Per-image answers about new images are cached; images answered from the cache (flagged
+ * `cached`) are not sent to the model.
  *
  * @example
  * ```typescript
@@ -121,67 +685,241 @@ export type ImageAnalysisResponse = z.infer<typeof ImageAnalysisResponseSchema>;
  * ```
  *
  * @throws Will not throw errors directly, but returns error results in the response array
- * when the OpenAI API call fails or when individual image analyses are missing.
+ * when an image fails validation, when the model provider call fails or when individual
+ * image analyses are missing.
  */
-export const analyzeImages = async ({
-  question,
-  images,
-}: ImageAnalysisRequest): Promise<ImageAnalysisResponse> => {
+export const analyzeImages = async (
+  request: ImageAnalysisRequest
+): Promise<ImageAnalysisResponse> => {
+  // Reject invalid images and normalize the rest; only valid images reach the model
+  const {
+    rejected,
+    targets,
+    mode,
+    task,
+    extraction,
+    preset,
+    requestError,
+    grounding,
+    messagesFor,
+    cacheKeysFor,
+  } = await prepareAnalysis(request);
+  if (targets.length === 0) {
+    return { results: rejected };
+  }
+  if (requestError || !preset) {
+    const error = requestError ?? 'Unknown prompt preset.';
+    return {
+      results: [
+        ...rejected,
+        ...targets.map(({ index }) => ({ index, ok: false as const, error })),
+      ].sort(byIndex),
+    };
+  }
+
+  // Without a usable model, every accepted image fails with the same error
+  let resolved: ReturnType<typeof resolveModel>;
+  try {
+    resolved = resolveModel(request.model);
+  } catch (error: unknown) {
+    return { results: [...rejected, ...mapAnalysisError(targets, error)].sort(byIndex) };
+  }
+  const { id: modelId, model } = resolved;
+  const presetRef = { id: preset.id, version: preset.version };
+
+  // Answer images asked about before from the cache, unless bypassed; only the rest are sent
+  const cacheKeys = cacheKeysFor(modelId);
+  const cached = request.bypassCache ? [] : await readCachedResults(targets, cacheKeys);
+  const uncached = targets.filter(({ index }) => !cached.some(r => r.index === index));
+  if (uncached.length === 0) {
+    return { results: [...rejected, ...cached].sort(byIndex), preset: presetRef };
+  }
+
+  const schema = responseSchemaFor(mode, task, extraction, grounding);
+  const settings = callSettingsFor(preset);
+  const meter = createUsageMeter(modelId);
+  const generate = (subset: AnalysisTarget[]) =>
+    generateAnalysis(model, schema, messagesFor(subset), settings, meter);
+
   try {
     // Generate image analysis results using the question and images
-    const { object } = await generateObject({
-      model: openai('gpt-4o-mini'),
-      schema: AIImageAnalysisResponseSchema,
-      messages: [
-        {
-          role: 'user',
-          content: [
-            {
-              type: 'text',
-              text: `${question}\n\nI'm providing you with ${images.length} image(s). Please analyze each image and provide a succinct answer for each one. If counting or listing, be specific. Return the results as an array where each result has an "index" (starting from 0) and "text" with your analysis.`,
-            },
-            ...images.map(image => ({
-              type: 'image' as const,
-              image,
-            })),
-          ],
-        },
-      ],
-    });
+    const object = await generate(uncached);
 
-    // Map input image to analysis by index
+    // Map input image to analysis by index, re-requesting images the model left out
+    const results = await rerequestMissing(
+      mapAnalysisResults(uncached, object.results, mode, extraction),
+      uncached,
+      generate,
+      mode,
+      extraction
+    );
+    await cacheResults(results, cacheKeys);
     return {
-      results: images.map((_, index) => {
-        const analysis = object.results.find(r => r.index === index);
-        if (analysis) {
-          // found analysis
-          return {
-            index,
-            ok: true,
-            text: analysis.text,
-          };
-        } else {
-          // missing analysis
-          return {
-            index,
-            ok: false,
-            error: 'No response received for this image.',
-          };
-        }
+      results: [...rejected, ...cached, ...results].sort(byIndex),
+      ...(object.summary !== undefined && {
+        summary: mapAnalysisSummary(uncached, object.summary),
       }),
+      preset: presetRef,
+      usage: meter.read(),
     };
   } catch (error: unknown) {
-    // OpenAI error — return an array of error results for each image.
-    const message = isErrorWithMessage(error)
-      ? error.message
-      : 'Failed to analyze images. Please try again.';
-    // Map input images to analysis errors by index
+    // Provider error — return an array of error results for each image.
     return {
-      results: images.map((_, index) => ({
-        index,
-        ok: false,
-        error: message,
-      })),
+      results: [...rejected, ...cached, ...mapAnalysisError(uncached, error)].sort(byIndex),
+      preset: presetRef,
+      usage: meter.read(),
     };
   }
 };
+
+/**
+ * Streams the analysis of multiple images, yielding per-image updates as the model responds.
+ *
+ * While the model is generating, in-progress items (`ok: true, pending: true`) are yielded
+ * with the partial text received so far for an image. Once generation completes, a final
+ * success or error item is yielded for every image, in the same shape `analyzeImages` returns.
+ * In the comparative and combined modes, `{ summary }` events carry the aggregate answer as it
+ * grows (with `pending: true`) and once complete.
+ * A first `{ preset }` event records the prompt preset id and version, and a final `{ usage }`
+ * event reports the tokens, latency and estimated cost of the model calls.
+ * Cached answers are yielded first, and only the other images are sent to the model.
+ *
+ * @param question - The question or prompt to guide the image analysis
+ * @param images - Array of base64-encoded image strings to be analyzed; when empty, the question
+ * is a follow-up answered in a single result with index 0
+ * @param model - Optional model id from the model registry
+ * @param history - Optional earlier messages of the conversation, replayed as context within
+ * the configured token budget
+ * @param mode - Optional analysis mode: per-image (default), comparative or combined
+ * @param task - Optional task: an answer (default), or alt text or an OCR transcription for each
+ * new image
+ * @param extraction - Optional saved template or JSON Schema of fields to extract from each image
+ * @param grounding - Optional flag asking for the labelled regions each answer refers to
+ * @param presetId - Optional prompt preset id; the succinct preset by default
+ * @param bypassCache - Optional flag asking the model again instead of reusing cached answers
+ *
+ * @example
+ * ```typescript
+ * for await (const event of streamAnalyzeImages({ question, images })) {
+ *   if ('summary' in event) console.log(event.summary.text);
+ *   else console.log(event.index, event.ok && event.text);
+ * }
+ * ```
+ *
+ * @throws Will not throw errors directly, but yields error items when an image fails
+ * validation, when the model provider call fails or when individual image analyses are missing.
+ */
+export async function* streamAnalyzeImages(
+  request: ImageAnalysisRequest
+): AsyncGenerator<ImageAnalysisStreamEvent> {
+  // Reject invalid images and normalize the rest; only valid images reach the model
+  const {
+    rejected,
+    targets,
+    mode,
+    task,
+    extraction,
+    preset,
+    requestError,
+    grounding,
+    messagesFor,
+    cacheKeysFor,
+  } = await prepareAnalysis(request);
+  yield* rejected;
+  if (targets.length === 0) return;
+  if (requestError || !preset) {
+    const error = requestError ?? 'Unknown prompt preset.';
+    yield* targets.map(({ index }) => ({ index, ok: false as const, error }));
+    return;
+  }
+
+  // Without a usable model, every accepted image fails with the same error
+  let resolved: ReturnType<typeof resolveModel>;
+  try {
+    resolved = resolveModel(request.model);
+  } catch (error: unknown) {
+    yield* mapAnalysisError(targets, error);
+    return;
+  }
+  const { id: modelId, model } = resolved;
+  yield { preset: { id: preset.id, version: preset.version } };
+
+  // Answer images asked about before from the cache, unless bypassed; only the rest are sent
+  const cacheKeys = cacheKeysFor(modelId);
+  const cached = request.bypassCache ? [] : await readCachedResults(targets, cacheKeys);
+  yield* cached;
+  const uncached = targets.filter(({ index }) => !cached.some(r => r.index === index));
+  if (uncached.length === 0) return;
+
+  const schema = responseSchemaFor(mode, task, extraction, grounding);
+  const settings = callSettingsFor(preset);
+  const meter = createUsageMeter(modelId);
+  let final: AnalysisOutput | undefined;
+  for (let attempt = 0; !final; attempt++) {
+    try {
+      // Stream image analysis results using the question and images
+      const { partialObjectStream, object, usage } = streamObject({
+        model,
+        schema,
+        messages: messagesFor(uncached),
+        ...settings,
+        maxRetries: 0,
+        abortSignal: AbortSignal.timeout(ANALYSIS_TIMEOUT_MS),
+        onError: () => {
+          // surfaced below when the final object is awaited
+        },
+      });
+
+      // Yield partial text whenever an image's analysis or the aggregate answer grows
+      const partialTexts = new Map<number, string>();
+      let partialSummary: string | undefined;
+      for await (const partial of partialObjectStream) {
+        if (partial.summary && partial.summary !== partialSummary) {
+          partialSummary = partial.summary;
+          yield { summary: mapAnalysisSummary(uncached, partialSummary, true) };
+        }
+        for (const result of partial.results ?? []) {
+          const index = result?.index === undefined ? undefined : uncached[result.index]?.index;
+          const text = extraction
+            ? result?.data === undefined
+              ? undefined
+              : JSON.stringify(result.data)
+            : (result?.text ??
+              result?.alt ??
+              (result?.blocks && partialTranscriptionText(result.blocks)));
+          if (index === undefined || text === undefined || partialTexts.get(index) === text) {
+            continue;
+          }
+          partialTexts.set(index, text);
+          yield { index, ok: true, pending: true, text };
+        }
+      }
+      final = await object;
+      meter.add(await usage);
+    } catch (error: unknown) {
+      if (NoObjectGeneratedError.isInstance(error)) meter.add(error.usage);
+      if (attempt >= ANALYSIS_MAX_RETRIES || !isTransientError(error)) {
+        // Provider error — yield an error result for each accepted image, then the usage
+        yield* mapAnalysisError(uncached, error);
+        yield { usage: meter.read() };
+        return;
+      }
+      // Retry the whole stream; later partial items replace the earlier ones
+      await sleep(backoffDelay(attempt, ANALYSIS_RETRY_DELAY_MS));
+    }
+  }
+
+  // Yield the final result for every accepted image, re-requesting images the model left out,
+  // then the final aggregate answer and the usage
+  const results = await rerequestMissing(
+    mapAnalysisResults(uncached, final.results, mode, extraction),
+    uncached,
+    subset => generateAnalysis(model, schema, messagesFor(subset), settings, meter),
+    mode,
+    extraction
+  );
+  await cacheResults(results, cacheKeys);
+  yield* results;
+  if (final.summary !== undefined) yield { summary: mapAnalysisSummary(uncached, final.summary) };
+  yield { usage: meter.read() };
+}
@@ -0,0 +1,144 @@
+import { parseDataUrl, readImageDimensions } from '@/lib/images';
+import { CONTEXT_TOKEN_BUDGET } from '@/services/config/config';
+import { estimateImageTokens } from '@/services/images/normalizeImage';
+import { prepareImages } from '@/services/openai/prepareImages';
+import { ConversationMessage } from '@/services/openai/schemas';
+import { ImagePart, ModelMessage, TextPart } from 'ai';
+
+/**
+ * Tokens assumed for an image whose dimensions cannot be read (a 512×512 high-detail image).
+ */
+export const DEFAULT_IMAGE_TOKENS = 765;
+
+/**
+ * A question and the answers given to it.
+ */
+type ConversationTurn = {
+  /** The question asked. */
+  question: string;
+  /** The images uploaded with the question. */
+  images: string[];
+  /** The per-image answers. */
+  results: Extract<ConversationMessage, { role: 'assistant' }>['results'];
+  /** The aggregate answer, in the comparative and combined modes. */
+  summary?: string;
+};
+
+/**
+ * Estimates the tokens of a text, at roughly four characters per token.
+ *
+ * @param text - The text.
+ * @returns The estimated token count.
+ */
+export const estimateTextTokens = (text: string) => Math.ceil(text.length / 4);
+
+/**
+ * Groups messages into turns: each user message with the assistant answers that follow it.
+ */
+const groupTurns = (history: ConversationMessage[]) => {
+  const turns: ConversationTurn[] = [];
+  for (const message of history) {
+    if (message.role === 'user') {
+      turns.push({ question: message.question, images: message.images, results: [] });
+    } else if (turns.length) {
+      const turn = turns[turns.length - 1];
+      turn.results.push(...message.results);
+      turn.summary = message.summary?.text ?? turn.summary;
+    }
+  }
+  return turns;
+};
+
+/**
+ * Formats the answers of a turn as text, labelling per-image answers as "Image <turn>.<n>".
+ * Aggregate answers come first, with their "[Image N]" citations relabelled the same way.
+ */
+const formatAnswers = (turn: ConversationTurn, label: number) => {
+  const answer = (result: ConversationTurn['results'][number]) =>
+    result.ok && result.text ? result.text : '(no answer)';
+  if (turn.summary !== undefined) {
+    const summary = turn.summary.replace(/\[Image (\d+)\]/g, `[Image ${label}.$1]`);
+    const notes = turn.results
+      .filter(result => result.ok && result.text)
+      .map(result => `Image ${label}.${result.index + 1}: ${result.text}`);
+    return [summary, ...notes].join('\n');
+  }
+  if (turn.images.length === 0 && turn.results.length === 1) return answer(turn.results[0]);
+  if (turn.results.length === 0) return '(no answer)';
+  return turn.results
+    .map(result => `Image ${label}.${result.index + 1}: ${answer(result)}`)
+    .join('\n');
+};
+
+/**
+ * Validates and normalizes an earlier image and estimates its token cost.
+ *
+ * @returns The image to send with its token estimate, or undefined when the image is invalid.
+ */
+const prepareContextImage = async (image: string) => {
+  const { accepted } = await prepareImages([image]);
+  if (accepted.length === 0) return undefined;
+  const { image: dataUrl, preprocessing } = accepted[0];
+  if (preprocessing) return { image: dataUrl, tokens: preprocessing.tokens };
+  const bytes = parseDataUrl(dataUrl)?.bytes;
+  const dimensions = bytes && readImageDimensions(bytes);
+  return {
+    image: dataUrl,
+    tokens: dimensions ? estimateImageTokens(dimensions) : DEFAULT_IMAGE_TOKENS,
+  };
+};
+
+/**
+ * Builds model messages replaying earlier turns of a conversation as context for a follow-up.
+ *
+ * Turns are added from the most recent backwards until the token budget is spent: first a
+ * turn's question and answers, then its images while they still fit. Older turns that do not
+ * fit are dropped entirely; images that do not fit (or fail validation) are referenced by
+ * their "Image <turn>.<n>" label only, so the model can still relate them to earlier answers.
+ *
+ * @param history - Earlier messages of the conversation, oldest first.
+ * @param budget - Max estimated tokens of the context.
+ * @returns Alternating user and assistant messages, oldest first.
+ */
+export const buildConversationContext = async (
+  history: ConversationMessage[],
+  budget = CONTEXT_TOKEN_BUDGET
+): Promise<ModelMessage[]> => {
+  const turns = groupTurns(history);
+  const included: ModelMessage[][] = [];
+  let used = 0;
+
+  for (let t = turns.length - 1; t >= 0; t--) {
+    const turn = turns[t];
+    const label = t + 1;
+
+    // Include the question and answers, or stop at the first turn that does not fit
+    const answers = formatAnswers(turn, label);
+    const textTokens = estimateTextTokens(turn.question + answers);
+    if (used + textTokens > budget) break;
+    used += textTokens;
+
+    // Include the images that still fit, referencing the rest by label
+    const content: (TextPart | ImagePart)[] = [{ type: 'text', text: turn.question }];
+    for (const [i, image] of turn.images.entries()) {
+      const imageLabel = `Image ${label}.${i + 1}`;
+      const prepared = await prepareContextImage(image);
+      if (prepared && used + prepared.tokens <= budget) {
+        used += prepared.tokens;
+        content.push(
+          { type: 'text', text: `${imageLabel}:` },
+          { type: 'image', image: prepared.image }
+        );
+      } else {
+        content.push({ type: 'text', text: `${imageLabel}: (not shown; see the earlier answer)` });
+      }
+    }
+
+    included.unshift([
+      { role: 'user', content },
+      { role: 'assistant', content: answers },
+    ]);
+  }
+
+  return included.flat();
+};
@@ -0,0 +1,72 @@
+import { ALLOWED_IMAGE_FORMATS, CONVERTIBLE_IMAGE_FORMATS } from '@/lib/images';
+import { IMAGE_NORMALIZATION_ENABLED } from '@/services/config/config';
+import { normalizeImage } from '@/services/images/normalizeImage';
+import { ImagePreprocessing } from '@/services/images/schemas';
+import { validateImage } from '@/services/images/validateImage';
+import { ImageAnalysisResponseItem } from '@/services/openai/schemas';
+
+/**
+ * Something the model answers for, with its index in the request payload.
+ */
+export type AnalysisTarget = {
+  /** 0-based index of the image in the request payload. */
+  index: number;
+  /** Normalization report, present when the image was normalized. */
+  preprocessing?: ImagePreprocessing;
+};
+
+/**
+ * An image that passed validation, with its index in the request payload.
+ */
+export type AcceptedImage = AnalysisTarget & {
+  /** The image data URL sent to the model (normalized when normalization is enabled). */
+  image: string;
+};
+
+/**
+ * Orders result items by their index in the request payload.
+ */
+export const byIndex = (a: ImageAnalysisResponseItem, b: ImageAnalysisResponseItem) =>
+  a.index - b.index;
+
+/**
+ * Validates and normalizes the request images, splitting them into images to send to
+ * the model and error items for images that were rejected or could not be decoded.
+ *
+ * @param images - The request images
+ * @returns The accepted images and one error item per rejected image
+ */
+export const prepareImages = async (images: string[]) => {
+  const formats = IMAGE_NORMALIZATION_ENABLED
+    ? [...ALLOWED_IMAGE_FORMATS, ...CONVERTIBLE_IMAGE_FORMATS]
+    : ALLOWED_IMAGE_FORMATS;
+  const accepted: AcceptedImage[] = [];
+  const rejected: ImageAnalysisResponseItem[] = [];
+  await Promise.all(
+    images.map(async (image, index) => {
+      const validation = validateImage(image, formats);
+      if (!validation.ok) {
+        rejected.push({ index, ok: false, code: validation.code, error: validation.message });
+        return;
+      }
+      if (!IMAGE_NORMALIZATION_ENABLED) {
+        accepted.push({ index, image });
+        return;
+      }
+      try {
+        const { dataUrl, preprocessing } = await normalizeImage(image);
+        accepted.push({ index, image: dataUrl, preprocessing });
+      } catch (error: unknown) {
+        console.error(`Failed to normalize image ${index}`, error);
+        rejected.push({
+          index,
+          ok: false,
+          code: 'unsupported_type',
+          error: 'The image could not be decoded.',
+        });
+      }
+    })
+  );
+  accepted.sort((a, b) => a.index - b.index);
+  return { accepted, rejected: rejected.sort(byIndex) };
+};
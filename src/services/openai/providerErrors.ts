@@ -0,0 +1,57 @@
+import { AnalysisErrorCode } from '@/lib/errors';
+import { APICallError, LoadAPIKeyError, NoObjectGeneratedError, NoSuchModelError } from 'ai';
+
+/**
+ * Returns true when a model call was abandoned because its abort signal timed out.
+ *
+ * @param error - The error thrown by the call.
+ * @returns True for timeouts.
+ */
+export const isTimeoutError = (error: unknown) =>
+  typeof error === 'object' && error !== null && 'name' in error && error.name === 'TimeoutError';
+
+/**
+ * Patterns matched against the message and body of provider 4xx errors, in order.
+ */
+const PROVIDER_ERROR_PATTERNS: [RegExp, AnalysisErrorCode][] = [
+  [/content[ _-]?(policy|filter|management)|safety|moderation|flagged/i, 'content_policy'],
+  [/too large|too long|context[ _-]?length|maximum.*tokens|payload/i, 'too_large'],
+  [/(unsupported|invalid).*(image|mime|media|format)|image.*(format|type)/i, 'unsupported_format'],
+];
+
+/**
+ * Maps an error thrown by a model call onto an analysis error code.
+ *
+ * @param error - The error thrown by the provider or the AI SDK.
+ * @returns The code describing the failure, or "unknown" when it is not recognized.
+ */
+export const classifyProviderError = (error: unknown): AnalysisErrorCode => {
+  if (isTimeoutError(error)) return 'timeout';
+  if (LoadAPIKeyError.isInstance(error)) return 'auth';
+  if (NoSuchModelError.isInstance(error)) return 'model_unavailable';
+  if (NoObjectGeneratedError.isInstance(error)) {
+    return error.finishReason === 'content-filter' ? 'content_policy' : 'model_refusal';
+  }
+  if (!APICallError.isInstance(error)) return 'unknown';
+
+  // Status codes first, then the provider's explanation of a bad request
+  switch (error.statusCode) {
+    case 401:
+    case 403:
+      return 'auth';
+    case 408:
+    case 504:
+      return 'timeout';
+    case 413:
+      return 'too_large';
+    case 415:
+      return 'unsupported_format';
+    case 429:
+      return 'rate_limited';
+  }
+  if (error.statusCode !== undefined && error.statusCode >= 400 && error.statusCode < 500) {
+    const details = `${error.message} ${error.responseBody ?? ''}`;
+    return PROVIDER_ERROR_PATTERNS.find(([pattern]) => pattern.test(details))?.[1] ?? 'unknown';
+  }
+  return 'unknown';
+};
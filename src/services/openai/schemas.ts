@@ -0,0 +1,485 @@
+import { AnalysisErrorCodeSchema } from '@/lib/errors';
+import { estimateDataUrlBytes, formatBytes, MAX_TOTAL_IMAGE_BYTES } from '@/lib/images';
+import {
+  ExtractionRequestSchema,
+  ExtractionValidationErrorSchema,
+} from '@/services/extraction/schemas';
+import {
+  ImagePreprocessingSchema,
+  ImageValidationErrorCodeSchema,
+} from '@/services/images/schemas';
+import { PromptPresetRefSchema } from '@/services/prompts/schemas';
+import { RateLimitStatusSchema } from '@/services/rateLimit/schemas';
+import { AnalysisUsageSchema } from '@/services/usage/schemas';
+import { z } from 'zod';
+
+/**
+ * Schema for a single AI image analysis result.
+ * Contains the index of the analyzed image and the analysis text.
+ */
+export const AIImageAnalysisResponseItemSchema = z.object({
+  /** The index of the image in the original array (0-based) */
+  index: z.number(),
+  /** The analysis text generated for the image */
+  text: z.string(),
+});
+
+/**
+ * Schema for a bounding box in coordinates normalized to 0–1 from the top-left corner of the image.
+ */
+const AIGroundingBoxSchema = z.object({
+  /** Left edge as a fraction of the image width */
+  x: z.number().min(0).max(1),
+  /** Top edge as a fraction of the image height */
+  y: z.number().min(0).max(1),
+  /** Width as a fraction of the image width */
+  width: z.number().min(0).max(1),
+  /** Height as a fraction of the image height */
+  height: z.number().min(0).max(1),
+});
+
+/**
+ * Schema for a labelled image region returned by the AI in grounding requests.
+ */
+export const AIGroundingRegionSchema = z.object({
+  /** What the region shows, e.g. "person" */
+  label: z.string(),
+  /** Where the region is in the image */
+  box: AIGroundingBoxSchema,
+});
+
+/**
+ * Schema for a single AI image analysis result in grounding requests: the analysis text plus
+ * the regions the answer refers to.
+ */
+export const AIImageAnalysisGroundedResponseItemSchema = AIImageAnalysisResponseItemSchema.extend({
+  /** The labelled regions supporting the answer, e.g. one per counted item */
+  regions: z.array(AIGroundingRegionSchema),
+});
+
+/**
+ * Max length of alt text, in characters; screen readers announce longer text poorly.
+ */
+export const MAX_ALT_TEXT_LENGTH = 150;
+
+/**
+ * Max length of the long description of an image, in characters.
+ */
+export const MAX_LONG_DESCRIPTION_LENGTH = 1000;
+
+/**
+ * Schema for the accessibility text of an image, following WCAG: short alt text, a long
+ * description for complex images and whether the image is purely decorative.
+ */
+export const AltTextSchema = z.object({
+  /** Short alt text for the `alt` attribute; empty for decorative images */
+  alt: z.string().max(MAX_ALT_TEXT_LENGTH),
+  /** Long description of the details the alt text leaves out, e.g. the data of a chart */
+  longDescription: z.string().max(MAX_LONG_DESCRIPTION_LENGTH),
+  /** Whether the image is purely decorative and should be hidden from screen readers */
+  decorative: z.boolean(),
+});
+
+/**
+ * Alt text type
+ */
+export type AltText = z.infer<typeof AltTextSchema>;
+
+/**
+ * Schema for a single AI result of the alt-text task: the accessibility text of one image.
+ */
+export const AIAltTextResponseItemSchema = AltTextSchema.extend({
+  /** The index of the image in the original array (0-based) */
+  index: z.number(),
+});
+
+/**
+ * Schema for the complete set of AI results of the alt-text task.
+ */
+export const AIAltTextResponseSchema = z.object({
+  /** Array of per-image accessibility texts */
+  results: z.array(AIAltTextResponseItemSchema),
+});
+
+/**
+ * Schema for a block of transcribed text: a paragraph (or heading) as its lines, or a table as
+ * its rows of cells.
+ */
+export const TranscriptionBlockSchema = z.discriminatedUnion('type', [
+  z.object({
+    /** A paragraph or heading */
+    type: z.literal('paragraph'),
+    /** Its lines, top to bottom, verbatim */
+    lines: z.array(z.string()),
+  }),
+  z.object({
+    /** A table */
+    type: z.literal('table'),
+    /** Its rows, top to bottom, each with its cells from left to right */
+    rows: z.array(z.array(z.string())),
+  }),
+]);
+
+/**
+ * Transcription block type
+ */
+export type TranscriptionBlock = z.infer<typeof TranscriptionBlockSchema>;
+
+/**
+ * Schema for the full transcription of the text in an image.
+ */
+export const TranscriptionSchema = z.object({
+  /** The blocks of text, in reading order */
+  blocks: z.array(TranscriptionBlockSchema),
+});
+
+/**
+ * Transcription type
+ */
+export type Transcription = z.infer<typeof TranscriptionSchema>;
+
+/**
+ * Schema for a single AI result of the OCR task: the transcription of one image.
+ */
+export const AITranscriptionResponseItemSchema = TranscriptionSchema.extend({
+  /** The index of the image in the original array (0-based) */
+  index: z.number(),
+});
+
+/**
+ * Schema for the complete set of AI results of the OCR task.
+ */
+export const AITranscriptionResponseSchema = z.object({
+  /** Array of per-image transcriptions */
+  results: z.array(AITranscriptionResponseItemSchema),
+});
+
+/**
+ * Schema for the complete set of AI image analysis results.
+ * Contains an array of individual image analysis results.
+ */
+export const AIImageAnalysisResponseSchema = z.object({
+  /** Array of image analyses */
+  results: z.array(AIImageAnalysisResponseItemSchema),
+});
+
+/**
+ * Schema for the AI response in the comparative and combined modes: an aggregate answer
+ * citing images as "[Image N]", plus optional per-image notes.
+ */
+export const AIImageAnalysisSummaryResponseSchema = AIImageAnalysisResponseSchema.extend({
+  /** The aggregate answer, citing images by their 1-based position as "[Image N]" */
+  summary: z.string(),
+});
+
+/**
+ * Schema for how images are analyzed:
+ * - per-image: an independent answer for each image
+ * - comparative: an aggregate answer comparing the images, with optional per-image notes
+ * - combined: an aggregate answer treating the images as one set, with optional per-image notes
+ */
+export const AnalysisModeSchema = z.enum(['per-image', 'comparative', 'combined']);
+
+/**
+ * Analysis mode type
+ */
+export type AnalysisMode = z.infer<typeof AnalysisModeSchema>;
+
+/**
+ * Schema for what the model produces for each image:
+ * - answer: an answer to the question
+ * - alt-text: alt text, a long description and a decorative flag, for accessibility
+ * - ocr: a verbatim transcription of the text, as paragraphs and tables in reading order
+ */
+export const AnalysisTaskSchema = z.enum(['answer', 'alt-text', 'ocr']);
+
+/**
+ * Analysis task type
+ */
+export type AnalysisTask = z.infer<typeof AnalysisTaskSchema>;
+
+/**
+ * Max number of earlier images a request may carry in its conversation history.
+ * Clients drop the images of older turns; their answers still provide context.
+ */
+export const MAX_HISTORY_IMAGES = 8;
+
+/**
+ * Schema for an earlier conversation message sent as context for a follow-up question.
+ * Chat messages satisfy this schema; fields the model does not need are stripped.
+ */
+export const ConversationMessageSchema = z.discriminatedUnion('role', [
+  z.object({
+    /** Role is 'user' for user messages. */
+    role: z.literal('user'),
+    /** The question asked in that turn. */
+    question: z.string(),
+    /** Data URLs of the images uploaded in that turn (may be empty for follow-ups or trimmed turns). */
+    images: z.array(z.string()),
+  }),
+  z.object({
+    /** Role is 'assistant' for assistant messages. */
+    role: z.literal('assistant'),
+    /** The per-image answers given in that turn. */
+    results: z.array(
+      z.object({
+        /** 0-based index of the image within its turn. */
+        index: z.number(),
+        /** Whether the analysis succeeded. */
+        ok: z.boolean(),
+        /** The answer, for successful results. */
+        text: z.string().optional(),
+      })
+    ),
+    /** The aggregate answer given in the comparative and combined modes. */
+    summary: z.object({ text: z.string() }).optional(),
+  }),
+]);
+
+/**
+ * Conversation message type
+ */
+export type ConversationMessage = z.infer<typeof ConversationMessageSchema>;
+
+/**
+ * Schema for validating image analysis request data.
+ */
+export const ImageAnalysisRequestSchema = z
+  .object({
+    /** The natural-language question guiding the analysis. Must be a non-empty string. */
+    question: z.string().min(1, 'Please provide a question.'),
+    /**
+     * Array of base64 data URLs for up to 4 images to analyze. May be empty for follow-up
+     * questions about images earlier in the history.
+     * Each image's format and size is validated separately, yielding per-image errors; together
+     * with the history images they may total at most MAX_TOTAL_IMAGE_BYTES.
+     */
+    images: z.array(z.string()).max(4, 'You can upload up to 4 images.'),
+    /** Optional model id in `<provider>:<model>` form; falls back to the default model when unavailable. */
+    model: z.string().min(1).optional(),
+    /** How the images are analyzed; defaults to per-image. */
+    mode: AnalysisModeSchema.optional(),
+    /**
+     * What the model produces for each new image; defaults to an answer. Tasks other than
+     * answering imply the per-image mode, use the preset of the same name unless another is
+     * requested, and do not apply to follow-ups without images.
+     */
+    task: AnalysisTaskSchema.optional(),
+    /**
+     * Extracts structured data from each image instead of free-form answers, using a saved
+     * template or an inline JSON Schema. Implies the per-image mode.
+     */
+    extraction: ExtractionRequestSchema.optional(),
+    /**
+     * Asks for the labelled regions each answer refers to (e.g. every counted item), so answers
+     * can be checked against the image. Ignored in extraction requests and follow-ups without images.
+     */
+    grounding: z.boolean().optional(),
+    /**
+     * Asks the model again instead of reusing cached answers for images asked about before;
+     * the fresh answers replace the cached ones.
+     */
+    bypassCache: z.boolean().optional(),
+    /** Id of the prompt preset shaping the answers; defaults to the succinct preset. */
+    presetId: z.string().min(1).optional(),
+    /**
+     * Seconds from the start of the video of each image, aligned with images, when the images
+     * are frames of one video. Comparative and combined answers then follow what happens over time.
+     */
+    timestamps: z.array(z.number().min(0)).optional(),
+    /** Earlier messages of the conversation, oldest first, used as context for follow-ups. */
+    history: z
+      .array(ConversationMessageSchema)
+      .max(100)
+      .refine(
+        history =>
+          history.reduce((sum, m) => sum + (m.role === 'user' ? m.images.length : 0), 0) <=
+          MAX_HISTORY_IMAGES,
+        { message: `History may include at most ${MAX_HISTORY_IMAGES} images.` }
+      )
+      .optional(),
+  })
+  .refine(
+    ({ images, history = [] }) =>
+      [...images, ...history.flatMap(m => (m.role === 'user' ? m.images : []))].reduce(
+        (sum, image) => sum + estimateDataUrlBytes(image),
+        0
+      ) <= MAX_TOTAL_IMAGE_BYTES,
+    {
+      message: `Images may total at most ${formatBytes(MAX_TOTAL_IMAGE_BYTES)}.`,
+      path: ['images'],
+      params: { code: 'too_large' },
+    }
+  )
+  .refine(
+    ({ images, history }) =>
+      images.length > 0 || !!history?.some(m => m.role === 'user' && m.images.length > 0),
+    { message: 'Please upload at least one image.', path: ['images'] }
+  )
+  .refine(({ task = 'answer', extraction }) => task === 'answer' || !extraction, {
+    message: 'Extraction requests cannot be combined with another task.',
+    path: ['task'],
+  })
+  .refine(({ images, timestamps }) => !timestamps || timestamps.length === images.length, {
+    message: 'Provide one timestamp per image.',
+    path: ['timestamps'],
+  });
+
+/**
+ * Image analysis request type
+ */
+export type ImageAnalysisRequest = z.infer<typeof ImageAnalysisRequestSchema>;
+
+/**
+ * Tolerance for floating-point rounding when checking that a region lies within the image.
+ */
+const GROUNDING_EPSILON = 1e-9;
+
+/**
+ * Schema for a labelled image region: a bounding box in coordinates normalized to 0–1 that lies
+ * within the image.
+ */
+export const GroundingRegionSchema = AIGroundingRegionSchema.extend({
+  box: AIGroundingBoxSchema.refine(({ x, width }) => x + width <= 1 + GROUNDING_EPSILON, {
+    message: 'The region must lie within the image width.',
+  }).refine(({ y, height }) => y + height <= 1 + GROUNDING_EPSILON, {
+    message: 'The region must lie within the image height.',
+  }),
+});
+
+/**
+ * Grounding region type
+ */
+export type GroundingRegion = z.infer<typeof GroundingRegionSchema>;
+
+/**
+ * Schema for validating a successful image analysis response.
+ */
+const ImageAnalysisSuccessSchema = AIImageAnalysisResponseItemSchema.extend({
+  /** Discriminator flag for a successful analysis result. */
+  ok: z.literal(true),
+  /** Absent (or false) once the analysis text is complete. */
+  pending: z.literal(false).optional(),
+  /** How the image was normalized before analysis, when normalization is enabled. */
+  preprocessing: ImagePreprocessingSchema.optional(),
+  /** Data extracted from the image, in extraction requests (`text` then holds it as JSON). */
+  data: z.record(z.string(), z.unknown()).optional(),
+  /** Fields of `data` that do not match the extraction schema. */
+  validationErrors: z.array(ExtractionValidationErrorSchema).optional(),
+  /** Labelled regions the answer refers to, in grounding requests. */
+  regions: z.array(GroundingRegionSchema).optional(),
+  /** The accessibility text of the image, in the alt-text task (`text` then holds the alt text). */
+  altText: AltTextSchema.optional(),
+  /** The transcribed text of the image, in the OCR task (`text` then holds it as plain text). */
+  transcription: TranscriptionSchema.optional(),
+  /** Present when the answer was reused from the response cache instead of asking the model. */
+  cached: z.literal(true).optional(),
+});
+
+/**
+ * Schema for validating an in-progress image analysis response.
+ * Emitted while streaming; `text` holds the partial analysis received so far.
+ */
+const ImageAnalysisInProgressSchema = AIImageAnalysisResponseItemSchema.extend({
+  /** Discriminator flag shared with successful results. */
+  ok: z.literal(true),
+  /** Discriminator flag for an in-progress result. */
+  pending: z.literal(true),
+});
+
+/**
+ * Schema for validating an error image analysis response.
+ */
+const ImageAnalysisErrorSchema = z.object({
+  /** 0-based index of the image in the request payload. */
+  index: z.number(),
+  /** Discriminator flag for an error result. */
+  ok: z.literal(false),
+  /** Human-readable error message explaining why analysis failed. */
+  error: z.string(),
+  /** Machine-readable reason: a validation code for rejected images, or an analysis error code. */
+  code: z.union([ImageValidationErrorCodeSchema, AnalysisErrorCodeSchema]).optional(),
+});
+
+/**
+ * Schema for validating image analysis response item.
+ * Each result represents the outcome of analyzing a single image.
+ */
+export const ImageAnalysisResponseItemSchema = z.discriminatedUnion('ok', [
+  z.discriminatedUnion('pending', [ImageAnalysisSuccessSchema, ImageAnalysisInProgressSchema]),
+  ImageAnalysisErrorSchema,
+]);
+
+/**
+ *  Image analysis response item type
+ */
+export type ImageAnalysisResponseItem = z.infer<typeof ImageAnalysisResponseItemSchema>;
+
+/**
+ * Schema for the aggregate answer of the comparative and combined modes.
+ */
+export const AnalysisSummarySchema = z.object({
+  /** The aggregate answer, citing images by their 1-based request position as "[Image N]". */
+  text: z.string(),
+  /** 0-based request indexes of the cited images, in order of first citation. */
+  citations: z.array(z.number()),
+  /** When true, the text is partial and still being streamed. */
+  pending: z.boolean().optional(),
+});
+
+/**
+ * Analysis summary type
+ */
+export type AnalysisSummary = z.infer<typeof AnalysisSummarySchema>;
+
+/**
+ * Schema for a line of a streamed analysis: a per-image item, an update of the aggregate answer,
+ * the client's remaining rate limit and quota (sent first when rate limiting is enabled), the
+ * model usage of the analysis (sent last), or the prompt preset of the analysis.
+ */
+export const ImageAnalysisStreamEventSchema = z.union([
+  ImageAnalysisResponseItemSchema,
+  z.object({
+    /** The aggregate answer received so far. */
+    summary: AnalysisSummarySchema,
+  }),
+  z.object({
+    /** The rate limit and quota left after this request. */
+    quota: RateLimitStatusSchema,
+  }),
+  z.object({
+    /** The model, tokens, latency and estimated cost of the analysis. */
+    usage: AnalysisUsageSchema,
+  }),
+  z.object({
+    /** The prompt preset the answers are produced with. */
+    preset: PromptPresetRefSchema,
+  }),
+]);
+
+/**
+ * Image analysis stream event type
+ */
+export type ImageAnalysisStreamEvent = z.infer<typeof ImageAnalysisStreamEventSchema>;
+
+/**
+ * Schema for the full analysis response returned to the client.
+ * Wraps an array of per-image results that can either be successful or contain an error.
+ */
+export const ImageAnalysisResponseSchema = z.object({
+  /** Per-image analysis results mapped by index; items are success or error variants. */
+  results: z.array(ImageAnalysisResponseItemSchema),
+  /** The aggregate answer, in the comparative and combined modes. */
+  summary: AnalysisSummarySchema.optional(),
+  /** The rate limit and quota left after this request, when rate limiting is enabled. */
+  quota: RateLimitStatusSchema.optional(),
+  /** The model, tokens, latency and estimated cost, when the model was called. */
+  usage: AnalysisUsageSchema.optional(),
+  /** The prompt preset the answers were produced with, for reproducing them. */
+  preset: PromptPresetRefSchema.optional(),
+});
+
+/**
+ * Image analysis response type
+ */
+export type ImageAnalysisResponse = z.infer<typeof ImageAnalysisResponseSchema>;
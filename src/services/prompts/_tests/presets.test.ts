@@ -0,0 +1,74 @@
+import { loadPromptPresets, PROMPT_PRESETS, resolvePromptPreset } from '@/services/prompts/presets';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+
+describe('loadPromptPresets', () => {
+  let directory: string;
+  let file: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'presets-'));
+    file = path.join(directory, 'prompt-presets.json');
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('returns the built-in presets without a presets file', async () => {
+    expect(await loadPromptPresets(file)).toEqual(PROMPT_PRESETS);
+  });
+
+  it('adds saved presets and replaces built-in presets with the same id', async () => {
+    const succinct = {
+      id: 'succinct',
+      version: 2,
+      name: 'Succinct',
+      description: 'One sentence.',
+      systemPrompt: 'Answer in one sentence.',
+    };
+    const labels = {
+      id: 'shelf-labels',
+      version: 1,
+      name: 'Shelf labels',
+      description: 'Reads shelf labels.',
+      systemPrompt: 'Read the price and product on each shelf label.',
+      temperature: 0,
+      constraints: { maxOutputTokens: 500 },
+    };
+    await writeFile(file, JSON.stringify([succinct, labels]));
+
+    const presets = await loadPromptPresets(file);
+
+    expect(presets[0]).toEqual({ ...succinct, constraints: {} });
+    expect(presets.at(-1)).toEqual(labels);
+    expect(presets).toHaveLength(PROMPT_PRESETS.length + 1);
+  });
+
+  it('ignores an invalid presets file', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    await writeFile(file, JSON.stringify([{ id: 'broken' }]));
+
+    expect(await loadPromptPresets(file)).toEqual(PROMPT_PRESETS);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe('resolvePromptPreset', () => {
+  const file = path.join(tmpdir(), 'missing-prompt-presets.json');
+
+  it('resolves the default preset when none is requested', async () => {
+    const resolution = await resolvePromptPreset(undefined, file);
+
+    expect(resolution.ok && resolution.preset.id).toBe('succinct');
+  });
+
+  it('rejects unknown presets', async () => {
+    expect(await resolvePromptPreset('poetry', file)).toEqual({
+      ok: false,
+      message: 'Unknown prompt preset "poetry".',
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { PROMPT_PRESETS_FILE } from '@/services/config/config';
+import {
+  DEFAULT_PROMPT_PRESET_ID,
+  PromptPreset,
+  PromptPresetSchema,
+} from '@/services/prompts/schemas';
+import { readFile } from 'fs/promises';
+import { z } from 'zod';
+
+/**
+ * Built-in prompt presets for the questions the app is most often asked.
+ */
+export const PROMPT_PRESETS: PromptPreset[] = [
+  {
+    id: DEFAULT_PROMPT_PRESET_ID,
+    version: 1,
+    name: 'Succinct',
+    description: 'Short, specific answers.',
+    systemPrompt:
+      'You answer questions about images. Keep every answer succinct and to the point. If counting or listing, be specific.',
+    temperature: 0.2,
+    constraints: { maxWords: 60 },
+  },
+  {
+    id: 'detailed',
+    version: 1,
+    name: 'Detailed description',
+    description: 'Thorough answers covering subjects, setting, text and notable details.',
+    systemPrompt:
+      'You answer questions about images in detail. Describe the relevant subjects, their positions and relationships, the setting, colours, any visible text and anything unusual. Organize longer answers in short paragraphs.',
+    temperature: 0.5,
+    constraints: { maxOutputTokens: 2000 },
+  },
+  {
+    id: 'alt-text',
+    version: 1,
+    name: 'Accessibility alt text',
+    description: 'One-sentence alt text for screen reader users.',
+    systemPrompt:
+      'You write alt text for screen reader users. Describe what the image shows and what matters about it in one plain sentence, without starting with "Image of" or "Picture of". Include essential visible text.',
+    temperature: 0.2,
+    constraints: { maxWords: 25 },
+  },
+  {
+    id: 'ocr',
+    version: 1,
+    name: 'OCR transcription',
+    description: 'Verbatim transcription of the visible text.',
+    systemPrompt:
+      'You transcribe the text in images. Reproduce all visible text verbatim in reading order, keeping line breaks. Do not summarize, translate or correct it. Write [illegible] for text that cannot be read.',
+    temperature: 0,
+    constraints: {},
+  },
+  {
+    id: 'safety-review',
+    version: 1,
+    name: 'Safety review',
+    description: 'Lists safety concerns with a severity for each.',
+    systemPrompt:
+      'You review images for safety concerns: hazards to people, unsafe practices, exposed personal data and content unsuitable for a general audience. List each concern with a severity of low, medium or high and a short reason, or answer "No concerns found."',
+    temperature: 0,
+    constraints: { maxWords: 120 },
+  },
+];
+
+/**
+ * Returns true when the error is a missing file error.
+ */
+const isNotFound = (error: unknown) =>
+  typeof error === 'object' && error !== null && 'code' in error && error.code === 'ENOENT';
+
+/**
+ * Loads the prompt presets: the built-in presets, with presets from the presets file added or
+ * replacing the built-in preset with the same id. An invalid file is reported and ignored.
+ *
+ * @param file - The JSON presets file; optional.
+ * @returns The presets, built-in presets first.
+ */
+export const loadPromptPresets = async (file = PROMPT_PRESETS_FILE): Promise<PromptPreset[]> => {
+  let saved: PromptPreset[] = [];
+  try {
+    saved = z.array(PromptPresetSchema).parse(JSON.parse(await readFile(file, 'utf8')));
+  } catch (error) {
+    if (!isNotFound(error)) console.warn(`Ignoring invalid prompt presets in ${file}.`, error);
+  }
+  return [
+    ...PROMPT_PRESETS.map(preset => saved.find(({ id }) => id === preset.id) ?? preset),
+    ...saved.filter(({ id }) => !PROMPT_PRESETS.some(preset => preset.id === id)),
+  ];
+};
+
+/**
+ * Result of resolving the preset of an analysis request.
+ */
+export type PromptPresetResolution =
+  | { ok: true; preset: PromptPreset }
+  | { ok: false; message: string };
+
+/**
+ * Looks up the preset of an analysis request.
+ *
+ * @param id - The requested preset id; the default preset when absent.
+ * @param file - The JSON presets file; optional.
+ * @returns The preset, or a message explaining that no preset has that id.
+ */
+export const resolvePromptPreset = async (
+  id = DEFAULT_PROMPT_PRESET_ID,
+  file = PROMPT_PRESETS_FILE
+): Promise<PromptPresetResolution> => {
+  const preset = (await loadPromptPresets(file)).find(p => p.id === id);
+  return preset ? { ok: true, preset } : { ok: false, message: `Unknown prompt preset "${id}".` };
+};
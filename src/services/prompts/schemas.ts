@@ -0,0 +1,76 @@
+import { z } from 'zod';
+
+/**
+ * Id of the preset used when a request does not choose one.
+ */
+export const DEFAULT_PROMPT_PRESET_ID = 'succinct';
+
+/**
+ * Schema for the limits a preset places on the model's answers.
+ */
+export const PromptOutputConstraintsSchema = z.object({
+  /** Max tokens the model may generate per call. */
+  maxOutputTokens: z.number().int().positive().optional(),
+  /** Max words per answer, stated in the instructions. */
+  maxWords: z.number().int().positive().optional(),
+});
+
+/**
+ * Prompt output constraints type
+ */
+export type PromptOutputConstraints = z.infer<typeof PromptOutputConstraintsSchema>;
+
+/**
+ * Schema for a saved prompt preset: how the model is instructed to answer.
+ */
+export const PromptPresetSchema = z.object({
+  /** Unique id, referenced by `presetId` in requests. */
+  id: z.string().min(1),
+  /** Incremented whenever the prompt or settings change, so results can be reproduced. */
+  version: z.number().int().positive(),
+  /** Display name. */
+  name: z.string().min(1),
+  /** What the preset is for. */
+  description: z.string(),
+  /** System prompt sent with every analysis. */
+  systemPrompt: z.string().min(1),
+  /** Sampling temperature; the provider default when absent. */
+  temperature: z.number().min(0).max(2).optional(),
+  /** Limits on the answers. */
+  constraints: PromptOutputConstraintsSchema.default({}),
+});
+
+/**
+ * Prompt preset type
+ */
+export type PromptPreset = z.infer<typeof PromptPresetSchema>;
+
+/**
+ * Schema for the preset a result was produced with.
+ */
+export const PromptPresetRefSchema = z.object({
+  /** The preset id. */
+  id: z.string(),
+  /** The preset version. */
+  version: z.number(),
+});
+
+/**
+ * Prompt preset reference type
+ */
+export type PromptPresetRef = z.infer<typeof PromptPresetRefSchema>;
+
+/**
+ * Schema for a preset as offered to clients, without its prompt and settings.
+ */
+export const PromptPresetOptionSchema = PromptPresetSchema.pick({
+  id: true,
+  version: true,
+  name: true,
+  description: true,
+});
+
+/**
+ * Prompt preset option type
+ */
+export type PromptPresetOption = z.infer<typeof PromptPresetOptionSchema>;
@@ -0,0 +1,58 @@
+import { createFileRateLimitStore } from '@/services/rateLimit/fileRateLimitStore';
+import { RateLimitRecord } from '@/services/rateLimit/schemas';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+
+const record = (images: number, refilledAt = 1000): RateLimitRecord => ({
+  bucket: 5,
+  refilledAt,
+  day: '1970-01-01',
+  images,
+  tokens: 0,
+});
+
+describe('createFileRateLimitStore', () => {
+  let directory: string;
+  let file: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'rate-limits-'));
+    file = path.join(directory, 'nested', 'rate-limits.json');
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('persists usage across store instances', async () => {
+    await createFileRateLimitStore(file, () => 2000).update('ip:a', () => record(3));
+
+    const store = createFileRateLimitStore(file, () => 2000);
+    expect(await store.get('ip:a')).toEqual(record(3));
+    expect(await store.get('ip:b')).toBeUndefined();
+  });
+
+  it('applies concurrent updates of a key one at a time', async () => {
+    const store = createFileRateLimitStore(file, () => 2000);
+
+    await Promise.all(
+      Array.from({ length: 5 }, () =>
+        store.update('ip:a', current => record((current?.images ?? 0) + 1))
+      )
+    );
+
+    expect((await store.get('ip:a'))?.images).toBe(5);
+  });
+
+  it('drops records untouched for two days', async () => {
+    const clock = { now: 2000 };
+    const store = createFileRateLimitStore(file, () => clock.now);
+    await store.update('ip:old', () => record(1, 1000));
+
+    clock.now = 1000 + 2 * 24 * 60 * 60 * 1000;
+    await store.update('ip:new', () => record(2, clock.now));
+
+    expect(Object.keys(JSON.parse(await readFile(file, 'utf8')))).toEqual(['ip:new']);
+  });
+});
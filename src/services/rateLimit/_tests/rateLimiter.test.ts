@@ -0,0 +1,149 @@
+import { createMemoryRateLimitStore } from '@/services/rateLimit/memoryRateLimitStore';
+import { clientRateLimitKey, createRateLimiter } from '@/services/rateLimit/rateLimiter';
+
+/**
+ * 2024-01-01T00:00:00Z
+ */
+const MIDNIGHT = Date.UTC(2024, 0, 1);
+
+/**
+ * Creates a limiter over a fresh memory store with a controllable clock.
+ */
+const setup = (limits: Partial<Parameters<typeof createRateLimiter>[1]> = {}) => {
+  const clock = { now: MIDNIGHT + 60000 };
+  const limiter = createRateLimiter(createMemoryRateLimitStore(), {
+    burst: 2,
+    perMinute: 6,
+    dailyImages: 10,
+    dailyTokens: 1000,
+    now: () => clock.now,
+    ...limits,
+  });
+  return { limiter, clock };
+};
+
+describe('createRateLimiter', () => {
+  it('admits a burst of requests, then rejects until the bucket refills', async () => {
+    const { limiter, clock } = setup();
+
+    expect(await limiter.consume('a', { images: 1, tokens: 10 })).toMatchObject({
+      allowed: true,
+      retryAfterMs: 0,
+      requests: { limit: 2, remaining: 1 },
+    });
+    expect(await limiter.consume('a', { images: 1, tokens: 10 })).toMatchObject({
+      allowed: true,
+      retryAfterMs: 10000,
+      requests: { remaining: 0 },
+    });
+    expect(await limiter.consume('a', { images: 1, tokens: 10 })).toMatchObject({
+      allowed: false,
+      reason: 'requests',
+      retryAfterMs: 10000,
+      images: { remaining: 8 },
+    });
+
+    // 6 per minute: one request every 10 seconds
+    clock.now += 10000;
+    expect(await limiter.consume('a', { images: 1, tokens: 10 })).toMatchObject({ allowed: true });
+  });
+
+  it('keeps separate limits per key', async () => {
+    const { limiter } = setup({ burst: 1 });
+
+    await limiter.consume('a', { images: 1, tokens: 0 });
+
+    expect((await limiter.consume('a', { images: 1, tokens: 0 })).allowed).toBe(false);
+    expect((await limiter.consume('b', { images: 1, tokens: 0 })).allowed).toBe(true);
+  });
+
+  it('enforces the daily image and token quotas until midnight UTC', async () => {
+    const { limiter, clock } = setup({ burst: 100 });
+
+    await limiter.consume('a', { images: 8, tokens: 100 });
+    expect(await limiter.consume('a', { images: 3, tokens: 100 })).toMatchObject({
+      allowed: false,
+      reason: 'images',
+      images: { remaining: 2 },
+    });
+    expect(await limiter.consume('a', { images: 2, tokens: 950 })).toMatchObject({
+      allowed: false,
+      reason: 'tokens',
+      tokens: { remaining: 900 },
+    });
+    const spent = await limiter.consume('a', { images: 2, tokens: 100 });
+    expect(spent).toMatchObject({ allowed: true, images: { remaining: 0 } });
+    expect(spent.retryAfterMs).toBe(spent.resetAt - clock.now);
+    expect(spent.resetAt).toBe(MIDNIGHT + 24 * 60 * 60 * 1000);
+
+    clock.now = spent.resetAt;
+    expect(await limiter.consume('a', { images: 4, tokens: 100 })).toMatchObject({
+      allowed: true,
+      images: { remaining: 6 },
+    });
+  });
+
+  it('replaces the estimated tokens with the tokens used the same day', async () => {
+    const { limiter, clock } = setup({ burst: 100 });
+
+    const { resetAt } = await limiter.consume('a', { images: 1, tokens: 300 });
+    await limiter.settle('a', { estimated: 300, used: 120, resetAt });
+    expect((await limiter.check('a')).tokens.remaining).toBe(880);
+
+    // Requests admitted before the daily reset are not settled against the new day's usage
+    clock.now = resetAt;
+    await limiter.consume('a', { images: 1, tokens: 300 });
+    await limiter.settle('a', { estimated: 300, used: 120, resetAt });
+    expect((await limiter.check('a')).tokens.remaining).toBe(700);
+  });
+
+  it('checks the status without using the limits', async () => {
+    const { limiter } = setup({ burst: 1 });
+
+    expect(await limiter.check('a')).toMatchObject({ allowed: true, requests: { remaining: 1 } });
+    expect(await limiter.check('a')).toMatchObject({ allowed: true, requests: { remaining: 1 } });
+    await limiter.consume('a', { images: 1, tokens: 0 });
+    expect(await limiter.check('a')).toMatchObject({ allowed: false, reason: 'requests' });
+  });
+
+  it("reports today's usage of every key, heaviest first", async () => {
+    const { limiter, clock } = setup();
+
+    await limiter.consume('old', { images: 9, tokens: 10 });
+    clock.now += 24 * 60 * 60 * 1000;
+    await limiter.consume('a', { images: 1, tokens: 10 });
+    await limiter.consume('b', { images: 3, tokens: 30 });
+    await limiter.check('c');
+
+    expect(await limiter.dailyUsage()).toEqual([
+      { key: 'b', images: 3, tokens: 30 },
+      { key: 'a', images: 1, tokens: 10 },
+    ]);
+  });
+});
+
+describe('clientRateLimitKey', () => {
+  it('keys clients by the first forwarded address behind a trusted proxy', () => {
+    const forwarded = new Headers({ 'x-forwarded-for': '203.0.113.7, 10.0.0.1' });
+    expect(clientRateLimitKey(forwarded, undefined, true)).toBe('ip:203.0.113.7');
+    expect(clientRateLimitKey(new Headers({ 'x-real-ip': '198.51.100.2' }), undefined, true)).toBe(
+      'ip:198.51.100.2'
+    );
+    expect(clientRateLimitKey(new Headers(), undefined, true)).toBe('ip:unknown');
+  });
+
+  it('ignores the forwarded headers without a trusted proxy', () => {
+    const forwarded = new Headers({
+      'x-forwarded-for': '203.0.113.7',
+      'x-real-ip': '198.51.100.2',
+    });
+    expect(clientRateLimitKey(forwarded, undefined, false)).toBe('anonymous');
+  });
+
+  it('keys signed-in users by their id', () => {
+    const user = { id: 'oidc:42', name: 'Ada', role: 'user' as const };
+    expect(clientRateLimitKey(new Headers({ 'x-real-ip': '198.51.100.2' }), user)).toBe(
+      'user:oidc:42'
+    );
+  });
+});
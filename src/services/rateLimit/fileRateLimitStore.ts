@@ -0,0 +1,81 @@
+import { RATE_LIMIT_FILE } from '@/services/config/config';
+import { RateLimitStore } from '@/services/rateLimit/rateLimitStore';
+import { RateLimitRecord, RateLimitRecordSchema } from '@/services/rateLimit/schemas';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+
+/**
+ * Records untouched for longer than this are dropped on write: their daily usage has reset
+ * and their bucket has refilled.
+ */
+const STALE_RECORD_MS = 2 * 24 * 60 * 60 * 1000;
+
+/**
+ * Schema for the rate limit file: usage keyed by user or IP.
+ */
+const RateLimitFileSchema = z.record(z.string(), RateLimitRecordSchema);
+
+/**
+ * Returns true when the error is a missing file error.
+ */
+const isNotFound = (error: unknown) =>
+  typeof error === 'object' && error !== null && 'code' in error && error.code === 'ENOENT';
+
+/**
+ * Creates a rate limit store that keeps the usage of every key in one JSON file, so limits
+ * survive restarts. Updates are applied one at a time and written atomically (to a temporary
+ * file, then renamed).
+ *
+ * @param file - The JSON file; created on first write.
+ * @param now - Returns the current time, used to drop stale records.
+ * @returns A RateLimitStore implementation.
+ */
+export const createFileRateLimitStore = (
+  file = RATE_LIMIT_FILE,
+  now = Date.now
+): RateLimitStore => {
+  // Serializes read-modify-write cycles
+  let queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Reads every record, treating a missing file as empty.
+   */
+  const readRecords = async (): Promise<Record<string, RateLimitRecord>> => {
+    try {
+      return RateLimitFileSchema.parse(JSON.parse(await readFile(file, 'utf8')));
+    } catch (error) {
+      if (isNotFound(error)) return {};
+      throw error;
+    }
+  };
+
+  /**
+   * Writes every record that is not stale, atomically.
+   */
+  const writeRecords = async (records: Record<string, RateLimitRecord>) => {
+    const fresh = Object.entries(records).filter(
+      ([, record]) => now() - record.refilledAt < STALE_RECORD_MS
+    );
+    await mkdir(path.dirname(file), { recursive: true });
+    const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await writeFile(tmp, JSON.stringify(Object.fromEntries(fresh)));
+    await rename(tmp, file);
+  };
+
+  return {
+    get: async key => (await readRecords())[key],
+    update: (key, update) => {
+      const result = queue.then(async () => {
+        const records = await readRecords();
+        const record = update(records[key]);
+        await writeRecords({ ...records, [key]: record });
+        return record;
+      });
+      // Keep the queue going after a failed update
+      queue = result.catch(() => undefined);
+      return result;
+    },
+    list: async () => Object.entries(await readRecords()),
+  };
+};
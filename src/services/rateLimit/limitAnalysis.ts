@@ -0,0 +1,100 @@
+import { parseDataUrl, readImageDimensions } from '@/lib/images';
+import { CONTEXT_TOKEN_BUDGET, RATE_LIMIT_ENABLED } from '@/services/config/config';
+import { estimateImageTokens } from '@/services/images/normalizeImage';
+import { DEFAULT_IMAGE_TOKENS, estimateTextTokens } from '@/services/openai/conversationContext';
+import { ImageAnalysisRequest } from '@/services/openai/schemas';
+import { rateLimiter } from '@/services/rateLimit/rateLimiter';
+import { RateLimitStatus } from '@/services/rateLimit/schemas';
+
+/**
+ * Estimates the tokens of an image from its header, before it is normalized.
+ */
+const estimateDataUrlTokens = (dataUrl: string) => {
+  const bytes = parseDataUrl(dataUrl)?.bytes;
+  const dimensions = bytes && readImageDimensions(bytes);
+  return dimensions ? estimateImageTokens(dimensions) : DEFAULT_IMAGE_TOKENS;
+};
+
+/**
+ * Estimates the input tokens of an analysis request: the question and images, plus the
+ * conversation history up to the context token budget.
+ *
+ * @param request - The validated analysis request.
+ * @returns The estimated token count.
+ */
+export const estimateRequestTokens = ({ question, images, history = [] }: ImageAnalysisRequest) => {
+  const historyTokens = history.reduce(
+    (total, message) =>
+      total +
+      (message.role === 'user'
+        ? estimateTextTokens(message.question) +
+          message.images.reduce((sum, image) => sum + estimateDataUrlTokens(image), 0)
+        : estimateTextTokens(message.results.map(r => r.text ?? '').join('\n'))),
+    0
+  );
+  return (
+    estimateTextTokens(question) +
+    images.reduce((sum, image) => sum + estimateDataUrlTokens(image), 0) +
+    Math.min(historyTokens, CONTEXT_TOKEN_BUDGET)
+  );
+};
+
+/**
+ * Applies the rate limit and daily quotas of a client to an analysis request.
+ *
+ * @param key - The rate limit key of the user or IP.
+ * @param request - The validated analysis request.
+ * @returns The status after the request, or undefined when rate limiting is disabled.
+ */
+export const limitAnalysis = async (
+  key: string,
+  request: ImageAnalysisRequest
+): Promise<RateLimitStatus | undefined> =>
+  RATE_LIMIT_ENABLED
+    ? rateLimiter.consume(key, {
+        images: request.images.length,
+        tokens: estimateRequestTokens(request),
+      })
+    : undefined;
+
+/**
+ * Applies the rate limit of a client to a request that does not call the model, such as
+ * rasterizing a document; it uses none of the daily quotas.
+ *
+ * @param key - The rate limit key of the user or IP.
+ * @returns The status after the request, or undefined when rate limiting is disabled.
+ */
+export const limitRequest = async (key: string): Promise<RateLimitStatus | undefined> =>
+  RATE_LIMIT_ENABLED ? rateLimiter.consume(key, { images: 0, tokens: 0 }) : undefined;
+
+/**
+ * Replaces the estimated tokens charged for an admitted analysis with the tokens the model
+ * reported; analyses answered from the cache, or without calling the model, use none.
+ *
+ * @param key - The rate limit key of the user or IP.
+ * @param quota - The status limitAnalysis admitted the request with, if rate limiting is enabled.
+ * @param request - The validated analysis request, as charged by limitAnalysis.
+ * @param usedTokens - Total tokens the model reported for the analysis.
+ */
+export const settleAnalysis = async (
+  key: string,
+  quota: RateLimitStatus | undefined,
+  request: ImageAnalysisRequest,
+  usedTokens: number
+): Promise<void> => {
+  if (!quota?.allowed) return;
+  await rateLimiter.settle(key, {
+    estimated: estimateRequestTokens(request),
+    used: usedTokens,
+    resetAt: quota.resetAt,
+  });
+};
+
+/**
+ * Reports the rate limit and quota status of a client without using it.
+ *
+ * @param key - The rate limit key of the user or IP.
+ * @returns The status, or undefined when rate limiting is disabled.
+ */
+export const checkRateLimit = async (key: string): Promise<RateLimitStatus | undefined> =>
+  RATE_LIMIT_ENABLED ? rateLimiter.check(key) : undefined;
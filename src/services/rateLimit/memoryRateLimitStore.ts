@@ -0,0 +1,21 @@
+import { RateLimitStore } from '@/services/rateLimit/rateLimitStore';
+import { RateLimitRecord } from '@/services/rateLimit/schemas';
+
+/**
+ * Creates a rate limit store that keeps usage in memory. Usage is per server process and does
+ * not survive a restart.
+ *
+ * @returns A RateLimitStore implementation.
+ */
+export const createMemoryRateLimitStore = (): RateLimitStore => {
+  const records = new Map<string, RateLimitRecord>();
+  return {
+    get: async key => records.get(key),
+    update: async (key, update) => {
+      const record = update(records.get(key));
+      records.set(key, record);
+      return record;
+    },
+    list: async () => [...records.entries()],
+  };
+};
@@ -0,0 +1,19 @@
+import { RateLimitRecord } from '@/services/rateLimit/schemas';
+
+/**
+ * Storage for the rate limit usage of each user or IP.
+ */
+export interface RateLimitStore {
+  /** Returns the usage recorded for a key, or undefined when there is none. */
+  get(key: string): Promise<RateLimitRecord | undefined>;
+  /**
+   * Replaces the usage of a key with the result of `update`, which receives the current usage
+   * (undefined for a new key). Updates of the same key are applied one at a time.
+   */
+  update(
+    key: string,
+    update: (record: RateLimitRecord | undefined) => RateLimitRecord
+  ): Promise<RateLimitRecord>;
+  /** Returns the usage of every key. */
+  list(): Promise<[string, RateLimitRecord][]>;
+}
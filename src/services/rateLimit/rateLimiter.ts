@@ -0,0 +1,220 @@
+import { SessionUser } from '@/services/auth/schemas';
+import {
+  QUOTA_DAILY_IMAGES,
+  QUOTA_DAILY_TOKENS,
+  RATE_LIMIT_BURST,
+  RATE_LIMIT_PER_MINUTE,
+  RATE_LIMIT_STORE,
+  RATE_LIMIT_TRUST_PROXY,
+} from '@/services/config/config';
+import { createFileRateLimitStore } from '@/services/rateLimit/fileRateLimitStore';
+import { createMemoryRateLimitStore } from '@/services/rateLimit/memoryRateLimitStore';
+import { RateLimitStore } from '@/services/rateLimit/rateLimitStore';
+import {
+  DailyUsage,
+  RateLimitReason,
+  RateLimitRecord,
+  RateLimitStatus,
+} from '@/services/rateLimit/schemas';
+
+/**
+ * Limits applied by a rate limiter.
+ */
+export interface RateLimiterOptions {
+  /** Max requests in a burst: the size of the token bucket. */
+  burst: number;
+  /** Sustained requests per minute: the bucket refill rate. */
+  perMinute: number;
+  /** Max images per UTC day. */
+  dailyImages: number;
+  /** Max estimated model tokens per UTC day. */
+  dailyTokens: number;
+  /** Returns the current time; defaults to Date.now. */
+  now?: () => number;
+}
+
+/**
+ * The resources one analysis request uses.
+ */
+export interface RateLimitUsage {
+  /** Number of images analyzed. */
+  images: number;
+  /** Estimated model tokens. */
+  tokens: number;
+}
+
+/**
+ * Applies a request rate limit and daily quotas per user or IP.
+ */
+export interface RateLimiter {
+  /** Reports the status of a key without using any of its limits. */
+  check(key: string): Promise<RateLimitStatus>;
+  /** Admits a request when it fits every limit, recording its usage; rejected requests use nothing. */
+  consume(key: string, usage: RateLimitUsage): Promise<RateLimitStatus>;
+  /**
+   * Replaces the estimated tokens of an admitted request with the tokens it used, unless the
+   * daily quota it was charged to has reset since.
+   */
+  settle(key: string, tokens: { estimated: number; used: number; resetAt: number }): Promise<void>;
+  /** Reports today's usage of every key that has used anything, heaviest users first. */
+  dailyUsage(): Promise<DailyUsage[]>;
+}
+
+/**
+ * Returns the UTC day of a timestamp as YYYY-MM-DD.
+ */
+const utcDay = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+/**
+ * Returns the timestamp of the next midnight UTC.
+ */
+const nextUtcMidnight = (time: number) => {
+  const date = new Date(time);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+};
+
+/**
+ * Creates a token bucket rate limiter with daily image and token quotas.
+ *
+ * Each request takes one token from the key's bucket, which holds up to `burst` tokens and
+ * refills continuously at `perMinute` tokens per minute. Images and estimated tokens are counted
+ * per UTC day.
+ *
+ * @param store - Where the usage of each key is kept.
+ * @param options - The limits.
+ * @returns A RateLimiter.
+ */
+export const createRateLimiter = (
+  store: RateLimitStore,
+  { burst, perMinute, dailyImages, dailyTokens, now = Date.now }: RateLimiterOptions
+): RateLimiter => {
+  /**
+   * Brings a record up to date: refills the bucket and starts a new day's usage.
+   */
+  const refill = (record: RateLimitRecord | undefined, time: number): RateLimitRecord => {
+    const day = utcDay(time);
+    if (!record) return { bucket: burst, refilledAt: time, day, images: 0, tokens: 0 };
+    const elapsedMinutes = Math.max(0, time - record.refilledAt) / 60000;
+    return {
+      bucket: Math.min(burst, record.bucket + elapsedMinutes * perMinute),
+      refilledAt: time,
+      day,
+      images: record.day === day ? record.images : 0,
+      tokens: record.day === day ? record.tokens : 0,
+    };
+  };
+
+  /**
+   * Returns the limit a request would exceed, if any.
+   */
+  const exceededLimit = (
+    record: RateLimitRecord,
+    { images, tokens }: RateLimitUsage
+  ): RateLimitReason | undefined => {
+    if (record.bucket < 1) return 'requests';
+    if (record.images + images > dailyImages) return 'images';
+    if (record.tokens + tokens > dailyTokens) return 'tokens';
+    return undefined;
+  };
+
+  /**
+   * Reports the status of an up-to-date record.
+   */
+  const statusOf = (
+    record: RateLimitRecord,
+    time: number,
+    reason?: RateLimitReason
+  ): RateLimitStatus => {
+    const resetAt = nextUtcMidnight(time);
+    const quotaSpent = record.images >= dailyImages || record.tokens >= dailyTokens;
+    const bucketWait = record.bucket < 1 ? Math.ceil(((1 - record.bucket) * 60000) / perMinute) : 0;
+    return {
+      allowed: !reason,
+      ...(reason && { reason }),
+      retryAfterMs: Math.max(bucketWait, quotaSpent ? resetAt - time : 0),
+      requests: { limit: burst, remaining: Math.floor(record.bucket) },
+      images: { limit: dailyImages, remaining: Math.max(0, dailyImages - record.images) },
+      tokens: { limit: dailyTokens, remaining: Math.max(0, dailyTokens - record.tokens) },
+      resetAt,
+    };
+  };
+
+  return {
+    check: async key => {
+      const time = now();
+      const record = refill(await store.get(key), time);
+      return statusOf(record, time, exceededLimit(record, { images: 1, tokens: 0 }));
+    },
+    consume: async (key, usage) => {
+      const time = now();
+      let reason: RateLimitReason | undefined;
+      const record = await store.update(key, current => {
+        const refilled = refill(current, time);
+        reason = exceededLimit(refilled, usage);
+        if (reason) return refilled;
+        return {
+          ...refilled,
+          bucket: refilled.bucket - 1,
+          images: refilled.images + usage.images,
+          tokens: refilled.tokens + usage.tokens,
+        };
+      });
+      return statusOf(record, time, reason);
+    },
+    settle: async (key, { estimated, used, resetAt }) => {
+      const time = now();
+      await store.update(key, current =>
+        current && current.day === utcDay(time) && time < resetAt
+          ? { ...current, tokens: Math.max(0, current.tokens - estimated + used) }
+          : refill(current, time)
+      );
+    },
+    dailyUsage: async () => {
+      const day = utcDay(now());
+      return (await store.list())
+        .filter(([, record]) => record.day === day && (record.images > 0 || record.tokens > 0))
+        .map(([key, { images, tokens }]) => ({ key, images, tokens }))
+        .sort((a, b) => b.images - a.images || b.tokens - a.tokens);
+    },
+  };
+};
+
+/**
+ * Returns the rate limit key of a client: the signed-in user, or else, behind a trusted proxy,
+ * the first address in X-Forwarded-For, or X-Real-IP. Clients can set these headers themselves,
+ * so without a trusted proxy anonymous clients share one key.
+ *
+ * @param headers - The request headers.
+ * @param user - The signed-in user, if any.
+ * @param trustProxy - Whether the forwarded headers are set by a trusted proxy.
+ * @returns The key, e.g. "user:oidc:1234", "ip:203.0.113.7" or "anonymous".
+ */
+export const clientRateLimitKey = (
+  headers: Headers,
+  user?: SessionUser,
+  trustProxy = RATE_LIMIT_TRUST_PROXY
+) => {
+  if (user) return `user:${user.id}`;
+  if (!trustProxy) return 'anonymous';
+  const ip =
+    headers.get('x-forwarded-for')?.split(',')[0].trim() || headers.get('x-real-ip')?.trim();
+  return `ip:${ip || 'unknown'}`;
+};
+
+/**
+ * Shared limiter, kept on globalThis so every route bundle and server action sees the same usage.
+ */
+const globalForRateLimits = globalThis as { rateLimiter?: RateLimiter };
+
+/**
+ * The server's rate limiter, configured from the environment.
+ */
+export const rateLimiter = (globalForRateLimits.rateLimiter ??= createRateLimiter(
+  RATE_LIMIT_STORE === 'file' ? createFileRateLimitStore() : createMemoryRateLimitStore(),
+  {
+    burst: RATE_LIMIT_BURST,
+    perMinute: RATE_LIMIT_PER_MINUTE,
+    dailyImages: QUOTA_DAILY_IMAGES,
+    dailyTokens: QUOTA_DAILY_TOKENS,
+  }
+));
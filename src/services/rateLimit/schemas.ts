@@ -0,0 +1,108 @@
+import { z } from 'zod';
+
+/**
+ * Schema for the usage of one limit.
+ */
+const QuotaUsageSchema = z.object({
+  /** The configured limit. */
+  limit: z.number(),
+  /** How much of the limit is left. */
+  remaining: z.number(),
+});
+
+/**
+ * Schema for the limit that rejected a request:
+ * - requests: the short-term request rate (token bucket)
+ * - images: the daily image quota
+ * - tokens: the daily token quota
+ */
+export const RateLimitReasonSchema = z.enum(['requests', 'images', 'tokens']);
+
+/**
+ * Rate limit reason type
+ */
+export type RateLimitReason = z.infer<typeof RateLimitReasonSchema>;
+
+/**
+ * Schema for the rate limit and quota status of a user or IP, reported with analysis responses.
+ */
+export const RateLimitStatusSchema = z.object({
+  /** Whether the request was admitted (or, when only checking, whether one would be). */
+  allowed: z.boolean(),
+  /** The limit that rejected the request, when it was not admitted. */
+  reason: RateLimitReasonSchema.optional(),
+  /** Milliseconds until another request can be made; 0 when one can be made now. */
+  retryAfterMs: z.number(),
+  /** Requests left in the token bucket. */
+  requests: QuotaUsageSchema,
+  /** Images left in the daily quota. */
+  images: QuotaUsageSchema,
+  /** Model tokens left in the daily quota. */
+  tokens: QuotaUsageSchema,
+  /** Timestamp of the next daily quota reset (midnight UTC). */
+  resetAt: z.number(),
+});
+
+/**
+ * Rate limit status type
+ */
+export type RateLimitStatus = z.infer<typeof RateLimitStatusSchema>;
+
+/**
+ * Schema for the usage recorded for one user or IP.
+ */
+export const RateLimitRecordSchema = z.object({
+  /** Requests left in the token bucket, possibly fractional. */
+  bucket: z.number(),
+  /** Timestamp the bucket was last refilled. */
+  refilledAt: z.number(),
+  /** UTC day the daily usage belongs to, as YYYY-MM-DD. */
+  day: z.string(),
+  /** Images analyzed that day. */
+  images: z.number(),
+  /** Model tokens used that day, estimated until the requests settle. */
+  tokens: z.number(),
+});
+
+/**
+ * Rate limit record type
+ */
+export type RateLimitRecord = z.infer<typeof RateLimitRecordSchema>;
+
+/**
+ * Schema for the daily usage of one user or IP, reported to admins.
+ */
+export const DailyUsageSchema = z.object({
+  /** The rate limit key, e.g. "user:oidc:1234" or "ip:203.0.113.7". */
+  key: z.string(),
+  /** Images analyzed today. */
+  images: z.number(),
+  /** Model tokens used today. */
+  tokens: z.number(),
+});
+
+/**
+ * Daily usage type
+ */
+export type DailyUsage = z.infer<typeof DailyUsageSchema>;
+
+/**
+ * Describes why a request was rejected by the rate limit, for display.
+ *
+ * @param status - The status of a rejected request.
+ * @returns A user-facing message.
+ */
+export const describeRateLimit = ({ reason, retryAfterMs, images }: RateLimitStatus) => {
+  switch (reason) {
+    case 'requests':
+      return `Too many requests. Try again in ${Math.ceil(retryAfterMs / 1000)} seconds.`;
+    case 'images':
+      return images.remaining > 0
+        ? `Only ${images.remaining} images are left in today's quota.`
+        : `The daily quota of ${images.limit} images has been used. It resets at midnight UTC.`;
+    case 'tokens':
+      return "Today's token quota has been used. It resets at midnight UTC.";
+    default:
+      return 'The rate limit has been reached.';
+  }
+};
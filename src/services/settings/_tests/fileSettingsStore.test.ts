@@ -0,0 +1,36 @@
+import { createFileSettingsStore } from '@/services/settings/fileSettingsStore';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+
+describe('createFileSettingsStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'settings-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('returns empty settings for unknown users and before the file exists', async () => {
+    const store = createFileSettingsStore(path.join(directory, 'settings.json'));
+
+    expect(await store.get('u1')).toEqual({});
+  });
+
+  it('keeps the settings of each user apart', async () => {
+    const file = path.join(directory, 'nested', 'settings.json');
+    const store = createFileSettingsStore(file);
+
+    await Promise.all([
+      store.update('u1', { model: 'openai:gpt-4o' }),
+      store.update('u2', { model: 'mock:vision' }),
+    ]);
+
+    expect(await store.get('u1')).toEqual({ model: 'openai:gpt-4o' });
+    expect(await createFileSettingsStore(file).get('u2')).toEqual({ model: 'mock:vision' });
+    expect(Object.keys(JSON.parse(await readFile(file, 'utf8')))).toEqual(['u1', 'u2']);
+  });
+});
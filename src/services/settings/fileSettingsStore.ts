@@ -0,0 +1,86 @@
+import { SETTINGS_FILE } from '@/services/config/config';
+import { UserSettings, UserSettingsSchema } from '@/services/settings/schemas';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+
+/**
+ * Storage for the settings of each user.
+ */
+export interface SettingsStore {
+  /** Returns the settings of a user; empty when they have none. */
+  get(userKey: string): Promise<UserSettings>;
+  /** Merges changes into the settings of a user and returns the result. */
+  update(userKey: string, changes: UserSettings): Promise<UserSettings>;
+}
+
+/**
+ * Schema for the settings file: settings keyed by user.
+ */
+const SettingsFileSchema = z.record(z.string(), UserSettingsSchema);
+
+/**
+ * Returns true when the error is a missing file error.
+ */
+const isNotFound = (error: unknown) =>
+  typeof error === 'object' && error !== null && 'code' in error && error.code === 'ENOENT';
+
+/**
+ * Creates a settings store that keeps the settings of every user in one JSON file. Updates are
+ * applied one at a time and written atomically (to a temporary file, then renamed).
+ *
+ * @param file - The JSON file; created on first write.
+ * @returns A SettingsStore implementation.
+ */
+export const createFileSettingsStore = (file = SETTINGS_FILE): SettingsStore => {
+  // Serializes read-modify-write cycles
+  let queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Reads every user's settings, treating a missing file as empty.
+   */
+  const readSettings = async (): Promise<Record<string, UserSettings>> => {
+    try {
+      return SettingsFileSchema.parse(JSON.parse(await readFile(file, 'utf8')));
+    } catch (error) {
+      if (isNotFound(error)) return {};
+      throw error;
+    }
+  };
+
+  return {
+    get: async userKey => (await readSettings())[userKey] ?? {},
+    update: (userKey, changes) => {
+      const result = queue.then(async () => {
+        const all = await readSettings();
+        const settings = { ...all[userKey], ...changes };
+        await mkdir(path.dirname(file), { recursive: true });
+        const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+        await writeFile(tmp, JSON.stringify({ ...all, [userKey]: settings }));
+        await rename(tmp, file);
+        return settings;
+      });
+      // Keep the queue going after a failed update
+      queue = result.catch(() => undefined);
+      return result;
+    },
+  };
+};
+
+/**
+ * Returns the settings key of a user: their id, or "shared" for the shared workspace.
+ *
+ * @param user - The signed-in user, if any.
+ * @returns The key.
+ */
+export const settingsKeyFor = (user: { id: string } | undefined) => user?.id ?? 'shared';
+
+/**
+ * Shared store, kept on globalThis so every route bundle sees the same update queue.
+ */
+const globalForSettings = globalThis as { settingsStore?: SettingsStore };
+
+/**
+ * The server's settings store.
+ */
+export const settingsStore = (globalForSettings.settingsStore ??= createFileSettingsStore());
@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+/**
+ * Schema for a user's settings.
+ */
+export const UserSettingsSchema = z.object({
+  /** The model selected by default, in `<provider>:<model>` form. */
+  model: z.string().min(1).optional(),
+});
+
+/**
+ * User settings type
+ */
+export type UserSettings = z.infer<typeof UserSettingsSchema>;
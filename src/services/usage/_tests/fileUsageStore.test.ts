@@ -0,0 +1,59 @@
+import { createFileUsageStore } from '@/services/usage/fileUsageStore';
+import { UsageRecord } from '@/services/usage/schemas';
+import { appendFile, mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+
+const record = (timestamp: number, userId?: string): UsageRecord => ({
+  model: 'openai:gpt-4o-mini',
+  inputTokens: 100,
+  outputTokens: 20,
+  totalTokens: 120,
+  latencyMs: 900,
+  estimatedCostUsd: 0.000027,
+  timestamp,
+  ...(userId && { userId }),
+  images: 1,
+});
+
+describe('createFileUsageStore', () => {
+  let directory: string;
+  let file: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'usage-'));
+    file = path.join(directory, 'nested', 'usage.jsonl');
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('lists nothing before the first record', async () => {
+    expect(await createFileUsageStore(file).list()).toEqual([]);
+  });
+
+  it('persists records across store instances, skipping unreadable lines', async () => {
+    await createFileUsageStore(file).append(record(1000, 'oidc:1'));
+    await appendFile(file, '{"model":\n');
+    await createFileUsageStore(file).append(record(2000));
+
+    expect(await createFileUsageStore(file).list()).toEqual([record(1000, 'oidc:1'), record(2000)]);
+  });
+
+  it('filters records by time and user', async () => {
+    const store = createFileUsageStore(file);
+    await store.append(record(1000, 'oidc:1'));
+    await store.append(record(2000, 'oidc:2'));
+    await store.append(record(3000, 'oidc:1'));
+
+    expect(await store.list({ since: 2000 })).toEqual([
+      record(2000, 'oidc:2'),
+      record(3000, 'oidc:1'),
+    ]);
+    expect(await store.list({ userId: 'oidc:1' })).toEqual([
+      record(1000, 'oidc:1'),
+      record(3000, 'oidc:1'),
+    ]);
+  });
+});
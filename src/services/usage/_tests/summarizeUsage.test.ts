@@ -0,0 +1,94 @@
+import { estimateCost } from '@/services/usage/pricing';
+import { formatCost, UsageRecord } from '@/services/usage/schemas';
+import { summarizeUsage } from '@/services/usage/summarizeUsage';
+import { createUsageMeter } from '@/services/usage/usageMeter';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const record = (model: string, day: number, cost?: number): UsageRecord => ({
+  model,
+  inputTokens: 100,
+  outputTokens: 20,
+  totalTokens: 120,
+  latencyMs: 1000 * (day + 1),
+  ...(cost !== undefined && { estimatedCostUsd: cost }),
+  timestamp: day * DAY,
+  images: 2,
+});
+
+describe('summarizeUsage', () => {
+  it('totals records per day, per model and overall', () => {
+    const summary = summarizeUsage([
+      record('ollama:llava', 0),
+      record('openai:gpt-4o', 0, 0.5),
+      record('openai:gpt-4o', 1, 0.25),
+    ]);
+
+    expect(summary.days.map(({ day, requests }) => [day, requests])).toEqual([
+      ['1970-01-02', 1],
+      ['1970-01-01', 2],
+    ]);
+    expect(summary.models.map(({ model, estimatedCostUsd }) => [model, estimatedCostUsd])).toEqual([
+      ['openai:gpt-4o', 0.75],
+      ['ollama:llava', 0],
+    ]);
+    expect(summary.totals).toEqual({
+      requests: 3,
+      images: 6,
+      inputTokens: 300,
+      outputTokens: 60,
+      totalTokens: 360,
+      estimatedCostUsd: 0.75,
+      averageLatencyMs: 1333,
+    });
+  });
+
+  it('reports zero totals without records', () => {
+    expect(summarizeUsage([])).toEqual({
+      days: [],
+      models: [],
+      totals: expect.objectContaining({ requests: 0, averageLatencyMs: 0 }),
+    });
+  });
+});
+
+describe('estimateCost', () => {
+  it('prices input and output tokens per million', () => {
+    const prices = { 'openai:gpt-4o': { input: 2.5, output: 10 } };
+
+    expect(
+      estimateCost('openai:gpt-4o', { inputTokens: 1_000_000, outputTokens: 100_000 }, prices)
+    ).toBeCloseTo(3.5);
+    expect(
+      estimateCost('ollama:llava', { inputTokens: 1000, outputTokens: 100 }, prices)
+    ).toBeUndefined();
+  });
+});
+
+describe('createUsageMeter', () => {
+  it('adds up the usage of every call with the latency since it started', () => {
+    let now = 1000;
+    const meter = createUsageMeter('mock:vision', () => now);
+    meter.add({ inputTokens: 10, outputTokens: 5, totalTokens: 15 });
+    meter.add({ inputTokens: 3, outputTokens: undefined, totalTokens: undefined });
+    meter.add(undefined);
+    now = 1750;
+
+    expect(meter.read()).toEqual({
+      model: 'mock:vision',
+      inputTokens: 13,
+      outputTokens: 5,
+      totalTokens: 18,
+      latencyMs: 750,
+      estimatedCostUsd: 0,
+    });
+  });
+});
+
+describe('formatCost', () => {
+  it('shows small costs with two significant digits', () => {
+    expect(formatCost(0.000123)).toBe('$0.00012');
+    expect(formatCost(0)).toBe('$0');
+    expect(formatCost(1.234)).toBe('$1.23');
+  });
+});
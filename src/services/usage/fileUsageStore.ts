@@ -0,0 +1,74 @@
+import { USAGE_FILE } from '@/services/config/config';
+import { UsageRecord, UsageRecordSchema } from '@/services/usage/schemas';
+import { UsageStore } from '@/services/usage/usageStore';
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import path from 'path';
+
+/**
+ * Returns true when the error is a missing file error.
+ */
+const isNotFound = (error: unknown) =>
+  typeof error === 'object' && error !== null && 'code' in error && error.code === 'ENOENT';
+
+/**
+ * Creates a usage store that appends one JSON line per record to a file. Lines that cannot be
+ * parsed (e.g. a line cut short by a crash) are skipped when reading.
+ *
+ * @param file - The JSON Lines file; created on first append.
+ * @returns A UsageStore implementation.
+ */
+export const createFileUsageStore = (file = USAGE_FILE): UsageStore => ({
+  append: async record => {
+    await mkdir(path.dirname(file), { recursive: true });
+    await appendFile(file, `${JSON.stringify(record)}\n`);
+  },
+  list: async ({ since, userId } = {}) => {
+    let content: string;
+    try {
+      content = await readFile(file, 'utf8');
+    } catch (error) {
+      if (isNotFound(error)) return [];
+      throw error;
+    }
+    return content.split('\n').flatMap((line): UsageRecord[] => {
+      if (!line.trim()) return [];
+      try {
+        const record = UsageRecordSchema.parse(JSON.parse(line));
+        if (since !== undefined && record.timestamp < since) return [];
+        if (userId !== undefined && record.userId !== userId) return [];
+        return [record];
+      } catch {
+        return [];
+      }
+    });
+  },
+});
+
+/**
+ * The usage store used by the API routes and server actions.
+ */
+export const usageStore = createFileUsageStore();
+
+/**
+ * Records the usage of an analysis request. Failures are logged rather than failing the request.
+ *
+ * @param usage - The usage reported with the analysis.
+ * @param details - The user who made the request, the number of images analyzed and the
+ * prompt preset.
+ */
+export const recordUsage = async (
+  usage: Omit<UsageRecord, 'timestamp' | 'userId' | 'images' | 'preset'>,
+  { userId, images, preset }: Pick<UsageRecord, 'userId' | 'images' | 'preset'>
+) => {
+  try {
+    await usageStore.append({
+      ...usage,
+      timestamp: Date.now(),
+      ...(userId && { userId }),
+      images,
+      ...(preset && { preset }),
+    });
+  } catch (error) {
+    console.error('Failed to record usage', error);
+  }
+};
@@ -0,0 +1,33 @@
+import { SessionUser } from '@/services/auth/schemas';
+import { usageStore } from '@/services/usage/fileUsageStore';
+import { summarizeUsage } from '@/services/usage/summarizeUsage';
+import { UsageStore } from '@/services/usage/usageStore';
+
+/**
+ * Number of days the usage dashboard covers by default.
+ */
+export const DEFAULT_USAGE_DAYS = 30;
+
+/**
+ * Totals the recorded usage of the last days. Admins, and everyone when authentication is
+ * disabled, see the usage of every user; other users see only their own.
+ *
+ * @param user - The signed-in user, if any.
+ * @param days - Number of days to cover, counting today.
+ * @param store - The usage store; defaults to the shared file store.
+ * @returns The usage summary.
+ */
+export const loadUsageSummary = async (
+  user: SessionUser | undefined,
+  days = DEFAULT_USAGE_DAYS,
+  store: UsageStore = usageStore
+) => {
+  const since = new Date();
+  since.setUTCHours(0, 0, 0, 0);
+  since.setUTCDate(since.getUTCDate() - (days - 1));
+  const records = await store.list({
+    since: since.getTime(),
+    userId: user && user.role !== 'admin' ? user.id : undefined,
+  });
+  return summarizeUsage(records);
+};
@@ -0,0 +1,67 @@
+import { MODEL_PRICES } from '@/services/config/config';
+import { z } from 'zod';
+
+/**
+ * Schema for the price of a model in US dollars per million tokens.
+ */
+export const ModelPriceSchema = z.object({
+  /** Price of a million input tokens. */
+  input: z.number().nonnegative(),
+  /** Price of a million output tokens. */
+  output: z.number().nonnegative(),
+});
+
+/**
+ * Model price type
+ */
+export type ModelPrice = z.infer<typeof ModelPriceSchema>;
+
+/**
+ * List prices of the hosted models. Local models have no known price unless configured.
+ */
+const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'openai:gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'openai:gpt-4o': { input: 2.5, output: 10 },
+  'openai:gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'anthropic:claude-3-5-haiku-latest': { input: 0.8, output: 4 },
+  'anthropic:claude-sonnet-4-0': { input: 3, output: 15 },
+  'google:gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'google:gemini-2.5-pro': { input: 1.25, output: 10 },
+  'mock:vision': { input: 0, output: 0 },
+};
+
+/**
+ * Reads the price overrides from MODEL_PRICES, ignoring (and reporting) malformed JSON.
+ */
+const readConfiguredPrices = (value: string | undefined): Record<string, ModelPrice> => {
+  if (!value) return {};
+  try {
+    return z.record(z.string(), ModelPriceSchema).parse(JSON.parse(value));
+  } catch (error) {
+    console.warn('Ignoring invalid MODEL_PRICES.', error);
+    return {};
+  }
+};
+
+/**
+ * Prices per model: the list prices, overridden and extended by MODEL_PRICES.
+ */
+const modelPrices = { ...DEFAULT_MODEL_PRICES, ...readConfiguredPrices(MODEL_PRICES) };
+
+/**
+ * Estimates the cost of model usage from the model's price.
+ *
+ * @param model - The model id, in `<provider>:<model>` form.
+ * @param usage - Input and output tokens.
+ * @param prices - Prices per model; defaults to the configured prices.
+ * @returns The estimated cost in US dollars, or undefined when the model's price is unknown.
+ */
+export const estimateCost = (
+  model: string,
+  { inputTokens, outputTokens }: { inputTokens: number; outputTokens: number },
+  prices: Record<string, ModelPrice> = modelPrices
+) => {
+  const price = prices[model];
+  if (!price) return undefined;
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+};
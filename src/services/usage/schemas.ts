@@ -0,0 +1,95 @@
+import { PromptPresetRefSchema } from '@/services/prompts/schemas';
+import { z } from 'zod';
+
+/**
+ * Schema for the model usage of one analysis, reported with its response.
+ */
+export const AnalysisUsageSchema = z.object({
+  /** The model that answered, in `<provider>:<model>` form. */
+  model: z.string(),
+  /** Input (prompt) tokens over every model call of the analysis, retries included. */
+  inputTokens: z.number(),
+  /** Output (completion) tokens over every model call of the analysis. */
+  outputTokens: z.number(),
+  /** Total tokens over every model call of the analysis. */
+  totalTokens: z.number(),
+  /** Time from the first model call to the final answer, in milliseconds. */
+  latencyMs: z.number(),
+  /** Estimated cost in US dollars; absent when the model's price is unknown. */
+  estimatedCostUsd: z.number().optional(),
+});
+
+/**
+ * Analysis usage type
+ */
+export type AnalysisUsage = z.infer<typeof AnalysisUsageSchema>;
+
+/**
+ * Schema for the persisted usage of one analysis request.
+ */
+export const UsageRecordSchema = AnalysisUsageSchema.extend({
+  /** When the analysis finished (ms since epoch). */
+  timestamp: z.number(),
+  /** Id of the signed-in user; absent in the shared workspace. */
+  userId: z.string().optional(),
+  /** Number of images sent to the model. */
+  images: z.number(),
+  /** The prompt preset of the analysis, for reproducing it. */
+  preset: PromptPresetRefSchema.optional(),
+});
+
+/**
+ * Usage record type
+ */
+export type UsageRecord = z.infer<typeof UsageRecordSchema>;
+
+/**
+ * Schema for usage totals over a set of records.
+ */
+export const UsageTotalsSchema = z.object({
+  /** Number of analysis requests. */
+  requests: z.number(),
+  /** Images sent to the model. */
+  images: z.number(),
+  /** Input tokens. */
+  inputTokens: z.number(),
+  /** Output tokens. */
+  outputTokens: z.number(),
+  /** Total tokens. */
+  totalTokens: z.number(),
+  /** Estimated cost in US dollars of the requests with a known price. */
+  estimatedCostUsd: z.number(),
+  /** Mean latency in milliseconds. */
+  averageLatencyMs: z.number(),
+});
+
+/**
+ * Usage totals type
+ */
+export type UsageTotals = z.infer<typeof UsageTotalsSchema>;
+
+/**
+ * Schema for usage totals per UTC day and per model.
+ */
+export const UsageSummarySchema = z.object({
+  /** Totals per UTC day (YYYY-MM-DD), most recent first. */
+  days: z.array(UsageTotalsSchema.extend({ day: z.string() })),
+  /** Totals per model, most expensive first. */
+  models: z.array(UsageTotalsSchema.extend({ model: z.string() })),
+  /** Totals over every record. */
+  totals: UsageTotalsSchema,
+});
+
+/**
+ * Usage summary type
+ */
+export type UsageSummary = z.infer<typeof UsageSummarySchema>;
+
+/**
+ * Formats an estimated cost for display, e.g. "$0.0012" or "$1.23".
+ *
+ * @param usd - The cost in US dollars.
+ * @returns The formatted cost.
+ */
+export const formatCost = (usd: number) =>
+  `$${usd >= 1 ? usd.toFixed(2) : usd.toPrecision(2).replace(/0+$/, '').replace(/\.$/, '')}`;
@@ -0,0 +1,45 @@
+import { UsageRecord, UsageSummary, UsageTotals } from '@/services/usage/schemas';
+
+/**
+ * Adds up a set of usage records.
+ */
+const totalsOf = (records: UsageRecord[]): UsageTotals => ({
+  requests: records.length,
+  images: records.reduce((sum, r) => sum + r.images, 0),
+  inputTokens: records.reduce((sum, r) => sum + r.inputTokens, 0),
+  outputTokens: records.reduce((sum, r) => sum + r.outputTokens, 0),
+  totalTokens: records.reduce((sum, r) => sum + r.totalTokens, 0),
+  estimatedCostUsd: records.reduce((sum, r) => sum + (r.estimatedCostUsd ?? 0), 0),
+  averageLatencyMs: records.length
+    ? Math.round(records.reduce((sum, r) => sum + r.latencyMs, 0) / records.length)
+    : 0,
+});
+
+/**
+ * Groups records by a key, keeping the order in which keys first appear.
+ */
+const groupBy = (records: UsageRecord[], key: (record: UsageRecord) => string) => {
+  const groups = new Map<string, UsageRecord[]>();
+  for (const record of records) {
+    const k = key(record);
+    groups.set(k, [...(groups.get(k) ?? []), record]);
+  }
+  return [...groups];
+};
+
+/**
+ * Totals usage records per UTC day and per model.
+ *
+ * @param records - The usage records.
+ * @returns Totals per day (most recent first), per model (most expensive first, then most
+ * tokens) and overall.
+ */
+export const summarizeUsage = (records: UsageRecord[]): UsageSummary => ({
+  days: groupBy(records, r => new Date(r.timestamp).toISOString().slice(0, 10))
+    .map(([day, group]) => ({ day, ...totalsOf(group) }))
+    .sort((a, b) => b.day.localeCompare(a.day)),
+  models: groupBy(records, r => r.model)
+    .map(([model, group]) => ({ model, ...totalsOf(group) }))
+    .sort((a, b) => b.estimatedCostUsd - a.estimatedCostUsd || b.totalTokens - a.totalTokens),
+  totals: totalsOf(records),
+});
@@ -0,0 +1,45 @@
+import { estimateCost } from '@/services/usage/pricing';
+import { AnalysisUsage } from '@/services/usage/schemas';
+import { LanguageModelUsage } from 'ai';
+
+/**
+ * Adds up the token usage of the model calls of one analysis.
+ */
+export interface UsageMeter {
+  /** Adds the usage reported by a model call; missing counts are treated as 0. */
+  add(usage: LanguageModelUsage | undefined): void;
+  /** Returns the usage so far, with the latency since the meter started and the estimated cost. */
+  read(): AnalysisUsage;
+}
+
+/**
+ * Starts metering the model usage of an analysis.
+ *
+ * @param model - The model id, in `<provider>:<model>` form.
+ * @param now - Returns the current time; defaults to Date.now.
+ * @returns A UsageMeter.
+ */
+export const createUsageMeter = (model: string, now = Date.now): UsageMeter => {
+  const startedAt = now();
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let totalTokens = 0;
+  return {
+    add: usage => {
+      inputTokens += usage?.inputTokens ?? 0;
+      outputTokens += usage?.outputTokens ?? 0;
+      totalTokens += usage?.totalTokens ?? (usage?.inputTokens ?? 0) + (usage?.outputTokens ?? 0);
+    },
+    read: () => {
+      const estimatedCostUsd = estimateCost(model, { inputTokens, outputTokens });
+      return {
+        model,
+        inputTokens,
+        outputTokens,
+        totalTokens,
+        latencyMs: now() - startedAt,
+        ...(estimatedCostUsd !== undefined && { estimatedCostUsd }),
+      };
+    },
+  };
+};
@@ -0,0 +1,21 @@
+import { UsageRecord } from '@/services/usage/schemas';
+
+/**
+ * Filters applied when listing usage records.
+ */
+export interface UsageQuery {
+  /** Only records at or after this timestamp. */
+  since?: number;
+  /** Only records of this user. */
+  userId?: string;
+}
+
+/**
+ * Storage for the usage records of analysis requests.
+ */
+export interface UsageStore {
+  /** Appends a record. */
+  append(record: UsageRecord): Promise<void>;
+  /** Returns the records matching a query, oldest first. */
+  list(query?: UsageQuery): Promise<UsageRecord[]>;
+}